@@ -2,6 +2,13 @@
 class ApiClient {
     constructor(baseUrl = '/api') {
         this.baseUrl = baseUrl;
+        this.accountId = 'default';
+        this.onUnauthorized = null; // Called when the session is missing or has ended
+    }
+
+    // Status, configuration, monitor, logs and pending replies belong to the selected account
+    accountPath(endpoint) {
+        return `/accounts/${encodeURIComponent(this.accountId)}${endpoint}`;
     }
 
     async request(endpoint, options = {}) {
@@ -19,7 +26,12 @@ class ApiClient {
             const data = await response.json();
 
             if (!response.ok) {
-                throw new Error(data.error || 'Request failed');
+                if (response.status === 401 && endpoint !== '/auth/login' && this.onUnauthorized) {
+                    this.onUnauthorized();
+                }
+                const error = new Error(data.error || 'Request failed');
+                error.status = response.status;
+                throw error;
             }
 
             return data;
@@ -29,33 +41,120 @@ class ApiClient {
         }
     }
 
+    async login(username, password) {
+        return this.request('/auth/login', {
+            method: 'POST',
+            body: JSON.stringify({ username, password })
+        });
+    }
+
+    async logout() {
+        return this.request('/auth/logout', {
+            method: 'POST'
+        });
+    }
+
+    async getCurrentUser() {
+        return this.request('/auth/me');
+    }
+
     async getStatus() {
-        return this.request('/status');
+        return this.request(this.accountPath('/status'));
+    }
+
+    async getAccounts() {
+        return this.request('/accounts');
+    }
+
+    async createAccount(name) {
+        return this.request('/accounts', {
+            method: 'POST',
+            body: JSON.stringify({ name })
+        });
     }
 
     async getConfig() {
-        return this.request('/config');
+        return this.request(this.accountPath('/config'));
     }
 
     async updateConfig(config) {
-        return this.request('/config', {
+        return this.request(this.accountPath('/config'), {
             method: 'PUT',
             body: JSON.stringify(config)
         });
     }
 
+    async controlMonitor(action) {
+        return this.request(this.accountPath(`/monitor/${action}`), {
+            method: 'POST'
+        });
+    }
+
+    async getAssets() {
+        return this.request('/assets');
+    }
+
+    async uploadAsset(file) {
+        return this.request(`/assets?filename=${encodeURIComponent(file.name)}`, {
+            method: 'POST',
+            headers: { 'Content-Type': file.type || 'application/octet-stream' },
+            body: file
+        });
+    }
+
+    async deleteAsset(assetId) {
+        return this.request(`/assets/${assetId}`, {
+            method: 'DELETE'
+        });
+    }
+
+    async getTemplates() {
+        return this.request('/templates');
+    }
+
+    async saveTemplate(template) {
+        const { id, ...fields } = template;
+        return this.request(id ? `/templates/${id}` : '/templates', {
+            method: id ? 'PUT' : 'POST',
+            body: JSON.stringify(fields)
+        });
+    }
+
+    async deleteTemplate(templateId) {
+        return this.request(`/templates/${templateId}`, {
+            method: 'DELETE'
+        });
+    }
+
+    async previewTemplate(body, htmlBody) {
+        return this.request('/templates/preview', {
+            method: 'POST',
+            body: JSON.stringify({ body, htmlBody })
+        });
+    }
+
+    async getConfigHistory(limit = 20) {
+        return this.request(`/config/history?limit=${limit}`);
+    }
+
+    async rollbackConfig(version) {
+        return this.request(`/config/rollback/${version}`, {
+            method: 'POST'
+        });
+    }
+
     async getLogs(limit = 100, offset = 0) {
-        return this.request(`/logs?limit=${limit}&offset=${offset}`);
+        return this.request(this.accountPath(`/logs?limit=${limit}&offset=${offset}`));
     }
 
     async getPendingReplies() {
-        return this.request('/pending-replies');
+        return this.request(this.accountPath('/pending-replies'));
     }
 
     async approveReply(replyId) {
+        // The server records the signed-in user as the approver
         return this.request(`/replies/${replyId}/approve`, {
-            method: 'POST',
-            body: JSON.stringify({ approvedBy: 'user' })
+            method: 'POST'
         });
     }
 
@@ -72,24 +171,100 @@ class Dashboard {
         this.api = new ApiClient();
         this.currentPage = 0;
         this.logsPerPage = 20;
+        this.templates = [];
+        this.assets = [];
+        this.previewTimer = null;
         this.init();
     }
 
     init() {
         this.setupEventListeners();
-        this.loadStatus();
-        this.loadConfig();
-        this.loadPendingReplies();
-        this.loadActivityLogs();
+        this.api.onUnauthorized = () => this.showLogin();
+        this.checkSession();
 
         // Auto-refresh status and pending replies every 10 seconds
         setInterval(() => {
+            if (document.body.classList.contains('signed-out')) return;
             this.loadStatus();
             this.loadPendingReplies();
         }, 10000);
     }
 
+    loadAll() {
+        this.loadAccounts();
+        this.loadStatus();
+        this.loadConfig();
+        this.loadAssets().then(() => this.loadTemplates());
+        this.loadPendingReplies();
+        this.loadActivityLogs();
+        this.loadConfigHistory();
+    }
+
+    async checkSession() {
+        try {
+            this.showUser(await this.api.getCurrentUser());
+        } catch (error) {
+            // Without sign-in enabled on the server there is no /auth/me
+            if (error.status === 401) return;
+        }
+        this.loadAll();
+    }
+
+    showLogin() {
+        document.body.classList.add('signed-out');
+        document.getElementById('user-bar').style.display = 'none';
+        document.getElementById('login-password').value = '';
+    }
+
+    showUser(user) {
+        document.body.classList.remove('signed-out');
+        document.getElementById('signed-in-user').textContent = `Signed in as ${user.username} (${user.role})`;
+        document.getElementById('user-bar').style.display = '';
+    }
+
+    async login() {
+        const username = document.getElementById('login-username').value.trim();
+        const password = document.getElementById('login-password').value;
+
+        try {
+            const session = await this.api.login(username, password);
+            document.getElementById('login-password').value = '';
+            this.showUser(session.user);
+            this.loadAll();
+        } catch (error) {
+            this.showMessage('login-message', error.message, 'error');
+        }
+    }
+
+    async logout() {
+        try {
+            await this.api.logout();
+        } catch (error) {
+            console.error('Failed to sign out:', error);
+        }
+        this.showLogin();
+    }
+
     setupEventListeners() {
+        // Sign-in
+        document.getElementById('login-form').addEventListener('submit', (e) => {
+            e.preventDefault();
+            this.login();
+        });
+
+        document.getElementById('logout').addEventListener('click', () => {
+            this.logout();
+        });
+
+        // Account switcher
+        document.getElementById('account-select').addEventListener('change', (e) => {
+            this.switchAccount(e.target.value);
+        });
+
+        document.getElementById('add-account').addEventListener('click', () => {
+            this.addAccount();
+        });
+
         // Config form
         document.getElementById('config-form').addEventListener('submit', (e) => {
             e.preventDefault();
@@ -100,7 +275,45 @@ class Dashboard {
             this.loadConfig();
         });
 
+        document.getElementById('auth-method').addEventListener('change', () => {
+            this.toggleOAuth2Settings();
+        });
+
+        // Asset upload
+        document.getElementById('asset-form').addEventListener('submit', (e) => {
+            e.preventDefault();
+            this.uploadAsset();
+        });
+
+        // Template editor
+        document.getElementById('template-form').addEventListener('submit', (e) => {
+            e.preventDefault();
+            this.saveTemplate();
+        });
+
+        document.getElementById('template-reset').addEventListener('click', () => {
+            this.editTemplate(null);
+        });
+
+        ['template-body', 'template-html-body'].forEach(id => {
+            document.getElementById(id).addEventListener('input', () => {
+                clearTimeout(this.previewTimer);
+                this.previewTimer = setTimeout(() => this.updateTemplatePreview(), 300);
+            });
+        });
+
+        // Monitor controls
+        ['start', 'stop', 'pause', 'resume', 'check-now'].forEach(action => {
+            document.getElementById(`monitor-${action}`).addEventListener('click', () => {
+                this.controlMonitor(action);
+            });
+        });
+
         // Activity log pagination
+        document.getElementById('refresh-history').addEventListener('click', () => {
+            this.loadConfigHistory();
+        });
+
         document.getElementById('refresh-logs').addEventListener('click', () => {
             this.currentPage = 0;
             this.loadActivityLogs();
@@ -119,13 +332,81 @@ class Dashboard {
         });
     }
 
+    async loadAccounts() {
+        try {
+            const accounts = await this.api.getAccounts();
+            const select = document.getElementById('account-select');
+            select.innerHTML = accounts.map(account => `
+                <option value="${this.escapeHtml(account.id)}">${this.escapeHtml(account.name)}</option>
+            `).join('');
+            select.value = this.api.accountId;
+        } catch (error) {
+            console.error('Failed to load accounts:', error);
+        }
+    }
+
+    switchAccount(accountId) {
+        this.api.accountId = accountId;
+        this.currentPage = 0;
+        this.loadStatus();
+        this.loadConfig();
+        this.loadPendingReplies();
+        this.loadActivityLogs();
+        this.loadConfigHistory();
+    }
+
+    async addAccount() {
+        const input = document.getElementById('new-account-name');
+        const name = input.value.trim();
+        if (!name) {
+            this.showMessage('account-message', 'Enter a name for the new account', 'error');
+            return;
+        }
+
+        try {
+            const { account } = await this.api.createAccount(name);
+            input.value = '';
+            this.api.accountId = account.id;
+            await this.loadAccounts();
+            this.switchAccount(account.id);
+            this.showMessage('account-message', `Account "${name}" added; enter its email settings below`, 'success');
+            setTimeout(() => this.hideMessage('account-message'), 3000);
+        } catch (error) {
+            console.error('Failed to add account:', error);
+            this.showMessage('account-message', 'Failed to add account: ' + error.message, 'error');
+        }
+    }
+
     async loadStatus() {
         try {
             const status = await this.api.getStatus();
+            const monitor = status.monitor;
+            const stateLabels = {
+                idle: 'Stopped',
+                running: 'Running',
+                paused: 'Paused',
+                backing_off: 'Retrying',
+                failed: 'Failing'
+            };
             
             const monitoringEl = document.getElementById('monitoring-status');
-            monitoringEl.textContent = status.monitoring ? 'Active' : 'Inactive';
-            monitoringEl.className = `status-value ${status.monitoring ? 'active' : 'inactive'}`;
+            if (!monitor.configured) {
+                monitoringEl.textContent = 'Not configured';
+                monitoringEl.className = 'status-value inactive';
+            } else {
+                monitoringEl.textContent = stateLabels[monitor.state] || monitor.state;
+                const stateClass = monitor.state === 'running' ? 'active'
+                    : ['paused', 'backing_off'].includes(monitor.state) ? monitor.state : 'inactive';
+                monitoringEl.className = `status-value ${stateClass}`;
+            }
+
+            document.getElementById('monitor-last-poll').textContent = this.formatOptionalTimestamp(monitor.lastPollAt);
+            document.getElementById('monitor-last-success').textContent = this.formatOptionalTimestamp(monitor.lastSuccessAt);
+            document.getElementById('monitor-mode').textContent = monitor.mode === 'push' ? 'Push (IDLE)' : 'Polling';
+            document.getElementById('monitor-next-check').textContent = this.formatOptionalTimestamp(monitor.nextCheckAt);
+            document.getElementById('monitor-failures').textContent = monitor.consecutiveFailures;
+            document.getElementById('monitor-error').textContent = monitor.lastError ? `Last error: ${monitor.lastError}` : '';
+            this.updateMonitorControls(monitor);
 
             const modeEl = document.getElementById('confirmation-mode');
             modeEl.textContent = status.manualConfirmationEnabled ? 'Manual' : 'Automatic';
@@ -137,6 +418,37 @@ class Dashboard {
         }
     }
 
+    updateMonitorControls(monitor) {
+        const active = ['running', 'backing_off', 'failed'].includes(monitor.state);
+        const enabled = {
+            start: monitor.configured && monitor.state === 'idle',
+            stop: monitor.configured && monitor.state !== 'idle',
+            pause: monitor.configured && active,
+            resume: monitor.configured && ['paused', 'failed'].includes(monitor.state),
+            'check-now': monitor.configured && monitor.state !== 'idle'
+        };
+
+        Object.entries(enabled).forEach(([action, isEnabled]) => {
+            document.getElementById(`monitor-${action}`).disabled = !isEnabled;
+        });
+    }
+
+    async controlMonitor(action) {
+        try {
+            const result = await this.api.controlMonitor(action);
+            this.showMessage('monitor-message', result.message, 'success');
+            setTimeout(() => this.hideMessage('monitor-message'), 3000);
+            await this.loadStatus();
+            if (action === 'check-now') {
+                await this.loadPendingReplies();
+                await this.loadActivityLogs();
+            }
+        } catch (error) {
+            console.error(`Failed to ${action} monitor:`, error);
+            this.showMessage('monitor-message', `Failed to ${action.replace('-', ' ')} monitor: ` + error.message, 'error');
+        }
+    }
+
     async loadConfig() {
         try {
             const config = await this.api.getConfig();
@@ -148,6 +460,13 @@ class Dashboard {
             document.getElementById('smtp-port').value = config.email.smtpPort || '';
             document.getElementById('username').value = config.email.username || '';
             document.getElementById('password').value = ''; // Never populate password
+            const oauth2 = config.email.oauth2 || {};
+            document.getElementById('auth-method').value = config.email.authMethod || 'password';
+            document.getElementById('oauth2-client-id').value = oauth2.clientId || '';
+            document.getElementById('oauth2-client-secret').value = '';
+            document.getElementById('oauth2-refresh-token').value = '';
+            document.getElementById('oauth2-token-url').value = oauth2.tokenUrl || '';
+            this.toggleOAuth2Settings();
 
             // Filter settings
             document.getElementById('keywords-enabled').checked = config.filters.keywordsEnabled || false;
@@ -157,7 +476,25 @@ class Dashboard {
             // Auto-reply settings
             document.getElementById('manual-confirmation').checked = config.autoReply.manualConfirmation || false;
             document.getElementById('reply-template').value = config.autoReply.replyTemplate || '';
+            document.getElementById('reply-html-template').value = config.autoReply.replyHtmlTemplate || '';
             document.getElementById('check-interval').value = config.autoReply.checkInterval || 10;
+            // Per-folder rules and templates are kept when the list is saved
+            this.mailboxes = config.autoReply.mailboxes || [];
+            document.getElementById('mailboxes').value = this.mailboxes.map(m => m.name).join(', ');
+            document.getElementById('push-mode').checked = config.autoReply.pushMode || false;
+            document.getElementById('leave-unread').checked = config.autoReply.leaveUnread || false;
+            document.getElementById('sender-cooldown').value = config.autoReply.senderCooldownHours ?? 24;
+            document.getElementById('time-zone').value = config.autoReply.timeZone || '';
+            document.getElementById('reply-within-hours').value = config.autoReply.replyWithinHours ?? 24;
+
+            const businessHours = config.autoReply.businessHours || {
+                start: '09:00',
+                end: '17:00',
+                days: ['mon', 'tue', 'wed', 'thu', 'fri']
+            };
+            document.getElementById('business-start').value = businessHours.start;
+            document.getElementById('business-end').value = businessHours.end;
+            document.getElementById('business-days').value = businessHours.days.join(', ');
 
             this.showMessage('config-message', 'Configuration loaded', 'success');
             setTimeout(() => this.hideMessage('config-message'), 3000);
@@ -167,6 +504,13 @@ class Dashboard {
         }
     }
 
+    // The password and the OAuth2 settings are only shown for the selected sign-in method
+    toggleOAuth2Settings() {
+        const xoauth2 = document.getElementById('auth-method').value === 'xoauth2';
+        document.getElementById('oauth2-settings').style.display = xoauth2 ? '' : 'none';
+        document.getElementById('password').disabled = xoauth2;
+    }
+
     async saveConfig() {
         try {
             const formData = new FormData(document.getElementById('config-form'));
@@ -182,13 +526,20 @@ class Dashboard {
                 .map(d => d.trim())
                 .filter(d => d.length > 0);
 
+            const mailboxes = formData.get('mailboxes')
+                .split(',')
+                .map(name => name.trim())
+                .filter(name => name.length > 0)
+                .map(name => (this.mailboxes || []).find(m => m.name === name) || { name });
+
             const config = {
                 email: {
                     imapHost: formData.get('imapHost'),
                     imapPort: parseInt(formData.get('imapPort')),
                     smtpHost: formData.get('smtpHost'),
                     smtpPort: parseInt(formData.get('smtpPort')),
-                    username: formData.get('username')
+                    username: formData.get('username'),
+                    authMethod: formData.get('authMethod')
                 },
                 filters: {
                     keywordsEnabled: formData.get('keywordsEnabled') === 'on',
@@ -198,7 +549,22 @@ class Dashboard {
                 autoReply: {
                     manualConfirmation: formData.get('manualConfirmation') === 'on',
                     replyTemplate: formData.get('replyTemplate'),
-                    checkInterval: parseInt(formData.get('checkInterval'))
+                    replyHtmlTemplate: formData.get('replyHtmlTemplate'),
+                    checkInterval: parseInt(formData.get('checkInterval')),
+                    mailboxes,
+                    pushMode: formData.get('pushMode') === 'on',
+                    leaveUnread: formData.get('leaveUnread') === 'on',
+                    senderCooldownHours: parseInt(formData.get('senderCooldownHours')),
+                    timeZone: formData.get('timeZone').trim(),
+                    replyWithinHours: parseFloat(formData.get('replyWithinHours')),
+                    businessHours: {
+                        start: formData.get('businessStart'),
+                        end: formData.get('businessEnd'),
+                        days: formData.get('businessDays')
+                            .split(',')
+                            .map(d => d.trim().toLowerCase())
+                            .filter(d => d.length > 0)
+                    }
                 }
             };
 
@@ -208,8 +574,23 @@ class Dashboard {
                 config.email.password = password;
             }
 
-            await this.api.updateConfig(config);
-            this.showMessage('config-message', 'Configuration saved successfully!', 'success');
+            // Stored OAuth2 secrets are kept unless new ones are entered
+            if (config.email.authMethod === 'xoauth2') {
+                config.email.oauth2 = {
+                    clientId: formData.get('oauth2ClientId').trim(),
+                    tokenUrl: formData.get('oauth2TokenUrl').trim()
+                };
+                ['clientSecret', 'refreshToken'].forEach(field => {
+                    const value = formData.get(`oauth2${field[0].toUpperCase()}${field.slice(1)}`).trim();
+                    if (value !== '') {
+                        config.email.oauth2[field] = value;
+                    }
+                });
+            }
+
+            const result = await this.api.updateConfig(config);
+            this.showMessage('config-message', this.describeReload(result.reload), 'success');
+            this.loadConfigHistory();
             
             // Reload status to reflect changes
             setTimeout(() => {
@@ -222,6 +603,297 @@ class Dashboard {
         }
     }
 
+    // History is kept for the default account's configuration
+    async loadConfigHistory() {
+        const section = document.getElementById('config-history-section');
+        section.style.display = this.api.accountId === 'default' ? '' : 'none';
+        if (this.api.accountId !== 'default') return;
+
+        try {
+            const data = await this.api.getConfigHistory();
+            const container = document.getElementById('config-history-list');
+
+            if (data.versions.length === 0) {
+                container.innerHTML = '<p class="empty-state">No configuration changes yet</p>';
+                return;
+            }
+
+            const latest = data.versions[0].version;
+            container.innerHTML = data.versions.map(version => `
+                <div class="log-item">
+                    <div class="log-header">
+                        <span class="log-type">Version ${version.version}${version.rollbackOf ? ` (rollback to ${version.rollbackOf})` : ''}</span>
+                        <span class="log-timestamp">${this.formatTimestamp(version.createdAt)} by ${this.escapeHtml(version.author || 'unknown')}</span>
+                    </div>
+                    ${version.changes.length > 0 ? `
+                        <ul class="history-changes">
+                            ${version.changes.map(change => `
+                                <li>${this.escapeHtml(change.field)}: ${this.formatChange(change)}</li>
+                            `).join('')}
+                        </ul>
+                    ` : '<div class="log-details">Settings before changes were recorded</div>'}
+                    ${version.version !== latest ? `
+                        <button class="btn btn-small btn-secondary" onclick="dashboard.rollbackConfig(${version.version})">Roll Back to This Version</button>
+                    ` : ''}
+                </div>
+            `).join('');
+        } catch (error) {
+            console.error('Failed to load configuration history:', error);
+        }
+    }
+
+    formatChange(change) {
+        const format = (value) => value === undefined ? '<em>unset</em>' : `<code>${this.escapeHtml(JSON.stringify(value))}</code>`;
+        return `${format(change.from)} → ${format(change.to)}`;
+    }
+
+    async rollbackConfig(version) {
+        if (!confirm(`Restore the settings of version ${version}?`)) {
+            return;
+        }
+
+        try {
+            const result = await this.api.rollbackConfig(version);
+            this.showMessage('history-message', result.message, 'success');
+            this.loadConfig();
+            this.loadStatus();
+            this.loadConfigHistory();
+        } catch (error) {
+            this.showMessage('history-message', 'Failed to roll back: ' + error.message, 'error');
+        }
+    }
+
+    describeReload(reload) {
+        if (!reload) {
+            return 'Configuration saved successfully!';
+        }
+
+        const applied = reload.changes.length > 0 ? reload.changes.join(', ') : 'no changes';
+        const monitorStates = {
+            started: 'Email monitoring started.',
+            stopped: 'Email monitoring stopped (credentials incomplete).',
+            reconfigured: 'Email monitor reconfigured.',
+            not_configured: 'Email monitoring not started: IMAP credentials are incomplete.',
+            unchanged: ''
+        };
+
+        return `Configuration saved and applied (${applied}). ${monitorStates[reload.monitor] || ''}`.trim();
+    }
+
+    async loadAssets() {
+        try {
+            const data = await this.api.getAssets();
+            this.assets = data.assets;
+            this.renderAssets();
+        } catch (error) {
+            console.error('Failed to load assets:', error);
+        }
+    }
+
+    renderAssets() {
+        const container = document.getElementById('assets-list');
+
+        if (this.assets.length === 0) {
+            container.innerHTML = '<p class="empty-state">No files uploaded</p>';
+        } else {
+            container.innerHTML = this.assets.map(asset => `
+                <div class="template-item">
+                    <div>
+                        <div class="template-name">
+                            <a href="/api/assets/${asset.id}/content">${this.escapeHtml(asset.filename)}</a>
+                        </div>
+                        <div class="template-meta">
+                            ${this.escapeHtml(asset.contentType)}, ${this.formatSize(asset.size)}${asset.contentType.startsWith('image/') ? `, embed with cid:${asset.id}` : ''}
+                        </div>
+                    </div>
+                    <div class="reply-actions">
+                        <button class="btn btn-danger btn-small" onclick="dashboard.deleteAsset('${asset.id}')">Delete</button>
+                    </div>
+                </div>
+            `).join('');
+        }
+
+        this.renderAssetChoices();
+    }
+
+    renderAssetChoices() {
+        const container = document.getElementById('template-assets');
+        const templateId = document.getElementById('template-id').value;
+        const template = this.templates.find(t => t.id === templateId);
+        const selected = template ? template.assetIds || [] : [];
+
+        if (this.assets.length === 0) {
+            container.innerHTML = '<span class="form-hint">No files uploaded</span>';
+            return;
+        }
+
+        container.innerHTML = this.assets.map(asset => `
+            <label>
+                <input type="checkbox" name="assetIds" value="${asset.id}" ${selected.includes(asset.id) ? 'checked' : ''}>
+                ${this.escapeHtml(asset.filename)}
+            </label>
+        `).join('');
+    }
+
+    async uploadAsset() {
+        const input = document.getElementById('asset-file');
+        const file = input.files[0];
+        if (!file) {
+            return;
+        }
+
+        try {
+            const result = await this.api.uploadAsset(file);
+            this.showMessage('asset-message', result.message, 'success');
+            setTimeout(() => this.hideMessage('asset-message'), 3000);
+            input.value = '';
+            await this.loadAssets();
+        } catch (error) {
+            console.error('Failed to upload asset:', error);
+            this.showMessage('asset-message', 'Failed to upload file: ' + error.message, 'error');
+        }
+    }
+
+    async deleteAsset(assetId) {
+        if (!confirm('Delete this file?')) {
+            return;
+        }
+
+        try {
+            await this.api.deleteAsset(assetId);
+            await this.loadAssets();
+        } catch (error) {
+            console.error('Failed to delete asset:', error);
+            this.showMessage('asset-message', 'Failed to delete file: ' + error.message, 'error');
+        }
+    }
+
+    formatSize(bytes) {
+        if (bytes < 1024) {
+            return `${bytes} B`;
+        }
+        return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+    }
+
+    async loadTemplates() {
+        try {
+            const data = await this.api.getTemplates();
+            this.templates = data.templates;
+            this.renderTemplates();
+        } catch (error) {
+            console.error('Failed to load templates:', error);
+        }
+    }
+
+    renderTemplates() {
+        const container = document.getElementById('templates-list');
+        const selectedId = document.getElementById('template-id').value;
+
+        if (this.templates.length === 0) {
+            container.innerHTML = '<p class="empty-state">No templates yet, the configured reply template is used</p>';
+            return;
+        }
+
+        container.innerHTML = this.templates.map(template => `
+            <div class="template-item ${template.id === selectedId ? 'selected' : ''}">
+                <div>
+                    <div class="template-name">${this.escapeHtml(template.name)}${template.isDefault ? ' (default)' : ''}</div>
+                    <div class="template-meta">
+                        ${template.keywords.length > 0 ? 'Keywords: ' + this.escapeHtml(template.keywords.join(', ')) : 'No keywords'}
+                    </div>
+                </div>
+                <div class="reply-actions">
+                    <button class="btn btn-secondary btn-small" onclick="dashboard.editTemplate('${template.id}')">Edit</button>
+                    <button class="btn btn-danger btn-small" onclick="dashboard.deleteTemplate('${template.id}')">Delete</button>
+                </div>
+            </div>
+        `).join('');
+    }
+
+    editTemplate(templateId) {
+        const template = this.templates.find(t => t.id === templateId);
+
+        document.getElementById('template-id').value = template ? template.id : '';
+        document.getElementById('template-name').value = template ? template.name : '';
+        document.getElementById('template-keywords').value = template ? template.keywords.join(', ') : '';
+        document.getElementById('template-default').checked = template ? template.isDefault : false;
+        document.getElementById('template-body').value = template ? template.body : '';
+        document.getElementById('template-html-body').value = template ? template.htmlBody || '' : '';
+        document.getElementById('template-save').textContent = template ? 'Save Template' : 'Create Template';
+
+        this.renderTemplates();
+        this.renderAssetChoices();
+        this.updateTemplatePreview();
+    }
+
+    async updateTemplatePreview() {
+        const body = document.getElementById('template-body').value;
+        const htmlBody = document.getElementById('template-html-body').value;
+        const previewEl = document.getElementById('template-preview');
+        const htmlPreviewEl = document.getElementById('template-html-preview');
+
+        if (body.trim() === '' && htmlBody.trim() === '') {
+            previewEl.textContent = '';
+            htmlPreviewEl.srcdoc = '';
+            return;
+        }
+
+        try {
+            const result = await this.api.previewTemplate(body, htmlBody);
+            previewEl.textContent = result.preview;
+            // The sandboxed frame runs no scripts from the template
+            htmlPreviewEl.srcdoc = result.htmlPreview || '';
+        } catch (error) {
+            previewEl.textContent = 'Preview unavailable: ' + error.message;
+            htmlPreviewEl.srcdoc = '';
+        }
+    }
+
+    async saveTemplate() {
+        try {
+            const formData = new FormData(document.getElementById('template-form'));
+            const template = {
+                id: formData.get('id'),
+                name: formData.get('name'),
+                body: formData.get('body'),
+                htmlBody: formData.get('htmlBody'),
+                assetIds: formData.getAll('assetIds'),
+                keywords: formData.get('keywords')
+                    .split(',')
+                    .map(k => k.trim())
+                    .filter(k => k.length > 0),
+                isDefault: formData.get('isDefault') === 'on'
+            };
+
+            const result = await this.api.saveTemplate(template);
+            this.showMessage('template-message', result.message, 'success');
+            setTimeout(() => this.hideMessage('template-message'), 3000);
+
+            await this.loadTemplates();
+            this.editTemplate(result.template.id);
+        } catch (error) {
+            console.error('Failed to save template:', error);
+            this.showMessage('template-message', 'Failed to save template: ' + error.message, 'error');
+        }
+    }
+
+    async deleteTemplate(templateId) {
+        if (!confirm('Delete this template?')) {
+            return;
+        }
+
+        try {
+            await this.api.deleteTemplate(templateId);
+            if (document.getElementById('template-id').value === templateId) {
+                this.editTemplate(null);
+            }
+            await this.loadTemplates();
+        } catch (error) {
+            console.error('Failed to delete template:', error);
+            this.showMessage('template-message', 'Failed to delete template: ' + error.message, 'error');
+        }
+    }
+
     async loadPendingReplies() {
         try {
             const data = await this.api.getPendingReplies();
@@ -238,6 +910,10 @@ class Dashboard {
                         <div class="reply-info">
                             <div class="reply-to">To: ${this.escapeHtml(reply.to)}</div>
                             <div class="reply-subject">Subject: ${this.escapeHtml(reply.subject)}</div>
+                            ${reply.originalEmail ? `
+                                <div class="reply-original">
+                                    In reply to "${this.escapeHtml(reply.originalEmail.subject)}" received ${this.formatTimestamp(reply.originalEmail.receivedAt)}
+                                </div>` : ''}
                         </div>
                     </div>
                     <div class="reply-body">${this.escapeHtml(reply.body)}</div>
@@ -302,7 +978,7 @@ class Dashboard {
                             <span class="log-timestamp">${this.formatTimestamp(log.timestamp)}</span>
                         </div>
                         <div class="log-details">${this.escapeHtml(log.details)}</div>
-                        <div class="log-email-id">Email ID: ${this.escapeHtml(log.emailId)}</div>
+                        ${log.emailId ? `<div class="log-email-id">Email ID: ${this.escapeHtml(log.emailId)}</div>` : ''}
                     </div>
                 `).join('');
             }
@@ -325,6 +1001,10 @@ class Dashboard {
         return date.toLocaleString();
     }
 
+    formatOptionalTimestamp(timestamp) {
+        return timestamp ? this.formatTimestamp(timestamp) : '-';
+    }
+
     escapeHtml(text) {
         const div = document.createElement('div');
         div.textContent = text;
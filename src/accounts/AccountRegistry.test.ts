@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AccountRegistry } from './AccountRegistry';
+import { MessageFilter } from '../filter';
+import { TemplateSelector } from '../responder';
+import { Config, Template } from '../models';
+
+const config: Config = {
+  email: { imapHost: '', imapPort: 993, smtpHost: '', smtpPort: 587, username: '', password: '' },
+  filters: { keywordsEnabled: false, keywords: [], excludedDomains: [] },
+  autoReply: { manualConfirmation: false, replyTemplate: 'Thanks', checkInterval: 10 },
+};
+
+function template(id: string, accountId?: string): Template {
+  return {
+    id,
+    name: id,
+    body: `Body of ${id}`,
+    keywords: [],
+    isDefault: true,
+    ...(accountId && { accountId }),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+function createRegistry() {
+  const monitors = new Map<string, any>();
+  const registry = new AccountRegistry(async (accountId) => {
+    const monitor = { start: vi.fn(), stop: vi.fn(), isMonitoring: vi.fn().mockReturnValue(false) };
+    monitors.set(accountId, monitor);
+    return {
+      autoResponder: {} as any,
+      messageFilter: new MessageFilter({ keywordsEnabled: false, keywords: [], excludedDomains: [] }),
+      templateSelector: new TemplateSelector(),
+      imapSessions: { close: vi.fn() } as any,
+      configReloader: { getEmailMonitor: () => monitor, reload: vi.fn().mockResolvedValue({ changes: [] }) } as any,
+    };
+  });
+  return { registry, monitors };
+}
+
+describe('AccountRegistry', () => {
+  it('should give each account its own templates ahead of the shared ones', async () => {
+    const { registry } = createRegistry();
+    registry.updateTemplates([template('shared'), template('sales-default', 'sales'), template('billing-default', 'billing')]);
+
+    const sales = await registry.add('sales', config);
+    const other = await registry.add('default', config);
+
+    expect(sales.templateSelector.getTemplates().map(t => t.id)).toEqual(['sales-default', 'shared']);
+    expect(sales.templateSelector.select({ approved: true, reason: 'test' })!.id).toBe('sales-default');
+    expect(other.templateSelector.select({ approved: true, reason: 'test' })!.id).toBe('shared');
+  });
+
+  it('should start, reload and remove accounts independently', async () => {
+    const { registry, monitors } = createRegistry();
+    await registry.add('default', config);
+    const sales = await registry.add('sales', config);
+    await expect(registry.add('sales', config)).rejects.toThrow('already running');
+
+    expect(await registry.start('sales')).toBe(true);
+    expect(monitors.get('sales').start).toHaveBeenCalled();
+    expect(monitors.get('default').start).not.toHaveBeenCalled();
+
+    await registry.update('sales', { ...config, filters: { ...config.filters, keywords: ['offer'] } });
+    expect(sales.configReloader.reload).toHaveBeenCalled();
+
+    await registry.remove('sales');
+    expect(monitors.get('sales').stop).toHaveBeenCalled();
+    expect(sales.imapSessions.close).toHaveBeenCalled();
+    expect(registry.getAccountIds()).toEqual(['default']);
+    await expect(registry.update('sales', config)).rejects.toThrow('not running');
+  });
+});
@@ -0,0 +1,143 @@
+import { Config, Rule, Template, appliesToAccount } from '../models';
+import { MessageFilter } from '../filter';
+import { AutoResponderImpl, TemplateSelector } from '../responder';
+import { EmailMonitorImpl } from '../monitor';
+import { ImapSessionManager } from '../imap';
+import { ConfigReloader, ConfigReloadResult } from '../config';
+
+/**
+ * The components handling one account's mail
+ */
+export interface AccountServices {
+  autoResponder: AutoResponderImpl;
+  messageFilter: MessageFilter;
+  templateSelector: TemplateSelector;
+  imapSessions: ImapSessionManager;
+  configReloader: ConfigReloader; // Also holds the monitor, created once the account has credentials
+}
+
+export type AccountServicesFactory = (accountId: string, config: Config) => Promise<AccountServices>;
+
+/**
+ * Runs a monitor and a responder for every account. Rules and templates
+ * are kept for all accounts and each account is given the shared ones
+ * together with its own; the account's own templates come first, so they
+ * win keyword matches and the default.
+ */
+export class AccountRegistry {
+  private factory: AccountServicesFactory;
+  private services: Map<string, AccountServices> = new Map();
+  private rules: Rule[] = [];
+  private templates: Template[] = [];
+
+  constructor(factory: AccountServicesFactory) {
+    this.factory = factory;
+  }
+
+  /**
+   * Build the services of an account; its monitor is not started until start()
+   */
+  async add(accountId: string, config: Config): Promise<AccountServices> {
+    if (this.services.has(accountId)) {
+      throw new Error(`Account ${accountId} is already running`);
+    }
+
+    const services = await this.factory(accountId, config);
+    services.messageFilter.updateRules(this.rulesFor(accountId));
+    services.templateSelector.updateTemplates(this.templatesFor(accountId));
+    this.services.set(accountId, services);
+    return services;
+  }
+
+  get(accountId: string): AccountServices | undefined {
+    return this.services.get(accountId);
+  }
+
+  getAccountIds(): string[] {
+    return Array.from(this.services.keys());
+  }
+
+  /**
+   * Returns the monitor of an account, null while it has no credentials
+   */
+  getMonitor(accountId: string): EmailMonitorImpl | null {
+    return this.services.get(accountId)?.configReloader.getEmailMonitor() || null;
+  }
+
+  /**
+   * Start the monitor of an account unless it is missing or already running
+   */
+  async start(accountId: string): Promise<boolean> {
+    const monitor = this.getMonitor(accountId);
+    if (!monitor || monitor.isMonitoring()) {
+      return false;
+    }
+
+    await monitor.start();
+    return true;
+  }
+
+  /**
+   * Apply a changed configuration to the running services of an account
+   */
+  async update(accountId: string, config: Config): Promise<ConfigReloadResult> {
+    const services = this.services.get(accountId);
+    if (!services) {
+      throw new Error(`Account ${accountId} is not running`);
+    }
+
+    return services.configReloader.reload(config);
+  }
+
+  /**
+   * Stop the monitor of an account and log out of its connections
+   */
+  async remove(accountId: string): Promise<void> {
+    const services = this.services.get(accountId);
+    if (!services) {
+      return;
+    }
+
+    this.services.delete(accountId);
+    await services.configReloader.getEmailMonitor()?.stop();
+    await services.imapSessions.close();
+  }
+
+  /**
+   * Replace the rule set; each account gets the rules that apply to it
+   */
+  updateRules(rules: Rule[]): void {
+    this.rules = [...rules];
+    for (const [accountId, services] of this.services) {
+      services.messageFilter.updateRules(this.rulesFor(accountId));
+    }
+  }
+
+  /**
+   * Replace the template set; each account gets the templates that apply to it
+   */
+  updateTemplates(templates: Template[]): void {
+    this.templates = [...templates];
+    for (const [accountId, services] of this.services) {
+      services.templateSelector.updateTemplates(this.templatesFor(accountId));
+    }
+  }
+
+  /**
+   * Stop every account
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.getAccountIds().map(accountId => this.remove(accountId)));
+  }
+
+  private rulesFor(accountId: string): Rule[] {
+    return this.rules.filter(rule => appliesToAccount(rule, accountId));
+  }
+
+  private templatesFor(accountId: string): Template[] {
+    return [
+      ...this.templates.filter(template => template.accountId === accountId),
+      ...this.templates.filter(template => !template.accountId),
+    ];
+  }
+}
@@ -0,0 +1,2 @@
+// Running services of each mail account
+export * from './AccountRegistry';
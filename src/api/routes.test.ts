@@ -2,15 +2,29 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fc from 'fast-check';
 import request from 'supertest';
 import express, { Express } from 'express';
+import * as fs from 'fs';
 import { ActivityLogRepository } from '../database/ActivityLogRepository';
 import { ReplyRepository } from '../database/ReplyRepository';
+import { RuleRepository } from '../database/RuleRepository';
+import { TemplateRepository } from '../database/TemplateRepository';
+import { AssetRepository } from '../database/AssetRepository';
+import { AccountRepository } from '../database/AccountRepository';
+import { UserRepository } from '../database/UserRepository';
+import { SessionRepository } from '../database/SessionRepository';
+import { ApiTokenRepository } from '../database/ApiTokenRepository';
 import { Database } from '../database/connection';
+import { runMigrations } from '../database/migrations';
+import { AccountRegistry } from '../accounts';
 import { ActivityLog, ActivityLogType } from '../models/ActivityLog';
 import { Reply } from '../models/Reply';
+import { MAX_ASSET_SIZE } from '../models/Asset';
 import { createApiRouter, ApiDependencies } from './routes';
-import { ConfigurationManager } from '../config';
+import { createServer } from './server';
+import { AuthService, ApiTokenService } from '../auth';
+import { ConfigurationManager, ConfigurationManagerImpl } from '../config';
 import { AutoResponder } from '../responder';
 import { EmailMonitor } from '../monitor';
+import { KeyRing } from '../secrets';
 
 // Test database setup
 async function createTestDatabase(): Promise<Database> {
@@ -64,6 +78,7 @@ async function createTestDatabase(): Promise<Database> {
       reply_id TEXT,
       details TEXT NOT NULL,
       metadata TEXT,
+      account_id TEXT NOT NULL DEFAULT 'default',
       created_at TEXT DEFAULT CURRENT_TIMESTAMP
     )
   `);
@@ -79,10 +94,111 @@ async function createTestDatabase(): Promise<Database> {
       status TEXT NOT NULL,
       sent_at TEXT,
       approved_by TEXT,
+      in_reply_to TEXT,
+      reference_ids TEXT,
+      original_context TEXT,
+      html_body TEXT,
+      asset_ids TEXT,
+      assets TEXT,
+      account_id TEXT NOT NULL DEFAULT 'default',
       created_at TEXT DEFAULT CURRENT_TIMESTAMP
     )
   `);
 
+  await run(`
+    CREATE TABLE IF NOT EXISTS rule (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      condition TEXT NOT NULL,
+      action TEXT NOT NULL,
+      account_id TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  await run(`
+    CREATE TABLE IF NOT EXISTS templates (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      body TEXT NOT NULL,
+      html_body TEXT,
+      asset_ids TEXT NOT NULL DEFAULT '[]',
+      keywords TEXT NOT NULL,
+      is_default INTEGER NOT NULL DEFAULT 0,
+      account_id TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  await run(`
+    CREATE TABLE IF NOT EXISTS assets (
+      id TEXT PRIMARY KEY,
+      filename TEXT NOT NULL,
+      content_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      content BLOB NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
+
+  await run(`
+    CREATE TABLE IF NOT EXISTS account (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      imap_host TEXT NOT NULL,
+      imap_port INTEGER NOT NULL,
+      smtp_host TEXT NOT NULL,
+      smtp_port INTEGER NOT NULL,
+      username TEXT NOT NULL,
+      password TEXT NOT NULL,
+      filters TEXT NOT NULL,
+      auto_reply TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      auth_method TEXT NOT NULL DEFAULT 'password',
+      oauth2 TEXT
+    )
+  `);
+
+  await run(`
+    CREATE TABLE IF NOT EXISTS user (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  await run(`
+    CREATE TABLE IF NOT EXISTS session (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    )
+  `);
+
+  await run(`
+    CREATE TABLE IF NOT EXISTS api_token (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      user_id TEXT,
+      scopes TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT,
+      last_used_at TEXT
+    )
+  `);
+
   return { run, get, all, close };
 }
 
@@ -225,7 +341,64 @@ describe('API Routes - Unit Tests', () => {
       expect(response.body).toHaveProperty('message');
       expect(response.body.message).toBe('Configuration updated successfully');
       expect(response.body).toHaveProperty('config');
-      expect(configManager.updateConfig).toHaveBeenCalledWith(updates);
+      expect(configManager.updateConfig).toHaveBeenCalledWith(updates, undefined);
+    });
+
+    it('should report how the change was applied to the running components', async () => {
+      const reload = {
+        appliedAt: new Date().toISOString(),
+        changes: ['imap'],
+        monitor: 'started',
+        monitoring: true
+      };
+      const configReloader = {
+        whenApplied: vi.fn().mockResolvedValue(reload),
+        getEmailMonitor: vi.fn().mockReturnValue({
+          getStatus: () => ({ state: 'running', consecutiveFailures: 0 })
+        })
+      } as any;
+
+      const reloadApp = express();
+      reloadApp.use(express.json());
+      reloadApp.use('/api', createApiRouter({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        configReloader
+      }));
+
+      const response = await request(reloadApp)
+        .put('/api/config')
+        .send({ email: { password: 'new-password' } })
+        .expect(200);
+
+      expect(response.body.reload).toEqual(reload);
+
+      // The monitor created by the reload is reported by the status endpoint
+      const status = await request(reloadApp).get('/api/status').expect(200);
+      expect(status.body.monitoring).toBe(true);
+    });
+
+    it('should reject reply templates that do not parse with their position', async () => {
+      const response = await request(app)
+        .put('/api/config')
+        .send({ autoReply: { replyTemplate: 'Hi {sender.firstName},\n{#if body}thanks' } })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid replyTemplate: Unclosed {#if} at line 2, column 1');
+      expect(response.body.templateError).toEqual({ message: 'Unclosed {#if}', line: 2, column: 1 });
+      expect(configManager.updateConfig).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid time zones and business hours', async () => {
+      await request(app).put('/api/config').send({ autoReply: { timeZone: 'Mars/Olympus' } }).expect(400);
+      const response = await request(app)
+        .put('/api/config')
+        .send({ autoReply: { businessHours: { start: '17:00', end: '09:00', days: ['mon'] } } })
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid businessHours end must be after start');
     });
 
     it('should reject invalid imapPort', async () => {
@@ -238,6 +411,45 @@ describe('API Routes - Unit Tests', () => {
       expect(response.body.error).toContain('Invalid imapPort');
     });
 
+    it('should reject an unknown sign-in method and incomplete OAuth2 settings', async () => {
+      const method = await request(app)
+        .put('/api/config')
+        .send({ email: { authMethod: 'kerberos' } })
+        .expect(400);
+      expect(method.body.error).toBe('Invalid authMethod must be one of password, xoauth2');
+
+      const oauth2 = await request(app)
+        .put('/api/config')
+        .send({ email: { authMethod: 'xoauth2', oauth2: { clientId: 'id', tokenUrl: 'ftp://example.com' } } })
+        .expect(400);
+      expect(oauth2.body.error).toBe('Invalid oauth2 tokenUrl must be an http or https URL');
+    });
+
+    it('should mask the OAuth2 client secret and refresh token', async () => {
+      configManager.getConfig = vi.fn().mockResolvedValue({
+        ...(await configManager.getConfig()),
+        email: {
+          imapHost: 'imap.gmail.com',
+          imapPort: 993,
+          smtpHost: 'smtp.gmail.com',
+          smtpPort: 465,
+          username: 'test@example.com',
+          password: '',
+          authMethod: 'xoauth2',
+          oauth2: { clientId: 'id', clientSecret: 'secret', refreshToken: 'refresh', tokenUrl: 'https://oauth2.googleapis.com/token' }
+        }
+      });
+
+      const response = await request(app).get('/api/config').expect(200);
+
+      expect(response.body.email.oauth2).toEqual({
+        clientId: 'id',
+        clientSecret: '********',
+        refreshToken: '********',
+        tokenUrl: 'https://oauth2.googleapis.com/token'
+      });
+    });
+
     it('should reject invalid smtpPort', async () => {
       const response = await request(app)
         .put('/api/config')
@@ -448,7 +660,7 @@ describe('API Routes - Unit Tests', () => {
       expect(response.body).toHaveProperty('message');
       expect(response.body.message).toContain('approved and sent');
       expect(response.body.replyId).toBe('pending-approve');
-      expect(autoResponder.processConfirmation).toHaveBeenCalledWith('pending-approve', true);
+      expect(autoResponder.processConfirmation).toHaveBeenCalledWith('pending-approve', true, undefined);
     });
 
     it('should return 404 for non-existent reply', async () => {
@@ -500,7 +712,7 @@ describe('API Routes - Unit Tests', () => {
       expect(response.body).toHaveProperty('message');
       expect(response.body.message).toContain('rejected');
       expect(response.body.replyId).toBe('pending-reject');
-      expect(autoResponder.processConfirmation).toHaveBeenCalledWith('pending-reject', false);
+      expect(autoResponder.processConfirmation).toHaveBeenCalledWith('pending-reject', false, undefined);
     });
 
     it('should return 404 for non-existent reply', async () => {
@@ -531,6 +743,1211 @@ describe('API Routes - Unit Tests', () => {
       expect(response.body.error).toContain('not pending');
     });
   });
+  describe('Monitor lifecycle routes', () => {
+    let monitorApp: Express;
+    let monitor: any;
+    let state: string;
+
+    beforeEach(() => {
+      state = 'idle';
+      monitor = {
+        start: vi.fn().mockImplementation(async () => { state = 'running'; }),
+        stop: vi.fn().mockImplementation(async () => { state = 'idle'; }),
+        pause: vi.fn().mockImplementation(() => { state = 'paused'; }),
+        resume: vi.fn().mockImplementation(() => { state = 'running'; }),
+        checkNow: vi.fn().mockResolvedValue(true),
+        getStatus: vi.fn().mockImplementation(() => ({
+          state,
+          consecutiveFailures: 0,
+          lastPollAt: new Date('2026-01-01T10:00:00Z'),
+        })),
+      };
+
+      monitorApp = express();
+      monitorApp.use(express.json());
+      monitorApp.use('/api', createApiRouter({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        emailMonitor: monitor
+      }));
+    });
+
+    it('should expose the monitor state on /api/status', async () => {
+      state = 'backing_off';
+
+      const response = await request(monitorApp).get('/api/status').expect(200);
+
+      expect(response.body.monitoring).toBe(true);
+      expect(response.body.monitor).toEqual({
+        configured: true,
+        state: 'backing_off',
+        consecutiveFailures: 0,
+        lastPollAt: '2026-01-01T10:00:00.000Z'
+      });
+    });
+
+    it('should report a failed monitor as not monitoring and only allow resuming it', async () => {
+      state = 'failed';
+
+      const response = await request(monitorApp).get('/api/status').expect(200);
+      expect(response.body.monitoring).toBe(false);
+      expect(response.body.monitor.state).toBe('failed');
+
+      const pause = await request(monitorApp).post('/api/monitor/pause').expect(400);
+      expect(pause.body.error).toContain('current state: failed');
+      expect(monitor.pause).not.toHaveBeenCalled();
+
+      await request(monitorApp).post('/api/monitor/resume').expect(200);
+      expect(monitor.resume).toHaveBeenCalled();
+    });
+
+    it('should report an unconfigured monitor on /api/status', async () => {
+      const response = await request(app).get('/api/status').expect(200);
+
+      expect(response.body.monitor).toEqual({ configured: false, state: 'idle', mode: 'polling', consecutiveFailures: 0 });
+    });
+
+    it('should start, pause, resume and stop the monitor', async () => {
+      let response = await request(monitorApp).post('/api/monitor/start').expect(200);
+      expect(response.body.monitor.state).toBe('running');
+
+      response = await request(monitorApp).post('/api/monitor/pause').expect(200);
+      expect(response.body.monitor.state).toBe('paused');
+      expect((await request(monitorApp).get('/api/status')).body.monitoring).toBe(false);
+
+      response = await request(monitorApp).post('/api/monitor/resume').expect(200);
+      expect(response.body.monitor.state).toBe('running');
+
+      response = await request(monitorApp).post('/api/monitor/stop').expect(200);
+      expect(response.body.monitor.state).toBe('idle');
+
+      expect(monitor.start).toHaveBeenCalledTimes(1);
+      expect(monitor.pause).toHaveBeenCalledTimes(1);
+      expect(monitor.resume).toHaveBeenCalledTimes(1);
+      expect(monitor.stop).toHaveBeenCalledTimes(1);
+    });
+
+    it('should check the inbox on demand', async () => {
+      state = 'running';
+
+      const response = await request(monitorApp).post('/api/monitor/check-now').expect(200);
+
+      expect(response.body.checked).toBe(true);
+      expect(monitor.checkNow).toHaveBeenCalled();
+    });
+
+    it('should reject transitions that do not apply to the current state', async () => {
+      await request(monitorApp).post('/api/monitor/stop').expect(400);
+      await request(monitorApp).post('/api/monitor/pause').expect(400);
+      await request(monitorApp).post('/api/monitor/resume').expect(400);
+      await request(monitorApp).post('/api/monitor/check-now').expect(400);
+
+      state = 'running';
+      const response = await request(monitorApp).post('/api/monitor/start').expect(400);
+      expect(response.body.error).toContain('already started');
+      expect(monitor.start).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when no monitor is configured', async () => {
+      const response = await request(app).post('/api/monitor/start').expect(400);
+
+      expect(response.body.error).toContain('not configured');
+    });
+  });
+
+  describe('GET /api/mailboxes', () => {
+    it('should list server folders and mark the watched ones', async () => {
+      vi.mocked(configManager.getConfig).mockResolvedValue({
+        ...(await configManager.getConfig()),
+        autoReply: { manualConfirmation: false, replyTemplate: 'Thanks', checkInterval: 10, mailboxes: [{ name: 'Support' }] }
+      });
+      const imapSessions = {
+        listMailboxes: vi.fn().mockResolvedValue([
+          { name: 'INBOX', delimiter: '/', attributes: [], selectable: true },
+          { name: 'Support', delimiter: '/', attributes: ['HASNOCHILDREN'], selectable: true },
+        ])
+      } as any;
+
+      const mailboxApp = express();
+      mailboxApp.use(express.json());
+      mailboxApp.use('/api', createApiRouter({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        imapSessions
+      }));
+
+      const response = await request(mailboxApp).get('/api/mailboxes').expect(200);
+
+      expect(response.body.mailboxes).toEqual([
+        { name: 'INBOX', delimiter: '/', attributes: [], selectable: true, monitored: false },
+        { name: 'Support', delimiter: '/', attributes: ['HASNOCHILDREN'], selectable: true, monitored: true },
+      ]);
+    });
+
+    it('should return 400 when IMAP is not configured', async () => {
+      const response = await request(app).get('/api/mailboxes').expect(400);
+
+      expect(response.body.error).toContain('not configured');
+    });
+
+    it('should reject invalid watched folders', async () => {
+      const response = await request(app)
+        .put('/api/config')
+        .send({ autoReply: { mailboxes: [{ name: 'Support' }, { name: 'Support' }] } })
+        .expect(400);
+
+      expect(response.body.error).toContain('more than once');
+      expect(configManager.updateConfig).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid post-actions', async () => {
+      const unknownOutcome = await request(app)
+        .put('/api/config')
+        .send({ autoReply: { postActions: { archived: [] } } })
+        .expect(400);
+      expect(unknownOutcome.body.error).toContain('Invalid postActions outcome');
+
+      const twoMoves = await request(app)
+        .put('/api/config')
+        .send({ autoReply: { postActions: { replied: [{ type: 'move', mailbox: 'A' }, { type: 'move', mailbox: 'B' }] } } })
+        .expect(400);
+      expect(twoMoves.body.error).toBe('Invalid postActions.replied can move a message only once');
+      expect(configManager.updateConfig).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Account routes', () => {
+    let accountsApp: Express;
+    let accounts: AccountRegistry;
+    let services: Map<string, any>;
+
+    // Stand-in services; the registry is real so rule distribution and removal are exercised
+    const createServices = async (accountId: string) => {
+      const monitor = {
+        start: vi.fn().mockResolvedValue(undefined),
+        stop: vi.fn().mockResolvedValue(undefined),
+        isMonitoring: vi.fn().mockReturnValue(false),
+        getStatus: vi.fn().mockReturnValue({ state: 'idle', mode: 'polling', consecutiveFailures: 0 }),
+      };
+      const accountServices = {
+        autoResponder: { processConfirmation: vi.fn().mockResolvedValue(undefined) },
+        messageFilter: { updateRules: vi.fn() },
+        templateSelector: { updateTemplates: vi.fn() },
+        imapSessions: { close: vi.fn().mockResolvedValue(undefined), getMetrics: vi.fn().mockReturnValue({ open: 0 }) },
+        configReloader: {
+          getEmailMonitor: () => monitor,
+          reload: vi.fn().mockResolvedValue({ changes: ['filters'], monitor: 'unchanged', monitoring: false }),
+          whenApplied: vi.fn().mockResolvedValue(null),
+        },
+      };
+      services.set(accountId, accountServices);
+      return accountServices as any;
+    };
+
+    const createAccount = async (name = 'Sales') => {
+      const response = await request(accountsApp)
+        .post('/api/accounts')
+        .send({
+          name,
+          email: { imapHost: 'imap.example.com', smtpHost: 'smtp.example.com', username: 'sales@example.com', password: 'secret' },
+          filters: { excludedDomains: ['example.com'] }
+        })
+        .expect(201);
+      return response.body.account;
+    };
+
+    beforeEach(async () => {
+      services = new Map();
+      accounts = new AccountRegistry(createServices);
+      await accounts.add('default', await configManager.getConfig());
+
+      accountsApp = express();
+      accountsApp.use(express.json());
+      accountsApp.use('/api', createApiRouter({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder: services.get('default').autoResponder,
+        configReloader: services.get('default').configReloader,
+        ruleRepository: new RuleRepository(testDb),
+        onRulesChanged: (rules) => accounts.updateRules(rules),
+        accounts,
+        accountRepository: new AccountRepository(testDb, new KeyRing(['test-key'], Buffer.alloc(16, 1)))
+      }));
+    });
+
+    it('should create, list and start accounts without exposing passwords', async () => {
+      const account = await createAccount();
+
+      expect(account.email.password).toBe('********');
+      expect(account.filters).toEqual({ keywordsEnabled: false, keywords: [], excludedDomains: ['example.com'] });
+      expect(account.autoReply.manualConfirmation).toBe(true);
+      expect(services.get(account.id).configReloader.getEmailMonitor().start).toHaveBeenCalled();
+
+      const response = await request(accountsApp).get('/api/accounts').expect(200);
+      expect(response.body.accounts).toEqual([
+        { id: 'default', name: 'Default', username: 'test@example.com', monitor: { configured: true, state: 'idle' } },
+        { id: account.id, name: 'Sales', username: 'sales@example.com', monitor: { configured: true, state: 'idle' } },
+      ]);
+    });
+
+    it('should scope configuration, status and replies to the addressed account', async () => {
+      const account = await createAccount();
+      await replyRepo.create({
+        id: 'reply-sales',
+        originalEmailId: '1',
+        to: 'customer@example.com',
+        subject: 'Re: Offer',
+        body: 'Thanks',
+        generatedAt: new Date(),
+        status: 'pending',
+        accountId: account.id
+      });
+      await replyRepo.create({
+        id: 'reply-default',
+        originalEmailId: '1',
+        to: 'customer@example.com',
+        subject: 'Re: Help',
+        body: 'Thanks',
+        generatedAt: new Date(),
+        status: 'pending'
+      });
+
+      const update = await request(accountsApp)
+        .put(`/api/accounts/${account.id}/config`)
+        .send({ filters: { keywords: ['offer'] } })
+        .expect(200);
+      expect(update.body.config.filters).toEqual({ keywordsEnabled: false, keywords: ['offer'], excludedDomains: ['example.com'] });
+      expect(services.get(account.id).configReloader.reload).toHaveBeenCalledWith(expect.objectContaining({ id: account.id }));
+      expect(configManager.updateConfig).not.toHaveBeenCalled();
+
+      const config = await request(accountsApp).get(`/api/accounts/${account.id}/config`).expect(200);
+      expect(config.body.email).toMatchObject({ username: 'sales@example.com', password: '********' });
+
+      const status = await request(accountsApp).get(`/api/accounts/${account.id}/status`).expect(200);
+      expect(status.body).toMatchObject({ accountId: account.id, pendingRepliesCount: 1, manualConfirmationEnabled: true });
+
+      const scopedReplies = await request(accountsApp).get(`/api/accounts/${account.id}/pending-replies`).expect(200);
+      expect(scopedReplies.body.replies.map((reply: Reply) => reply.id)).toEqual(['reply-sales']);
+      const allReplies = await request(accountsApp).get('/api/pending-replies').expect(200);
+      expect(allReplies.body.count).toBe(2);
+
+      await request(accountsApp).get('/api/accounts/unknown/status').expect(404);
+    });
+
+    it('should confirm a reply through the responder of its account', async () => {
+      const account = await createAccount();
+      await replyRepo.create({
+        id: 'reply-sales',
+        originalEmailId: '1',
+        to: 'customer@example.com',
+        subject: 'Re: Offer',
+        body: 'Thanks',
+        generatedAt: new Date(),
+        status: 'pending',
+        accountId: account.id
+      });
+
+      await request(accountsApp).post('/api/replies/reply-sales/approve').expect(200);
+
+      expect(services.get(account.id).autoResponder.processConfirmation).toHaveBeenCalledWith('reply-sales', true, undefined);
+      expect(services.get('default').autoResponder.processConfirmation).not.toHaveBeenCalled();
+    });
+
+    it('should limit rules to an account and keep the account while a rule uses it', async () => {
+      const account = await createAccount();
+
+      await request(accountsApp)
+        .post('/api/rules')
+        .send({ name: 'Unknown account', condition: { field: 'subject', operator: 'contains', value: 'x' }, action: { type: 'skip' }, accountId: 'missing' })
+        .expect(400);
+      const created = await request(accountsApp)
+        .post('/api/rules')
+        .send({ name: 'Sales only', condition: { field: 'subject', operator: 'contains', value: 'offer' }, action: { type: 'skip' }, accountId: account.id })
+        .expect(201);
+
+      expect(services.get(account.id).messageFilter.updateRules).toHaveBeenLastCalledWith([expect.objectContaining({ name: 'Sales only' })]);
+      expect(services.get('default').messageFilter.updateRules).toHaveBeenLastCalledWith([]);
+
+      const inUse = await request(accountsApp).delete(`/api/accounts/${account.id}`).expect(409);
+      expect(inUse.body.error).toBe('Account is used by rule "Sales only"');
+
+      await request(accountsApp).delete(`/api/rules/${created.body.rule.id}`).expect(200);
+      await request(accountsApp).delete(`/api/accounts/${account.id}`).expect(200);
+
+      expect(services.get(account.id).imapSessions.close).toHaveBeenCalled();
+      expect(accounts.getAccountIds()).toEqual(['default']);
+      await request(accountsApp).get(`/api/accounts/${account.id}/config`).expect(404);
+    });
+  });
+
+  describe('Rule routes', () => {
+    let rulesApp: Express;
+    let onRulesChanged: ReturnType<typeof vi.fn>;
+
+    const invoiceRule = {
+      name: 'Invoices',
+      condition: {
+        all: [
+          { field: 'from', operator: 'domain_in', value: ['vendor.com'] },
+          { field: 'subject', operator: 'contains', value: 'invoice' }
+        ]
+      },
+      action: { type: 'queue', template: 'Billing will get back to you.' }
+    };
+
+    beforeEach(() => {
+      onRulesChanged = vi.fn();
+      rulesApp = express();
+      rulesApp.use(express.json());
+      rulesApp.use('/api', createApiRouter({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        ruleRepository: new RuleRepository(testDb),
+        onRulesChanged
+      }));
+    });
+
+    it('should create rules in order and publish the rule set', async () => {
+      const first = await request(rulesApp).post('/api/rules').send(invoiceRule).expect(201);
+      const second = await request(rulesApp)
+        .post('/api/rules')
+        .send({ name: 'Weekend', condition: { field: 'receivedAt', operator: 'day_in', value: ['sat', 'sun'] }, action: { type: 'leave_unread' } })
+        .expect(201);
+
+      expect(first.body.rule.position).toBe(0);
+      expect(first.body.rule.enabled).toBe(true);
+      expect(second.body.rule.position).toBe(1);
+
+      const response = await request(rulesApp).get('/api/rules').expect(200);
+      expect(response.body.count).toBe(2);
+      expect(response.body.rules[0].condition).toEqual(invoiceRule.condition);
+      expect(onRulesChanged).toHaveBeenLastCalledWith([
+        expect.objectContaining({ name: 'Invoices' }),
+        expect.objectContaining({ name: 'Weekend' })
+      ]);
+    });
+
+    it('should update and delete rules', async () => {
+      const created = await request(rulesApp).post('/api/rules').send(invoiceRule).expect(201);
+      const id = created.body.rule.id;
+
+      const updated = await request(rulesApp)
+        .put(`/api/rules/${id}`)
+        .send({ enabled: false, action: { type: 'skip' } })
+        .expect(200);
+      expect(updated.body.rule.enabled).toBe(false);
+      expect(updated.body.rule.action).toEqual({ type: 'skip' });
+      expect(updated.body.rule.name).toBe('Invoices');
+
+      await request(rulesApp).delete(`/api/rules/${id}`).expect(200);
+      expect(onRulesChanged).toHaveBeenLastCalledWith([]);
+
+      await request(rulesApp).put(`/api/rules/${id}`).send({ enabled: true }).expect(404);
+      await request(rulesApp).delete(`/api/rules/${id}`).expect(404);
+    });
+
+    it('should reject invalid rules', async () => {
+      const invalidRegex = await request(rulesApp)
+        .post('/api/rules')
+        .send({ ...invoiceRule, condition: { field: 'subject', operator: 'regex', value: '(' } })
+        .expect(400);
+      expect(invalidRegex.body.error).toContain('Invalid condition');
+
+      const invalidPostAction = await request(rulesApp)
+        .post('/api/rules')
+        .send({ ...invoiceRule, action: { type: 'reply', postActions: [{ type: 'flag', flags: [] }] } })
+        .expect(400);
+      expect(invalidPostAction.body.error).toContain('action.postActions[0].flags');
+
+      await request(rulesApp)
+        .post('/api/rules')
+        .send({ ...invoiceRule, action: { type: 'skip', template: 'Not used' } })
+        .expect(400);
+      await request(rulesApp).post('/api/rules').send({ ...invoiceRule, name: '' }).expect(400);
+      await request(rulesApp)
+        .post('/api/rules')
+        .send({ ...invoiceRule, condition: { field: 'receivedAt', operator: 'time_between', value: '25:00-08:00' } })
+        .expect(400);
+
+      expect(onRulesChanged).not.toHaveBeenCalled();
+    });
+
+    it('should reject inline templates that do not parse', async () => {
+      const unclosed = await request(rulesApp)
+        .post('/api/rules')
+        .send({ ...invoiceRule, action: { type: 'reply', template: '{#if sender}Hello' } })
+        .expect(400);
+      expect(unclosed.body.error).toBe('Invalid action.template: Unclosed {#if} at line 1, column 1');
+      expect(unclosed.body.templateError).toEqual({ message: 'Unclosed {#if}', line: 1, column: 1 });
+
+      const unknown = await request(rulesApp)
+        .post('/api/rules')
+        .send({ ...invoiceRule, action: { type: 'queue', template: 'Hi {unknownVar}' } })
+        .expect(400);
+      expect(unknown.body.templateError).toEqual({ message: 'Unknown variable "unknownVar"', line: 1, column: 4 });
+
+      expect(onRulesChanged).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Template routes', () => {
+    let templatesApp: Express;
+    let onTemplatesChanged: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      onTemplatesChanged = vi.fn();
+      templatesApp = express();
+      templatesApp.use(express.json());
+      templatesApp.use('/api', createApiRouter({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        ruleRepository: new RuleRepository(testDb),
+        templateRepository: new TemplateRepository(testDb),
+        onTemplatesChanged
+      }));
+    });
+
+    it('should create, list, update and delete templates', async () => {
+      const created = await request(templatesApp)
+        .post('/api/templates')
+        .send({ name: 'Billing', body: 'Billing will reply about {subject}.', keywords: [' invoice ', ''] })
+        .expect(201);
+      const id = created.body.template.id;
+      expect(created.body.template.keywords).toEqual(['invoice']);
+      expect(created.body.template.isDefault).toBe(false);
+
+      const updated = await request(templatesApp)
+        .put(`/api/templates/${id}`)
+        .send({ body: 'Updated {subject}' })
+        .expect(200);
+      expect(updated.body.template.body).toBe('Updated {subject}');
+      expect(updated.body.template.name).toBe('Billing');
+
+      const list = await request(templatesApp).get('/api/templates').expect(200);
+      expect(list.body.count).toBe(1);
+      expect(onTemplatesChanged).toHaveBeenLastCalledWith([expect.objectContaining({ body: 'Updated {subject}' })]);
+
+      await request(templatesApp).delete(`/api/templates/${id}`).expect(200);
+      expect(onTemplatesChanged).toHaveBeenLastCalledWith([]);
+      await request(templatesApp).put(`/api/templates/${id}`).send({ name: 'Gone' }).expect(404);
+    });
+
+    it('should keep a single default template', async () => {
+      const first = await request(templatesApp).post('/api/templates').send({ name: 'A', body: 'A', isDefault: true }).expect(201);
+      await request(templatesApp).post('/api/templates').send({ name: 'B', body: 'B', isDefault: true }).expect(201);
+
+      const list = await request(templatesApp).get('/api/templates').expect(200);
+      expect(list.body.templates.map((t: any) => [t.name, t.isDefault])).toEqual([['A', false], ['B', true]]);
+
+      await request(templatesApp).put(`/api/templates/${first.body.template.id}`).send({ isDefault: true }).expect(200);
+      const relisted = await request(templatesApp).get('/api/templates').expect(200);
+      expect(relisted.body.templates.map((t: any) => t.isDefault)).toEqual([true, false]);
+    });
+
+    it('should reject invalid templates', async () => {
+      await request(templatesApp).post('/api/templates').send({ name: 'Empty', body: '  ' }).expect(400);
+      await request(templatesApp).post('/api/templates').send({ body: 'No name' }).expect(400);
+      await request(templatesApp).post('/api/templates').send({ name: 'Bad', body: 'x', keywords: 'invoice' }).expect(400);
+
+      expect(onTemplatesChanged).not.toHaveBeenCalled();
+    });
+
+    it('should preview a template against the sample email', async () => {
+      const response = await request(templatesApp)
+        .post('/api/templates/preview')
+        .send({ body: 'Hi {sender}, about "{subject}"' })
+        .expect(200);
+
+      expect(response.body.preview).toBe('Hi jane.doe@example.com, about "Question about my invoice"');
+      expect(response.body.sample.from).toBe('jane.doe@example.com');
+    });
+
+    it('should point at template errors in previews and when saving', async () => {
+      const preview = await request(templatesApp)
+        .post('/api/templates/preview')
+        .send({ body: 'Dear {sender.nmae}' })
+        .expect(400);
+      expect(preview.body.templateError).toEqual({ message: 'Unknown variable "sender.nmae"', line: 1, column: 6 });
+
+      await request(templatesApp).post('/api/templates').send({ name: 'Broken', body: '{/if}' }).expect(400);
+      expect(onTemplatesChanged).not.toHaveBeenCalled();
+    });
+
+    it('should save and preview HTML templates with escaped values', async () => {
+      const created = await request(templatesApp)
+        .post('/api/templates')
+        .send({ name: 'Html only', body: '', htmlBody: '<p>Hi <b>{sender}</b></p>' })
+        .expect(201);
+      expect(created.body.template.htmlBody).toBe('<p>Hi <b>{sender}</b></p>');
+
+      await request(templatesApp).post('/api/templates').send({ name: 'Nothing', body: ' ', htmlBody: '' }).expect(400);
+      await request(templatesApp)
+        .put(`/api/templates/${created.body.template.id}`)
+        .send({ htmlBody: '' })
+        .expect(400);
+      const broken = await request(templatesApp)
+        .post('/api/templates')
+        .send({ name: 'Broken', body: 'x', htmlBody: '<p>{#if subject}</p>' })
+        .expect(400);
+      expect(broken.body.error).toMatch(/^Invalid htmlBody: Unclosed \{#if\}/);
+
+      const preview = await request(templatesApp)
+        .post('/api/templates/preview')
+        .send({ body: '', htmlBody: '<p>{subject} & {sender.name}</p>' })
+        .expect(200);
+      expect(preview.body.htmlPreview).toBe('<p>Question about my invoice & Jane Doe</p>');
+      expect(preview.body.preview).toBe('Question about my invoice & Jane Doe');
+    });
+
+    it('should store both bodies of a reply', async () => {
+      await replyRepo.create({
+        id: 'reply-html',
+        originalEmailId: 'email-html',
+        to: 'test@example.com',
+        subject: 'Re: Test',
+        body: 'Plain',
+        htmlBody: '<p>Rich</p>',
+        generatedAt: new Date(),
+        status: 'pending'
+      });
+
+      const reply = await replyRepo.getById('reply-html');
+      expect(reply?.body).toBe('Plain');
+      expect(reply?.htmlBody).toBe('<p>Rich</p>');
+    });
+
+    it('should record the assets a reply was sent with', async () => {
+      const assets = [{ id: 'logo', filename: 'logo.png', contentType: 'image/png', size: 42, inline: true }];
+      await replyRepo.create({
+        id: 'reply-assets',
+        originalEmailId: 'email-assets',
+        to: 'test@example.com',
+        subject: 'Re: Test',
+        body: 'See attached',
+        assetIds: ['logo'],
+        generatedAt: new Date(),
+        status: 'pending'
+      });
+
+      await replyRepo.updateStatus('reply-assets', 'sent', new Date(), undefined, assets);
+      await replyRepo.updateStatus('reply-assets', 'sent', new Date());
+
+      const reply = await replyRepo.getById('reply-assets');
+      expect(reply?.assetIds).toEqual(['logo']);
+      expect(reply?.assets).toEqual(assets);
+    });
+
+    it('should only let rules reference existing templates', async () => {
+      const template = await request(templatesApp).post('/api/templates').send({ name: 'Billing', body: 'B' }).expect(201);
+      const rule = {
+        name: 'Invoices',
+        condition: { field: 'subject', operator: 'contains', value: 'invoice' },
+        action: { type: 'reply', templateId: 'missing' }
+      };
+
+      const rejected = await request(templatesApp).post('/api/rules').send(rule).expect(400);
+      expect(rejected.body.error).toContain('template not found');
+
+      await request(templatesApp)
+        .post('/api/rules')
+        .send({ ...rule, action: { type: 'reply', templateId: template.body.template.id } })
+        .expect(201);
+    });
+
+    it('should not delete a template that a rule still uses', async () => {
+      const template = await request(templatesApp).post('/api/templates').send({ name: 'Billing', body: 'B' }).expect(201);
+      const rule = await request(templatesApp)
+        .post('/api/rules')
+        .send({
+          name: 'Invoices',
+          condition: { field: 'subject', operator: 'contains', value: 'invoice' },
+          action: { type: 'reply', templateId: template.body.template.id }
+        })
+        .expect(201);
+
+      const conflict = await request(templatesApp).delete(`/api/templates/${template.body.template.id}`).expect(409);
+      expect(conflict.body.error).toBe('Template is used by rule "Invoices"');
+
+      await request(templatesApp).delete(`/api/rules/${rule.body.rule.id}`).expect(200);
+      await request(templatesApp).delete(`/api/templates/${template.body.template.id}`).expect(200);
+    });
+
+    it('should only let watched mailboxes select existing templates', async () => {
+      const template = await request(templatesApp).post('/api/templates').send({ name: 'Billing', body: 'B' }).expect(201);
+
+      const rejected = await request(templatesApp)
+        .put('/api/config')
+        .send({ autoReply: { mailboxes: [{ name: 'Billing', templateId: 'missing' }] } })
+        .expect(400);
+      expect(rejected.body.error).toBe('Invalid autoReply: mailbox template not found: missing');
+      expect(configManager.updateConfig).not.toHaveBeenCalled();
+
+      await request(templatesApp)
+        .put('/api/config')
+        .send({ autoReply: { mailboxes: [{ name: 'Billing', templateId: template.body.template.id }] } })
+        .expect(200);
+    });
+
+    it('should not delete a template that a watched mailbox selects', async () => {
+      const template = await request(templatesApp).post('/api/templates').send({ name: 'Billing', body: 'B' }).expect(201);
+      const id = template.body.template.id;
+      const config = await configManager.getConfig();
+      vi.mocked(configManager.getConfig).mockResolvedValue({
+        ...config,
+        autoReply: { ...config.autoReply, mailboxes: [{ name: 'INBOX' }, { name: 'Billing', templateId: id }] }
+      });
+
+      const conflict = await request(templatesApp).delete(`/api/templates/${id}`).expect(409);
+      expect(conflict.body.error).toBe('Template is used by mailbox "Billing"');
+    });
+
+    it('should not delete a template that a mailbox of another account selects', async () => {
+      const accountRepository = new AccountRepository(testDb, new KeyRing(['test-key'], Buffer.alloc(16, 1)));
+      const accountsTemplatesApp = express();
+      accountsTemplatesApp.use(express.json());
+      accountsTemplatesApp.use('/api', createApiRouter({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        templateRepository: new TemplateRepository(testDb),
+        accountRepository
+      }));
+      const template = await request(accountsTemplatesApp).post('/api/templates').send({ name: 'Billing', body: 'B' }).expect(201);
+      const id = template.body.template.id;
+      const config = await configManager.getConfig();
+      await accountRepository.create({
+        ...config,
+        id: 'sales',
+        name: 'Sales',
+        autoReply: { ...config.autoReply, mailboxes: [{ name: 'Orders', templateId: id }] },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+
+      const conflict = await request(accountsTemplatesApp).delete(`/api/templates/${id}`).expect(409);
+      expect(conflict.body.error).toBe('Template is used by mailbox "Orders" of account "Sales"');
+    });
+  });
+
+  describe('Asset routes', () => {
+    let assetsApp: Express;
+    const pdf = Buffer.from('%PDF-1.4\n1 0 obj\n<<>>\nendobj\n%%EOF');
+
+    beforeEach(() => {
+      assetsApp = express();
+      assetsApp.use(express.json());
+      assetsApp.use('/api', createApiRouter({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        templateRepository: new TemplateRepository(testDb),
+        assetRepository: new AssetRepository(testDb)
+      }));
+    });
+
+    const upload = (filename: string, contentType: string, content: Buffer) => request(assetsApp)
+      .post(`/api/assets?filename=${encodeURIComponent(filename)}`)
+      .set('Content-Type', contentType)
+      .send(content);
+
+    it('should upload, list, download and delete assets', async () => {
+      const uploaded = await upload('price-list.pdf', 'application/pdf', pdf).expect(201);
+      const asset = uploaded.body.asset;
+      expect(asset).toMatchObject({ filename: 'price-list.pdf', contentType: 'application/pdf', size: pdf.length });
+
+      const list = await request(assetsApp).get('/api/assets').expect(200);
+      expect(list.body.count).toBe(1);
+      expect(list.body.assets[0]).not.toHaveProperty('content');
+
+      const download = await request(assetsApp)
+        .get(`/api/assets/${asset.id}/content`)
+        .buffer(true)
+        .parse((res, callback) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('end', () => callback(null, Buffer.concat(chunks)));
+        })
+        .expect(200);
+      expect(download.headers['content-type']).toBe('application/pdf');
+      expect(download.headers['content-disposition']).toContain('price-list.pdf');
+      expect(Buffer.compare(download.body, pdf)).toBe(0);
+
+      await request(assetsApp).delete(`/api/assets/${asset.id}`).expect(200);
+      await request(assetsApp).get(`/api/assets/${asset.id}/content`).expect(404);
+    });
+
+    it('should reject disallowed types, mismatched content and oversized files', async () => {
+      const script = await upload('setup.exe', 'application/octet-stream', Buffer.from('MZ')).expect(400);
+      expect(script.body.error).toContain('content type must be one of');
+
+      const fake = await upload('guide.pdf', 'application/pdf', Buffer.from('MZ not a pdf')).expect(400);
+      expect(fake.body.error).toBe('Invalid file: content does not match application/pdf');
+
+      await upload('../etc/passwd', 'text/plain', Buffer.from('x')).expect(400);
+      await upload('big.txt', 'text/plain', Buffer.alloc(MAX_ASSET_SIZE + 1, 'a')).expect(413);
+
+      const list = await request(assetsApp).get('/api/assets').expect(200);
+      expect(list.body.count).toBe(0);
+    });
+
+    it('should only attach existing assets to templates and keep assets in use', async () => {
+      const asset = (await upload('guide.txt', 'text/plain', Buffer.from('Restart the router.')).expect(201)).body.asset;
+
+      const rejected = await request(assetsApp)
+        .post('/api/templates')
+        .send({ name: 'Support', body: 'See attached', assetIds: ['missing'] })
+        .expect(400);
+      expect(rejected.body.error).toBe('Invalid assetIds: asset not found: missing');
+
+      const template = await request(assetsApp)
+        .post('/api/templates')
+        .send({ name: 'Support', body: 'See attached', assetIds: [asset.id] })
+        .expect(201);
+      expect(template.body.template.assetIds).toEqual([asset.id]);
+
+      const conflict = await request(assetsApp).delete(`/api/assets/${asset.id}`).expect(409);
+      expect(conflict.body.error).toBe('Asset is used by template "Support"');
+
+      await request(assetsApp)
+        .put(`/api/templates/${template.body.template.id}`)
+        .send({ assetIds: [] })
+        .expect(200);
+      await request(assetsApp).delete(`/api/assets/${asset.id}`).expect(200);
+    });
+  });
+
+  describe('Authentication', () => {
+    let authApp: Express;
+    let auth: AuthService;
+
+    // Signs in and returns the session cookie
+    const signIn = async (username: string, password = 'correct horse') => {
+      const response = await request(authApp)
+        .post('/api/auth/login')
+        .send({ username, password })
+        .expect(200);
+      return response.headers['set-cookie'][0].split(';')[0];
+    };
+
+    beforeEach(async () => {
+      auth = new AuthService(new UserRepository(testDb), new SessionRepository(testDb));
+      await auth.createUser({ username: 'ada', password: 'correct horse', role: 'admin' });
+      await auth.createUser({ username: 'vic', password: 'correct horse', role: 'viewer' });
+      await auth.createUser({ username: 'april', password: 'correct horse', role: 'approver' });
+
+      authApp = createServer({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        auth
+      }, { port: 0 });
+    });
+
+    it('should require a session for everything but health and login', async () => {
+      await request(authApp).get('/api/health').expect(200);
+
+      const response = await request(authApp).get('/api/logs').expect(401);
+      expect(response.body.error).toBe('Authentication required');
+
+      await request(authApp).put('/api/config').send({ filters: { keywords: [] } }).expect(401);
+      await request(authApp).get('/api/logs').set('Authorization', 'Bearer not-a-session').expect(401);
+      expect(configManager.updateConfig).not.toHaveBeenCalled();
+    });
+
+    it('should turn away a wrong password without saying which part was wrong', async () => {
+      const wrongPassword = await request(authApp)
+        .post('/api/auth/login')
+        .send({ username: 'ada', password: 'wrong password' })
+        .expect(401);
+      const unknownUser = await request(authApp)
+        .post('/api/auth/login')
+        .send({ username: 'nobody', password: 'correct horse' })
+        .expect(401);
+
+      expect(wrongPassword.body.error).toBe('Invalid username or password');
+      expect(unknownUser.body.error).toBe('Invalid username or password');
+      await request(authApp).post('/api/auth/login').send({ username: 'ada' }).expect(400);
+    });
+
+    it('should let a viewer read but not change the configuration', async () => {
+      const cookie = await signIn('vic');
+
+      await request(authApp).get('/api/logs').set('Cookie', cookie).expect(200);
+      await request(authApp).get('/api/config').set('Cookie', cookie).expect(200);
+
+      const response = await request(authApp)
+        .put('/api/config')
+        .set('Cookie', cookie)
+        .send({ filters: { keywords: [] } })
+        .expect(403);
+      expect(response.body.error).toBe('This action requires the admin role');
+      expect(configManager.updateConfig).not.toHaveBeenCalled();
+    });
+
+    it('should record the approver who approved a reply', async () => {
+      await replyRepo.create({
+        id: 'pending-signed-in',
+        originalEmailId: 'email-1',
+        to: 'test@example.com',
+        subject: 'Re: Test',
+        body: 'Reply body',
+        generatedAt: new Date(),
+        status: 'pending'
+      });
+
+      const viewer = await signIn('vic');
+      await request(authApp).post('/api/replies/pending-signed-in/approve').set('Cookie', viewer).expect(403);
+
+      const approver = await signIn('april');
+      await request(authApp)
+        .post('/api/replies/pending-signed-in/approve')
+        .set('Cookie', approver)
+        .send({ approvedBy: 'someone else' })
+        .expect(200);
+
+      expect(autoResponder.processConfirmation).toHaveBeenCalledTimes(1);
+      expect(autoResponder.processConfirmation).toHaveBeenCalledWith('pending-signed-in', true, 'april');
+    });
+
+    it('should accept the session token as a bearer token and end it at logout', async () => {
+      const login = await request(authApp)
+        .post('/api/auth/login')
+        .send({ username: 'april', password: 'correct horse' })
+        .expect(200);
+      const bearer = `Bearer ${login.body.token}`;
+
+      const me = await request(authApp).get('/api/auth/me').set('Authorization', bearer).expect(200);
+      expect(me.body).toMatchObject({ username: 'april', role: 'approver' });
+
+      await request(authApp).post('/api/auth/logout').set('Authorization', bearer).expect(200);
+      await request(authApp).get('/api/auth/me').set('Authorization', bearer).expect(401);
+    });
+
+    it('should let admins manage users but keep the last admin', async () => {
+      const cookie = await signIn('ada');
+      await request(authApp).get('/api/users').set('Cookie', await signIn('april')).expect(403);
+
+      const created = await request(authApp)
+        .post('/api/users')
+        .set('Cookie', cookie)
+        .send({ username: 'bea', password: 'another secret', role: 'viewer' })
+        .expect(201);
+      expect(created.body.user).toMatchObject({ username: 'bea', role: 'viewer' });
+      expect(created.body.user).not.toHaveProperty('passwordHash');
+
+      const duplicate = await request(authApp)
+        .post('/api/users')
+        .set('Cookie', cookie)
+        .send({ username: 'BEA', password: 'another secret', role: 'viewer' })
+        .expect(409);
+      expect(duplicate.body.error).toBe('Username "BEA" is already taken');
+
+      await request(authApp)
+        .post('/api/users')
+        .set('Cookie', cookie)
+        .send({ username: 'cy', password: 'short', role: 'viewer' })
+        .expect(400);
+      await request(authApp)
+        .post('/api/users')
+        .set('Cookie', cookie)
+        .send({ username: 'cy', password: 'long enough', role: 'owner' })
+        .expect(400);
+
+      const users = await request(authApp).get('/api/users').set('Cookie', cookie).expect(200);
+      expect(users.body.map((user: any) => user.username).sort()).toEqual(['ada', 'april', 'bea', 'vic']);
+      const admin = users.body.find((user: any) => user.username === 'ada');
+
+      const demote = await request(authApp)
+        .put(`/api/users/${admin.id}`)
+        .set('Cookie', cookie)
+        .send({ role: 'viewer' })
+        .expect(409);
+      expect(demote.body.error).toBe('The last admin cannot lose the admin role');
+      const remove = await request(authApp).delete(`/api/users/${admin.id}`).set('Cookie', cookie).expect(409);
+      expect(remove.body.error).toBe('The last admin cannot be deleted');
+
+      await request(authApp).delete(`/api/users/${created.body.user.id}`).set('Cookie', cookie).expect(200);
+      await request(authApp).delete(`/api/users/${created.body.user.id}`).set('Cookie', cookie).expect(404);
+    });
+  });
+
+  describe('API tokens', () => {
+    let tokenApp: Express;
+    let auth: AuthService;
+
+    const signIn = async (username: string) => {
+      const response = await request(tokenApp)
+        .post('/api/auth/login')
+        .send({ username, password: 'correct horse' })
+        .expect(200);
+      return response.headers['set-cookie'][0].split(';')[0];
+    };
+
+    const createToken = async (cookie: string, body: Record<string, any>) => {
+      const response = await request(tokenApp).post('/api/tokens').set('Cookie', cookie).send(body).expect(201);
+      return response.body;
+    };
+
+    beforeEach(async () => {
+      const users = new UserRepository(testDb);
+      auth = new AuthService(users, new SessionRepository(testDb));
+      await auth.createUser({ username: 'ada', password: 'correct horse', role: 'admin' });
+      await auth.createUser({ username: 'april', password: 'correct horse', role: 'approver' });
+
+      tokenApp = createServer({
+        configManager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        auth,
+        apiTokens: new ApiTokenService(new ApiTokenRepository(testDb), users)
+      }, { port: 0 });
+    });
+
+    it('should only allow what the token has scopes for', async () => {
+      const created = await createToken(await signIn('ada'), { name: 'ci', kind: 'service', scopes: ['logs:read'] });
+      expect(created.token).toMatch(/^lmb_[0-9a-f]{64}$/);
+      expect(created.apiToken).toMatchObject({ name: 'ci', kind: 'service', scopes: ['logs:read'], createdBy: 'ada' });
+      expect(created.apiToken).not.toHaveProperty('tokenHash');
+      const bearer = `Bearer ${created.token}`;
+
+      await request(tokenApp).get('/api/logs').set('Authorization', bearer).expect(200);
+      const denied = await request(tokenApp).get('/api/config').set('Authorization', bearer).expect(403);
+      expect(denied.body.error).toBe('This token lacks the config:read scope');
+
+      // Tokens cannot manage users or other tokens
+      await request(tokenApp).get('/api/tokens').set('Authorization', bearer).expect(403);
+      await request(tokenApp).get('/api/logs').set('Authorization', 'Bearer lmb_unknown').expect(401);
+    });
+
+    it('should keep personal tokens within the role of their owner', async () => {
+      const cookie = await signIn('april');
+
+      const beyondRole = await request(tokenApp)
+        .post('/api/tokens')
+        .set('Cookie', cookie)
+        .send({ name: 'mine', scopes: ['replies:approve', 'config:write'] })
+        .expect(403);
+      expect(beyondRole.body.error).toBe('The approver role cannot grant the config:write scope');
+
+      const service = await request(tokenApp)
+        .post('/api/tokens')
+        .set('Cookie', cookie)
+        .send({ name: 'mine', kind: 'service', scopes: ['logs:read'] })
+        .expect(403);
+      expect(service.body.error).toBe('Only admins can create service tokens');
+
+      const created = await createToken(cookie, { name: 'mine', scopes: ['replies:approve'] });
+      expect(created.apiToken.kind).toBe('personal');
+
+      // Demoting the owner takes the scope away from the token as well
+      const users = await auth.getUsers();
+      await auth.updateUser(users.find(user => user.username === 'april')!.id, { role: 'viewer' });
+      const demoted = await request(tokenApp)
+        .post('/api/replies/any/approve')
+        .set('Authorization', `Bearer ${created.token}`)
+        .expect(403);
+      expect(demoted.body.error).toBe('This action requires the approver role');
+    });
+
+    it('should reject unknown scopes and past expiry dates', async () => {
+      const cookie = await signIn('ada');
+
+      const unknown = await request(tokenApp)
+        .post('/api/tokens')
+        .set('Cookie', cookie)
+        .send({ name: 'ci', scopes: ['logs:write'] })
+        .expect(400);
+      expect(unknown.body.error).toContain('Invalid scope "logs:write"');
+
+      await request(tokenApp)
+        .post('/api/tokens')
+        .set('Cookie', cookie)
+        .send({ name: 'ci', scopes: ['logs:read'], expiresAt: '2020-01-01T00:00:00Z' })
+        .expect(400);
+      await request(tokenApp)
+        .post('/api/tokens')
+        .set('Cookie', cookie)
+        .send({ name: '', scopes: ['logs:read'] })
+        .expect(400);
+    });
+
+    it('should attribute approvals and changes to the token and track its last use', async () => {
+      await replyRepo.create({
+        id: 'pending-token',
+        originalEmailId: 'email-1',
+        to: 'test@example.com',
+        subject: 'Re: Test',
+        body: 'Reply body',
+        generatedAt: new Date(),
+        status: 'pending'
+      });
+      const cookie = await signIn('april');
+      const created = await createToken(cookie, { name: 'deploy', scopes: ['replies:approve'] });
+      expect(created.apiToken.lastUsedAt).toBeUndefined();
+
+      await request(tokenApp)
+        .post('/api/replies/pending-token/approve')
+        .set('Authorization', `Bearer ${created.token}`)
+        .expect(200);
+
+      expect(autoResponder.processConfirmation).toHaveBeenCalledWith('pending-token', true, 'april (token "deploy")');
+      await vi.waitFor(async () => {
+        const logs = await activityLogRepo.getAll();
+        expect(logs).toHaveLength(1);
+        expect(logs[0]).toMatchObject({
+          type: 'api_request',
+          details: 'POST /api/replies/pending-token/approve by april (token "deploy") (200)',
+          metadata: { tokenId: created.apiToken.id, tokenName: 'deploy', username: 'april', status: 200 }
+        });
+      });
+
+      const tokens = await request(tokenApp).get('/api/tokens').set('Cookie', cookie).expect(200);
+      expect(new Date(tokens.body[0].lastUsedAt).getTime()).toBeGreaterThan(0);
+    });
+
+    it('should attribute reads made with a token in the server log only', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      try {
+        const cookie = await signIn('april');
+        const created = await createToken(cookie, { name: 'deploy', scopes: ['logs:read'] });
+
+        await request(tokenApp).get('/api/logs?limit=5').set('Authorization', `Bearer ${created.token}`).expect(200);
+
+        await vi.waitFor(() => {
+          expect(log).toHaveBeenCalledWith('API token read: GET /api/logs by april (token "deploy") (200)');
+        });
+        expect(await activityLogRepo.getAll()).toEqual([]);
+      } finally {
+        log.mockRestore();
+      }
+    });
+
+    it('should let owners and admins revoke tokens', async () => {
+      const admin = await signIn('ada');
+      const approver = await signIn('april');
+      const own = await createToken(approver, { name: 'mine', scopes: ['logs:read'] });
+      const service = await createToken(admin, { name: 'ci', kind: 'service', scopes: ['logs:read'] });
+
+      const listed = await request(tokenApp).get('/api/tokens').set('Cookie', approver).expect(200);
+      expect(listed.body.map((token: any) => token.name)).toEqual(['mine']);
+      const all = await request(tokenApp).get('/api/tokens').set('Cookie', admin).expect(200);
+      expect(all.body).toHaveLength(2);
+
+      await request(tokenApp).delete(`/api/tokens/${service.apiToken.id}`).set('Cookie', approver).expect(404);
+      await request(tokenApp).delete(`/api/tokens/${own.apiToken.id}`).set('Cookie', approver).expect(200);
+      await request(tokenApp).delete(`/api/tokens/${service.apiToken.id}`).set('Cookie', admin).expect(200);
+
+      await request(tokenApp).get('/api/logs').set('Authorization', `Bearer ${own.token}`).expect(401);
+      await request(tokenApp).get('/api/logs').set('Authorization', `Bearer ${service.token}`).expect(401);
+    });
+  });
+
+  describe('Configuration history', () => {
+    let historyApp: Express;
+    let manager: ConfigurationManagerImpl;
+    let managerDb: Database;
+    let managerDbPath: string;
+    let cookie: string;
+
+    beforeEach(async () => {
+      managerDbPath = `test-config-history-${Date.now()}-${Math.random()}.db`;
+      managerDb = new Database();
+      await managerDb.connect(managerDbPath);
+      await runMigrations(managerDb);
+      manager = new ConfigurationManagerImpl(managerDb, new KeyRing(['test-key'], Buffer.alloc(16, 1)));
+      const auth = new AuthService(new UserRepository(testDb), new SessionRepository(testDb));
+      await auth.createUser({ username: 'ada', password: 'correct horse', role: 'admin' });
+
+      historyApp = createServer({
+        configManager: manager,
+        activityLogRepository: activityLogRepo,
+        replyRepository: replyRepo,
+        autoResponder,
+        auth
+      }, { port: 0 });
+
+      const login = await request(historyApp)
+        .post('/api/auth/login')
+        .send({ username: 'ada', password: 'correct horse' })
+        .expect(200);
+      cookie = login.headers['set-cookie'][0].split(';')[0];
+    });
+
+    afterEach(async () => {
+      await managerDb.close();
+      if (fs.existsSync(managerDbPath)) {
+        fs.unlinkSync(managerDbPath);
+      }
+    });
+
+    it('should list who changed which settings with secrets redacted', async () => {
+      await request(historyApp)
+        .put('/api/config')
+        .set('Cookie', cookie)
+        .send({ email: { password: 'first-secret' }, filters: { keywords: ['urgent'] } })
+        .expect(200);
+
+      const response = await request(historyApp).get('/api/config/history').set('Cookie', cookie).expect(200);
+
+      expect(response.body.versions.map((version: any) => version.version)).toEqual([2, 1]);
+      expect(response.body.versions[0]).toMatchObject({
+        author: 'ada',
+        changes: [
+          { field: 'email.password', from: '', to: '********' },
+          { field: 'filters.keywords', from: [], to: ['urgent'] }
+        ]
+      });
+      expect(response.body.versions[1]).toMatchObject({ version: 1, author: null, changes: [] });
+      expect(JSON.stringify(response.body)).not.toContain('first-secret');
+
+      await request(historyApp).get('/api/config/history?limit=0').set('Cookie', cookie).expect(400);
+    });
+
+    it('should roll back to an earlier version as a new version', async () => {
+      await request(historyApp)
+        .put('/api/config')
+        .set('Cookie', cookie)
+        .send({ autoReply: { replyTemplate: 'Yesterday' } })
+        .expect(200);
+      await request(historyApp)
+        .put('/api/config')
+        .set('Cookie', cookie)
+        .send({ autoReply: { replyTemplate: 'Today' } })
+        .expect(200);
+
+      const response = await request(historyApp)
+        .post('/api/config/rollback/2')
+        .set('Cookie', cookie)
+        .expect(200);
+
+      expect(response.body.message).toBe('Configuration rolled back to version 2');
+      expect(response.body.version).toMatchObject({
+        version: 4,
+        author: 'ada',
+        rollbackOf: 2,
+        changes: [{ field: 'autoReply.replyTemplate', from: 'Today', to: 'Yesterday' }]
+      });
+      expect(response.body.config.autoReply.replyTemplate).toBe('Yesterday');
+      expect((await manager.getConfig()).autoReply.replyTemplate).toBe('Yesterday');
+
+      await request(historyApp).post('/api/config/rollback/99').set('Cookie', cookie).expect(404);
+      await request(historyApp).post('/api/config/rollback/first').set('Cookie', cookie).expect(400);
+      await request(historyApp).post('/api/config/rollback/2').set('Cookie', cookie).send({ restoreSecrets: 'yes' }).expect(400);
+    });
+  });
 });
 
 describe('API Routes - Property Tests', () => {
@@ -1,9 +1,50 @@
-import { Router, Request, Response, NextFunction } from 'express';
-import { ConfigurationManager } from '../config';
+import { Router, Request, Response, NextFunction, RequestHandler, raw } from 'express';
+import { ConfigurationManager, ConfigReloader, buildTemplateOptions, createDefaultConfig } from '../config';
 import { ActivityLogRepository } from '../database/ActivityLogRepository';
 import { ReplyRepository } from '../database/ReplyRepository';
-import { AutoResponder } from '../responder';
-import { EmailMonitor } from '../monitor';
+import { RuleRepository } from '../database/RuleRepository';
+import { TemplateRepository } from '../database/TemplateRepository';
+import { AssetRepository } from '../database/AssetRepository';
+import { AccountRepository } from '../database/AccountRepository';
+import { AccountRegistry } from '../accounts';
+import {
+  AuthService,
+  ApiTokenService,
+  SESSION_COOKIE,
+  getSessionToken,
+  requireRole,
+  requireScope,
+  describeActor
+} from '../auth';
+import { AutoResponder, renderTemplate, renderHtmlTemplate, validateTemplate, TemplateSyntaxError, SAMPLE_EMAIL } from '../responder';
+import { EmailMonitor, MonitorMode, MonitorState, htmlToText } from '../monitor';
+import { ImapSessionManager } from '../imap';
+import {
+  Account,
+  Config,
+  DEFAULT_ACCOUNT_ID,
+  MailboxConfig,
+  Rule,
+  Template,
+  Asset,
+  MAX_ASSET_SIZE,
+  validateAsset,
+  validateRuleExpression,
+  isValidRuleAction,
+  isValidTimeZone,
+  validateBusinessHours,
+  validateEmailAuth,
+  validateUser,
+  validateApiToken,
+  TokenScope,
+  SCOPE_ROLES,
+  hasRole,
+  validateMailboxes,
+  validatePostActionConfig,
+  validatePostActions,
+  mergeEmailConfig
+} from '../models';
+import { randomUUID } from 'crypto';
 
 export interface ApiDependencies {
   configManager: ConfigurationManager;
@@ -11,6 +52,54 @@ export interface ApiDependencies {
   replyRepository: ReplyRepository;
   autoResponder: AutoResponder;
   emailMonitor?: EmailMonitor;
+  configReloader?: ConfigReloader;
+  ruleRepository?: RuleRepository;
+  onRulesChanged?: (rules: Rule[]) => void;
+  templateRepository?: TemplateRepository;
+  onTemplatesChanged?: (templates: Template[]) => void;
+  assetRepository?: AssetRepository;
+  imapSessions?: ImapSessionManager;
+  accounts?: AccountRegistry; // Running services of every account, the default one included
+  accountRepository?: AccountRepository;
+  auth?: AuthService; // Requires sign-in and a role for every route but /health and /auth/login
+  apiTokens?: ApiTokenService; // Enables /tokens; needs auth
+}
+
+/**
+ * What a request addresses: one account under /accounts/:accountId, the
+ * default account otherwise
+ */
+interface AccountScope {
+  accountId: string;
+  account?: Account; // Unset for the default account, whose configuration is managed by configManager
+  autoResponder: AutoResponder;
+  monitor: EmailMonitor | null;
+  configReloader?: ConfigReloader;
+  imapSessions?: ImapSessionManager;
+  getConfig(): Promise<Config>;
+}
+
+// Registers a route for the default account and for each account by id
+function scoped(path: string): string[] {
+  return [path, `/accounts/:accountId${path}`];
+}
+
+// Copy of a configuration that is safe to send to the dashboard
+function withoutPassword<T extends Config>(config: T): T {
+  return {
+    ...config,
+    email: {
+      ...config.email,
+      password: config.email.password ? '********' : '',
+      ...(config.email.oauth2 && {
+        oauth2: {
+          ...config.email.oauth2,
+          clientSecret: config.email.oauth2.clientSecret ? '********' : '',
+          refreshToken: config.email.oauth2.refreshToken ? '********' : ''
+        }
+      })
+    }
+  };
 }
 
 // Validation middleware
@@ -43,6 +132,11 @@ function validateConfigUpdate(req: Request, res: Response, next: NextFunction):
       res.status(400).json({ error: 'Invalid password: must be a string' });
       return;
     }
+    const authError = validateEmailAuth(email, true);
+    if (authError) {
+      res.status(400).json({ error: `Invalid ${authError}` });
+      return;
+    }
   }
 
   // Validate filters config if provided
@@ -71,15 +165,275 @@ function validateConfigUpdate(req: Request, res: Response, next: NextFunction):
       res.status(400).json({ error: 'Invalid replyTemplate: must be a string' });
       return;
     }
+    if (autoReply.replyTemplate !== undefined) {
+      const templateError = validateTemplate(autoReply.replyTemplate);
+      if (templateError) {
+        res.status(400).json(templateErrorResponse('replyTemplate', templateError));
+        return;
+      }
+    }
+    if (autoReply.replyHtmlTemplate !== undefined) {
+      if (typeof autoReply.replyHtmlTemplate !== 'string') {
+        res.status(400).json({ error: 'Invalid replyHtmlTemplate: must be a string' });
+        return;
+      }
+      const templateError = validateTemplate(autoReply.replyHtmlTemplate);
+      if (templateError) {
+        res.status(400).json(templateErrorResponse('replyHtmlTemplate', templateError));
+        return;
+      }
+    }
     if (autoReply.checkInterval !== undefined && (typeof autoReply.checkInterval !== 'number' || autoReply.checkInterval <= 0)) {
       res.status(400).json({ error: 'Invalid checkInterval: must be a positive number' });
       return;
     }
+    if (autoReply.mailboxes !== undefined) {
+      const mailboxesError = validateMailboxes(autoReply.mailboxes);
+      if (mailboxesError) {
+        res.status(400).json({ error: `Invalid ${mailboxesError}` });
+        return;
+      }
+    }
+    if (autoReply.pushMode !== undefined && typeof autoReply.pushMode !== 'boolean') {
+      res.status(400).json({ error: 'Invalid pushMode: must be a boolean' });
+      return;
+    }
+    if (autoReply.leaveUnread !== undefined && typeof autoReply.leaveUnread !== 'boolean') {
+      res.status(400).json({ error: 'Invalid leaveUnread: must be a boolean' });
+      return;
+    }
+    if (autoReply.postActions !== undefined) {
+      const postActionsError = validatePostActionConfig(autoReply.postActions);
+      if (postActionsError) {
+        res.status(400).json({ error: `Invalid ${postActionsError}` });
+        return;
+      }
+    }
+    if (autoReply.senderCooldownHours !== undefined && (typeof autoReply.senderCooldownHours !== 'number' || autoReply.senderCooldownHours < 0)) {
+      res.status(400).json({ error: 'Invalid senderCooldownHours: must be a non-negative number' });
+      return;
+    }
+    if (autoReply.timeZone !== undefined && autoReply.timeZone !== '' && !isValidTimeZone(autoReply.timeZone)) {
+      res.status(400).json({ error: `Invalid timeZone: ${autoReply.timeZone}` });
+      return;
+    }
+    if (autoReply.businessHours !== undefined) {
+      const businessHoursError = validateBusinessHours(autoReply.businessHours);
+      if (businessHoursError) {
+        res.status(400).json({ error: `Invalid ${businessHoursError}` });
+        return;
+      }
+    }
+    if (autoReply.replyWithinHours !== undefined && (typeof autoReply.replyWithinHours !== 'number' || autoReply.replyWithinHours < 0)) {
+      res.status(400).json({ error: 'Invalid replyWithinHours: must be a non-negative number' });
+      return;
+    }
+  }
+
+  next();
+}
+
+// Rules and templates name the account they are limited to, or null for all accounts
+function isValidAccountReference(accountId: any): boolean {
+  return accountId === undefined || accountId === null || (typeof accountId === 'string' && accountId.length > 0);
+}
+
+// Validation middleware for account create/rename; settings are checked by validateConfigUpdate
+function validateAccount(req: Request, res: Response, next: NextFunction): void {
+  const { name } = req.body;
+
+  if ((req.method === 'POST' || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0)) {
+    res.status(400).json({ error: 'Invalid name: must be a non-empty string' });
+    return;
+  }
+
+  next();
+}
+
+// Validation middleware for dashboard users; an update may change the password or the role
+function validateUserFields(req: Request, res: Response, next: NextFunction): void {
+  const error = validateUser(req.body || {}, req.method !== 'POST');
+  if (error) {
+    res.status(400).json({ error: `Invalid ${error}` });
+    return;
+  }
+
+  next();
+}
+
+// Validation middleware for API token creation
+function validateApiTokenFields(req: Request, res: Response, next: NextFunction): void {
+  const error = validateApiToken(req.body || {});
+  if (error) {
+    res.status(400).json({ error: `Invalid ${error}` });
+    return;
+  }
+
+  next();
+}
+
+// Validation middleware for rule create/update; partial bodies are allowed on update
+function validateRule(req: Request, res: Response, next: NextFunction): void {
+  const { name, position, enabled, condition, action, accountId } = req.body;
+  const isCreate = req.method === 'POST';
+
+  if ((isCreate || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0)) {
+    res.status(400).json({ error: 'Invalid name: must be a non-empty string' });
+    return;
+  }
+  if (position !== undefined && (!Number.isInteger(position) || position < 0)) {
+    res.status(400).json({ error: 'Invalid position: must be a non-negative integer' });
+    return;
+  }
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    res.status(400).json({ error: 'Invalid enabled: must be a boolean' });
+    return;
+  }
+  if (!isValidAccountReference(accountId)) {
+    res.status(400).json({ error: 'Invalid accountId: must be an account id or null' });
+    return;
+  }
+  if (isCreate || condition !== undefined) {
+    const conditionError = validateRuleExpression(condition);
+    if (conditionError) {
+      res.status(400).json({ error: `Invalid condition: ${conditionError}` });
+      return;
+    }
+  }
+  if (action?.postActions !== undefined) {
+    const postActionsError = validatePostActions(action.postActions, 'action.postActions');
+    if (postActionsError) {
+      res.status(400).json({ error: `Invalid ${postActionsError}` });
+      return;
+    }
+  }
+  if ((isCreate || action !== undefined) && !isValidRuleAction(action)) {
+    res.status(400).json({
+      error: 'Invalid action: type must be one of reply, queue, skip, mark_read, leave_unread (template only for reply/queue)'
+    });
+    return;
+  }
+  if (typeof action?.template === 'string') {
+    const templateError = validateTemplate(action.template);
+    if (templateError) {
+      res.status(400).json(templateErrorResponse('action.template', templateError));
+      return;
+    }
   }
 
   next();
 }
 
+// Validation middleware for template create/update; partial bodies are allowed on update
+function validateTemplateFields(req: Request, res: Response, next: NextFunction): void {
+  const { name, body, htmlBody, assetIds, keywords, isDefault, accountId } = req.body;
+  const isCreate = req.method === 'POST';
+
+  if ((isCreate || name !== undefined) && (typeof name !== 'string' || name.trim().length === 0)) {
+    res.status(400).json({ error: 'Invalid name: must be a non-empty string' });
+    return;
+  }
+  for (const [field, value] of [['body', body], ['htmlBody', htmlBody]] as const) {
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      res.status(400).json({ error: `Invalid ${field}: must be a string` });
+      return;
+    }
+    const templateError = validateTemplate(value);
+    if (templateError) {
+      res.status(400).json(templateErrorResponse(field, templateError));
+      return;
+    }
+  }
+  if (isCreate && !hasTemplateBody(body, htmlBody)) {
+    res.status(400).json({ error: 'Invalid body: a text or HTML body is required' });
+    return;
+  }
+  if (keywords !== undefined && (!Array.isArray(keywords) || !keywords.every((k: any) => typeof k === 'string'))) {
+    res.status(400).json({ error: 'Invalid keywords: must be an array of strings' });
+    return;
+  }
+  if (isDefault !== undefined && typeof isDefault !== 'boolean') {
+    res.status(400).json({ error: 'Invalid isDefault: must be a boolean' });
+    return;
+  }
+  if (assetIds !== undefined && (!Array.isArray(assetIds) || !assetIds.every((id: any) => typeof id === 'string'))) {
+    res.status(400).json({ error: 'Invalid assetIds: must be an array of strings' });
+    return;
+  }
+  if (!isValidAccountReference(accountId)) {
+    res.status(400).json({ error: 'Invalid accountId: must be an account id or null' });
+    return;
+  }
+
+  next();
+}
+
+// Error body for a template that does not parse, with the position for editors to highlight
+function templateErrorResponse(field: string, error: TemplateSyntaxError) {
+  return {
+    error: `Invalid ${field}: ${error.message}`,
+    templateError: { message: error.reason, line: error.line, column: error.column }
+  };
+}
+
+function hasTemplateBody(body?: string, htmlBody?: string): boolean {
+  return Boolean(body?.trim() || htmlBody?.trim());
+}
+
+function normalizeKeywords(keywords: string[] = []): string[] {
+  return keywords.map(k => k.trim()).filter(k => k.length > 0);
+}
+
+// Monitor states in which the inbox is actively polled; a failed monitor waits for a resume
+const ACTIVE_MONITOR_STATES: MonitorState[] = ['running', 'backing_off'];
+
+// Requests that only read; polling them would crowd the activity log
+const READ_METHODS = ['GET', 'HEAD'];
+
+// Attributes every request made with an API token: changes are recorded in the activity log
+// of the account they address, reads in the server log
+function logTokenRequests(activityLogRepository: ActivityLogRepository): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = req.apiToken;
+    if (token) {
+      const path = req.originalUrl.split('?')[0];
+      const account = /^\/accounts\/([^/]+)/.exec(req.path);
+      const actor = describeActor(req);
+
+      res.on('finish', () => {
+        if (READ_METHODS.includes(req.method)) {
+          console.log(`API token read: ${req.method} ${path} by ${actor} (${res.statusCode})`);
+          return;
+        }
+
+        activityLogRepository.create({
+          id: randomUUID(),
+          timestamp: new Date(),
+          type: 'api_request',
+          emailId: '',
+          accountId: account ? account[1] : undefined,
+          details: `${req.method} ${path} by ${actor} (${res.statusCode})`,
+          metadata: {
+            tokenId: token.id,
+            tokenName: token.name,
+            ...(req.user && { username: req.user.username }),
+            method: req.method,
+            path,
+            status: res.statusCode
+          }
+        }).catch((err) => {
+          console.error('Failed to log API token request:', err);
+        });
+      });
+    }
+
+    next();
+  };
+}
+
 // Error handling middleware
 function errorHandler(err: Error, _req: Request, res: Response, _next: NextFunction) {
   console.error('API Error:', err);
@@ -93,7 +447,87 @@ function errorHandler(err: Error, _req: Request, res: Response, _next: NextFunct
 
 export function createApiRouter(dependencies: ApiDependencies): Router {
   const router = Router();
-  const { configManager, activityLogRepository, replyRepository, autoResponder, emailMonitor } = dependencies;
+  const {
+    configManager,
+    activityLogRepository,
+    replyRepository,
+    autoResponder,
+    emailMonitor,
+    configReloader,
+    ruleRepository,
+    onRulesChanged,
+    templateRepository,
+    onTemplatesChanged,
+    assetRepository,
+    imapSessions,
+    accounts,
+    accountRepository,
+    auth,
+    apiTokens
+  } = dependencies;
+
+  // Without an auth service the routes are left open, e.g. behind a gateway that signs users in
+  const allow = (scope: TokenScope): RequestHandler =>
+    auth ? requireScope(scope) : (_req: Request, _res: Response, next: NextFunction) => next();
+
+  if (auth) {
+    router.use(logTokenRequests(activityLogRepository));
+  }
+
+  // The monitor may be created later by a configuration reload
+  const getMonitor = (): EmailMonitor | null =>
+    configReloader ? configReloader.getEmailMonitor() : emailMonitor || null;
+
+  // Responds with 404 and returns null when the addressed account does not exist
+  const resolveScope = async (req: Request, res: Response): Promise<AccountScope | null> => {
+    const accountId = req.params.accountId || DEFAULT_ACCOUNT_ID;
+    if (accountId === DEFAULT_ACCOUNT_ID) {
+      return {
+        accountId,
+        autoResponder,
+        monitor: getMonitor(),
+        configReloader,
+        imapSessions,
+        getConfig: () => configManager.getConfig()
+      };
+    }
+
+    const services = accounts?.get(accountId);
+    const account = services && accountRepository ? await accountRepository.getById(accountId) : null;
+    if (!services || !account) {
+      res.status(404).json({ error: 'Account not found' });
+      return null;
+    }
+
+    return {
+      accountId,
+      account,
+      autoResponder: services.autoResponder,
+      monitor: services.configReloader.getEmailMonitor(),
+      configReloader: services.configReloader,
+      imapSessions: services.imapSessions,
+      getConfig: async () => account
+    };
+  };
+
+  // Responds with an error and returns null when the account has no monitor
+  const requireMonitor = async (req: Request, res: Response): Promise<EmailMonitor | null> => {
+    const scope = await resolveScope(req, res);
+    if (!scope) return null;
+
+    if (!scope.monitor) {
+      res.status(400).json({ error: 'Email monitor is not configured: save IMAP credentials first' });
+    }
+    return scope.monitor;
+  };
+
+  // The responder handling a stored reply, null when its account was removed
+  const responderFor = (reply: { accountId?: string }): AutoResponder | null => {
+    if (!reply.accountId || reply.accountId === DEFAULT_ACCOUNT_ID) {
+      return autoResponder;
+    }
+    return accounts?.get(reply.accountId)?.autoResponder || null;
+  };
 
   // GET /api/health - Health check endpoint for Docker/cloud deployments
   router.get('/health', (_req: Request, res: Response) => {
@@ -104,19 +538,227 @@ export function createApiRouter(dependencies: ApiDependencies): Router {
     });
   });
 
-  // GET /api/status - Get system status
-  router.get('/status', async (_req: Request, res: Response, next: NextFunction) => {
+  if (auth) {
+    // POST /api/auth/login - Sign in; the session token is set as a cookie and returned for API clients
+    router.post('/auth/login', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const { username, password } = req.body || {};
+        if (typeof username !== 'string' || typeof password !== 'string') {
+          res.status(400).json({ error: 'Invalid login: username and password are required' });
+          return;
+        }
+
+        const session = await auth.login(username, password);
+        if (!session) {
+          res.status(401).json({ error: 'Invalid username or password' });
+          return;
+        }
+
+        res.cookie(SESSION_COOKIE, session.token, {
+          httpOnly: true,
+          sameSite: 'strict',
+          secure: req.secure,
+          expires: session.expiresAt,
+          path: '/'
+        });
+        res.json({ token: session.token, expiresAt: session.expiresAt, user: session.user });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // POST /api/auth/logout - End the current session
+    router.post('/auth/logout', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const token = getSessionToken(req);
+        if (token) {
+          await auth.logout(token);
+        }
+
+        res.clearCookie(SESSION_COOKIE, { path: '/' });
+        res.json({ message: 'Signed out' });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // GET /api/auth/me - The signed-in user and their role
+    router.get('/auth/me', requireRole('viewer'), (req: Request, res: Response) => {
+      res.json(req.user);
+    });
+  }
+
+  // GET /api/status - Get system status of the default account (or /api/accounts/:accountId/status)
+  router.get(scoped('/status'), allow('status:read'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const config = await configManager.getConfig();
-      const pendingReplies = await replyRepository.getByStatus('pending');
-      const sentReplies = await replyRepository.getByStatus('sent');
+      const scope = await resolveScope(req, res);
+      if (!scope) return;
+
+      const config = await scope.getConfig();
+      const pendingReplies = await replyRepository.getByStatus('pending', scope.accountId);
+      const sentReplies = await replyRepository.getByStatus('sent', scope.accountId);
+      const monitor = scope.monitor;
+      const monitorStatus = monitor ? monitor.getStatus() : { state: 'idle' as MonitorState, mode: 'polling' as MonitorMode, consecutiveFailures: 0 };
       
       res.json({
-        monitoring: emailMonitor ? true : false,
+        accountId: scope.accountId,
+        monitoring: ACTIVE_MONITOR_STATES.includes(monitorStatus.state),
+        monitor: {
+          configured: monitor !== null,
+          ...monitorStatus
+        },
         manualConfirmationEnabled: config.autoReply.manualConfirmation,
         pendingRepliesCount: pendingReplies.length,
         totalRepliesSent: sentReplies.length,
-        checkInterval: config.autoReply.checkInterval
+        checkInterval: config.autoReply.checkInterval,
+        ...(scope.imapSessions && { imapConnections: scope.imapSessions.getMetrics() })
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The monitor routes below also exist under /api/accounts/:accountId
+
+  // POST /api/monitor/start - Start monitoring the inbox
+  router.post(scoped('/monitor/start'), allow('monitor:control'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const monitor = await requireMonitor(req, res);
+      if (!monitor) return;
+
+      const { state } = monitor.getStatus();
+      if (state !== 'idle') {
+        res.status(400).json({ error: `Email monitor is already started (current state: ${state})` });
+        return;
+      }
+
+      // The first check runs in the background so the request is not held up by IMAP
+      monitor.start().catch((err) => {
+        console.error('Failed to start email monitor:', err);
+      });
+
+      res.json({
+        message: 'Email monitor started',
+        monitor: monitor.getStatus()
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/monitor/stop - Stop monitoring after the current email is processed
+  router.post(scoped('/monitor/stop'), allow('monitor:control'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const monitor = await requireMonitor(req, res);
+      if (!monitor) return;
+
+      const { state } = monitor.getStatus();
+      if (state === 'idle') {
+        res.status(400).json({ error: 'Email monitor is not running' });
+        return;
+      }
+
+      await monitor.stop();
+
+      res.json({
+        message: 'Email monitor stopped',
+        monitor: monitor.getStatus()
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/monitor/pause - Suspend scheduled checks
+  router.post(scoped('/monitor/pause'), allow('monitor:control'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const monitor = await requireMonitor(req, res);
+      if (!monitor) return;
+
+      const { state } = monitor.getStatus();
+      if (!ACTIVE_MONITOR_STATES.includes(state)) {
+        res.status(400).json({ error: `Email monitor cannot be paused (current state: ${state})` });
+        return;
+      }
+
+      monitor.pause();
+
+      res.json({
+        message: 'Email monitor paused',
+        monitor: monitor.getStatus()
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/monitor/resume - Resume scheduled checks after a pause or the failure limit
+  router.post(scoped('/monitor/resume'), allow('monitor:control'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const monitor = await requireMonitor(req, res);
+      if (!monitor) return;
+
+      const { state } = monitor.getStatus();
+      if (state !== 'paused' && state !== 'failed') {
+        res.status(400).json({ error: `Email monitor is not paused or failed (current state: ${state})` });
+        return;
+      }
+
+      monitor.resume();
+
+      res.json({
+        message: 'Email monitor resumed',
+        monitor: monitor.getStatus()
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/monitor/check-now - Check the inbox immediately
+  router.post(scoped('/monitor/check-now'), allow('monitor:control'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const monitor = await requireMonitor(req, res);
+      if (!monitor) return;
+
+      const { state } = monitor.getStatus();
+      if (state === 'idle') {
+        res.status(400).json({ error: 'Email monitor is not running' });
+        return;
+      }
+
+      const checked = await monitor.checkNow();
+
+      res.json({
+        message: checked ? 'Inbox checked' : 'A check is already in progress',
+        checked,
+        monitor: monitor.getStatus()
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/mailboxes - List the folders on the IMAP server and which are watched
+  router.get(scoped('/mailboxes'), allow('config:read'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const scope = await resolveScope(req, res);
+      if (!scope) return;
+
+      if (!scope.imapSessions) {
+        res.status(400).json({ error: 'IMAP is not configured: save IMAP credentials first' });
+        return;
+      }
+
+      const config = await scope.getConfig();
+      const watched = config.autoReply.mailboxes?.length ? config.autoReply.mailboxes : [{ name: 'INBOX' }];
+      const mailboxes = await scope.imapSessions.listMailboxes();
+
+      res.json({
+        mailboxes: mailboxes.map(mailbox => ({
+          ...mailbox,
+          monitored: watched.some(m => m.name === mailbox.name)
+        }))
       });
     } catch (error) {
       next(error);
@@ -124,54 +766,149 @@ export function createApiRouter(dependencies: ApiDependencies): Router {
   });
 
   // GET /api/config - Get current configuration
-  router.get('/config', async (_req: Request, res: Response, next: NextFunction) => {
+  router.get(scoped('/config'), allow('config:read'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const config = await configManager.getConfig();
-      
+      const scope = await resolveScope(req, res);
+      if (!scope) return;
+
       // Don't send the password in the response
-      const safeConfig = {
-        ...config,
-        email: {
-          ...config.email,
-          password: config.email.password ? '********' : ''
-        }
-      };
-      
-      res.json(safeConfig);
+      res.json(withoutPassword(await scope.getConfig()));
     } catch (error) {
       next(error);
     }
   });
 
+  // Watched mailboxes may only select stored templates that exist
+  const findMissingMailboxTemplate = async (req: Request): Promise<string | null> => {
+    const mailboxes: MailboxConfig[] = req.body.autoReply?.mailboxes || [];
+    for (const { templateId } of mailboxes) {
+      if (templateId && templateRepository && !await templateRepository.getById(templateId)) {
+        return templateId;
+      }
+    }
+    return null;
+  };
+
   // PUT /api/config - Update configuration
-  router.put('/config', validateConfigUpdate, async (req: Request, res: Response, next: NextFunction) => {
+  router.put(scoped('/config'), allow('config:write'), validateConfigUpdate, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      await configManager.updateConfig(req.body);
-      const updatedConfig = await configManager.getConfig();
+      const scope = await resolveScope(req, res);
+      if (!scope) return;
+
+      const missingTemplate = await findMissingMailboxTemplate(req);
+      if (missingTemplate) {
+        res.status(400).json({ error: `Invalid autoReply: mailbox template not found: ${missingTemplate}` });
+        return;
+      }
+
+      let updatedConfig: Config;
+      let reload;
+      if (scope.account && accounts && accountRepository) {
+        // Accounts are merged per section like the default configuration
+        const account: Account = {
+          ...scope.account,
+          email: mergeEmailConfig(scope.account.email, req.body.email),
+          filters: { ...scope.account.filters, ...req.body.filters },
+          autoReply: { ...scope.account.autoReply, ...req.body.autoReply },
+          updatedAt: new Date()
+        };
+        await accountRepository.update(account);
+        reload = await accounts.update(account.id, account);
+        updatedConfig = account;
+      } else {
+        await configManager.updateConfig(req.body, describeActor(req));
+        updatedConfig = await configManager.getConfig();
+
+        // Wait for the running components to pick up the change
+        reload = configReloader ? await configReloader.whenApplied() : null;
+      }
       
       // Don't send the password in the response
-      const safeConfig = {
-        ...updatedConfig,
-        email: {
-          ...updatedConfig.email,
-          password: updatedConfig.email.password ? '********' : ''
-        }
-      };
-      
       res.json({
         message: 'Configuration updated successfully',
-        config: safeConfig
+        config: withoutPassword(updatedConfig),
+        reload
       });
     } catch (error) {
       next(error);
     }
   });
 
-  // GET /api/logs - Get activity logs with pagination
-  router.get('/logs', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  // GET /api/config/history - Saved versions of the configuration, newest first, secrets redacted
+  router.get('/config/history', allow('config:read'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const limitParam = req.query.limit as string;
       const offsetParam = req.query.offset as string;
+
+      const limit = limitParam ? parseInt(limitParam) : 50;
+      const offset = offsetParam ? parseInt(offsetParam) : 0;
+
+      if (isNaN(limit) || limit < 1 || limit > 1000) {
+        res.status(400).json({ error: 'Invalid limit: must be between 1 and 1000' });
+        return;
+      }
+      if (isNaN(offset) || offset < 0) {
+        res.status(400).json({ error: 'Invalid offset: must be non-negative' });
+        return;
+      }
+
+      const versions = await configManager.getHistory(limit, offset);
+
+      res.json({
+        versions,
+        pagination: {
+          limit,
+          offset,
+          count: versions.length
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // POST /api/config/rollback/:version - Restore the settings of a version as a new version
+  router.post('/config/rollback/:version', allow('config:write'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const version = Number(req.params.version);
+      if (!Number.isInteger(version) || version < 1) {
+        res.status(400).json({ error: 'Invalid version: must be a positive integer' });
+        return;
+      }
+      const restoreSecrets = req.body?.restoreSecrets;
+      if (restoreSecrets !== undefined && typeof restoreSecrets !== 'boolean') {
+        res.status(400).json({ error: 'Invalid restoreSecrets: must be a boolean' });
+        return;
+      }
+
+      const restored = await configManager.rollback(version, describeActor(req), { restoreSecrets });
+      if (!restored) {
+        res.status(404).json({ error: 'Configuration version not found' });
+        return;
+      }
+
+      // Wait for the running components to pick up the change
+      const reload = configReloader ? await configReloader.whenApplied() : null;
+
+      res.json({
+        message: `Configuration rolled back to version ${version}`,
+        version: restored,
+        config: withoutPassword(await configManager.getConfig()),
+        reload
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // GET /api/logs - Get activity logs of all accounts with pagination (or /api/accounts/:accountId/logs)
+  router.get(scoped('/logs'), allow('logs:read'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const scope = await resolveScope(req, res);
+      if (!scope) return;
+
+      const limitParam = req.query.limit as string;
+      const offsetParam = req.query.offset as string;
       
       const limit = limitParam ? parseInt(limitParam) : 100;
       const offset = offsetParam ? parseInt(offsetParam) : 0;
@@ -186,7 +923,7 @@ export function createApiRouter(dependencies: ApiDependencies): Router {
         return;
       }
       
-      const logs = await activityLogRepository.getAll(limit, offset);
+      const logs = await activityLogRepository.getAll(limit, offset, req.params.accountId && scope.accountId);
       
       res.json({
         logs,
@@ -201,10 +938,13 @@ export function createApiRouter(dependencies: ApiDependencies): Router {
     }
   });
 
-  // GET /api/pending-replies - Get pending replies for manual confirmation
-  router.get('/pending-replies', async (_req: Request, res: Response, next: NextFunction) => {
+  // GET /api/pending-replies - Get pending replies of all accounts (or /api/accounts/:accountId/pending-replies)
+  router.get(scoped('/pending-replies'), allow('replies:read'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-      const pendingReplies = await replyRepository.getByStatus('pending');
+      const scope = await resolveScope(req, res);
+      if (!scope) return;
+
+      const pendingReplies = await replyRepository.getByStatus('pending', req.params.accountId && scope.accountId);
       
       res.json({
         replies: pendingReplies,
@@ -216,7 +956,7 @@ export function createApiRouter(dependencies: ApiDependencies): Router {
   });
 
   // POST /api/replies/:id/approve - Approve a pending reply
-  router.post('/replies/:id/approve', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  router.post('/replies/:id/approve', allow('replies:approve'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
       
@@ -233,8 +973,14 @@ export function createApiRouter(dependencies: ApiDependencies): Router {
         return;
       }
       
-      // Process the approval through AutoResponder
-      await autoResponder.processConfirmation(id, true);
+      const responder = responderFor(reply);
+      if (!responder) {
+        res.status(400).json({ error: 'The account of this reply no longer exists' });
+        return;
+      }
+
+      // Process the approval through the AutoResponder of the reply's account
+      await responder.processConfirmation(id, true, describeActor(req));
       
       res.json({
         message: 'Reply approved and sent successfully',
@@ -246,7 +992,7 @@ export function createApiRouter(dependencies: ApiDependencies): Router {
   });
 
   // POST /api/replies/:id/reject - Reject a pending reply
-  router.post('/replies/:id/reject', async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  router.post('/replies/:id/reject', allow('replies:approve'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const { id } = req.params;
       
@@ -263,8 +1009,14 @@ export function createApiRouter(dependencies: ApiDependencies): Router {
         return;
       }
       
-      // Process the rejection through AutoResponder
-      await autoResponder.processConfirmation(id, false);
+      const responder = responderFor(reply);
+      if (!responder) {
+        res.status(400).json({ error: 'The account of this reply no longer exists' });
+        return;
+      }
+
+      // Process the rejection through the AutoResponder of the reply's account
+      await responder.processConfirmation(id, false, describeActor(req));
       
       res.json({
         message: 'Reply rejected successfully',
@@ -275,6 +1027,687 @@ export function createApiRouter(dependencies: ApiDependencies): Router {
     }
   });
 
+  // Rules and templates may only be limited to accounts that exist
+  const findMissingAccount = async (req: Request): Promise<string | null> => {
+    const accountId = req.body.accountId;
+    if (!accountId || accountId === DEFAULT_ACCOUNT_ID) {
+      return null;
+    }
+    return accountRepository && await accountRepository.getById(accountId) ? null : accountId;
+  };
+
+  if (accounts && accountRepository) {
+    // GET /api/accounts - List the accounts, the default one first
+    router.get('/accounts', allow('accounts:read'), async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const config = await configManager.getConfig();
+        const stored = await accountRepository.getAll();
+        const summaries = [
+          { id: DEFAULT_ACCOUNT_ID, name: 'Default', username: config.email.username },
+          ...stored.map(account => ({ id: account.id, name: account.name, username: account.email.username }))
+        ].map(summary => {
+          const monitor = accounts.getMonitor(summary.id);
+          return {
+            ...summary,
+            monitor: { configured: monitor !== null, state: monitor ? monitor.getStatus().state : 'idle' }
+          };
+        });
+
+        res.json({ accounts: summaries, count: summaries.length });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // POST /api/accounts - Add an account; omitted settings start from the defaults
+    router.post('/accounts', allow('accounts:write'), validateAccount, validateConfigUpdate, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const missingTemplate = await findMissingMailboxTemplate(req);
+        if (missingTemplate) {
+          res.status(400).json({ error: `Invalid autoReply: mailbox template not found: ${missingTemplate}` });
+          return;
+        }
+
+        const defaults = createDefaultConfig();
+        const now = new Date();
+        const account: Account = {
+          id: randomUUID(),
+          name: req.body.name.trim(),
+          email: { ...defaults.email, ...req.body.email },
+          filters: { ...defaults.filters, ...req.body.filters },
+          autoReply: { ...defaults.autoReply, ...req.body.autoReply },
+          createdAt: now,
+          updatedAt: now
+        };
+
+        await accountRepository.create(account);
+        await accounts.add(account.id, account);
+
+        // The first check runs in the background so the request is not held up by IMAP
+        accounts.start(account.id).catch((err) => {
+          console.error('Failed to start email monitor:', err);
+        });
+
+        res.status(201).json({ message: 'Account created successfully', account: withoutPassword(account) });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // PUT /api/accounts/:accountId - Rename an account; settings go to /api/accounts/:accountId/config
+    router.put('/accounts/:accountId', allow('accounts:write'), validateAccount, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const existing = await accountRepository.getById(req.params.accountId);
+
+        if (!existing) {
+          res.status(404).json({ error: 'Account not found' });
+          return;
+        }
+
+        const account: Account = {
+          ...existing,
+          ...(req.body.name !== undefined && { name: req.body.name.trim() }),
+          updatedAt: new Date()
+        };
+
+        await accountRepository.update(account);
+
+        res.json({ message: 'Account updated successfully', account: withoutPassword(account) });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // DELETE /api/accounts/:accountId - Stop and remove an account no rule or template is limited to
+    router.delete('/accounts/:accountId', allow('accounts:write'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const existing = await accountRepository.getById(req.params.accountId);
+
+        if (!existing) {
+          res.status(404).json({ error: 'Account not found' });
+          return;
+        }
+
+        const rules = ruleRepository ? await ruleRepository.getAll() : [];
+        const rule = rules.find(r => r.accountId === existing.id);
+        if (rule) {
+          res.status(409).json({ error: `Account is used by rule "${rule.name}"` });
+          return;
+        }
+
+        const templates = templateRepository ? await templateRepository.getAll() : [];
+        const template = templates.find(t => t.accountId === existing.id);
+        if (template) {
+          res.status(409).json({ error: `Account is used by template "${template.name}"` });
+          return;
+        }
+
+        await accounts.remove(existing.id);
+        await accountRepository.delete(existing.id);
+
+        res.json({ message: 'Account deleted successfully', accountId: existing.id });
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  if (ruleRepository) {
+    // Rules may only point at stored templates that exist
+    const findMissingTemplate = async (req: Request): Promise<string | null> => {
+      const templateId = req.body.action?.templateId;
+      if (!templateId || !templateRepository) {
+        return null;
+      }
+      return await templateRepository.getById(templateId) ? null : templateId;
+    };
+
+    // Push the current rule set to the filter after every change
+    const publishRules = async (): Promise<void> => {
+      if (onRulesChanged) {
+        onRulesChanged(await ruleRepository.getAll());
+      }
+    };
+
+    // GET /api/rules - List rules in evaluation order
+    router.get('/rules', allow('rules:read'), async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const rules = await ruleRepository.getAll();
+        res.json({ rules, count: rules.length });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // POST /api/rules - Create a rule (appended at the end unless a position is given)
+    router.post('/rules', allow('rules:write'), validateRule, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const missingTemplate = await findMissingTemplate(req);
+        if (missingTemplate) {
+          res.status(400).json({ error: `Invalid action: template not found: ${missingTemplate}` });
+          return;
+        }
+
+        const missingAccount = await findMissingAccount(req);
+        if (missingAccount) {
+          res.status(400).json({ error: `Invalid accountId: account not found: ${missingAccount}` });
+          return;
+        }
+
+        const now = new Date();
+        const rule: Rule = {
+          id: randomUUID(),
+          name: req.body.name.trim(),
+          position: req.body.position ?? await ruleRepository.getNextPosition(),
+          enabled: req.body.enabled ?? true,
+          condition: req.body.condition,
+          action: req.body.action,
+          ...(req.body.accountId && { accountId: req.body.accountId }),
+          createdAt: now,
+          updatedAt: now
+        };
+
+        await ruleRepository.create(rule);
+        await publishRules();
+
+        res.status(201).json({ message: 'Rule created successfully', rule });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // PUT /api/rules/:id - Update a rule
+    router.put('/rules/:id', allow('rules:write'), validateRule, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const existing = await ruleRepository.getById(req.params.id);
+
+        if (!existing) {
+          res.status(404).json({ error: 'Rule not found' });
+          return;
+        }
+
+        const missingTemplate = await findMissingTemplate(req);
+        if (missingTemplate) {
+          res.status(400).json({ error: `Invalid action: template not found: ${missingTemplate}` });
+          return;
+        }
+
+        const missingAccount = await findMissingAccount(req);
+        if (missingAccount) {
+          res.status(400).json({ error: `Invalid accountId: account not found: ${missingAccount}` });
+          return;
+        }
+
+        const rule: Rule = {
+          ...existing,
+          ...(req.body.name !== undefined && { name: req.body.name.trim() }),
+          ...(req.body.position !== undefined && { position: req.body.position }),
+          ...(req.body.enabled !== undefined && { enabled: req.body.enabled }),
+          ...(req.body.condition !== undefined && { condition: req.body.condition }),
+          ...(req.body.action !== undefined && { action: req.body.action }),
+          ...(req.body.accountId !== undefined && { accountId: req.body.accountId || undefined }),
+          updatedAt: new Date()
+        };
+
+        await ruleRepository.update(rule);
+        await publishRules();
+
+        res.json({ message: 'Rule updated successfully', rule });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // DELETE /api/rules/:id - Delete a rule
+    router.delete('/rules/:id', allow('rules:write'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const existing = await ruleRepository.getById(req.params.id);
+
+        if (!existing) {
+          res.status(404).json({ error: 'Rule not found' });
+          return;
+        }
+
+        await ruleRepository.delete(req.params.id);
+        await publishRules();
+
+        res.json({ message: 'Rule deleted successfully', ruleId: req.params.id });
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  if (templateRepository) {
+    // Push the current template set to the selector after every change
+    const publishTemplates = async (): Promise<void> => {
+      if (onTemplatesChanged) {
+        onTemplatesChanged(await templateRepository.getAll());
+      }
+    };
+
+    // Templates may only attach assets that exist
+    const findMissingAsset = async (req: Request): Promise<string | null> => {
+      if (!req.body.assetIds || !assetRepository) {
+        return null;
+      }
+      for (const assetId of req.body.assetIds as string[]) {
+        if (!await assetRepository.getById(assetId)) {
+          return assetId;
+        }
+      }
+      return null;
+    };
+
+    // GET /api/templates - List stored reply templates
+    router.get('/templates', allow('templates:read'), async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const templates = await templateRepository.getAll();
+        res.json({ templates, count: templates.length });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // POST /api/templates/preview - Render a template against a sample email
+    router.post('/templates/preview', allow('templates:read'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const { body, htmlBody } = req.body;
+
+        if (typeof body !== 'string') {
+          res.status(400).json({ error: 'Invalid body: must be a string' });
+          return;
+        }
+        if (htmlBody !== undefined && typeof htmlBody !== 'string') {
+          res.status(400).json({ error: 'Invalid htmlBody: must be a string' });
+          return;
+        }
+
+        for (const [field, value] of [['body', body], ['htmlBody', htmlBody || '']] as const) {
+          const templateError = validateTemplate(value);
+          if (templateError) {
+            res.status(400).json(templateErrorResponse(field, templateError));
+            return;
+          }
+        }
+
+        // Render with the configured time zone and business hours; the text
+        // preview falls back to the text derived from the HTML as replies do
+        const options = buildTemplateOptions(await configManager.getConfig());
+        const htmlPreview = htmlBody ? renderHtmlTemplate(htmlBody, SAMPLE_EMAIL, options) : undefined;
+        const preview = body.trim() || !htmlPreview
+          ? renderTemplate(body, SAMPLE_EMAIL, options)
+          : htmlToText(htmlPreview);
+
+        res.json({ preview, ...(htmlPreview !== undefined && { htmlPreview }), sample: SAMPLE_EMAIL });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // POST /api/templates - Create a template
+    router.post('/templates', allow('templates:write'), validateTemplateFields, async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const missingAsset = await findMissingAsset(req);
+        if (missingAsset) {
+          res.status(400).json({ error: `Invalid assetIds: asset not found: ${missingAsset}` });
+          return;
+        }
+
+        const missingAccount = await findMissingAccount(req);
+        if (missingAccount) {
+          res.status(400).json({ error: `Invalid accountId: account not found: ${missingAccount}` });
+          return;
+        }
+
+        const now = new Date();
+        const template: Template = {
+          id: randomUUID(),
+          name: req.body.name.trim(),
+          body: req.body.body,
+          ...(req.body.htmlBody && { htmlBody: req.body.htmlBody }),
+          ...(req.body.assetIds?.length > 0 && { assetIds: req.body.assetIds }),
+          keywords: normalizeKeywords(req.body.keywords),
+          isDefault: req.body.isDefault ?? false,
+          ...(req.body.accountId && { accountId: req.body.accountId }),
+          createdAt: now,
+          updatedAt: now
+        };
+
+        await templateRepository.create(template);
+        await publishTemplates();
+
+        res.status(201).json({ message: 'Template created successfully', template });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // PUT /api/templates/:id - Update a template
+    router.put('/templates/:id', allow('templates:write'), validateTemplateFields, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const existing = await templateRepository.getById(req.params.id);
+
+        if (!existing) {
+          res.status(404).json({ error: 'Template not found' });
+          return;
+        }
+
+        const missingAsset = await findMissingAsset(req);
+        if (missingAsset) {
+          res.status(400).json({ error: `Invalid assetIds: asset not found: ${missingAsset}` });
+          return;
+        }
+
+        const missingAccount = await findMissingAccount(req);
+        if (missingAccount) {
+          res.status(400).json({ error: `Invalid accountId: account not found: ${missingAccount}` });
+          return;
+        }
+
+        const template: Template = {
+          ...existing,
+          ...(req.body.name !== undefined && { name: req.body.name.trim() }),
+          ...(req.body.body !== undefined && { body: req.body.body }),
+          ...(req.body.htmlBody !== undefined && { htmlBody: req.body.htmlBody || undefined }),
+          ...(req.body.assetIds !== undefined && { assetIds: req.body.assetIds.length > 0 ? req.body.assetIds : undefined }),
+          ...(req.body.keywords !== undefined && { keywords: normalizeKeywords(req.body.keywords) }),
+          ...(req.body.isDefault !== undefined && { isDefault: req.body.isDefault }),
+          ...(req.body.accountId !== undefined && { accountId: req.body.accountId || undefined }),
+          updatedAt: new Date()
+        };
+
+        if (!hasTemplateBody(template.body, template.htmlBody)) {
+          res.status(400).json({ error: 'Invalid body: a text or HTML body is required' });
+          return;
+        }
+
+        await templateRepository.update(template);
+        await publishTemplates();
+
+        res.json({ message: 'Template updated successfully', template });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // DELETE /api/templates/:id - Delete a template
+    router.delete('/templates/:id', allow('templates:write'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const existing = await templateRepository.getById(req.params.id);
+
+        if (!existing) {
+          res.status(404).json({ error: 'Template not found' });
+          return;
+        }
+
+        const rules = ruleRepository ? await ruleRepository.getAll() : [];
+        const rule = rules.find(r => r.action.templateId === existing.id);
+        if (rule) {
+          res.status(409).json({ error: `Template is used by rule "${rule.name}"` });
+          return;
+        }
+
+        // Mailboxes of the default configuration and of every further account
+        const configs: { account?: string; config: Config }[] = [
+          { config: await configManager.getConfig() },
+          ...(accountRepository ? await accountRepository.getAll() : []).map(account => ({ account: account.name, config: account })),
+        ];
+        for (const { account, config } of configs) {
+          const mailbox = config.autoReply.mailboxes?.find(m => m.templateId === existing.id);
+          if (mailbox) {
+            const owner = account ? ` of account "${account}"` : '';
+            res.status(409).json({ error: `Template is used by mailbox "${mailbox.name}"${owner}` });
+            return;
+          }
+        }
+
+        await templateRepository.delete(req.params.id);
+        await publishTemplates();
+
+        res.json({ message: 'Template deleted successfully', templateId: req.params.id });
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  if (assetRepository) {
+    // Uploads are the raw file with its MIME type as Content-Type; bodies
+    // over the size limit are refused before they are buffered
+    const parseUpload = raw({ type: () => true, limit: MAX_ASSET_SIZE });
+    const readUpload = (req: Request, res: Response, next: NextFunction): void => {
+      parseUpload(req, res, (error?: any) => {
+        if (error) {
+          res.status(error.status === 413 ? 413 : 400).json({
+            error: error.status === 413 ? `Invalid file: file exceeds ${MAX_ASSET_SIZE} bytes` : `Invalid file: ${error.message}`
+          });
+          return;
+        }
+        next();
+      });
+    };
+
+    // GET /api/assets - List stored assets
+    router.get('/assets', allow('assets:read'), async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        const assets = await assetRepository.getAll();
+        res.json({ assets, count: assets.length });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // POST /api/assets?filename=price-list.pdf - Upload an asset
+    router.post('/assets', allow('assets:write'), readUpload, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const filename = typeof req.query.filename === 'string' ? req.query.filename.trim() : undefined;
+        const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+        const content = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+
+        const assetError = validateAsset(filename, contentType, content);
+        if (assetError) {
+          res.status(400).json({ error: `Invalid file: ${assetError}` });
+          return;
+        }
+
+        const asset: Asset = {
+          id: randomUUID(),
+          filename: filename!,
+          contentType,
+          size: content.length,
+          createdAt: new Date()
+        };
+
+        await assetRepository.create(asset, content);
+
+        res.status(201).json({ message: 'Asset uploaded successfully', asset });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // GET /api/assets/:id/content - Download an asset
+    router.get('/assets/:id/content', allow('assets:read'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const asset = await assetRepository.getById(req.params.id);
+        const content = asset && await assetRepository.getContent(asset.id);
+
+        if (!asset || !content) {
+          res.status(404).json({ error: 'Asset not found' });
+          return;
+        }
+
+        res.attachment(asset.filename);
+        res.type(asset.contentType);
+        res.set('X-Content-Type-Options', 'nosniff');
+        res.send(content);
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // DELETE /api/assets/:id - Delete an asset no template uses
+    router.delete('/assets/:id', allow('assets:write'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const existing = await assetRepository.getById(req.params.id);
+
+        if (!existing) {
+          res.status(404).json({ error: 'Asset not found' });
+          return;
+        }
+
+        const templates = templateRepository ? await templateRepository.getAll() : [];
+        const user = templates.find(template => template.assetIds?.includes(existing.id));
+        if (user) {
+          res.status(409).json({ error: `Asset is used by template "${user.name}"` });
+          return;
+        }
+
+        await assetRepository.delete(existing.id);
+
+        res.json({ message: 'Asset deleted successfully', assetId: existing.id });
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  // User routes (only if sign-in is enabled)
+  if (auth) {
+    // GET /api/users - List dashboard users
+    router.get('/users', requireRole('admin'), async (_req: Request, res: Response, next: NextFunction) => {
+      try {
+        res.json(await auth.getUsers());
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // POST /api/users - Create a user
+    router.post('/users', requireRole('admin'), validateUserFields, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const { username, password, role } = req.body;
+
+        if (await auth.isUsernameTaken(username)) {
+          res.status(409).json({ error: `Username "${username}" is already taken` });
+          return;
+        }
+
+        const user = await auth.createUser({ username, password, role });
+        res.status(201).json({ message: 'User created successfully', user });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // PUT /api/users/:id - Change a user's password or role; their sessions end
+    router.put('/users/:id', requireRole('admin'), validateUserFields, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const { password, role } = req.body;
+
+        if (!await auth.getUser(req.params.id)) {
+          res.status(404).json({ error: 'User not found' });
+          return;
+        }
+
+        if (role !== undefined && role !== 'admin' && await auth.isLastAdmin(req.params.id)) {
+          res.status(409).json({ error: 'The last admin cannot lose the admin role' });
+          return;
+        }
+
+        const user = await auth.updateUser(req.params.id, { password, role });
+        res.json({ message: 'User updated successfully', user });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // DELETE /api/users/:id - Delete a user and end their sessions
+    router.delete('/users/:id', requireRole('admin'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        if (!await auth.getUser(req.params.id)) {
+          res.status(404).json({ error: 'User not found' });
+          return;
+        }
+
+        if (await auth.isLastAdmin(req.params.id)) {
+          res.status(409).json({ error: 'The last admin cannot be deleted' });
+          return;
+        }
+
+        await auth.deleteUser(req.params.id);
+        if (apiTokens) {
+          await apiTokens.revokeForUser(req.params.id);
+        }
+        res.json({ message: 'User deleted successfully', userId: req.params.id });
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  // API token routes (only if sign-in and API tokens are enabled)
+  if (auth && apiTokens) {
+    // GET /api/tokens - List the signed-in user's tokens, or every token for admins
+    router.get('/tokens', requireRole('viewer'), async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        res.json(await apiTokens.getTokens(req.user!));
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // POST /api/tokens - Create a personal or service token; the token itself is only returned here
+    router.post('/tokens', requireRole('viewer'), validateApiTokenFields, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const user = req.user!;
+        const { name, scopes, expiresAt } = req.body;
+        const kind = req.body.kind || 'personal';
+
+        if (kind === 'service' && user.role !== 'admin') {
+          res.status(403).json({ error: 'Only admins can create service tokens' });
+          return;
+        }
+
+        // A personal token acts for its owner and cannot hold scopes beyond their role
+        const beyondRole = kind === 'personal' && (scopes as TokenScope[]).find(scope => !hasRole(user.role, SCOPE_ROLES[scope]));
+        if (beyondRole) {
+          res.status(403).json({ error: `The ${user.role} role cannot grant the ${beyondRole} scope` });
+          return;
+        }
+
+        const created = await apiTokens.create({
+          name: name.trim(),
+          kind,
+          scopes,
+          ...(expiresAt && { expiresAt: new Date(expiresAt) })
+        }, user);
+        res.status(201).json({ message: 'Token created; copy it now, it is not shown again', ...created });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    // DELETE /api/tokens/:id - Revoke a token; users may revoke their own, admins any
+    router.delete('/tokens/:id', requireRole('viewer'), async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+      try {
+        const user = req.user!;
+        const token = await apiTokens.getToken(req.params.id);
+
+        if (!token || (user.role !== 'admin' && token.userId !== user.id)) {
+          res.status(404).json({ error: 'Token not found' });
+          return;
+        }
+
+        await apiTokens.revoke(token.id);
+        res.json({ message: 'Token revoked successfully', tokenId: token.id });
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
   // Apply error handling middleware
   router.use(errorHandler);
 
@@ -1,6 +1,7 @@
 import express, { Express } from 'express';
 import path from 'path';
 import { createApiRouter, ApiDependencies } from './routes';
+import { authenticate } from '../auth';
 
 export interface ServerConfig {
   port: number;
@@ -14,6 +15,11 @@ export function createServer(dependencies: ApiDependencies, config: ServerConfig
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
+  // Sign-in: attach the session's user so the routes can check its role
+  if (dependencies.auth) {
+    app.use('/api', authenticate(dependencies.auth, dependencies.apiTokens));
+  }
+
   // API routes
   app.use('/api', createApiRouter(dependencies));
 
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { unlinkSync, existsSync } from 'fs';
+import { Database, runMigrations } from '../database';
+import { UserRepository } from '../database/UserRepository';
+import { SessionRepository } from '../database/SessionRepository';
+import { ApiTokenRepository } from '../database/ApiTokenRepository';
+import { AuthService, AuthenticatedUser } from './AuthService';
+import { ApiTokenService } from './ApiTokenService';
+
+describe('ApiTokenService', () => {
+  let db: Database;
+  let auth: AuthService;
+  let apiTokens: ApiTokenService;
+  let owner: AuthenticatedUser;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = `./test-api-token-${Date.now()}-${Math.random()}.db`;
+    db = new Database();
+    await db.connect(testDbPath);
+    await runMigrations(db);
+    const users = new UserRepository(db);
+    auth = new AuthService(users, new SessionRepository(db));
+    apiTokens = new ApiTokenService(new ApiTokenRepository(db), users);
+    owner = await auth.createUser({ username: 'april', password: 'correct horse', role: 'approver' });
+  });
+
+  afterEach(async () => {
+    await db.close();
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it('should store only the hash and resolve a personal token to its owner', async () => {
+    const { token, apiToken } = await apiTokens.create(
+      { name: 'deploy', kind: 'personal', scopes: ['logs:read', 'logs:read', 'replies:approve'] },
+      owner
+    );
+
+    const row = await db.get<{ token_hash: string }>('SELECT token_hash FROM api_token WHERE id = ?', [apiToken.id]);
+    expect(row!.token_hash).not.toContain(token.slice(4));
+    expect(apiToken.scopes).toEqual(['logs:read', 'replies:approve']);
+
+    const identity = await apiTokens.authenticate(token);
+    expect(identity!.user).toEqual(owner);
+    expect(identity!.token).toMatchObject({ id: apiToken.id, userId: owner.id, lastUsedAt: expect.any(Date) });
+    expect((await apiTokens.getToken(apiToken.id))!.lastUsedAt).toEqual(identity!.token.lastUsedAt);
+  });
+
+  it('should resolve a service token without a user', async () => {
+    const { token } = await apiTokens.create({ name: 'ci', kind: 'service', scopes: ['logs:read'] }, owner);
+
+    const identity = await apiTokens.authenticate(token);
+    expect(identity!.user).toBeNull();
+    expect(identity!.token).not.toHaveProperty('userId');
+    expect(identity!.token.createdBy).toBe('april');
+  });
+
+  it('should stop accepting expired tokens and tokens of deleted users', async () => {
+    const expired = await apiTokens.create(
+      { name: 'old', kind: 'service', scopes: ['logs:read'], expiresAt: new Date(Date.now() - 1000) },
+      owner
+    );
+    expect(await apiTokens.authenticate(expired.token)).toBeNull();
+
+    const personal = await apiTokens.create({ name: 'mine', kind: 'personal', scopes: ['logs:read'] }, owner);
+    await auth.deleteUser(owner.id);
+    expect(await apiTokens.authenticate(personal.token)).toBeNull();
+    expect(await apiTokens.authenticate('lmb_unknown')).toBeNull();
+  });
+});
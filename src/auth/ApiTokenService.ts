@@ -0,0 +1,120 @@
+import * as crypto from 'crypto';
+import { ApiToken, ApiTokenKind, TokenScope } from '../models';
+import { ApiTokenRepository } from '../database/ApiTokenRepository';
+import { UserRepository } from '../database/UserRepository';
+import { AuthenticatedUser } from './AuthService';
+import { hashToken } from './passwords';
+
+// Tells API tokens apart from session tokens in an Authorization header
+export const API_TOKEN_PREFIX = 'lmb_';
+
+/**
+ * A token as shown to its owner and to admins, without its hash
+ */
+export type ApiTokenInfo = Omit<ApiToken, 'tokenHash'>;
+
+export interface ApiTokenInput {
+  name: string;
+  kind: ApiTokenKind;
+  scopes: TokenScope[];
+  expiresAt?: Date;
+}
+
+export interface CreatedApiToken {
+  token: string; // Handed to the creator once; only its hash is stored
+  apiToken: ApiTokenInfo;
+}
+
+/**
+ * What a request made with an API token acts as: the token, and for a
+ * personal token the user who owns it
+ */
+export interface TokenIdentity {
+  token: ApiTokenInfo;
+  user: AuthenticatedUser | null;
+}
+
+export function isApiToken(token: string): boolean {
+  return token.startsWith(API_TOKEN_PREFIX);
+}
+
+function toInfo(token: ApiToken): ApiTokenInfo {
+  const { tokenHash: _tokenHash, ...info } = token;
+  return info;
+}
+
+/**
+ * Issues and checks API tokens for scripts and integrations. Tokens are
+ * stored as hashes and record when they were last used; a personal token
+ * stops working when its owner is deleted.
+ */
+export class ApiTokenService {
+  constructor(
+    private tokens: ApiTokenRepository,
+    private users: UserRepository
+  ) {}
+
+  async create(input: ApiTokenInput, creator: AuthenticatedUser): Promise<CreatedApiToken> {
+    const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('hex');
+    const apiToken: ApiToken = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      kind: input.kind,
+      ...(input.kind === 'personal' && { userId: creator.id }),
+      scopes: Array.from(new Set(input.scopes)),
+      tokenHash: hashToken(token),
+      createdBy: creator.username,
+      createdAt: new Date(),
+      ...(input.expiresAt && { expiresAt: input.expiresAt }),
+    };
+    await this.tokens.create(apiToken);
+    return { token, apiToken: toInfo(apiToken) };
+  }
+
+  /**
+   * The tokens a user may see: all of them for admins, their own otherwise
+   */
+  async getTokens(user: AuthenticatedUser): Promise<ApiTokenInfo[]> {
+    const tokens = user.role === 'admin'
+      ? await this.tokens.getAll()
+      : await this.tokens.getByUser(user.id);
+    return tokens.map(toInfo);
+  }
+
+  async getToken(id: string): Promise<ApiTokenInfo | null> {
+    const token = await this.tokens.getById(id);
+    return token ? toInfo(token) : null;
+  }
+
+  async revoke(id: string): Promise<void> {
+    await this.tokens.delete(id);
+  }
+
+  async revokeForUser(userId: string): Promise<void> {
+    await this.tokens.deleteByUser(userId);
+  }
+
+  /**
+   * What a token acts as, or null when it is unknown, expired or its owner
+   * is gone. Records the use.
+   */
+  async authenticate(token: string): Promise<TokenIdentity | null> {
+    const apiToken = await this.tokens.getByHash(hashToken(token));
+    if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt.getTime() <= Date.now())) {
+      return null;
+    }
+
+    let user: AuthenticatedUser | null = null;
+    if (apiToken.userId) {
+      const owner = await this.users.getById(apiToken.userId);
+      if (!owner) {
+        return null;
+      }
+      user = { id: owner.id, username: owner.username, role: owner.role };
+    }
+
+    apiToken.lastUsedAt = new Date();
+    await this.tokens.touch(apiToken.id, apiToken.lastUsedAt);
+    return { token: toInfo(apiToken), user };
+  }
+}
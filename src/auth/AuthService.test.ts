@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { unlinkSync, existsSync } from 'fs';
+import { Database, runMigrations } from '../database';
+import { UserRepository } from '../database/UserRepository';
+import { SessionRepository } from '../database/SessionRepository';
+import { AuthService } from './AuthService';
+import { hashPassword, verifyPassword } from './passwords';
+import { hasRole } from '../models';
+
+describe('AuthService', () => {
+  let db: Database;
+  let users: UserRepository;
+  let auth: AuthService;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = `./test-auth-${Date.now()}-${Math.random()}.db`;
+    db = new Database();
+    await db.connect(testDbPath);
+    await runMigrations(db);
+    users = new UserRepository(db);
+    auth = new AuthService(users, new SessionRepository(db), { sessionTtl: 60000 });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.close();
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it('should store passwords only as salted hashes', async () => {
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+
+    expect(first).toMatch(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassword('correct horse', first)).toBe(true);
+    expect(await verifyPassword('wrong horse', first)).toBe(false);
+    expect(await verifyPassword('correct horse', 'not a hash')).toBe(false);
+
+    const user = await auth.createUser({ username: 'ada', password: 'correct horse', role: 'admin' });
+    expect((await users.getById(user.id))!.passwordHash).not.toContain('correct horse');
+  });
+
+  it('should sign in by username regardless of case and resolve the session token', async () => {
+    await auth.createUser({ username: 'Ada', password: 'correct horse', role: 'approver' });
+
+    expect(await auth.login('ada', 'wrong horse')).toBeNull();
+    expect(await auth.login('nobody', 'correct horse')).toBeNull();
+
+    const session = await auth.login('ada', 'correct horse');
+    expect(session!.user).toMatchObject({ username: 'Ada', role: 'approver' });
+    expect(await auth.authenticate(session!.token)).toEqual(session!.user);
+
+    await auth.logout(session!.token);
+    expect(await auth.authenticate(session!.token)).toBeNull();
+  });
+
+  it('should end sessions when they expire or the user changes', async () => {
+    const user = await auth.createUser({ username: 'ada', password: 'correct horse', role: 'admin' });
+    const expiring = await auth.login('ada', 'correct horse');
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + 60001);
+    expect(await auth.authenticate(expiring!.token)).toBeNull();
+    vi.useRealTimers();
+
+    const current = await auth.login('ada', 'correct horse');
+    await auth.updateUser(user.id, { password: 'battery staple' });
+    expect(await auth.authenticate(current!.token)).toBeNull();
+    expect(await auth.login('ada', 'correct horse')).toBeNull();
+    expect(await auth.login('ada', 'battery staple')).not.toBeNull();
+  });
+
+  it('should create the first admin only when there are no users', async () => {
+    const generated = await auth.ensureAdmin('admin');
+    expect(generated).toEqual(expect.any(String));
+    expect(await auth.login('admin', generated!)).not.toBeNull();
+
+    expect(await auth.ensureAdmin('other', 'correct horse')).toBeNull();
+    expect(await auth.getUsers()).toEqual([expect.objectContaining({ username: 'admin', role: 'admin' })]);
+    expect(await auth.isLastAdmin((await auth.getUsers())[0].id)).toBe(true);
+  });
+
+  it('should rank roles from viewer to admin', () => {
+    expect(hasRole('admin', 'approver')).toBe(true);
+    expect(hasRole('approver', 'viewer')).toBe(true);
+    expect(hasRole('approver', 'admin')).toBe(false);
+    expect(hasRole('viewer', 'approver')).toBe(false);
+  });
+});
@@ -0,0 +1,177 @@
+import * as crypto from 'crypto';
+import { User, UserRole } from '../models';
+import { UserRepository } from '../database/UserRepository';
+import { SessionRepository } from '../database/SessionRepository';
+import { hashPassword, hashToken, verifyPassword } from './passwords';
+
+/**
+ * The signed-in user a request is made for
+ */
+export interface AuthenticatedUser {
+  id: string;
+  username: string;
+  role: UserRole;
+}
+
+export interface LoginResult {
+  token: string; // Handed to the client once; only its hash is stored
+  expiresAt: Date;
+  user: AuthenticatedUser;
+}
+
+export interface AuthServiceOptions {
+  sessionTtl?: number; // In milliseconds, defaults to 43200000 (12 hours)
+}
+
+export interface UserInput {
+  username: string;
+  password: string;
+  role: UserRole;
+}
+
+// Compared against when the username is unknown, so a failed login takes as long either way
+const UNKNOWN_USER_HASH = 'scrypt$00000000000000000000000000000000$' + '00'.repeat(64);
+
+function toAuthenticatedUser(user: User): AuthenticatedUser {
+  return { id: user.id, username: user.username, role: user.role };
+}
+
+/**
+ * Signs dashboard users in and out and manages their accounts. Passwords
+ * are stored as scrypt hashes; sessions end after a fixed time, when the
+ * user signs out, or when their password or role changes.
+ */
+export class AuthService {
+  private sessionTtl: number;
+
+  constructor(
+    private users: UserRepository,
+    private sessions: SessionRepository,
+    options: AuthServiceOptions = {}
+  ) {
+    this.sessionTtl = options.sessionTtl || 12 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Start a session, or return null when the username or password is wrong
+   */
+  async login(username: string, password: string): Promise<LoginResult | null> {
+    const user = await this.users.getByUsername(username);
+    const valid = await verifyPassword(password, user ? user.passwordHash : UNKNOWN_USER_HASH);
+    if (!user || !valid) {
+      return null;
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.sessionTtl);
+    await this.sessions.create({ id: hashToken(token), userId: user.id, createdAt: now, expiresAt });
+
+    return { token, expiresAt, user: toAuthenticatedUser(user) };
+  }
+
+  async logout(token: string): Promise<void> {
+    await this.sessions.delete(hashToken(token));
+  }
+
+  /**
+   * The user a session token belongs to, or null when it is unknown or expired
+   */
+  async authenticate(token: string): Promise<AuthenticatedUser | null> {
+    const session = await this.sessions.getById(hashToken(token));
+    if (!session) {
+      return null;
+    }
+
+    if (session.expiresAt.getTime() <= Date.now()) {
+      await this.sessions.delete(session.id);
+      return null;
+    }
+
+    const user = await this.users.getById(session.userId);
+    return user ? toAuthenticatedUser(user) : null;
+  }
+
+  async getUsers(): Promise<AuthenticatedUser[]> {
+    return (await this.users.getAll()).map(toAuthenticatedUser);
+  }
+
+  async getUser(id: string): Promise<AuthenticatedUser | null> {
+    const user = await this.users.getById(id);
+    return user ? toAuthenticatedUser(user) : null;
+  }
+
+  async isUsernameTaken(username: string): Promise<boolean> {
+    return (await this.users.getByUsername(username)) !== null;
+  }
+
+  /**
+   * Checks if removing the admin role from this user would leave no admin
+   */
+  async isLastAdmin(id: string): Promise<boolean> {
+    const user = await this.users.getById(id);
+    return user?.role === 'admin' && await this.users.countByRole('admin') <= 1;
+  }
+
+  async createUser(input: UserInput): Promise<AuthenticatedUser> {
+    const now = new Date();
+    const user: User = {
+      id: crypto.randomUUID(),
+      username: input.username,
+      passwordHash: await hashPassword(input.password),
+      role: input.role,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.users.create(user);
+    return toAuthenticatedUser(user);
+  }
+
+  /**
+   * Change a user's password or role, ending their sessions so the change
+   * applies at once. Returns null when the user does not exist.
+   */
+  async updateUser(id: string, updates: Partial<Omit<UserInput, 'username'>>): Promise<AuthenticatedUser | null> {
+    const user = await this.users.getById(id);
+    if (!user) {
+      return null;
+    }
+
+    const updated: User = {
+      ...user,
+      ...(updates.role && { role: updates.role }),
+      ...(updates.password && { passwordHash: await hashPassword(updates.password) }),
+      updatedAt: new Date(),
+    };
+    await this.users.update(updated);
+    await this.sessions.deleteByUser(id);
+    return toAuthenticatedUser(updated);
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    await this.sessions.deleteByUser(id);
+    await this.users.delete(id);
+  }
+
+  /**
+   * Create the first admin when there are no users yet. Without a password
+   * one is generated and returned so it can be shown once; null is returned
+   * when users already exist.
+   */
+  async ensureAdmin(username: string, password?: string): Promise<string | null> {
+    if (await this.users.count() > 0) {
+      return null;
+    }
+
+    const initialPassword = password || crypto.randomBytes(12).toString('base64url');
+    await this.createUser({ username, password: initialPassword, role: 'admin' });
+    return initialPassword;
+  }
+
+  /**
+   * Remove sessions that have run out
+   */
+  async purgeExpiredSessions(): Promise<number> {
+    return this.sessions.deleteExpired();
+  }
+}
@@ -0,0 +1,5 @@
+// Dashboard users, sessions, API tokens and role checks
+export * from './AuthService';
+export * from './ApiTokenService';
+export * from './middleware';
+export * from './passwords';
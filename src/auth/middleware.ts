@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { UserRole, TokenScope, SCOPE_ROLES, hasRole } from '../models';
+import { AuthService, AuthenticatedUser } from './AuthService';
+import { ApiTokenService, ApiTokenInfo, isApiToken } from './ApiTokenService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser; // Set by authenticate for a valid session or personal API token
+      apiToken?: ApiTokenInfo; // Set by authenticate for a valid API token
+    }
+  }
+}
+
+export const SESSION_COOKIE = 'lazymail_session';
+
+/**
+ * The session token of a request, from an "Authorization: Bearer" header or
+ * the session cookie set at login
+ */
+export function getSessionToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim() || null;
+  }
+
+  for (const cookie of (req.headers.cookie || '').split(';')) {
+    const [name, ...value] = cookie.trim().split('=');
+    if (name === SESSION_COOKIE && value.length > 0) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
+
+/**
+ * Attach the signed-in user, or the API token and its owner, to the
+ * request. Requests without a valid session or token pass through
+ * unauthenticated; requireRole and requireScope turn them away.
+ */
+export function authenticate(auth: AuthService, apiTokens?: ApiTokenService): RequestHandler {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    try {
+      const token = getSessionToken(req);
+      if (token && isApiToken(token)) {
+        const identity = apiTokens ? await apiTokens.authenticate(token) : null;
+        if (identity) {
+          req.apiToken = identity.token;
+          if (identity.user) {
+            req.user = identity.user;
+          }
+        }
+      } else {
+        const user = token ? await auth.authenticate(token) : null;
+        if (user) {
+          req.user = user;
+        }
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Allow the request only for a signed-in user with at least the given
+ * role. Managing users and tokens is not open to API tokens.
+ */
+export function requireRole(role: UserRole): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiToken) {
+      res.status(403).json({ error: 'This action is not available to API tokens' });
+      return;
+    }
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    if (!hasRole(req.user.role, role)) {
+      res.status(403).json({ error: `This action requires the ${role} role` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Allow the request for an API token with the scope, or for a user whose
+ * role opens the scope's routes. A personal token needs both, so it can
+ * never do more than its owner.
+ */
+export function requireScope(scope: TokenScope): RequestHandler {
+  const role = SCOPE_ROLES[scope];
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user && !req.apiToken) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    if (req.apiToken && !req.apiToken.scopes.includes(scope)) {
+      res.status(403).json({ error: `This token lacks the ${scope} scope` });
+      return;
+    }
+    if (req.user && !hasRole(req.user.role, role)) {
+      res.status(403).json({ error: `This action requires the ${role} role` });
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Who a request is made by, for the record: the username, the token name
+ * for a service token, or both for a personal token
+ */
+export function describeActor(req: Request): string | undefined {
+  if (req.apiToken) {
+    const token = `token "${req.apiToken.name}"`;
+    return req.user ? `${req.user.username} (${token})` : token;
+  }
+  return req.user?.username;
+}
@@ -0,0 +1,43 @@
+import * as crypto from 'crypto';
+
+const KEY_LENGTH = 64;
+
+function scrypt(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hash a password with scrypt and a random salt, as "scrypt$<salt>$<hash>"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+/**
+ * Hash a random session or API token for storage. Tokens carry enough
+ * randomness that a fast, unsalted hash is sufficient.
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const key = await scrypt(password, Buffer.from(salt, 'hex'));
+  return key.length === expected.length && crypto.timingSafeEqual(key, expected);
+}
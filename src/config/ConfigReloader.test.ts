@@ -0,0 +1,295 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConfigReloader, ConfigReloaderOptions } from './ConfigReloader';
+import { Config } from '../models';
+import { MessageFilter, SenderThrottle } from '../filter';
+import { AutoResponderImpl, ReadTrackerImpl } from '../responder';
+import { EmailMonitorImpl } from '../monitor';
+
+function createConfig(overrides: {
+  email?: Partial<Config['email']>;
+  filters?: Partial<Config['filters']>;
+  autoReply?: Partial<Config['autoReply']>;
+} = {}): Config {
+  return {
+    email: {
+      imapHost: 'imap.example.com',
+      imapPort: 993,
+      smtpHost: 'smtp.example.com',
+      smtpPort: 587,
+      username: 'support@example.com',
+      password: 'secret',
+      ...overrides.email,
+    },
+    filters: {
+      keywordsEnabled: false,
+      keywords: [],
+      excludedDomains: [],
+      ...overrides.filters,
+    },
+    autoReply: {
+      manualConfirmation: true,
+      replyTemplate: 'Thanks for your email.',
+      checkInterval: 10,
+      senderCooldownHours: 24,
+      ...overrides.autoReply,
+    },
+  };
+}
+
+class MockEmailMonitor {
+  running = false;
+  start = vi.fn().mockImplementation(async () => {
+    this.running = true;
+  });
+  stop = vi.fn().mockImplementation(async () => {
+    this.running = false;
+  });
+  isMonitoring = vi.fn().mockImplementation(() => this.running);
+  updateImapConfig = vi.fn();
+  setCheckInterval = vi.fn();
+  setPushMode = vi.fn().mockResolvedValue(undefined);
+  setLeaveUnread = vi.fn();
+  setPostActions = vi.fn();
+}
+
+const email = {
+  id: '1',
+  from: 'customer@example.org',
+  to: 'support@example.com',
+  subject: 'Question',
+  body: 'Hello',
+  receivedAt: new Date(),
+  isRead: false,
+};
+
+describe('ConfigReloader', () => {
+  let messageFilter: MessageFilter;
+  let readTracker: ReadTrackerImpl;
+  let autoResponder: AutoResponderImpl;
+  let senderThrottle: SenderThrottle;
+  let monitor: MockEmailMonitor;
+  let createMonitor: ReturnType<typeof vi.fn>;
+
+  function createReloader(initialConfig: Config, options: Partial<ConfigReloaderOptions> = {}) {
+    return new ConfigReloader({
+      initialConfig,
+      messageFilter,
+      autoResponder,
+      readTracker,
+      senderThrottle,
+      createMonitor: createMonitor as any,
+      ...options,
+    });
+  }
+
+  beforeEach(() => {
+    const config = createConfig();
+    messageFilter = new MessageFilter(config.filters);
+    readTracker = new ReadTrackerImpl({ user: 'a', password: 'b', host: 'c', port: 993, tls: true });
+    autoResponder = new AutoResponderImpl({
+      smtpConfig: {
+        host: config.email.smtpHost,
+        port: config.email.smtpPort,
+        secure: false,
+        auth: { user: config.email.username, pass: config.email.password },
+      },
+      replyTemplate: config.autoReply.replyTemplate,
+      manualConfirmation: config.autoReply.manualConfirmation,
+      readTracker,
+    });
+    senderThrottle = new SenderThrottle({
+      getLastReplyAt: vi.fn().mockResolvedValue(new Date()),
+      recordReply: vi.fn(),
+    }, 24);
+    monitor = new MockEmailMonitor();
+    createMonitor = vi.fn().mockReturnValue(monitor);
+  });
+
+  it('should apply template and confirmation changes to new replies', async () => {
+    const reloader = createReloader(createConfig(), { emailMonitor: monitor as unknown as EmailMonitorImpl });
+    monitor.running = true;
+
+    const result = await reloader.reload(createConfig({
+      autoReply: { replyTemplate: 'Hi {sender}, we are on it.', manualConfirmation: false },
+    }));
+
+    expect(result.changes).toEqual(['replyTemplate', 'manualConfirmation']);
+    expect(result.monitor).toBe('unchanged');
+
+    const reply = autoResponder.generateReply(email);
+    expect(reply.body).toBe('Hi customer@example.org, we are on it.');
+    expect(reply.status).toBe('approved');
+  });
+
+  it('should start and stop sending HTML replies when the HTML template changes', async () => {
+    const reloader = createReloader(createConfig());
+
+    const result = await reloader.reload(createConfig({ autoReply: { replyHtmlTemplate: '<p>Hi {sender}</p>' } }));
+
+    expect(result.changes).toEqual(['replyHtmlTemplate']);
+    expect(autoResponder.generateReply(email).htmlBody).toBe('<p>Hi customer@example.org</p>');
+
+    await reloader.reload(createConfig({ autoReply: { replyHtmlTemplate: '' } }));
+    expect(autoResponder.generateReply(email)).not.toHaveProperty('htmlBody');
+  });
+
+  it('should apply filter and sender cooldown changes', async () => {
+    const reloader = createReloader(createConfig());
+
+    const result = await reloader.reload(createConfig({
+      filters: { excludedDomains: ['example.org'] },
+      autoReply: { senderCooldownHours: 0 },
+    }));
+
+    expect(result.changes).toEqual(expect.arrayContaining(['filters', 'senderCooldownHours']));
+    expect(messageFilter.shouldAutoReply(email).approved).toBe(false);
+    expect((await senderThrottle.check(email)).throttled).toBe(false);
+  });
+
+  it('should apply time zone and business hours to new replies', async () => {
+    const reloader = createReloader(createConfig());
+
+    const result = await reloader.reload(createConfig({
+      autoReply: {
+        replyTemplate: 'Received {receivedAt}',
+        timeZone: 'UTC',
+        businessHours: { start: '09:00', end: '17:00', days: ['mon'] },
+      },
+    }));
+
+    expect(result.changes).toEqual(['replyTemplate', 'templateOptions']);
+    const reply = autoResponder.generateReply({ ...email, receivedAt: new Date('2026-01-16T16:30:00Z') });
+    expect(reply.body).toBe('Received Friday, January 16, 2026 at 16:30 UTC');
+  });
+
+  it('should rebuild the SMTP transporter when SMTP settings change', async () => {
+    const reloader = createReloader(createConfig());
+    const previousTransporter = (autoResponder as any).transporter;
+
+    const result = await reloader.reload(createConfig({ email: { smtpHost: 'smtp.new.example.com', smtpPort: 465 } }));
+
+    const transporter = (autoResponder as any).transporter;
+    expect(result.changes).toContain('smtp');
+    expect(transporter).not.toBe(previousTransporter);
+    expect(transporter.options.host).toBe('smtp.new.example.com');
+    expect(transporter.options.secure).toBe(true);
+  });
+
+  it('should reconfigure a running monitor when IMAP settings or the interval change', async () => {
+    monitor.running = true;
+    const reloader = createReloader(createConfig(), { emailMonitor: monitor as unknown as EmailMonitorImpl });
+    const updateReadTracker = vi.spyOn(readTracker, 'updateImapConfig');
+
+    const result = await reloader.reload(createConfig({
+      email: { imapHost: 'imap.new.example.com' },
+      autoReply: { checkInterval: 30 },
+    }));
+
+    expect(result.monitor).toBe('reconfigured');
+    expect(result.changes).toEqual(['imap', 'checkInterval']);
+    expect(monitor.updateImapConfig).toHaveBeenCalledWith(expect.objectContaining({ host: 'imap.new.example.com' }));
+    expect(updateReadTracker).toHaveBeenCalledWith(expect.objectContaining({ host: 'imap.new.example.com' }));
+    expect(monitor.setCheckInterval).toHaveBeenCalledWith(30000);
+    expect(monitor.start).not.toHaveBeenCalled();
+  });
+
+  it('should apply leaveUnread to the monitor and responder', async () => {
+    const reloader = createReloader(createConfig(), { emailMonitor: monitor as unknown as EmailMonitorImpl });
+    const setLeaveUnread = vi.spyOn(autoResponder, 'setLeaveUnread');
+
+    const result = await reloader.reload(createConfig({ autoReply: { leaveUnread: true } }));
+
+    expect(result.changes).toEqual(['leaveUnread']);
+    expect(setLeaveUnread).toHaveBeenCalledWith(true);
+    expect(monitor.setLeaveUnread).toHaveBeenCalledWith(true);
+  });
+
+  it('should apply post-actions to the monitor and responder', async () => {
+    const reloader = createReloader(createConfig(), { emailMonitor: monitor as unknown as EmailMonitorImpl });
+    const setPostActions = vi.spyOn(autoResponder, 'setPostActions');
+    const postActions = { replied: [{ type: 'move' as const, mailbox: 'Auto-Replied' }] };
+
+    const result = await reloader.reload(createConfig({ autoReply: { postActions } }));
+
+    expect(result.changes).toEqual(['postActions']);
+    expect(setPostActions).toHaveBeenCalledWith(postActions);
+    expect(monitor.setPostActions).toHaveBeenCalledWith(postActions);
+  });
+
+  it('should switch the monitor to push mode', async () => {
+    monitor.running = true;
+    const reloader = createReloader(createConfig(), { emailMonitor: monitor as unknown as EmailMonitorImpl });
+
+    const result = await reloader.reload(createConfig({ autoReply: { pushMode: true } }));
+
+    expect(result.changes).toEqual(['pushMode']);
+    expect(monitor.setPushMode).toHaveBeenCalledWith(true);
+  });
+
+  it('should create and start the monitor once credentials appear', async () => {
+    const reloader = createReloader(createConfig({ email: { password: '' } }));
+    expect(reloader.getEmailMonitor()).toBeNull();
+
+    const result = await reloader.reload(createConfig());
+
+    expect(createMonitor).toHaveBeenCalledWith(expect.objectContaining({
+      email: expect.objectContaining({ password: 'secret' }),
+    }));
+    expect(monitor.start).toHaveBeenCalledTimes(1);
+    expect(result.monitor).toBe('started');
+    expect(result.monitoring).toBe(true);
+    expect(reloader.getEmailMonitor()).toBe(monitor);
+  });
+
+  it('should stop the monitor when credentials are removed and restart it when they return', async () => {
+    monitor.running = true;
+    const reloader = createReloader(createConfig(), { emailMonitor: monitor as unknown as EmailMonitorImpl });
+
+    const stopped = await reloader.reload(createConfig({ email: { username: '' } }));
+    expect(stopped.monitor).toBe('stopped');
+    expect(stopped.monitoring).toBe(false);
+
+    const restarted = await reloader.reload(createConfig());
+    expect(restarted.monitor).toBe('started');
+    expect(createMonitor).not.toHaveBeenCalled();
+    expect(monitor.start).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report an unconfigured monitor without starting it', async () => {
+    const reloader = createReloader(createConfig({ email: { imapHost: '' } }));
+
+    const result = await reloader.reload(createConfig({ email: { imapHost: '' }, autoReply: { checkInterval: 20 } }));
+
+    expect(result.monitor).toBe('not_configured');
+    expect(result.monitoring).toBe(false);
+    expect(createMonitor).not.toHaveBeenCalled();
+  });
+
+  it('should keep values resolved from the environment', async () => {
+    const reloader = createReloader(createConfig(), {
+      resolveConfig: (config) => ({ ...config, email: { ...config.email, password: 'from-env' } }),
+    });
+    const previousTransporter = (autoResponder as any).transporter;
+
+    // The stored configuration has no password because it comes from the environment
+    const result = await reloader.reload(createConfig({ email: { password: '' } }));
+
+    expect(result.changes).toEqual([]);
+    expect(result.monitor).toBe('started');
+    expect((autoResponder as any).transporter).toBe(previousTransporter);
+    expect(createMonitor).toHaveBeenCalledWith(expect.objectContaining({
+      email: expect.objectContaining({ password: 'from-env' }),
+    }));
+  });
+
+  it('should apply queued reloads in order and expose the latest result', async () => {
+    const reloader = createReloader(createConfig());
+
+    reloader.reload(createConfig({ autoReply: { replyTemplate: 'First' } }));
+    reloader.reload(createConfig({ autoReply: { replyTemplate: 'Second' } }));
+    const latest = await reloader.whenApplied();
+
+    expect(latest?.changes).toEqual(['replyTemplate']);
+    expect(autoResponder.generateReply(email).body).toBe('Second');
+  });
+});
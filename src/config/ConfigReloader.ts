@@ -0,0 +1,258 @@
+import { Config, OAuth2Config } from '../models';
+import { MessageFilter, SenderThrottle, DEFAULT_SENDER_COOLDOWN_HOURS } from '../filter';
+import { AutoResponderImpl, ReadTrackerImpl, SmtpConfig, TemplateOptions } from '../responder';
+import { EmailMonitorImpl, ImapConfig } from '../monitor';
+
+export type MonitorReloadAction = 'unchanged' | 'reconfigured' | 'started' | 'stopped' | 'not_configured';
+
+export interface ConfigReloadResult {
+  appliedAt: Date;
+  changes: string[];
+  monitor: MonitorReloadAction;
+  monitoring: boolean;
+}
+
+export interface ConfigReloaderOptions {
+  initialConfig: Config;
+  messageFilter: MessageFilter;
+  autoResponder: AutoResponderImpl;
+  readTracker: ReadTrackerImpl;
+  senderThrottle?: SenderThrottle;
+  emailMonitor?: EmailMonitorImpl | null;
+  createMonitor: (config: Config) => EmailMonitorImpl;
+  resolveConfig?: (config: Config) => Config;
+}
+
+/**
+ * The OAuth2 client settings when the configuration signs in with XOAUTH2
+ */
+function oauth2For(config: Config): OAuth2Config | undefined {
+  return config.email.authMethod === 'xoauth2' ? config.email.oauth2 : undefined;
+}
+
+/**
+ * Builds the IMAP connection settings for a configuration
+ */
+export function buildImapConfig(config: Config): ImapConfig {
+  const oauth2 = oauth2For(config);
+  return {
+    user: config.email.username,
+    password: oauth2 ? '' : config.email.password,
+    host: config.email.imapHost,
+    port: config.email.imapPort,
+    tls: true,
+    ...(oauth2 && { oauth2 }),
+  };
+}
+
+/**
+ * Builds the SMTP transport settings for a configuration
+ */
+export function buildSmtpConfig(config: Config): SmtpConfig {
+  const oauth2 = oauth2For(config);
+  return {
+    host: config.email.smtpHost,
+    port: config.email.smtpPort,
+    secure: config.email.smtpPort === 465,
+    auth: {
+      user: config.email.username,
+      pass: oauth2 ? '' : config.email.password,
+    },
+    ...(oauth2 && { oauth2 }),
+  };
+}
+
+/**
+ * Builds the time zone and business hours settings used to render templates
+ */
+export function buildTemplateOptions(config: Config): TemplateOptions {
+  return {
+    timeZone: config.autoReply.timeZone || undefined,
+    businessHours: config.autoReply.businessHours,
+    replyWithinHours: config.autoReply.replyWithinHours,
+  };
+}
+
+/**
+ * Checks if the configuration has enough credentials to monitor the inbox
+ */
+export function hasImapCredentials(config: Config): boolean {
+  const oauth2 = oauth2For(config);
+  const signIn = config.email.authMethod === 'xoauth2'
+    ? Boolean(oauth2 && oauth2.clientId && oauth2.clientSecret && oauth2.refreshToken && oauth2.tokenUrl)
+    : Boolean(config.email.password);
+  return Boolean(config.email.username && config.email.imapHost && signIn);
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Applies configuration changes to the running components without a restart
+ */
+export class ConfigReloader {
+  private options: ConfigReloaderOptions;
+  private current: Config;
+  private emailMonitor: EmailMonitorImpl | null;
+  private lastReload: Promise<ConfigReloadResult | null> = Promise.resolve(null);
+
+  constructor(options: ConfigReloaderOptions) {
+    this.options = options;
+    this.current = this.resolve(options.initialConfig);
+    this.emailMonitor = options.emailMonitor || null;
+  }
+
+  /**
+   * Queues a reload for the given configuration; reloads run one at a time in order
+   */
+  reload(config: Config): Promise<ConfigReloadResult> {
+    const result = this.lastReload.then(() => this.apply(config));
+    this.lastReload = result.catch(() => null);
+    return result;
+  }
+
+  /**
+   * Resolves with the outcome of the most recently queued reload
+   */
+  whenApplied(): Promise<ConfigReloadResult | null> {
+    return this.lastReload;
+  }
+
+  /**
+   * Returns the email monitor, which may have been created by a reload
+   */
+  getEmailMonitor(): EmailMonitorImpl | null {
+    return this.emailMonitor;
+  }
+
+  /**
+   * Apply the differences between the current and the new configuration
+   */
+  async apply(config: Config): Promise<ConfigReloadResult> {
+    const previous = this.current;
+    const next = this.resolve(config);
+    const { messageFilter, autoResponder, readTracker, senderThrottle } = this.options;
+    const changes: string[] = [];
+
+    if (!isSame(previous.filters, next.filters)) {
+      messageFilter.updateKeywords(next.filters.keywords);
+      messageFilter.updateExcludedDomains(next.filters.excludedDomains);
+      messageFilter.setKeywordsEnabled(next.filters.keywordsEnabled);
+      changes.push('filters');
+    }
+
+    if (previous.autoReply.senderCooldownHours !== next.autoReply.senderCooldownHours) {
+      senderThrottle?.setCooldownHours(next.autoReply.senderCooldownHours ?? DEFAULT_SENDER_COOLDOWN_HOURS);
+      changes.push('senderCooldownHours');
+    }
+
+    if (previous.autoReply.replyTemplate !== next.autoReply.replyTemplate) {
+      autoResponder.setReplyTemplate(next.autoReply.replyTemplate);
+      changes.push('replyTemplate');
+    }
+
+    if (previous.autoReply.replyHtmlTemplate !== next.autoReply.replyHtmlTemplate) {
+      autoResponder.setReplyHtmlTemplate(next.autoReply.replyHtmlTemplate || undefined);
+      changes.push('replyHtmlTemplate');
+    }
+
+    if (Boolean(previous.autoReply.leaveUnread) !== Boolean(next.autoReply.leaveUnread)) {
+      autoResponder.setLeaveUnread(Boolean(next.autoReply.leaveUnread));
+      this.emailMonitor?.setLeaveUnread(Boolean(next.autoReply.leaveUnread));
+      changes.push('leaveUnread');
+    }
+
+    if (!isSame(previous.autoReply.postActions || {}, next.autoReply.postActions || {})) {
+      autoResponder.setPostActions(next.autoReply.postActions || {});
+      this.emailMonitor?.setPostActions(next.autoReply.postActions || {});
+      changes.push('postActions');
+    }
+
+    if (previous.autoReply.manualConfirmation !== next.autoReply.manualConfirmation) {
+      autoResponder.setManualConfirmation(next.autoReply.manualConfirmation);
+      changes.push('manualConfirmation');
+    }
+
+    const templateOptions = buildTemplateOptions(next);
+    if (!isSame(buildTemplateOptions(previous), templateOptions)) {
+      autoResponder.setTemplateOptions(templateOptions);
+      changes.push('templateOptions');
+    }
+
+    const smtpConfig = buildSmtpConfig(next);
+    if (!isSame(buildSmtpConfig(previous), smtpConfig)) {
+      autoResponder.updateSmtpConfig(smtpConfig);
+      changes.push('smtp');
+    }
+
+    const imapConfig = buildImapConfig(next);
+    const imapChanged = !isSame(buildImapConfig(previous), imapConfig);
+    if (imapChanged) {
+      readTracker.updateImapConfig(imapConfig);
+      this.emailMonitor?.updateImapConfig(imapConfig);
+      changes.push('imap');
+    }
+
+    const intervalChanged = previous.autoReply.checkInterval !== next.autoReply.checkInterval;
+    if (intervalChanged) {
+      this.emailMonitor?.setCheckInterval(next.autoReply.checkInterval * 1000);
+      changes.push('checkInterval');
+    }
+
+    if (!isSame(previous.autoReply.mailboxes || [], next.autoReply.mailboxes || [])) {
+      this.emailMonitor?.setMailboxes(next.autoReply.mailboxes || []);
+      changes.push('mailboxes');
+    }
+
+    if (Boolean(previous.autoReply.pushMode) !== Boolean(next.autoReply.pushMode)) {
+      await this.emailMonitor?.setPushMode(Boolean(next.autoReply.pushMode));
+      changes.push('pushMode');
+    }
+
+    this.current = next;
+
+    const monitor = await this.applyMonitorState(previous, next, imapChanged || intervalChanged);
+
+    return {
+      appliedAt: new Date(),
+      changes,
+      monitor,
+      monitoring: this.emailMonitor ? this.emailMonitor.isMonitoring() : false,
+    };
+  }
+
+  /**
+   * Start the monitor once credentials appear and stop it when they are removed
+   */
+  private async applyMonitorState(
+    previous: Config,
+    next: Config,
+    reconfigured: boolean
+  ): Promise<MonitorReloadAction> {
+    if (!hasImapCredentials(next)) {
+      if (this.emailMonitor && this.emailMonitor.isMonitoring()) {
+        await this.emailMonitor.stop();
+        return 'stopped';
+      }
+      return 'not_configured';
+    }
+
+    if (!this.emailMonitor) {
+      this.emailMonitor = this.options.createMonitor(next);
+    } else if (hasImapCredentials(previous) || this.emailMonitor.isMonitoring()) {
+      return reconfigured ? 'reconfigured' : 'unchanged';
+    }
+
+    // start() marks the monitor as running before the first poll, which
+    // continues in the background so the caller is not held up by IMAP
+    this.emailMonitor.start().catch((error) => {
+      console.error('Failed to start email monitor:', error);
+    });
+    return 'started';
+  }
+
+  private resolve(config: Config): Config {
+    return this.options.resolveConfig ? this.options.resolveConfig(config) : config;
+  }
+}
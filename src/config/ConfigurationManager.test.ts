@@ -1,13 +1,26 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
-import { ConfigurationManagerImpl } from './ConfigurationManager';
+import { ConfigurationManagerImpl, createDefaultConfig } from './ConfigurationManager';
+import { validateTemplate } from '../responder';
 import { Config } from '../models';
 import * as fs from 'fs';
 import * as path from 'path';
+import { KeyRing } from '../secrets';
+import { Database } from '../database/connection';
+import { runMigrations } from '../database/migrations';
+
+const keys = new KeyRing(['test-encryption-key'], Buffer.alloc(16, 1));
+
+// A configuration manager over its own migrated database file
+async function openStore(dbPath: string): Promise<{ manager: ConfigurationManagerImpl; db: Database }> {
+  const db = new Database();
+  await db.connect(dbPath);
+  await runMigrations(db);
+  return { manager: new ConfigurationManagerImpl(db, keys), db };
+}
 
 describe('ConfigurationManager Property Tests', () => {
   let testDbPath: string;
-  let configManager: ConfigurationManagerImpl;
 
   beforeEach(() => {
     // Create a unique test database for each test
@@ -16,14 +29,183 @@ describe('ConfigurationManager Property Tests', () => {
 
   afterEach(async () => {
     // Clean up
-    if (configManager) {
-      await configManager.close();
-    }
     if (fs.existsSync(testDbPath)) {
       fs.unlinkSync(testDbPath);
     }
   });
 
+  it('should reject reply templates that do not parse, with line and column', async () => {
+    const { manager, db } = await openStore(testDbPath);
+
+    try {
+      await expect(manager.updateConfig({
+        autoReply: {
+          manualConfirmation: true,
+          replyTemplate: 'Hello {sender.name|there},\n\nWe reply by {replyBy}.\n{#if body}{quotedBody}{/unless}',
+          checkInterval: 10,
+        },
+      })).rejects.toThrow('Invalid replyTemplate: {/unless} does not close {#if} at line 4, column 23');
+
+      // The stored configuration is left unchanged
+      const config = await manager.getConfig();
+      expect(config.autoReply.replyTemplate).toBe('Thank you for your email. I will respond shortly.');
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should keep stored OAuth2 secrets that an update leaves out', async () => {
+    const { manager, db } = await openStore(testDbPath);
+
+    try {
+      await manager.updateConfig({
+        email: {
+          imapHost: 'imap.gmail.com',
+          imapPort: 993,
+          smtpHost: 'smtp.gmail.com',
+          smtpPort: 465,
+          username: 'bot@example.org',
+          password: '',
+          authMethod: 'xoauth2',
+          oauth2: { clientId: 'id', clientSecret: 'secret', refreshToken: 'refresh', tokenUrl: 'https://oauth2.googleapis.com/token' },
+        },
+      });
+      await manager.updateConfig({ email: { oauth2: { clientId: 'new-id' } } } as any);
+
+      expect((await manager.getConfig()).email.oauth2).toEqual({
+        clientId: 'new-id',
+        clientSecret: 'secret',
+        refreshToken: 'refresh',
+        tokenUrl: 'https://oauth2.googleapis.com/token',
+      });
+
+      const raw = fs.readFileSync(testDbPath).toString('latin1');
+      expect(raw).not.toContain('refresh');
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should record each change as a version and leave out secrets and no-op updates', async () => {
+    const { manager, db } = await openStore(testDbPath);
+
+    try {
+      await manager.updateConfig({
+        email: {
+          ...createDefaultConfig().email,
+          authMethod: 'xoauth2',
+          oauth2: { clientId: 'id', clientSecret: 'client-secret', refreshToken: 'refresh-token', tokenUrl: 'https://oauth2.googleapis.com/token' },
+        },
+      }, 'ada');
+      await manager.updateConfig({ filters: createDefaultConfig().filters }, 'ada');
+      await manager.updateConfig({ filters: { keywordsEnabled: true, keywords: ['urgent'], excludedDomains: [] } });
+
+      const history = await manager.getHistory();
+      expect(history.map(version => [version.version, version.author])).toEqual([[3, null], [2, 'ada'], [1, null]]);
+      expect(history[0].changes).toEqual([
+        { field: 'filters.keywordsEnabled', from: false, to: true },
+        { field: 'filters.keywords', from: [], to: ['urgent'] },
+      ]);
+      expect(history[1].changes).toEqual([
+        { field: 'email.authMethod', to: 'xoauth2' },
+        { field: 'email.oauth2', to: { clientId: 'id', clientSecret: '********', refreshToken: '********', tokenUrl: 'https://oauth2.googleapis.com/token' } },
+      ]);
+      expect(await manager.getHistory(1, 2)).toEqual([expect.objectContaining({ version: 1 })]);
+
+      const raw = fs.readFileSync(testDbPath).toString('latin1');
+      expect(raw).not.toContain('client-secret');
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should restore a version and notify subscribers', async () => {
+    const { manager, db } = await openStore(testDbPath);
+    const notified: Config[] = [];
+    manager.subscribe(config => notified.push(config));
+
+    try {
+      await manager.updateConfig({ email: { ...createDefaultConfig().email, password: 'old-secret' } });
+      await manager.updateConfig({ email: { password: 'new-secret' } } as any);
+
+      expect(await manager.rollback(7)).toBeNull();
+      const restored = await manager.rollback(2, 'ada', { restoreSecrets: true });
+
+      expect(restored).toMatchObject({ version: 4, author: 'ada', rollbackOf: 2, changes: [{ field: 'email.password', from: '********', to: '********' }] });
+      expect((await manager.getConfig()).email.password).toBe('old-secret');
+      expect(notified[notified.length - 1].email.password).toBe('old-secret');
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should store a rotated refresh token in place of the replaced one', async () => {
+    const { manager, db } = await openStore(testDbPath);
+    const oauth2 = { clientId: 'id', clientSecret: 'client-secret', refreshToken: 'refresh-token', tokenUrl: 'https://oauth2.googleapis.com/token' };
+
+    try {
+      await manager.updateConfig({ email: { ...createDefaultConfig().email, authMethod: 'xoauth2', oauth2 } });
+
+      expect(await manager.replaceRefreshToken('other-token', 'refresh-token-1')).toBe(false);
+      expect(await manager.replaceRefreshToken('refresh-token', 'refresh-token-1')).toBe(true);
+
+      expect((await manager.getConfig()).email.oauth2).toEqual({ ...oauth2, refreshToken: 'refresh-token-1' });
+      expect((await manager.getHistory())[0].changes).toEqual([
+        { field: 'email.oauth2.refreshToken', from: '********', to: '********' },
+      ]);
+      expect(fs.readFileSync(testDbPath).toString('latin1')).not.toContain('refresh-token-1');
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should keep the current secrets when restoring a version', async () => {
+    const { manager, db } = await openStore(testDbPath);
+
+    try {
+      await manager.updateConfig({ email: { ...createDefaultConfig().email, password: 'old-secret' }, filters: { keywordsEnabled: true, keywords: ['urgent'], excludedDomains: [] } });
+      await manager.updateConfig({ email: { password: 'new-secret' }, filters: { keywordsEnabled: false, keywords: [], excludedDomains: [] } } as any);
+
+      const restored = await manager.rollback(2);
+
+      expect(restored?.changes).toEqual([
+        { field: 'filters.keywordsEnabled', from: false, to: true },
+        { field: 'filters.keywords', from: [], to: ['urgent'] },
+      ]);
+      expect((await manager.getConfig()).email.password).toBe('new-secret');
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should refuse to restore a version that is no longer valid', async () => {
+    const { manager, db } = await openStore(testDbPath);
+
+    try {
+      await manager.updateConfig({ filters: { keywordsEnabled: true, keywords: ['urgent'], excludedDomains: [] } });
+      const invalid = { ...createDefaultConfig(), autoReply: { ...createDefaultConfig().autoReply, replyTemplate: '{#if body}Hello' } };
+      await db.run('UPDATE config_history SET data = ? WHERE version = 1', [keys.encrypt(JSON.stringify(invalid))]);
+
+      await expect(manager.rollback(1)).rejects.toThrow('Invalid replyTemplate: Unclosed {#if} at line 1, column 1');
+      expect(await manager.getHistory()).toHaveLength(2);
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should leave the stored configuration unchanged when its history cannot be written', async () => {
+    const { manager, db } = await openStore(testDbPath);
+
+    try {
+      await db.run('DROP TABLE config_history');
+
+      await expect(manager.updateConfig({ filters: { keywordsEnabled: true, keywords: ['urgent'], excludedDomains: [] } })).rejects.toThrow('no such table');
+      expect(await db.get('SELECT data FROM config WHERE id = 1')).toBeUndefined();
+    } finally {
+      await db.close();
+    }
+  });
+
   /**
    * **Feature: lazy-mail-boss, Property 18: Credential encryption at rest**
    * **Validates: Requirements 6.2**
@@ -45,14 +227,14 @@ describe('ConfigurationManager Property Tests', () => {
         async (emailConfig) => {
           // Create a unique database for each iteration
           const iterationDbPath = path.join(__dirname, `test-config-${Date.now()}-${Math.random()}.db`);
-          const manager = new ConfigurationManagerImpl(iterationDbPath, 'test-encryption-key');
+          const { manager, db: store } = await openStore(iterationDbPath);
           
           try {
             // Update config with the generated credentials
             await manager.updateConfig({ email: emailConfig });
 
-            // Close the manager to release the database connection
-            await manager.close();
+            // Close the store to release the database connection
+            await store.close();
 
             // Longer delay to ensure file handles are released on Windows
             await new Promise(resolve => setTimeout(resolve, 50));
@@ -84,10 +266,10 @@ describe('ConfigurationManager Property Tests', () => {
             expect(row.data).not.toContain(emailConfig.password);
 
             // Reopen to verify we can retrieve the password correctly
-            const manager2 = new ConfigurationManagerImpl(iterationDbPath, 'test-encryption-key');
-            const retrievedConfig = await manager2.getConfig();
+            const reopened = await openStore(iterationDbPath);
+            const retrievedConfig = await reopened.manager.getConfig();
             expect(retrievedConfig.email.password).toBe(emailConfig.password);
-            await manager2.close();
+            await reopened.db.close();
 
             // Longer delay before cleanup
             await new Promise(resolve => setTimeout(resolve, 50));
@@ -133,12 +315,13 @@ describe('ConfigurationManager Property Tests', () => {
           keywords: fc.array(fc.string({ minLength: 1, maxLength: 20 }), { minLength: 1, maxLength: 5 }),
           excludedDomains: fc.array(fc.string({ minLength: 1, maxLength: 20 }), { minLength: 1, maxLength: 5 }),
           manualConfirmation: fc.boolean(),
-          replyTemplate: fc.string({ minLength: 10, maxLength: 100 })
+          // Only templates that parse can be saved
+          replyTemplate: fc.string({ minLength: 10, maxLength: 100 }).filter(t => validateTemplate(t) === null)
         }),
         async (updates) => {
           // Create a unique database for this test
           const testDb = path.join(__dirname, `test-hotreload-${Date.now()}-${Math.random()}.db`);
-          const manager = new ConfigurationManagerImpl(testDb, 'test-key');
+          const { manager, db } = await openStore(testDb);
           
           try {
             // Track if subscriber was called
@@ -184,7 +367,7 @@ describe('ConfigurationManager Property Tests', () => {
             expect(retrievedConfig.autoReply.manualConfirmation).toBe(updates.manualConfirmation);
             expect(retrievedConfig.autoReply.replyTemplate).toBe(updates.replyTemplate);
 
-            await manager.close();
+            await db.close();
             await new Promise(resolve => setTimeout(resolve, 50));
 
             // Clean up
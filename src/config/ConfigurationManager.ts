@@ -1,65 +1,99 @@
-import { Config } from '../models';
-import * as crypto from 'crypto';
-import * as sqlite3 from 'sqlite3';
+import {
+  Config,
+  ConfigVersion,
+  diffConfig,
+  isValidTimeZone,
+  mergeEmailConfig,
+  SECRET_CONFIG_FIELDS,
+  validateBusinessHours,
+  validateEmailAuth,
+  validateMailboxes,
+  validatePostActionConfig
+} from '../models';
+import { validateTemplate } from '../responder/TemplateEngine';
+import { KeyRing, isJsonDocument } from '../secrets';
+import { Database } from '../database/connection';
 
 export interface ConfigurationManager {
   getConfig(): Promise<Config>;
-  updateConfig(updates: Partial<Config>): Promise<void>;
+  updateConfig(updates: Partial<Config>, author?: string): Promise<void>;
+  getHistory(limit?: number, offset?: number): Promise<ConfigVersion[]>;
+  rollback(version: number, author?: string, options?: RollbackOptions): Promise<ConfigVersion | null>;
   subscribe(listener: (config: Config) => void): void;
 }
 
-type ConfigListener = (config: Config) => void;
+export interface RollbackOptions {
+  // Bring back the passwords and tokens of the version too, instead of keeping the current ones
+  restoreSecrets?: boolean;
+}
 
-export class ConfigurationManagerImpl implements ConfigurationManager {
-  private db: sqlite3.Database;
-  private listeners: ConfigListener[] = [];
-  private encryptionKey: Buffer;
-  private algorithm = 'aes-256-cbc';
-  private currentConfig: Config | null = null;
+type ConfigListener = (config: Config) => void;
 
-  private dbReady: Promise<void>;
+interface ConfigHistoryRow {
+  version: number;
+  data: string;
+  author: string | null;
+  changes: string;
+  rollback_of: number | null;
+  created_at: string;
+}
 
-  constructor(dbPath: string = './config.db', encryptionKey?: string) {
-    this.db = new sqlite3.Database(dbPath);
-    
-    // Use provided key or generate from environment variable
-    const keyString = encryptionKey || process.env.ENCRYPTION_KEY || 'default-key-change-in-production';
-    this.encryptionKey = crypto.scryptSync(keyString, 'salt', 32);
-    
-    this.dbReady = this.initializeDatabase();
-  }
+/**
+ * Settings used until a configuration is saved, and as the starting point
+ * for new accounts
+ */
+export function createDefaultConfig(): Config {
+  return {
+    email: {
+      imapHost: '',
+      imapPort: 993,
+      smtpHost: '',
+      smtpPort: 587,
+      username: '',
+      password: ''
+    },
+    filters: {
+      keywordsEnabled: false,
+      keywords: [],
+      excludedDomains: []
+    },
+    autoReply: {
+      manualConfirmation: true,
+      replyTemplate: 'Thank you for your email. I will respond shortly.',
+      checkInterval: 10,
+      senderCooldownHours: 24
+    }
+  };
+}
 
-  private async initializeDatabase(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.db.run(`
-        CREATE TABLE IF NOT EXISTS config (
-          id INTEGER PRIMARY KEY CHECK (id = 1),
-          data TEXT NOT NULL
-        )
-      `, (err) => {
-        if (err) reject(err);
-        else resolve();
-      });
-    });
+/**
+ * A copy of the configuration with the secrets of another one, wherever the
+ * copy has the setting that holds them
+ */
+function withSecretsOf(config: Config, source: Config): Config {
+  const result: Config = JSON.parse(JSON.stringify(config));
+  for (const field of SECRET_CONFIG_FIELDS) {
+    const path = field.split('.');
+    const key = path.pop()!;
+    const target = path.reduce((object: any, part) => object?.[part], result);
+    const value = path.reduce((object: any, part) => object?.[part], source)?.[key];
+    if (target && value !== undefined) {
+      target[key] = value;
+    }
   }
+  return result;
+}
 
-  private encrypt(text: string): string {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(this.algorithm, this.encryptionKey, iv);
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    return iv.toString('hex') + ':' + encrypted;
-  }
+/**
+ * Stores the configuration as one encrypted document in the main database,
+ * with every saved version in config_history. The tables are created by
+ * the database migrations.
+ */
+export class ConfigurationManagerImpl implements ConfigurationManager {
+  private listeners: ConfigListener[] = [];
+  private currentConfig: Config | null = null;
 
-  private decrypt(encryptedText: string): string {
-    const parts = encryptedText.split(':');
-    const iv = Buffer.from(parts[0], 'hex');
-    const encrypted = parts[1];
-    const decipher = crypto.createDecipheriv(this.algorithm, this.encryptionKey, iv);
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    return decrypted;
-  }
+  constructor(private db: Database, private keys: KeyRing) {}
 
   private validateConfig(config: Partial<Config>): void {
     if (config.email) {
@@ -81,6 +115,10 @@ export class ConfigurationManagerImpl implements ConfigurationManager {
       if (config.email.password && typeof config.email.password !== 'string') {
         throw new Error('Invalid password: must be a string');
       }
+      const authError = validateEmailAuth(config.email, true);
+      if (authError) {
+        throw new Error(`Invalid ${authError}`);
+      }
     }
 
     if (config.filters) {
@@ -102,102 +140,228 @@ export class ConfigurationManagerImpl implements ConfigurationManager {
       if (config.autoReply.replyTemplate && typeof config.autoReply.replyTemplate !== 'string') {
         throw new Error('Invalid replyTemplate: must be a string');
       }
+      if (typeof config.autoReply.replyTemplate === 'string') {
+        const templateError = validateTemplate(config.autoReply.replyTemplate);
+        if (templateError) {
+          throw new Error(`Invalid replyTemplate: ${templateError.message}`);
+        }
+      }
+      if (config.autoReply.replyHtmlTemplate !== undefined) {
+        if (typeof config.autoReply.replyHtmlTemplate !== 'string') {
+          throw new Error('Invalid replyHtmlTemplate: must be a string');
+        }
+        const templateError = validateTemplate(config.autoReply.replyHtmlTemplate);
+        if (templateError) {
+          throw new Error(`Invalid replyHtmlTemplate: ${templateError.message}`);
+        }
+      }
       if (config.autoReply.checkInterval && (typeof config.autoReply.checkInterval !== 'number' || config.autoReply.checkInterval <= 0)) {
         throw new Error('Invalid checkInterval: must be a positive number');
       }
+      if (config.autoReply.mailboxes !== undefined) {
+        const mailboxesError = validateMailboxes(config.autoReply.mailboxes);
+        if (mailboxesError) {
+          throw new Error(`Invalid ${mailboxesError}`);
+        }
+      }
+      if (config.autoReply.pushMode !== undefined && typeof config.autoReply.pushMode !== 'boolean') {
+        throw new Error('Invalid pushMode: must be a boolean');
+      }
+      if (config.autoReply.leaveUnread !== undefined && typeof config.autoReply.leaveUnread !== 'boolean') {
+        throw new Error('Invalid leaveUnread: must be a boolean');
+      }
+      if (config.autoReply.postActions !== undefined) {
+        const postActionsError = validatePostActionConfig(config.autoReply.postActions);
+        if (postActionsError) {
+          throw new Error(`Invalid ${postActionsError}`);
+        }
+      }
+      if (config.autoReply.senderCooldownHours !== undefined && (typeof config.autoReply.senderCooldownHours !== 'number' || config.autoReply.senderCooldownHours < 0)) {
+        throw new Error('Invalid senderCooldownHours: must be a non-negative number');
+      }
+      if (config.autoReply.timeZone && !isValidTimeZone(config.autoReply.timeZone)) {
+        throw new Error(`Invalid timeZone: ${config.autoReply.timeZone}`);
+      }
+      if (config.autoReply.businessHours !== undefined) {
+        const businessHoursError = validateBusinessHours(config.autoReply.businessHours);
+        if (businessHoursError) {
+          throw new Error(`Invalid ${businessHoursError}`);
+        }
+      }
+      if (config.autoReply.replyWithinHours !== undefined && (typeof config.autoReply.replyWithinHours !== 'number' || config.autoReply.replyWithinHours < 0)) {
+        throw new Error('Invalid replyWithinHours: must be a non-negative number');
+      }
     }
   }
 
   async getConfig(): Promise<Config> {
-    await this.dbReady;
-    
     if (this.currentConfig) {
       return this.currentConfig;
     }
 
-    return new Promise((resolve, reject) => {
-      this.db.get('SELECT data FROM config WHERE id = 1', (err, row: any) => {
-        if (err) {
-          reject(err);
-          return;
-        }
-
-        if (!row) {
-          // Return default config if none exists
-          const defaultConfig: Config = {
-            email: {
-              imapHost: '',
-              imapPort: 993,
-              smtpHost: '',
-              smtpPort: 587,
-              username: '',
-              password: ''
-            },
-            filters: {
-              keywordsEnabled: false,
-              keywords: [],
-              excludedDomains: []
-            },
-            autoReply: {
-              manualConfirmation: true,
-              replyTemplate: 'Thank you for your email. I will respond shortly.',
-              checkInterval: 10
-            }
-          };
-          this.currentConfig = defaultConfig;
-          resolve(defaultConfig);
-          return;
-        }
+    const row = await this.db.get<{ data: string }>('SELECT data FROM config WHERE id = 1');
 
-        try {
-          const decrypted = this.decrypt(row.data);
-          const config = JSON.parse(decrypted);
-          this.currentConfig = config;
-          resolve(config);
-        } catch (error) {
-          reject(error);
-        }
-      });
-    });
+    // Return default config if none exists
+    const config: Config = row ? JSON.parse(this.keys.decrypt(row.data, isJsonDocument)) : createDefaultConfig();
+    this.currentConfig = config;
+    return config;
   }
 
-  async updateConfig(updates: Partial<Config>): Promise<void> {
-    await this.dbReady;
-    
+  async updateConfig(updates: Partial<Config>, author?: string): Promise<void> {
     // Validate the updates
     this.validateConfig(updates);
 
     // Get current config and merge with updates
     const currentConfig = await this.getConfig();
     const newConfig: Config = {
-      email: { ...currentConfig.email, ...updates.email },
+      email: mergeEmailConfig(currentConfig.email, updates.email),
       filters: { ...currentConfig.filters, ...updates.filters },
       autoReply: { ...currentConfig.autoReply, ...updates.autoReply }
     };
 
-    // Encrypt and save
-    const encrypted = this.encrypt(JSON.stringify(newConfig));
+    await this.save(currentConfig, newConfig, author);
+  }
 
-    return new Promise((resolve, reject) => {
-      this.db.run(
-        'INSERT OR REPLACE INTO config (id, data) VALUES (1, ?)',
-        [encrypted],
-        (err) => {
-          if (err) {
-            reject(err);
-            return;
-          }
+  /**
+   * Saved versions, newest first, with the changes each one made
+   */
+  async getHistory(limit: number = 50, offset: number = 0): Promise<ConfigVersion[]> {
+    const rows = await this.db.all<ConfigHistoryRow>(
+      'SELECT * FROM config_history ORDER BY version DESC LIMIT ? OFFSET ?',
+      [limit, offset]
+    );
+    return rows.map(row => this.mapRowToVersion(row));
+  }
 
-          // Update cached config
-          this.currentConfig = newConfig;
+  /**
+   * Restore the settings of a version, recorded as a new version. The
+   * current secrets are kept unless restoreSecrets is set, so a rollback
+   * does not bring back a rotated password. Returns null when the version
+   * does not exist.
+   */
+  async rollback(version: number, author?: string, options: RollbackOptions = {}): Promise<ConfigVersion | null> {
+    const row = await this.db.get<ConfigHistoryRow>('SELECT * FROM config_history WHERE version = ?', [version]);
+    if (!row) {
+      return null;
+    }
 
-          // Notify all subscribers
-          this.notifyListeners(newConfig);
+    const currentConfig = await this.getConfig();
+    const stored: Config = JSON.parse(this.keys.decrypt(row.data, isJsonDocument));
+    const restored = options.restoreSecrets ? stored : withSecretsOf(stored, currentConfig);
 
-          resolve();
-        }
-      );
+    // Versions saved under older rules may no longer be valid
+    this.validateConfig(restored);
+
+    return this.save(currentConfig, restored, author, version);
+  }
+
+  /**
+   * Store a refresh token that the OAuth2 provider rotated in place of the
+   * one it replaced. Returns false when the configuration holds another one.
+   */
+  async replaceRefreshToken(previous: string, refreshToken: string): Promise<boolean> {
+    const currentConfig = await this.getConfig();
+    const oauth2 = currentConfig.email.oauth2;
+    if (oauth2?.refreshToken !== previous) {
+      return false;
+    }
+
+    await this.save(currentConfig, { ...currentConfig, email: { ...currentConfig.email, oauth2: { ...oauth2, refreshToken } } });
+    return true;
+  }
+
+  /**
+   * Store a configuration and record it as a version when it changed
+   * anything (a rollback is always recorded). The configuration in place
+   * before the first recorded change is kept as version 1.
+   */
+  private async save(previous: Config, config: Config, author?: string, rollbackOf?: number): Promise<ConfigVersion | null> {
+    const changes = diffConfig(previous, config);
+
+    // The configuration and its history are written together, or not at all
+    const version = await this.db.transaction(async (): Promise<ConfigVersion | null> => {
+      await this.db.run('INSERT OR REPLACE INTO config (id, data) VALUES (1, ?)', [this.keys.encrypt(JSON.stringify(config))]);
+
+      if (changes.length === 0 && rollbackOf === undefined) {
+        return null;
+      }
+
+      const latest = await this.db.get<{ version: number | null }>('SELECT MAX(version) AS version FROM config_history');
+      let next = (latest?.version || 0) + 1;
+      if (next === 1) {
+        await this.insertVersion({ version: next++, author: null, createdAt: new Date(), changes: [] }, previous);
+      }
+
+      const saved: ConfigVersion = {
+        version: next,
+        author: author || null,
+        createdAt: new Date(),
+        changes,
+        ...(rollbackOf !== undefined && { rollbackOf }),
+      };
+      await this.insertVersion(saved, config);
+      return saved;
     });
+
+    // Update cached config
+    this.currentConfig = config;
+
+    // Notify all subscribers
+    this.notifyListeners(config);
+
+    return version;
+  }
+
+  private async insertVersion(version: ConfigVersion, config: Config): Promise<void> {
+    await this.db.run(
+      `INSERT INTO config_history (version, data, author, changes, rollback_of, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        version.version,
+        this.keys.encrypt(JSON.stringify(config)),
+        version.author,
+        this.keys.encrypt(JSON.stringify(version.changes)),
+        version.rollbackOf ?? null,
+        version.createdAt.toISOString(),
+      ]
+    );
+  }
+
+  private mapRowToVersion(row: ConfigHistoryRow): ConfigVersion {
+    return {
+      version: row.version,
+      author: row.author,
+      createdAt: new Date(row.created_at),
+      changes: JSON.parse(this.keys.decrypt(row.changes, isJsonDocument)),
+      ...(row.rollback_of !== null && { rollbackOf: row.rollback_of }),
+    };
+  }
+
+  /**
+   * Re-encrypt the configuration and its history under the current key,
+   * e.g. after a key rotation. Returns how many values were rewritten.
+   */
+  async reencrypt(): Promise<number> {
+    let count = 0;
+    const current = await this.db.get<{ data: string }>('SELECT data FROM config WHERE id = 1');
+    if (current && !this.keys.isCurrent(current.data)) {
+      await this.db.run('UPDATE config SET data = ? WHERE id = 1', [this.keys.reencrypt(current.data, isJsonDocument)]);
+      count++;
+    }
+
+    const versions = await this.db.all<ConfigHistoryRow>('SELECT * FROM config_history');
+    for (const row of versions) {
+      if (this.keys.isCurrent(row.data) && this.keys.isCurrent(row.changes)) {
+        continue;
+      }
+      await this.db.run(
+        'UPDATE config_history SET data = ?, changes = ? WHERE version = ?',
+        [this.keys.reencrypt(row.data, isJsonDocument), this.keys.reencrypt(row.changes, isJsonDocument), row.version]
+      );
+      count++;
+    }
+
+    return count;
   }
 
   subscribe(listener: ConfigListener): void {
@@ -213,13 +377,4 @@ export class ConfigurationManagerImpl implements ConfigurationManager {
       }
     }
   }
-
-  async close(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.db.close((err) => {
-        if (err) reject(err);
-        else resolve();
-      });
-    });
-  }
 }
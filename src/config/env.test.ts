@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { loadEnvConfig } from './env';
 
 describe('Environment Configuration', () => {
@@ -18,12 +18,12 @@ describe('Environment Configuration', () => {
     // Clear relevant env vars
     delete process.env.PORT;
     delete process.env.NODE_ENV;
-    delete process.env.ENCRYPTION_KEY;
+    process.env.ENCRYPTION_KEY = 'my-secure-key-123';
 
     const config = loadEnvConfig();
 
     expect(config.port).toBe(3000);
-    expect(config.nodeEnv).toBe('development');
+    expect(config.nodeEnv).toBe('production');
     expect(config.databasePath).toBe('./data/lazymail.db');
     expect(config.configDatabasePath).toBe('./data/config.db');
     expect(config.logLevel).toBe('info');
@@ -88,6 +88,28 @@ describe('Environment Configuration', () => {
     expect(config.autoReply?.replyTemplate).toBe('Custom template');
   });
 
+  it('should load sender cooldown only when configured', () => {
+    process.env.CHECK_INTERVAL = '30';
+    delete process.env.SENDER_COOLDOWN_HOURS;
+
+    expect(loadEnvConfig().autoReply?.senderCooldownHours).toBeUndefined();
+
+    process.env.SENDER_COOLDOWN_HOURS = '168';
+
+    expect(loadEnvConfig().autoReply?.senderCooldownHours).toBe(168);
+  });
+
+  it('should load push mode only when configured', () => {
+    process.env.CHECK_INTERVAL = '30';
+    delete process.env.PUSH_MODE;
+
+    expect(loadEnvConfig().autoReply?.pushMode).toBeUndefined();
+
+    process.env.PUSH_MODE = 'true';
+
+    expect(loadEnvConfig().autoReply?.pushMode).toBe(true);
+  });
+
   it('should parse boolean values correctly', () => {
     process.env.MANUAL_CONFIRMATION = 'true';
     process.env.KEYWORDS_ENABLED = '1';
@@ -136,6 +158,26 @@ describe('Environment Configuration', () => {
     expect(() => loadEnvConfig()).toThrow('ENCRYPTION_KEY is required in production');
   });
 
+  it('should refuse a default ENCRYPTION_KEY outside development', () => {
+    process.env.ENCRYPTION_KEY = 'change-this-to-a-secure-random-key-in-production';
+
+    process.env.NODE_ENV = 'staging';
+    expect(() => loadEnvConfig()).toThrow('ENCRYPTION_KEY must not be the default key in staging environment');
+
+    process.env.NODE_ENV = 'development';
+    expect(() => loadEnvConfig()).not.toThrow();
+  });
+
+  it('should load previous encryption keys for rotation', () => {
+    process.env.ENCRYPTION_KEY = 'new-key';
+    process.env.PREVIOUS_ENCRYPTION_KEYS = 'old-key, older-key';
+
+    const config = loadEnvConfig();
+
+    expect(config.previousEncryptionKeys).toEqual(['old-key', 'older-key']);
+    expect(config.encryptionSaltPath).toBe('./data/encryption.salt');
+  });
+
   it('should allow missing ENCRYPTION_KEY in development', () => {
     process.env.NODE_ENV = 'development';
     delete process.env.ENCRYPTION_KEY;
@@ -143,6 +185,34 @@ describe('Environment Configuration', () => {
     expect(() => loadEnvConfig()).not.toThrow();
   });
 
+  it('should only accept the default key when NODE_ENV names a development environment', () => {
+    delete process.env.NODE_ENV;
+    delete process.env.ENCRYPTION_KEY;
+    expect(() => loadEnvConfig()).toThrow('ENCRYPTION_KEY is required in production environment');
+
+    process.env.ENCRYPTION_KEY = 'default-key-change-in-production';
+    expect(() => loadEnvConfig()).toThrow('ENCRYPTION_KEY must not be the default key in production environment');
+  });
+
+  it('should warn whenever the default key is in use', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      process.env.NODE_ENV = 'development';
+
+      delete process.env.ENCRYPTION_KEY;
+      loadEnvConfig();
+      process.env.ENCRYPTION_KEY = 'change-this-to-a-secure-random-key-in-production';
+      loadEnvConfig();
+      expect(warn).toHaveBeenCalledTimes(2);
+
+      process.env.ENCRYPTION_KEY = 'my-secure-key-123';
+      loadEnvConfig();
+      expect(warn).toHaveBeenCalledTimes(2);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
   it('should handle invalid port gracefully', () => {
     process.env.PORT = 'invalid';
 
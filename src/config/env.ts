@@ -1,6 +1,8 @@
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 import * as fs from 'fs';
+import { Config } from '../models';
+import { KeyRing, loadSalt } from '../secrets';
 
 // Load .env file if it exists
 const envPath = path.resolve(process.cwd(), '.env');
@@ -18,10 +20,14 @@ export interface EnvConfig {
   
   // Security
   encryptionKey: string;
+  previousEncryptionKeys: string[]; // Still accepted for decryption after a rotation
+  encryptionSaltPath: string; // Random salt of this install, created on first start
+  adminUsername: string; // The first dashboard admin, created when there are no users yet
+  adminPassword?: string; // Generated and printed once when not set
   
   // Database
   databasePath: string;
-  configDatabasePath: string;
+  configDatabasePath: string; // Separate configuration store of earlier versions, imported by the migrations
   
   // Logging
   logLevel: string;
@@ -43,6 +49,8 @@ export interface EnvConfig {
     checkInterval?: number;
     manualConfirmation?: boolean;
     replyTemplate?: string;
+    senderCooldownHours?: number;
+    pushMode?: boolean;
   };
   
   // Optional filter configuration
@@ -79,20 +87,30 @@ function parseList(value: string | undefined): string[] | undefined {
   return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
 }
 
+// The key used without ENCRYPTION_KEY, and the placeholder from .env.example
+const DEFAULT_ENCRYPTION_KEYS = ['default-key-change-in-production', 'change-this-to-a-secure-random-key-in-production'];
+
+// Environments where a missing or default encryption key is only warned about
+const DEVELOPMENT_ENVIRONMENTS = ['development', 'test'];
+
+// Without NODE_ENV the stricter production checks apply
+const DEFAULT_NODE_ENV = 'production';
+
 /**
  * Validate required environment variables
  */
 function validateRequiredEnvVars(): void {
   const errors: string[] = [];
+  const nodeEnv = process.env.NODE_ENV || DEFAULT_NODE_ENV;
+  const isDevelopment = DEVELOPMENT_ENVIRONMENTS.includes(nodeEnv);
   
-  // ENCRYPTION_KEY is required in production
-  if (process.env.NODE_ENV === 'production' && !process.env.ENCRYPTION_KEY) {
-    errors.push('ENCRYPTION_KEY is required in production environment');
-  }
-  
-  // Warn if using default encryption key
-  if (process.env.ENCRYPTION_KEY === 'change-this-to-a-secure-random-key-in-production') {
-    console.warn('⚠️  WARNING: Using default ENCRYPTION_KEY. Please set a secure key in production!');
+  // ENCRYPTION_KEY is required, and may not be a default key, unless NODE_ENV names a development environment
+  if (!isDevelopment && !process.env.ENCRYPTION_KEY) {
+    errors.push(`ENCRYPTION_KEY is required in ${nodeEnv} environment`);
+  } else if (!isDevelopment && DEFAULT_ENCRYPTION_KEYS.includes(process.env.ENCRYPTION_KEY!)) {
+    errors.push(`ENCRYPTION_KEY must not be the default key in ${nodeEnv} environment`);
+  } else if (!process.env.ENCRYPTION_KEY || DEFAULT_ENCRYPTION_KEYS.includes(process.env.ENCRYPTION_KEY)) {
+    console.warn(`⚠️  WARNING: Using the default ENCRYPTION_KEY (NODE_ENV=${nodeEnv}). Stored secrets are not protected; set a secure key in production!`);
   }
   
   if (errors.length > 0) {
@@ -110,10 +128,14 @@ export function loadEnvConfig(): EnvConfig {
   const config: EnvConfig = {
     // Server configuration
     port: parseInteger(process.env.PORT, 3000),
-    nodeEnv: process.env.NODE_ENV || 'development',
+    nodeEnv: process.env.NODE_ENV || DEFAULT_NODE_ENV,
     
     // Security configuration
-    encryptionKey: process.env.ENCRYPTION_KEY || 'default-key-change-in-production',
+    encryptionKey: process.env.ENCRYPTION_KEY || DEFAULT_ENCRYPTION_KEYS[0],
+    previousEncryptionKeys: parseList(process.env.PREVIOUS_ENCRYPTION_KEYS) || [],
+    encryptionSaltPath: process.env.ENCRYPTION_SALT_PATH || './data/encryption.salt',
+    adminUsername: process.env.ADMIN_USERNAME || 'admin',
+    adminPassword: process.env.ADMIN_PASSWORD || undefined,
     
     // Database configuration
     databasePath: process.env.DATABASE_PATH || './data/lazymail.db',
@@ -138,11 +160,18 @@ export function loadEnvConfig(): EnvConfig {
   }
   
   // Optional auto-reply configuration
-  if (process.env.CHECK_INTERVAL || process.env.MANUAL_CONFIRMATION || process.env.REPLY_TEMPLATE) {
+  if (process.env.CHECK_INTERVAL || process.env.MANUAL_CONFIRMATION || process.env.REPLY_TEMPLATE ||
+      process.env.SENDER_COOLDOWN_HOURS || process.env.PUSH_MODE) {
     config.autoReply = {
       checkInterval: parseInteger(process.env.CHECK_INTERVAL, 10),
       manualConfirmation: parseBoolean(process.env.MANUAL_CONFIRMATION, true),
       replyTemplate: process.env.REPLY_TEMPLATE,
+      ...(process.env.SENDER_COOLDOWN_HOURS && {
+        senderCooldownHours: parseInteger(process.env.SENDER_COOLDOWN_HOURS, 24),
+      }),
+      ...(process.env.PUSH_MODE && {
+        pushMode: parseBoolean(process.env.PUSH_MODE, false),
+      }),
     };
   }
   
@@ -170,6 +199,67 @@ export function getEnvConfig(): EnvConfig {
   return cachedConfig;
 }
 
+/**
+ * The key ring for stored secrets: the current key, the earlier keys still
+ * needed to decrypt, and the salt of this install
+ */
+export function createKeyRing(envConfig: EnvConfig): KeyRing {
+  return new KeyRing(
+    [envConfig.encryptionKey, ...envConfig.previousEncryptionKeys],
+    loadSalt(envConfig.encryptionSaltPath)
+  );
+}
+
+/**
+ * Merge environment variable overrides into a stored configuration
+ */
+export function applyEnvOverrides(config: Config, envConfig: EnvConfig): Config {
+  let merged = config;
+
+  if (envConfig.email) {
+    merged = {
+      ...merged,
+      email: {
+        ...merged.email,
+        ...(envConfig.email.imapHost && { imapHost: envConfig.email.imapHost }),
+        ...(envConfig.email.imapPort && { imapPort: envConfig.email.imapPort }),
+        ...(envConfig.email.imapUser && { username: envConfig.email.imapUser }),
+        ...(envConfig.email.imapPassword && { password: envConfig.email.imapPassword }),
+        ...(envConfig.email.smtpHost && { smtpHost: envConfig.email.smtpHost }),
+        ...(envConfig.email.smtpPort && { smtpPort: envConfig.email.smtpPort }),
+      }
+    };
+  }
+
+  if (envConfig.autoReply) {
+    merged = {
+      ...merged,
+      autoReply: {
+        ...merged.autoReply,
+        ...(envConfig.autoReply.checkInterval !== undefined && { checkInterval: envConfig.autoReply.checkInterval }),
+        ...(envConfig.autoReply.manualConfirmation !== undefined && { manualConfirmation: envConfig.autoReply.manualConfirmation }),
+        ...(envConfig.autoReply.replyTemplate && { replyTemplate: envConfig.autoReply.replyTemplate }),
+        ...(envConfig.autoReply.senderCooldownHours !== undefined && { senderCooldownHours: envConfig.autoReply.senderCooldownHours }),
+        ...(envConfig.autoReply.pushMode !== undefined && { pushMode: envConfig.autoReply.pushMode }),
+      }
+    };
+  }
+
+  if (envConfig.filters) {
+    merged = {
+      ...merged,
+      filters: {
+        ...merged.filters,
+        ...(envConfig.filters.keywordsEnabled !== undefined && { keywordsEnabled: envConfig.filters.keywordsEnabled }),
+        ...(envConfig.filters.keywords && { keywords: envConfig.filters.keywords }),
+        ...(envConfig.filters.excludedDomains && { excludedDomains: envConfig.filters.excludedDomains }),
+      }
+    };
+  }
+
+  return merged;
+}
+
 /**
  * Print configuration summary (without sensitive data)
  */
@@ -178,7 +268,6 @@ export function printConfigSummary(config: EnvConfig): void {
   console.log(`  Environment: ${config.nodeEnv}`);
   console.log(`  Port: ${config.port}`);
   console.log(`  Database: ${config.databasePath}`);
-  console.log(`  Config DB: ${config.configDatabasePath}`);
   console.log(`  Log Level: ${config.logLevel}`);
   console.log(`  Encryption Key: ${config.encryptionKey ? '***configured***' : 'not set'}`);
   
@@ -193,6 +282,12 @@ export function printConfigSummary(config: EnvConfig): void {
     console.log('  Auto-Reply Configuration:');
     console.log(`    Check Interval: ${config.autoReply.checkInterval}s`);
     console.log(`    Manual Confirmation: ${config.autoReply.manualConfirmation}`);
+    if (config.autoReply.senderCooldownHours !== undefined) {
+      console.log(`    Sender Cooldown: ${config.autoReply.senderCooldownHours}h`);
+    }
+    if (config.autoReply.pushMode !== undefined) {
+      console.log(`    Push Mode: ${config.autoReply.pushMode}`);
+    }
   }
   
   if (config.filters) {
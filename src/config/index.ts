@@ -1,3 +1,4 @@
 // Configuration management components
 export * from './ConfigurationManager';
 export * from './env';
+export * from './ConfigReloader';
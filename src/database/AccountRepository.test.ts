@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from './connection';
+import { AccountRepository } from './AccountRepository';
+import { runMigrations } from './migrations';
+import { Account } from '../models';
+import { unlinkSync, existsSync } from 'fs';
+import { KeyRing } from '../secrets';
+
+describe('AccountRepository', () => {
+  let db: Database;
+  let repository: AccountRepository;
+  let testDbPath: string;
+
+  const account: Account = {
+    id: 'sales',
+    name: 'Sales',
+    email: {
+      imapHost: 'imap.example.com',
+      imapPort: 993,
+      smtpHost: 'smtp.example.com',
+      smtpPort: 587,
+      username: 'sales@example.com',
+      password: 'sales-secret',
+    },
+    filters: { keywordsEnabled: true, keywords: ['offer'], excludedDomains: [] },
+    autoReply: { manualConfirmation: false, replyTemplate: 'Thanks from sales', checkInterval: 30 },
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    testDbPath = `./test-account-${Date.now()}-${Math.random()}.db`;
+    db = new Database();
+    await db.connect(testDbPath);
+    await runMigrations(db);
+    repository = new AccountRepository(db, new KeyRing(['test-key'], Buffer.alloc(16, 1)));
+  });
+
+  afterEach(async () => {
+    await db.close();
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it('should store accounts with the password encrypted', async () => {
+    await repository.create(account);
+
+    const row = await db.get<{ password: string }>('SELECT password FROM account WHERE id = ?', ['sales']);
+    expect(row!.password).not.toContain('sales-secret');
+    expect(await repository.getById('sales')).toEqual(account);
+    expect(await new AccountRepository(db, new KeyRing(['other-key'], Buffer.alloc(16, 1))).getById('sales').catch(() => null)).not.toEqual(account);
+  });
+
+  it('should encrypt the OAuth2 client settings', async () => {
+    const oauth2 = {
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      refreshToken: 'refresh-token',
+      tokenUrl: 'https://oauth2.example.com/token',
+    };
+    const xoauth2: Account = { ...account, email: { ...account.email, password: '', authMethod: 'xoauth2', oauth2 } };
+    await repository.create(xoauth2);
+
+    const row = await db.get<{ oauth2: string }>('SELECT oauth2 FROM account WHERE id = ?', ['sales']);
+    expect(row!.oauth2).not.toContain('refresh-token');
+    expect(await repository.getById('sales')).toEqual(xoauth2);
+  });
+
+  it('should store a rotated refresh token in the accounts holding the replaced one', async () => {
+    const oauth2 = {
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      refreshToken: 'refresh-token',
+      tokenUrl: 'https://oauth2.example.com/token',
+    };
+    await repository.create({ ...account, email: { ...account.email, authMethod: 'xoauth2', oauth2 } });
+    await repository.create({ ...account, id: 'billing', name: 'Billing', email: { ...account.email, authMethod: 'xoauth2', oauth2: { ...oauth2, refreshToken: 'other-token' } } });
+
+    const updated = await repository.replaceRefreshToken('refresh-token', 'refresh-token-1');
+
+    expect(updated.map(a => a.id)).toEqual(['sales']);
+    expect((await repository.getById('sales'))!.email.oauth2!.refreshToken).toBe('refresh-token-1');
+    expect((await repository.getById('billing'))!.email.oauth2!.refreshToken).toBe('other-token');
+    const row = await db.get<{ oauth2: string }>('SELECT oauth2 FROM account WHERE id = ?', ['sales']);
+    expect(row!.oauth2).not.toContain('refresh-token-1');
+  });
+
+  it('should update and delete accounts', async () => {
+    await repository.create(account);
+    await repository.create({ ...account, id: 'billing', name: 'Billing' });
+
+    await repository.update({ ...account, email: { ...account.email, password: 'rotated' }, updatedAt: new Date() });
+    expect((await repository.getById('sales'))!.email.password).toBe('rotated');
+
+    await repository.delete('billing');
+    expect((await repository.getAll()).map(a => a.name)).toEqual(['Sales']);
+  });
+});
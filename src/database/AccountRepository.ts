@@ -0,0 +1,165 @@
+import { Database } from './connection';
+import { Account, AutoReplyConfig, EmailAuthMethod, FilterConfig, OAuth2Config } from '../models';
+import { KeyRing, isJsonDocument } from '../secrets';
+
+interface AccountRow {
+  id: string;
+  name: string;
+  imap_host: string;
+  imap_port: number;
+  smtp_host: string;
+  smtp_port: number;
+  username: string;
+  password: string;
+  filters: string;
+  auto_reply: string;
+  created_at: string;
+  updated_at: string;
+  auth_method: string;
+  oauth2: string | null;
+}
+
+/**
+ * Stores the accounts beyond the default one. Each password, and the OAuth2
+ * client settings of accounts signing in with XOAUTH2, is encrypted on its
+ * own with the same key as the configuration, so listing accounts never
+ * needs more than the row being read.
+ */
+export class AccountRepository {
+  constructor(private db: Database, private keys: KeyRing) {}
+
+  async create(account: Account): Promise<void> {
+    await this.db.run(
+      `INSERT INTO account (
+        id, name, imap_host, imap_port, smtp_host, smtp_port, username, password,
+        auth_method, oauth2, filters, auto_reply, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        account.id,
+        account.name,
+        account.email.imapHost,
+        account.email.imapPort,
+        account.email.smtpHost,
+        account.email.smtpPort,
+        account.email.username,
+        this.keys.encrypt(account.email.password),
+        account.email.authMethod || 'password',
+        account.email.oauth2 ? this.keys.encrypt(JSON.stringify(account.email.oauth2)) : null,
+        JSON.stringify(account.filters),
+        JSON.stringify(account.autoReply),
+        account.createdAt.toISOString(),
+        account.updatedAt.toISOString(),
+      ]
+    );
+  }
+
+  async update(account: Account): Promise<void> {
+    await this.db.run(
+      `UPDATE account
+       SET name = ?, imap_host = ?, imap_port = ?, smtp_host = ?, smtp_port = ?, username = ?, password = ?,
+         auth_method = ?, oauth2 = ?, filters = ?, auto_reply = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        account.name,
+        account.email.imapHost,
+        account.email.imapPort,
+        account.email.smtpHost,
+        account.email.smtpPort,
+        account.email.username,
+        this.keys.encrypt(account.email.password),
+        account.email.authMethod || 'password',
+        account.email.oauth2 ? this.keys.encrypt(JSON.stringify(account.email.oauth2)) : null,
+        JSON.stringify(account.filters),
+        JSON.stringify(account.autoReply),
+        account.updatedAt.toISOString(),
+        account.id,
+      ]
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.run('DELETE FROM account WHERE id = ?', [id]);
+  }
+
+  async getById(id: string): Promise<Account | null> {
+    const row = await this.db.get<AccountRow>(
+      'SELECT * FROM account WHERE id = ?',
+      [id]
+    );
+
+    if (!row) return null;
+
+    return this.mapRowToAccount(row);
+  }
+
+  async getAll(): Promise<Account[]> {
+    const rows = await this.db.all<AccountRow>(
+      'SELECT * FROM account ORDER BY name ASC, created_at ASC'
+    );
+
+    return rows.map(row => this.mapRowToAccount(row));
+  }
+
+  /**
+   * Store a refresh token that the OAuth2 provider rotated in the accounts
+   * holding the one it replaced. Returns the updated accounts.
+   */
+  async replaceRefreshToken(previous: string, refreshToken: string): Promise<Account[]> {
+    const accounts = (await this.getAll()).filter(account => account.email.oauth2?.refreshToken === previous);
+
+    const updated: Account[] = [];
+    for (const account of accounts) {
+      const next: Account = {
+        ...account,
+        email: { ...account.email, oauth2: { ...account.email.oauth2!, refreshToken } },
+        updatedAt: new Date(),
+      };
+      await this.update(next);
+      updated.push(next);
+    }
+    return updated;
+  }
+
+  /**
+   * Re-encrypt the stored passwords and OAuth2 settings under the current
+   * key, e.g. after a key rotation. Returns how many accounts were rewritten.
+   */
+  async reencrypt(): Promise<number> {
+    const rows = await this.db.all<AccountRow>('SELECT id, password, oauth2 FROM account');
+
+    let count = 0;
+    for (const row of rows) {
+      if (this.keys.isCurrent(row.password) && (!row.oauth2 || this.keys.isCurrent(row.oauth2))) {
+        continue;
+      }
+      await this.db.run(
+        'UPDATE account SET password = ?, oauth2 = ? WHERE id = ?',
+        [this.keys.reencrypt(row.password), row.oauth2 ? this.keys.reencrypt(row.oauth2, isJsonDocument) : null, row.id]
+      );
+      count++;
+    }
+
+    return count;
+  }
+
+  private mapRowToAccount(row: AccountRow): Account {
+    return {
+      id: row.id,
+      name: row.name,
+      email: {
+        imapHost: row.imap_host,
+        imapPort: row.imap_port,
+        smtpHost: row.smtp_host,
+        smtpPort: row.smtp_port,
+        username: row.username,
+        password: this.keys.decrypt(row.password),
+        ...(row.auth_method !== 'password' && { authMethod: row.auth_method as EmailAuthMethod }),
+        ...(row.oauth2 && { oauth2: JSON.parse(this.keys.decrypt(row.oauth2, isJsonDocument)) as OAuth2Config }),
+      },
+      filters: JSON.parse(row.filters) as FilterConfig,
+      autoReply: JSON.parse(row.auto_reply) as AutoReplyConfig,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { Database } from './connection';
 import { ActivityLog, ActivityLogType } from '../models/ActivityLog';
+import { DEFAULT_ACCOUNT_ID } from '../models/Account';
 
 interface ActivityLogRow {
   id: string;
@@ -9,6 +10,7 @@ interface ActivityLogRow {
   reply_id?: string;
   details: string;
   metadata?: string;
+  account_id: string;
   created_at: string;
 }
 
@@ -18,8 +20,8 @@ export class ActivityLogRepository {
   async create(log: ActivityLog): Promise<void> {
     await this.db.run(
       `INSERT INTO activity_log (
-        id, timestamp, type, email_id, reply_id, details, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        id, timestamp, type, email_id, reply_id, details, metadata, account_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         log.id,
         log.timestamp.toISOString(),
@@ -28,6 +30,7 @@ export class ActivityLogRepository {
         log.replyId || null,
         log.details,
         log.metadata ? JSON.stringify(log.metadata) : null,
+        log.accountId || DEFAULT_ACCOUNT_ID,
       ]
     );
   }
@@ -43,11 +46,19 @@ export class ActivityLogRepository {
     return this.mapRowToLog(row);
   }
 
-  async getAll(limit: number = 100, offset: number = 0): Promise<ActivityLog[]> {
-    const rows = await this.db.all<ActivityLogRow>(
-      'SELECT * FROM activity_log ORDER BY timestamp DESC LIMIT ? OFFSET ?',
-      [limit, offset]
-    );
+  /**
+   * Returns logs newest first, of one account or of all accounts
+   */
+  async getAll(limit: number = 100, offset: number = 0, accountId?: string): Promise<ActivityLog[]> {
+    const rows = accountId
+      ? await this.db.all<ActivityLogRow>(
+          'SELECT * FROM activity_log WHERE account_id = ? ORDER BY timestamp DESC LIMIT ? OFFSET ?',
+          [accountId, limit, offset]
+        )
+      : await this.db.all<ActivityLogRow>(
+          'SELECT * FROM activity_log ORDER BY timestamp DESC LIMIT ? OFFSET ?',
+          [limit, offset]
+        );
 
     return rows.map(row => this.mapRowToLog(row));
   }
@@ -79,6 +90,7 @@ export class ActivityLogRepository {
       replyId: row.reply_id,
       details: row.details,
       metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      accountId: row.account_id,
     };
   }
 }
@@ -0,0 +1,91 @@
+import { Database } from './connection';
+import { ApiToken, ApiTokenKind, TokenScope } from '../models';
+
+interface ApiTokenRow {
+  id: string;
+  name: string;
+  kind: string;
+  user_id: string | null;
+  scopes: string;
+  token_hash: string;
+  created_by: string;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+}
+
+/**
+ * API tokens for scripts and integrations, looked up by the hash of the token
+ */
+export class ApiTokenRepository {
+  constructor(private db: Database) {}
+
+  async create(token: ApiToken): Promise<void> {
+    await this.db.run(
+      `INSERT INTO api_token (id, name, kind, user_id, scopes, token_hash, created_by, created_at, expires_at, last_used_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        token.id,
+        token.name,
+        token.kind,
+        token.userId || null,
+        JSON.stringify(token.scopes),
+        token.tokenHash,
+        token.createdBy,
+        token.createdAt.toISOString(),
+        token.expiresAt ? token.expiresAt.toISOString() : null,
+        token.lastUsedAt ? token.lastUsedAt.toISOString() : null,
+      ]
+    );
+  }
+
+  async getById(id: string): Promise<ApiToken | null> {
+    const row = await this.db.get<ApiTokenRow>('SELECT * FROM api_token WHERE id = ?', [id]);
+    return row ? this.mapRowToApiToken(row) : null;
+  }
+
+  async getByHash(tokenHash: string): Promise<ApiToken | null> {
+    const row = await this.db.get<ApiTokenRow>('SELECT * FROM api_token WHERE token_hash = ?', [tokenHash]);
+    return row ? this.mapRowToApiToken(row) : null;
+  }
+
+  async getAll(): Promise<ApiToken[]> {
+    const rows = await this.db.all<ApiTokenRow>('SELECT * FROM api_token ORDER BY created_at DESC');
+    return rows.map(row => this.mapRowToApiToken(row));
+  }
+
+  async getByUser(userId: string): Promise<ApiToken[]> {
+    const rows = await this.db.all<ApiTokenRow>(
+      'SELECT * FROM api_token WHERE user_id = ? ORDER BY created_at DESC',
+      [userId]
+    );
+    return rows.map(row => this.mapRowToApiToken(row));
+  }
+
+  async touch(id: string, lastUsedAt: Date): Promise<void> {
+    await this.db.run('UPDATE api_token SET last_used_at = ? WHERE id = ?', [lastUsedAt.toISOString(), id]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.run('DELETE FROM api_token WHERE id = ?', [id]);
+  }
+
+  async deleteByUser(userId: string): Promise<void> {
+    await this.db.run('DELETE FROM api_token WHERE user_id = ?', [userId]);
+  }
+
+  private mapRowToApiToken(row: ApiTokenRow): ApiToken {
+    return {
+      id: row.id,
+      name: row.name,
+      kind: row.kind as ApiTokenKind,
+      ...(row.user_id && { userId: row.user_id }),
+      scopes: JSON.parse(row.scopes) as TokenScope[],
+      tokenHash: row.token_hash,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      ...(row.expires_at && { expiresAt: new Date(row.expires_at) }),
+      ...(row.last_used_at && { lastUsedAt: new Date(row.last_used_at) }),
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { Database } from './connection';
+import { Asset } from '../models/Asset';
+
+interface AssetRow {
+  id: string;
+  filename: string;
+  content_type: string;
+  size: number;
+  created_at: string;
+}
+
+/**
+ * Stores uploaded assets with their content in SQLite. Listing and lookups
+ * return metadata only; the content is loaded separately when it is sent.
+ */
+export class AssetRepository {
+  constructor(private db: Database) {}
+
+  async create(asset: Asset, content: Buffer): Promise<void> {
+    await this.db.run(
+      `INSERT INTO assets (
+        id, filename, content_type, size, content, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        asset.id,
+        asset.filename,
+        asset.contentType,
+        asset.size,
+        content,
+        asset.createdAt.toISOString(),
+      ]
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.run('DELETE FROM assets WHERE id = ?', [id]);
+  }
+
+  async getById(id: string): Promise<Asset | null> {
+    const row = await this.db.get<AssetRow>(
+      'SELECT id, filename, content_type, size, created_at FROM assets WHERE id = ?',
+      [id]
+    );
+
+    if (!row) return null;
+
+    return this.mapRowToAsset(row);
+  }
+
+  async getContent(id: string): Promise<Buffer | null> {
+    const row = await this.db.get<{ content: Buffer }>(
+      'SELECT content FROM assets WHERE id = ?',
+      [id]
+    );
+
+    return row ? row.content : null;
+  }
+
+  async getAll(): Promise<Asset[]> {
+    const rows = await this.db.all<AssetRow>(
+      'SELECT id, filename, content_type, size, created_at FROM assets ORDER BY filename ASC, created_at ASC'
+    );
+
+    return rows.map(row => this.mapRowToAsset(row));
+  }
+
+  private mapRowToAsset(row: AssetRow): Asset {
+    return {
+      id: row.id,
+      filename: row.filename,
+      contentType: row.content_type,
+      size: row.size,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Database } from './connection';
+import { ProcessedMessageRepository } from './ProcessedMessageRepository';
+import { ReplyRepository } from './ReplyRepository';
+import { runMigrations } from './migrations';
+import { Email, Reply } from '../models';
+import { unlinkSync, existsSync } from 'fs';
+
+describe('ProcessedMessageRepository', () => {
+  let db: Database;
+  let replies: ReplyRepository;
+  let repository: ProcessedMessageRepository;
+  let testDbPath: string;
+
+  const email = (id: string, messageId?: string): Email => ({
+    id,
+    from: 'customer@example.com',
+    to: 'support@example.org',
+    subject: 'Question',
+    body: 'Hello',
+    receivedAt: new Date(),
+    isRead: false,
+    ...(messageId && { messageId }),
+  });
+
+  const reply = (status: Reply['status']): Reply => ({
+    id: 'reply-1',
+    originalEmailId: '1',
+    to: 'customer@example.com',
+    subject: 'Re: Question',
+    body: 'Thanks',
+    generatedAt: new Date(),
+    status,
+  });
+
+  beforeEach(async () => {
+    testDbPath = `./test-processed-message-${Date.now()}-${Math.random()}.db`;
+    db = new Database();
+    await db.connect(testDbPath);
+    await runMigrations(db);
+    replies = new ReplyRepository(db);
+    repository = new ProcessedMessageRepository(db, replies);
+  });
+
+  afterEach(async () => {
+    await db.close();
+    if (existsSync(testDbPath)) {
+      unlinkSync(testDbPath);
+    }
+  });
+
+  it('should find an entry by UID or by Message-ID', async () => {
+    await repository.record({
+      mailbox: 'INBOX',
+      uid: '1',
+      uidValidity: 5,
+      messageId: '<a@example.com>',
+      decision: 'filtered',
+      reason: 'Keyword not found',
+      processedAt: new Date(),
+    });
+
+    expect(await repository.find('INBOX', 5, email('1'))).toMatchObject({ decision: 'filtered', reason: 'Keyword not found' });
+    expect(await repository.find('INBOX', 6, email('9', '<a@example.com>'))).toMatchObject({ uid: '1' });
+    expect(await repository.find('INBOX', 6, email('1'))).toBeNull();
+  });
+
+  it('should store the reply with the entry and update both', async () => {
+    const entry = { mailbox: 'INBOX', uid: '1', uidValidity: 5, replyId: 'reply-1', processedAt: new Date() };
+
+    await repository.record({ ...entry, decision: 'sending' }, reply('approved'));
+    const sent = { ...reply('sent'), sentAt: new Date() };
+    await repository.record({ ...entry, decision: 'replied' }, sent);
+
+    expect(await repository.find('INBOX', 5, email('1'))).toMatchObject({ decision: 'replied', replyId: 'reply-1' });
+    expect(await replies.getById('reply-1')).toMatchObject({ status: 'sent', sentAt: sent.sentAt });
+  });
+
+  it('should roll back the reply when the entry cannot be written', async () => {
+    const invalid = { mailbox: 'INBOX', uid: null as any, uidValidity: 5, decision: 'sending' as const, processedAt: new Date() };
+
+    await expect(repository.record(invalid, reply('approved'))).rejects.toThrow();
+
+    expect(await replies.getById('reply-1')).toBeNull();
+    await repository.record({ ...invalid, uid: '1' });
+    expect(await repository.find('INBOX', 5, email('1'))).not.toBeNull();
+  });
+
+  it('should record the outcome of a confirmed reply on its entry', async () => {
+    const entry = { mailbox: 'INBOX', uid: '1', uidValidity: 5, replyId: 'reply-1', processedAt: new Date() };
+    await repository.record({ ...entry, decision: 'queued' }, reply('pending'));
+
+    await repository.recordOutcome({ ...reply('rejected'), approvedBy: 'april' }, 'rejected');
+
+    expect(await repository.find('INBOX', 5, email('1'))).toMatchObject({ decision: 'rejected' });
+    expect(await replies.getById('reply-1')).toMatchObject({ status: 'rejected', approvedBy: 'april' });
+  });
+
+  it('should queue replies left unsent for confirmation again', async () => {
+    const entry = { mailbox: 'INBOX', uidValidity: 5, processedAt: new Date() };
+    await repository.record({ ...entry, uid: '1', decision: 'sending', replyId: 'reply-1' }, reply('approved'));
+    await repository.record({ ...entry, uid: '2', decision: 'send_failed', replyId: 'reply-2' }, { ...reply('failed'), id: 'reply-2' });
+    await repository.record({ ...entry, uid: '3', decision: 'replied', replyId: 'reply-3' }, { ...reply('sent'), id: 'reply-3' });
+
+    const requeued = await repository.requeueUnsent();
+
+    expect(requeued.map(r => [r.id, r.status])).toEqual([['reply-1', 'pending'], ['reply-2', 'pending']]);
+    expect(await repository.find('INBOX', 5, email('1'))).toMatchObject({ decision: 'queued', reason: 'Queued again after an interrupted send' });
+    expect(await repository.find('INBOX', 5, email('2'))).toMatchObject({ decision: 'queued', reason: 'Queued again after a failed send' });
+    expect((await replies.getByStatus('pending')).map(r => r.id).sort()).toEqual(['reply-1', 'reply-2']);
+    expect(await repository.requeueUnsent()).toEqual([]);
+  });
+
+  it('should keep the ledgers of accounts apart', async () => {
+    const sales = new ProcessedMessageRepository(db, replies, 'sales');
+    const entry = { mailbox: 'INBOX', uid: '1', uidValidity: 5, messageId: '<a@example.com>', processedAt: new Date() };
+
+    await repository.record({ ...entry, decision: 'filtered' });
+    expect(await sales.find('INBOX', 5, email('1', '<a@example.com>'))).toBeNull();
+
+    await sales.record({ ...entry, decision: 'sending', replyId: 'reply-1' }, reply('approved'));
+    expect(await sales.find('INBOX', 5, email('1'))).toMatchObject({ decision: 'sending' });
+    expect(await repository.find('INBOX', 5, email('1'))).toMatchObject({ decision: 'filtered' });
+    expect(await replies.getById('reply-1')).toMatchObject({ accountId: 'sales' });
+  });
+});
+
+describe('Account keys on an older database', () => {
+  it('should move ledger entries and cursors to the default account', async () => {
+    const testDbPath = `./test-processed-message-legacy-${Date.now()}-${Math.random()}.db`;
+    const db = new Database();
+    await db.connect(testDbPath);
+
+    try {
+      await db.run(`
+        CREATE TABLE processed_message (
+          mailbox TEXT NOT NULL,
+          uid_validity INTEGER NOT NULL DEFAULT 0,
+          uid TEXT NOT NULL,
+          message_id TEXT,
+          decision TEXT NOT NULL,
+          reply_id TEXT,
+          reason TEXT,
+          processed_at TEXT NOT NULL,
+          PRIMARY KEY (mailbox, uid_validity, uid)
+        )
+      `);
+      await db.run(
+        `INSERT INTO processed_message (mailbox, uid_validity, uid, decision, processed_at)
+         VALUES ('INBOX', 5, '1', 'replied', '2026-01-01T00:00:00.000Z')`
+      );
+      await db.run(`
+        CREATE TABLE sync_state (
+          mailbox TEXT PRIMARY KEY,
+          uid_validity INTEGER NOT NULL,
+          last_uid INTEGER NOT NULL,
+          last_received_at TEXT,
+          updated_at TEXT NOT NULL
+        )
+      `);
+      await db.run(
+        `INSERT INTO sync_state (mailbox, uid_validity, last_uid, updated_at)
+         VALUES ('INBOX', 5, 42, '2026-01-01T00:00:00.000Z')`
+      );
+
+      await runMigrations(db);
+      await runMigrations(db);
+
+      const ledger = new ProcessedMessageRepository(db, new ReplyRepository(db));
+      const found = await ledger.find('INBOX', 5, {
+        id: '1', from: 'a@example.com', to: 'b@example.com', subject: 'Hi', body: '', receivedAt: new Date(), isRead: false,
+      });
+      expect(found).toMatchObject({ decision: 'replied' });
+
+      const cursor = await db.get<{ account_id: string; last_uid: number }>('SELECT * FROM sync_state');
+      expect(cursor).toMatchObject({ account_id: 'default', last_uid: 42 });
+    } finally {
+      await db.close();
+      if (existsSync(testDbPath)) {
+        unlinkSync(testDbPath);
+      }
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { Database } from './connection';
+import { ReplyRepository } from './ReplyRepository';
+import { DEFAULT_ACCOUNT_ID, Email, ProcessedMessage, ProcessingDecision, Reply } from '../models';
+
+interface ProcessedMessageRow {
+  mailbox: string;
+  uid_validity: number;
+  uid: string;
+  message_id: string | null;
+  decision: string;
+  reply_id: string | null;
+  reason: string | null;
+  processed_at: string;
+}
+
+/**
+ * The processed-messages ledger of one account
+ */
+export class ProcessedMessageRepository {
+  constructor(
+    private db: Database,
+    private replyRepository: ReplyRepository,
+    private accountId: string = DEFAULT_ACCOUNT_ID
+  ) {}
+
+  /**
+   * Find the ledger entry for an email, by Message-ID when it has one or by
+   * its UID in the mailbox
+   */
+  async find(mailbox: string, uidValidity: number, email: Email): Promise<ProcessedMessage | null> {
+    const row = email.messageId
+      ? await this.db.get<ProcessedMessageRow>(
+          `SELECT * FROM processed_message
+           WHERE account_id = ? AND (message_id = ? OR (mailbox = ? AND uid_validity = ? AND uid = ?))
+           ORDER BY processed_at DESC LIMIT 1`,
+          [this.accountId, email.messageId, mailbox, uidValidity, email.id]
+        )
+      : await this.db.get<ProcessedMessageRow>(
+          'SELECT * FROM processed_message WHERE account_id = ? AND mailbox = ? AND uid_validity = ? AND uid = ?',
+          [this.accountId, mailbox, uidValidity, email.id]
+        );
+
+    return row ? this.rowToProcessedMessage(row) : null;
+  }
+
+  /**
+   * Record the decision for a message together with the state of its reply,
+   * so neither is stored without the other
+   */
+  async record(entry: ProcessedMessage, reply?: Reply): Promise<void> {
+    await this.db.transaction(async () => {
+      if (reply) {
+        await this.replyRepository.save({ ...reply, accountId: this.accountId });
+      }
+
+      await this.db.run(
+        `INSERT INTO processed_message (
+          account_id, mailbox, uid_validity, uid, message_id, decision, reply_id, reason, processed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(account_id, mailbox, uid_validity, uid) DO UPDATE SET
+          message_id = excluded.message_id,
+          decision = excluded.decision,
+          reply_id = excluded.reply_id,
+          reason = excluded.reason,
+          processed_at = excluded.processed_at`,
+        [
+          this.accountId,
+          entry.mailbox,
+          entry.uidValidity,
+          entry.uid,
+          entry.messageId || null,
+          entry.decision,
+          entry.replyId || null,
+          entry.reason || null,
+          entry.processedAt.toISOString(),
+        ]
+      );
+    });
+  }
+
+  /**
+   * Record what became of a queued reply once it was confirmed or rejected,
+   * on the entry of the message it answers
+   */
+  async recordOutcome(reply: Reply, decision: ProcessingDecision, reason?: string): Promise<void> {
+    await this.db.transaction(async () => {
+      await this.replyRepository.save({ ...reply, accountId: this.accountId });
+      await this.db.run(
+        `UPDATE processed_message SET decision = ?, reason = ?, processed_at = ?
+         WHERE account_id = ? AND reply_id = ?`,
+        [decision, reason || null, new Date().toISOString(), this.accountId, reply.id]
+      );
+    });
+  }
+
+  /**
+   * Queue the replies of messages left at 'sending' by a crash, or at
+   * 'send_failed', for confirmation again. Whether an interrupted reply
+   * went out is unknown, so it is left to an approver to send or reject.
+   */
+  async requeueUnsent(): Promise<Reply[]> {
+    const rows = await this.db.all<ProcessedMessageRow>(
+      `SELECT * FROM processed_message
+       WHERE account_id = ? AND decision IN ('sending', 'send_failed') AND reply_id IS NOT NULL`,
+      [this.accountId]
+    );
+
+    const requeued: Reply[] = [];
+    await this.db.transaction(async () => {
+      for (const row of rows) {
+        const reply = await this.replyRepository.getById(row.reply_id!);
+        // Replies already queued again, sent or rejected are left alone
+        if (!reply || (reply.status !== 'approved' && reply.status !== 'failed')) {
+          continue;
+        }
+
+        const reason = row.decision === 'sending' ? 'Queued again after an interrupted send' : 'Queued again after a failed send';
+        await this.replyRepository.save({ ...reply, status: 'pending', accountId: this.accountId });
+        await this.db.run(
+          `UPDATE processed_message SET decision = 'queued', reason = ?
+           WHERE account_id = ? AND mailbox = ? AND uid_validity = ? AND uid = ?`,
+          [reason, this.accountId, row.mailbox, row.uid_validity, row.uid]
+        );
+        requeued.push({ ...reply, status: 'pending' });
+      }
+    });
+
+    return requeued;
+  }
+
+  private rowToProcessedMessage(row: ProcessedMessageRow): ProcessedMessage {
+    return {
+      mailbox: row.mailbox,
+      uid: row.uid,
+      uidValidity: row.uid_validity,
+      ...(row.message_id && { messageId: row.message_id }),
+      decision: row.decision as ProcessingDecision,
+      ...(row.reply_id && { replyId: row.reply_id }),
+      ...(row.reason && { reason: row.reason }),
+      processedAt: new Date(row.processed_at),
+    };
+  }
+}
@@ -1,5 +1,7 @@
 import { Database } from './connection';
-import { Reply, ReplyStatus } from '../models/Reply';
+import { Reply, ReplyContext, ReplyStatus } from '../models/Reply';
+import { ReplyAsset } from '../models/Asset';
+import { DEFAULT_ACCOUNT_ID } from '../models/Account';
 
 interface ReplyRow {
   id: string;
@@ -11,32 +13,70 @@ interface ReplyRow {
   status: ReplyStatus;
   sent_at?: string;
   approved_by?: string;
+  in_reply_to?: string;
+  reference_ids?: string;
+  original_context?: string;
+  html_body?: string;
+  asset_ids?: string;
+  assets?: string;
+  account_id: string;
   created_at: string;
 }
 
+const REPLY_COLUMNS = `
+  id, original_email_id, to_address, subject, body,
+  generated_at, status, sent_at, approved_by,
+  in_reply_to, reference_ids, original_context, html_body,
+  asset_ids, assets, account_id
+`;
+
 export class ReplyRepository {
   constructor(private db: Database) {}
 
   async create(reply: Reply): Promise<void> {
     await this.db.run(
-      `INSERT INTO reply (
-        id, original_email_id, to_address, subject, body,
-        generated_at, status, sent_at, approved_by
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        reply.id,
-        reply.originalEmailId,
-        reply.to,
-        reply.subject,
-        reply.body,
-        reply.generatedAt.toISOString(),
-        reply.status,
-        reply.sentAt ? reply.sentAt.toISOString() : null,
-        reply.approvedBy || null,
-      ]
+      `INSERT INTO reply (${REPLY_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      this.replyParams(reply)
+    );
+  }
+
+  /**
+   * Insert the reply, or update the status fields of an existing one
+   */
+  async save(reply: Reply): Promise<void> {
+    // The record of sent assets is kept when a later update does not carry one
+    await this.db.run(
+      `INSERT INTO reply (${REPLY_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         status = excluded.status,
+         sent_at = excluded.sent_at,
+         approved_by = excluded.approved_by,
+         assets = COALESCE(excluded.assets, reply.assets)`,
+      this.replyParams(reply)
     );
   }
 
+  private replyParams(reply: Reply): any[] {
+    return [
+      reply.id,
+      reply.originalEmailId,
+      reply.to,
+      reply.subject,
+      reply.body,
+      reply.generatedAt.toISOString(),
+      reply.status,
+      reply.sentAt ? reply.sentAt.toISOString() : null,
+      reply.approvedBy || null,
+      reply.inReplyTo || null,
+      reply.references ? JSON.stringify(reply.references) : null,
+      reply.originalEmail ? JSON.stringify(reply.originalEmail) : null,
+      reply.htmlBody || null,
+      reply.assetIds ? JSON.stringify(reply.assetIds) : null,
+      reply.assets ? JSON.stringify(reply.assets) : null,
+      reply.accountId || DEFAULT_ACCOUNT_ID,
+    ];
+  }
+
   async getById(id: string): Promise<Reply | null> {
     const row = await this.db.get<ReplyRow>(
       'SELECT * FROM reply WHERE id = ?',
@@ -48,11 +88,19 @@ export class ReplyRepository {
     return this.mapRowToReply(row);
   }
 
-  async getByStatus(status: ReplyStatus): Promise<Reply[]> {
-    const rows = await this.db.all<ReplyRow>(
-      'SELECT * FROM reply WHERE status = ? ORDER BY generated_at DESC',
-      [status]
-    );
+  /**
+   * Returns replies in a status, of one account or of all accounts
+   */
+  async getByStatus(status: ReplyStatus, accountId?: string): Promise<Reply[]> {
+    const rows = accountId
+      ? await this.db.all<ReplyRow>(
+          'SELECT * FROM reply WHERE status = ? AND account_id = ? ORDER BY generated_at DESC',
+          [status, accountId]
+        )
+      : await this.db.all<ReplyRow>(
+          'SELECT * FROM reply WHERE status = ? ORDER BY generated_at DESC',
+          [status]
+        );
 
     return rows.map(row => this.mapRowToReply(row));
   }
@@ -70,16 +118,19 @@ export class ReplyRepository {
     id: string,
     status: ReplyStatus,
     sentAt?: Date,
-    approvedBy?: string
+    approvedBy?: string,
+    assets?: ReplyAsset[]
   ): Promise<void> {
+    // The record of sent assets is kept when a later update does not carry one
     await this.db.run(
       `UPDATE reply 
-       SET status = ?, sent_at = ?, approved_by = ?
+       SET status = ?, sent_at = ?, approved_by = ?, assets = COALESCE(?, assets)
        WHERE id = ?`,
       [
         status,
         sentAt ? sentAt.toISOString() : null,
         approvedBy || null,
+        assets ? JSON.stringify(assets) : null,
         id,
       ]
     );
@@ -101,10 +152,25 @@ export class ReplyRepository {
       to: row.to_address,
       subject: row.subject,
       body: row.body,
+      htmlBody: row.html_body || undefined,
+      assetIds: row.asset_ids ? JSON.parse(row.asset_ids) : undefined,
+      assets: row.assets ? JSON.parse(row.assets) : undefined,
       generatedAt: new Date(row.generated_at),
       status: row.status,
       sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
       approvedBy: row.approved_by,
+      inReplyTo: row.in_reply_to || undefined,
+      references: row.reference_ids ? JSON.parse(row.reference_ids) : undefined,
+      originalEmail: row.original_context ? this.parseContext(row.original_context) : undefined,
+      accountId: row.account_id,
+    };
+  }
+
+  private parseContext(json: string): ReplyContext {
+    const context = JSON.parse(json);
+    return {
+      ...context,
+      receivedAt: new Date(context.receivedAt),
     };
   }
 }
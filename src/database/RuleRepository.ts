@@ -0,0 +1,103 @@
+import { Database } from './connection';
+import { Rule } from '../models/Rule';
+
+interface RuleRow {
+  id: string;
+  name: string;
+  position: number;
+  enabled: number;
+  condition: string;
+  action: string;
+  account_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class RuleRepository {
+  constructor(private db: Database) {}
+
+  async create(rule: Rule): Promise<void> {
+    await this.db.run(
+      `INSERT INTO rule (
+        id, name, position, enabled, condition, action, account_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        rule.id,
+        rule.name,
+        rule.position,
+        rule.enabled ? 1 : 0,
+        JSON.stringify(rule.condition),
+        JSON.stringify(rule.action),
+        rule.accountId || null,
+        rule.createdAt.toISOString(),
+        rule.updatedAt.toISOString(),
+      ]
+    );
+  }
+
+  async update(rule: Rule): Promise<void> {
+    await this.db.run(
+      `UPDATE rule
+       SET name = ?, position = ?, enabled = ?, condition = ?, action = ?, account_id = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        rule.name,
+        rule.position,
+        rule.enabled ? 1 : 0,
+        JSON.stringify(rule.condition),
+        JSON.stringify(rule.action),
+        rule.accountId || null,
+        rule.updatedAt.toISOString(),
+        rule.id,
+      ]
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.run('DELETE FROM rule WHERE id = ?', [id]);
+  }
+
+  async getById(id: string): Promise<Rule | null> {
+    const row = await this.db.get<RuleRow>(
+      'SELECT * FROM rule WHERE id = ?',
+      [id]
+    );
+
+    if (!row) return null;
+
+    return this.mapRowToRule(row);
+  }
+
+  /**
+   * Returns all rules in evaluation order
+   */
+  async getAll(): Promise<Rule[]> {
+    const rows = await this.db.all<RuleRow>(
+      'SELECT * FROM rule ORDER BY position ASC, created_at ASC'
+    );
+
+    return rows.map(row => this.mapRowToRule(row));
+  }
+
+  async getNextPosition(): Promise<number> {
+    const row = await this.db.get<{ max_position: number | null }>(
+      'SELECT MAX(position) AS max_position FROM rule'
+    );
+
+    return row && row.max_position !== null ? row.max_position + 1 : 0;
+  }
+
+  private mapRowToRule(row: RuleRow): Rule {
+    return {
+      id: row.id,
+      name: row.name,
+      position: row.position,
+      enabled: row.enabled === 1,
+      condition: JSON.parse(row.condition),
+      action: JSON.parse(row.action),
+      ...(row.account_id && { accountId: row.account_id }),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import { Database } from './connection';
+import { DEFAULT_ACCOUNT_ID } from '../models/Account';
+
+interface SenderThrottleRow {
+  sender_address: string;
+  last_reply_at: string;
+  reply_count: number;
+}
+
+/**
+ * Last auto-reply per sender, kept separately for each account
+ */
+export class SenderThrottleRepository {
+  constructor(private db: Database, private accountId: string = DEFAULT_ACCOUNT_ID) {}
+
+  async getLastReplyAt(senderAddress: string): Promise<Date | null> {
+    const row = await this.db.get<SenderThrottleRow>(
+      'SELECT * FROM sender_throttle WHERE account_id = ? AND sender_address = ?',
+      [this.accountId, senderAddress.toLowerCase()]
+    );
+
+    return row ? new Date(row.last_reply_at) : null;
+  }
+
+  async recordReply(senderAddress: string, repliedAt: Date): Promise<void> {
+    await this.db.run(
+      `INSERT INTO sender_throttle (account_id, sender_address, last_reply_at, reply_count)
+       VALUES (?, ?, ?, 1)
+       ON CONFLICT(account_id, sender_address) DO UPDATE SET
+         last_reply_at = excluded.last_reply_at,
+         reply_count = reply_count + 1`,
+      [this.accountId, senderAddress.toLowerCase(), repliedAt.toISOString()]
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { Database } from './connection';
+import { Session } from '../models';
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  created_at: string;
+  expires_at: string;
+}
+
+/**
+ * Dashboard sessions, looked up by the hash of their token
+ */
+export class SessionRepository {
+  constructor(private db: Database) {}
+
+  async create(session: Session): Promise<void> {
+    await this.db.run(
+      'INSERT INTO session (id, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)',
+      [session.id, session.userId, session.createdAt.toISOString(), session.expiresAt.toISOString()]
+    );
+  }
+
+  async getById(id: string): Promise<Session | null> {
+    const row = await this.db.get<SessionRow>('SELECT * FROM session WHERE id = ?', [id]);
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+    };
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.run('DELETE FROM session WHERE id = ?', [id]);
+  }
+
+  async deleteByUser(userId: string): Promise<void> {
+    await this.db.run('DELETE FROM session WHERE user_id = ?', [userId]);
+  }
+
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const result = await this.db.run('DELETE FROM session WHERE expires_at <= ?', [now.toISOString()]);
+    return result.changes;
+  }
+}
@@ -0,0 +1,64 @@
+import { Database } from './connection';
+import { DEFAULT_ACCOUNT_ID, SyncState } from '../models';
+
+interface SyncStateRow {
+  mailbox: string;
+  uid_validity: number;
+  last_uid: number;
+  last_received_at: string | null;
+  updated_at: string;
+}
+
+/**
+ * UID cursors of one account's mailboxes
+ */
+export class SyncStateRepository {
+  constructor(private db: Database, private accountId: string = DEFAULT_ACCOUNT_ID) {}
+
+  async get(mailbox: string): Promise<SyncState | null> {
+    const row = await this.db.get<SyncStateRow>(
+      'SELECT * FROM sync_state WHERE account_id = ? AND mailbox = ?',
+      [this.accountId, mailbox]
+    );
+
+    return row ? this.rowToSyncState(row) : null;
+  }
+
+  async save(state: SyncState): Promise<void> {
+    await this.db.run(
+      `INSERT INTO sync_state (account_id, mailbox, uid_validity, last_uid, last_received_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(account_id, mailbox) DO UPDATE SET
+         uid_validity = excluded.uid_validity,
+         last_uid = excluded.last_uid,
+         last_received_at = excluded.last_received_at,
+         updated_at = excluded.updated_at`,
+      [
+        this.accountId,
+        state.mailbox,
+        state.uidValidity,
+        state.lastUid,
+        state.lastReceivedAt ? state.lastReceivedAt.toISOString() : null,
+        state.updatedAt.toISOString(),
+      ]
+    );
+  }
+
+  async getAll(): Promise<SyncState[]> {
+    const rows = await this.db.all<SyncStateRow>(
+      'SELECT * FROM sync_state WHERE account_id = ? ORDER BY mailbox',
+      [this.accountId]
+    );
+    return rows.map(row => this.rowToSyncState(row));
+  }
+
+  private rowToSyncState(row: SyncStateRow): SyncState {
+    return {
+      mailbox: row.mailbox,
+      uidValidity: row.uid_validity,
+      lastUid: row.last_uid,
+      ...(row.last_received_at && { lastReceivedAt: new Date(row.last_received_at) }),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
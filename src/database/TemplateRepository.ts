@@ -0,0 +1,116 @@
+import { Database } from './connection';
+import { Template } from '../models/Template';
+
+interface TemplateRow {
+  id: string;
+  name: string;
+  body: string;
+  html_body: string | null;
+  asset_ids: string | null;
+  keywords: string;
+  is_default: number;
+  account_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export class TemplateRepository {
+  constructor(private db: Database) {}
+
+  async create(template: Template): Promise<void> {
+    await this.db.run(
+      `INSERT INTO templates (
+        id, name, body, html_body, asset_ids, keywords, is_default, account_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        template.id,
+        template.name,
+        template.body,
+        template.htmlBody || null,
+        JSON.stringify(template.assetIds || []),
+        JSON.stringify(template.keywords),
+        template.isDefault ? 1 : 0,
+        template.accountId || null,
+        template.createdAt.toISOString(),
+        template.updatedAt.toISOString(),
+      ]
+    );
+
+    if (template.isDefault) {
+      await this.clearDefaultExcept(template);
+    }
+  }
+
+  async update(template: Template): Promise<void> {
+    await this.db.run(
+      `UPDATE templates
+       SET name = ?, body = ?, html_body = ?, asset_ids = ?, keywords = ?, is_default = ?, account_id = ?, updated_at = ?
+       WHERE id = ?`,
+      [
+        template.name,
+        template.body,
+        template.htmlBody || null,
+        JSON.stringify(template.assetIds || []),
+        JSON.stringify(template.keywords),
+        template.isDefault ? 1 : 0,
+        template.accountId || null,
+        template.updatedAt.toISOString(),
+        template.id,
+      ]
+    );
+
+    if (template.isDefault) {
+      await this.clearDefaultExcept(template);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.run('DELETE FROM templates WHERE id = ?', [id]);
+  }
+
+  async getById(id: string): Promise<Template | null> {
+    const row = await this.db.get<TemplateRow>(
+      'SELECT * FROM templates WHERE id = ?',
+      [id]
+    );
+
+    if (!row) return null;
+
+    return this.mapRowToTemplate(row);
+  }
+
+  async getAll(): Promise<Template[]> {
+    const rows = await this.db.all<TemplateRow>(
+      'SELECT * FROM templates ORDER BY name ASC, created_at ASC'
+    );
+
+    return rows.map(row => this.mapRowToTemplate(row));
+  }
+
+  /**
+   * Only one template can be the default, among the shared templates and
+   * among those of each account
+   */
+  private async clearDefaultExcept(template: Template): Promise<void> {
+    await this.db.run(
+      'UPDATE templates SET is_default = 0 WHERE id != ? AND is_default = 1 AND account_id IS ?',
+      [template.id, template.accountId || null]
+    );
+  }
+
+  private mapRowToTemplate(row: TemplateRow): Template {
+    const assetIds: string[] = row.asset_ids ? JSON.parse(row.asset_ids) : [];
+    return {
+      id: row.id,
+      name: row.name,
+      body: row.body,
+      ...(row.html_body && { htmlBody: row.html_body }),
+      ...(assetIds.length > 0 && { assetIds }),
+      keywords: JSON.parse(row.keywords),
+      isDefault: row.is_default === 1,
+      ...(row.account_id && { accountId: row.account_id }),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
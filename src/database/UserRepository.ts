@@ -0,0 +1,85 @@
+import { Database } from './connection';
+import { User, UserRole } from '../models';
+
+interface UserRow {
+  id: string;
+  username: string;
+  password_hash: string;
+  role: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Dashboard users; usernames are unique regardless of case
+ */
+export class UserRepository {
+  constructor(private db: Database) {}
+
+  async create(user: User): Promise<void> {
+    await this.db.run(
+      `INSERT INTO user (id, username, password_hash, role, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        user.id,
+        user.username,
+        user.passwordHash,
+        user.role,
+        user.createdAt.toISOString(),
+        user.updatedAt.toISOString(),
+      ]
+    );
+  }
+
+  async update(user: User): Promise<void> {
+    await this.db.run(
+      `UPDATE user
+       SET username = ?, password_hash = ?, role = ?, updated_at = ?
+       WHERE id = ?`,
+      [user.username, user.passwordHash, user.role, user.updatedAt.toISOString(), user.id]
+    );
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.run('DELETE FROM user WHERE id = ?', [id]);
+  }
+
+  async getById(id: string): Promise<User | null> {
+    const row = await this.db.get<UserRow>('SELECT * FROM user WHERE id = ?', [id]);
+    return row ? this.mapRowToUser(row) : null;
+  }
+
+  async getByUsername(username: string): Promise<User | null> {
+    const row = await this.db.get<UserRow>('SELECT * FROM user WHERE username = ?', [username]);
+    return row ? this.mapRowToUser(row) : null;
+  }
+
+  async getAll(): Promise<User[]> {
+    const rows = await this.db.all<UserRow>('SELECT * FROM user ORDER BY username ASC');
+    return rows.map(row => this.mapRowToUser(row));
+  }
+
+  async countByRole(role: UserRole): Promise<number> {
+    const row = await this.db.get<{ count: number }>(
+      'SELECT COUNT(*) as count FROM user WHERE role = ?',
+      [role]
+    );
+    return row?.count || 0;
+  }
+
+  async count(): Promise<number> {
+    const row = await this.db.get<{ count: number }>('SELECT COUNT(*) as count FROM user');
+    return row?.count || 0;
+  }
+
+  private mapRowToUser(row: UserRow): User {
+    return {
+      id: row.id,
+      username: row.username,
+      passwordHash: row.password_hash,
+      role: row.role as UserRole,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
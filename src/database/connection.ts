@@ -3,6 +3,8 @@ import sqlite3 from 'sqlite3';
 export class Database {
   private db: sqlite3.Database | null = null;
   private static instance: Database | null = null;
+  // Transactions share the one connection, so each waits for the previous one
+  private transactionQueue: Promise<void> = Promise.resolve();
 
   constructor() {}
 
@@ -68,6 +70,30 @@ export class Database {
     });
   }
 
+  /**
+   * Run the given statements as one transaction, rolling back if any fails
+   */
+  async transaction<T>(fn: () => Promise<T>): Promise<T> {
+    const previous = this.transactionQueue;
+    let done!: () => void;
+    this.transactionQueue = new Promise(resolve => { done = resolve; });
+
+    await previous;
+    try {
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        const result = await fn();
+        await this.run('COMMIT');
+        return result;
+      } catch (error) {
+        await this.run('ROLLBACK');
+        throw error;
+      }
+    } finally {
+      done();
+    }
+  }
+
   async all<T>(sql: string, params: any[] = []): Promise<T[]> {
     if (!this.db) throw new Error('Database not connected');
     
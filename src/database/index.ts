@@ -1,5 +1,14 @@
 export { Database } from './connection';
-export { runMigrations } from './migrations';
-export { ConfigRepository } from './ConfigRepository';
+export { runMigrations, getSchemaVersion, LATEST_SCHEMA_VERSION, MigrationOptions } from './migrations';
 export { ActivityLogRepository } from './ActivityLogRepository';
 export { ReplyRepository } from './ReplyRepository';
+export { SenderThrottleRepository } from './SenderThrottleRepository';
+export { RuleRepository } from './RuleRepository';
+export { TemplateRepository } from './TemplateRepository';
+export { AssetRepository } from './AssetRepository';
+export { SyncStateRepository } from './SyncStateRepository';
+export { ProcessedMessageRepository } from './ProcessedMessageRepository';
+export { AccountRepository } from './AccountRepository';
+export { UserRepository } from './UserRepository';
+export { SessionRepository } from './SessionRepository';
+export { ApiTokenRepository } from './ApiTokenRepository';
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Database } from './connection';
+import { runMigrations, getSchemaVersion, LATEST_SCHEMA_VERSION, MIGRATIONS } from './migrations';
+import { ConfigurationManagerImpl, createDefaultConfig } from '../config/ConfigurationManager';
+import { KeyRing, SecretDecryptionError } from '../secrets';
+
+const keys = new KeyRing(['test-key'], Buffer.alloc(16, 1));
+
+// Tables with their columns and indexes, to compare databases migrated along different paths
+async function describeSchema(db: Database): Promise<Record<string, string[]>> {
+  const objects = await db.all<{ type: string; name: string; tbl_name: string }>(
+    "SELECT type, name, tbl_name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY name"
+  );
+
+  const schema: Record<string, string[]> = {};
+  for (const object of objects.filter(o => o.type === 'table')) {
+    const columns = await db.all<{ name: string; type: string; pk: number }>(`PRAGMA table_info(${object.name})`);
+    schema[object.name] = columns.map(c => `${c.name} ${c.type}${c.pk ? ` pk${c.pk}` : ''}`).sort();
+  }
+  for (const index of objects.filter(o => o.type === 'index')) {
+    schema[index.tbl_name].push(`index ${index.name}`);
+  }
+  return schema;
+}
+
+async function openDatabase(dbPath: string = ':memory:'): Promise<Database> {
+  const db = new Database();
+  await db.connect(dbPath);
+  return db;
+}
+
+// A password as stored by the first configuration store: AES-256-CBC under the padded key
+function encryptWithPaddedKey(passphrase: string, plaintext: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', Buffer.from(passphrase.padEnd(32, '0').slice(0, 32)), iv);
+  return `${iv.toString('hex')}:${cipher.update(plaintext, 'utf8', 'hex')}${cipher.final('hex')}`;
+}
+
+describe('Migrations', () => {
+  let dir: string;
+  let db: Database;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+    db = await openDatabase();
+  });
+
+  afterEach(async () => {
+    await db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply every migration to a new database once', async () => {
+    await runMigrations(db);
+    await runMigrations(db);
+
+    expect(await getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    const applied = await db.all<{ version: number; description: string }>(
+      'SELECT version, description FROM schema_version ORDER BY version'
+    );
+    expect(applied).toEqual(MIGRATIONS.map(({ version, description }) => ({ version, description })));
+  });
+
+  it('should migrate a database from every earlier version to the same schema', async () => {
+    await runMigrations(db);
+    const expected = await describeSchema(db);
+    expect(expected.config).toEqual(['data TEXT', 'id INTEGER pk1']);
+
+    for (let version = 0; version < LATEST_SCHEMA_VERSION; version++) {
+      const earlier = await openDatabase();
+      try {
+        await runMigrations(earlier, { targetVersion: version });
+        expect(await getSchemaVersion(earlier)).toBe(version);
+
+        await runMigrations(earlier);
+        expect(await getSchemaVersion(earlier)).toBe(LATEST_SCHEMA_VERSION);
+        expect(await describeSchema(earlier)).toEqual(expected);
+      } finally {
+        await earlier.close();
+      }
+    }
+  });
+
+  it('should upgrade an unversioned database that has the schema of any earlier release', async () => {
+    await runMigrations(db);
+    const expected = await describeSchema(db);
+
+    for (let version = 1; version < LATEST_SCHEMA_VERSION; version++) {
+      const earlier = await openDatabase();
+      try {
+        // Releases before versioned migrations created their schema without recording it
+        await runMigrations(earlier, { targetVersion: version });
+        await earlier.run('DROP TABLE schema_version');
+
+        await runMigrations(earlier);
+        expect(await getSchemaVersion(earlier)).toBe(LATEST_SCHEMA_VERSION);
+        expect(await describeSchema(earlier)).toEqual(expected);
+      } finally {
+        await earlier.close();
+      }
+    }
+  });
+
+  it('should move rows from before accounts to the default account', async () => {
+    const accounts = MIGRATIONS.find(migration => migration.description === 'Accounts')!.version;
+    await runMigrations(db, { targetVersion: accounts - 1 });
+    await db.run("INSERT INTO sender_throttle VALUES ('alice@example.com', '2026-01-01T00:00:00.000Z', 2)");
+    await db.run("INSERT INTO sync_state VALUES ('INBOX', 7, 42, NULL, '2026-01-01T00:00:00.000Z')");
+    await db.run(
+      "INSERT INTO processed_message VALUES ('INBOX', 7, '42', '<a@example.com>', 'replied', 'reply-1', NULL, '2026-01-01T00:00:00.000Z')"
+    );
+
+    await runMigrations(db);
+
+    expect(await db.all('SELECT account_id, sender_address FROM sender_throttle')).toEqual([
+      { account_id: 'default', sender_address: 'alice@example.com' },
+    ]);
+    expect(await db.all('SELECT account_id, mailbox, last_uid FROM sync_state')).toEqual([
+      { account_id: 'default', mailbox: 'INBOX', last_uid: 42 },
+    ]);
+    expect(await db.all('SELECT account_id, uid, decision FROM processed_message')).toEqual([
+      { account_id: 'default', uid: '42', decision: 'replied' },
+    ]);
+    const index = await db.get<{ sql: string }>("SELECT sql FROM sqlite_master WHERE name = 'idx_processed_message_message_id'");
+    expect(index?.sql).toContain('processed_message(account_id, message_id)');
+  });
+
+  it('should keep the configuration stored by the first schema', async () => {
+    await runMigrations(db, { targetVersion: 1 });
+    await db.run(
+      `INSERT INTO config (
+        id, imap_host, imap_port, smtp_host, smtp_port, username, password,
+        keywords_enabled, keywords, excluded_domains, manual_confirmation, reply_template, check_interval
+      ) VALUES (1, 'imap.example.com', 993, 'smtp.example.com', 587, 'bot', ?, 1, '["urgent"]', '[]', 0, 'Thanks', 15)`,
+      [encryptWithPaddedKey('test-key', 'app-password')]
+    );
+
+    await expect(runMigrations(db)).rejects.toThrow('Converting the stored configuration requires the encryption keys');
+    await expect(runMigrations(db, { keys: new KeyRing(['other-key'], Buffer.alloc(16, 1)) })).rejects.toThrow(SecretDecryptionError);
+    await runMigrations(db, { keys });
+
+    expect(await new ConfigurationManagerImpl(db, keys).getConfig()).toEqual({
+      email: { imapHost: 'imap.example.com', imapPort: 993, smtpHost: 'smtp.example.com', smtpPort: 587, username: 'bot', password: 'app-password' },
+      filters: { keywordsEnabled: true, keywords: ['urgent'], excludedDomains: [] },
+      autoReply: { manualConfirmation: false, replyTemplate: 'Thanks', checkInterval: 15 },
+    });
+  });
+
+  it('should upgrade an unversioned database and import the separate configuration database', async () => {
+    // The main database of an early release, before accounts and schema versions
+    await db.run('CREATE TABLE sender_throttle (sender_address TEXT PRIMARY KEY, last_reply_at TEXT NOT NULL, reply_count INTEGER NOT NULL DEFAULT 0)');
+    await db.run("INSERT INTO sender_throttle VALUES ('alice@example.com', '2026-01-01T00:00:00.000Z', 2)");
+
+    // Its configuration database, with a saved configuration and history
+    const configDatabasePath = path.join(dir, 'config.db');
+    const previous = await openDatabase(configDatabasePath);
+    await previous.run('CREATE TABLE config (id INTEGER PRIMARY KEY CHECK (id = 1), data TEXT NOT NULL)');
+    await previous.run(`CREATE TABLE config_history (
+      version INTEGER PRIMARY KEY, data TEXT NOT NULL, author TEXT, changes TEXT NOT NULL,
+      rollback_of INTEGER, created_at TEXT NOT NULL
+    )`);
+    await new ConfigurationManagerImpl(previous, keys).updateConfig({ email: { ...createDefaultConfig().email, password: 'app-password' } }, 'ada');
+    await previous.close();
+
+    await runMigrations(db, { keys, configDatabasePath });
+
+    expect(await getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await db.all('SELECT account_id, sender_address, reply_count FROM sender_throttle')).toEqual([
+      { account_id: 'default', sender_address: 'alice@example.com', reply_count: 2 },
+    ]);
+
+    const manager = new ConfigurationManagerImpl(db, keys);
+    expect((await manager.getConfig()).email.password).toBe('app-password');
+    expect((await manager.getHistory()).map(version => [version.version, version.author])).toEqual([[2, 'ada'], [1, null]]);
+    expect(fs.existsSync(configDatabasePath)).toBe(true);
+  });
+
+  it('should refuse a database from a newer release', async () => {
+    await runMigrations(db);
+    await db.run(
+      'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+      [LATEST_SCHEMA_VERSION + 1, 'From the future', new Date().toISOString()]
+    );
+
+    await expect(runMigrations(db)).rejects.toThrow(
+      `Database schema version ${LATEST_SCHEMA_VERSION + 1} is newer than the latest version this release supports (${LATEST_SCHEMA_VERSION})`
+    );
+  });
+});
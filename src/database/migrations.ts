@@ -1,6 +1,95 @@
+import * as fs from 'fs';
 import { Database } from './connection';
+import { Config } from '../models/Config';
+import { KeyRing, isPrintableText } from '../secrets';
 
-export async function runMigrations(db: Database): Promise<void> {
+export interface MigrationOptions {
+  keys?: KeyRing; // Needed to convert a configuration stored by the first schema
+  configDatabasePath?: string; // Configuration database of earlier versions, imported once
+  targetVersion?: number; // Stop at this version instead of the latest
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(db: Database, options: MigrationOptions): Promise<void>;
+}
+
+/**
+ * Ordered schema changes, one per change. Append new migrations with the
+ * next version; released migrations are never edited, since databases
+ * record which versions they already have.
+ *
+ * Databases created before versioned migrations record no version and
+ * may already have any prefix of these changes, so each step is safe to
+ * run on a database that already has it.
+ */
+export const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Configuration, activity log and replies', up: createInitialSchema },
+  { version: 2, description: 'Reply threading headers', up: addReplyThreading },
+  { version: 3, description: 'Per-sender reply throttle', up: createSenderThrottle },
+  { version: 4, description: 'Original email context of replies', up: addReplyContext },
+  { version: 5, description: 'Filtering rules', up: createRules },
+  { version: 6, description: 'Stored reply templates', up: createTemplates },
+  { version: 7, description: 'HTML bodies of replies and templates', up: addHtmlBodies },
+  { version: 8, description: 'Assets attached to replies', up: createAssets },
+  { version: 9, description: 'Mailbox sync state', up: createSyncState },
+  { version: 10, description: 'Processed message ledger', up: createProcessedMessages },
+  { version: 11, description: 'Accounts', up: addAccounts },
+  { version: 12, description: 'XOAUTH2 sign-in for accounts', up: addAccountOAuth2 },
+  { version: 13, description: 'Users and sessions', up: createUsers },
+  { version: 14, description: 'API tokens', up: createApiTokens },
+  { version: 15, description: 'Keep the configuration in the main database', up: consolidateConfigStore },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * The version of the last migration applied to a database, 0 for a
+ * database that has none recorded
+ */
+export async function getSchemaVersion(db: Database): Promise<number> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      description TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const row = await db.get<{ version: number | null }>('SELECT MAX(version) AS version FROM schema_version');
+  return row?.version || 0;
+}
+
+/**
+ * Applies the migrations a database does not have yet, in order, and
+ * records each one in schema_version once it has completed. A migration
+ * interrupted part way is run again in full on the next start.
+ */
+export async function runMigrations(db: Database, options: MigrationOptions = {}): Promise<void> {
+  const current = await getSchemaVersion(db);
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${current} is newer than the latest version this release supports (${LATEST_SCHEMA_VERSION})`
+    );
+  }
+
+  const target = options.targetVersion ?? LATEST_SCHEMA_VERSION;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= current || migration.version > target) {
+      continue;
+    }
+
+    await migration.up(db, options);
+    await db.run(
+      'INSERT INTO schema_version (version, description, applied_at) VALUES (?, ?, ?)',
+      [migration.version, migration.description, new Date().toISOString()]
+    );
+  }
+}
+
+// The schema of the first release
+async function createInitialSchema(db: Database): Promise<void> {
   // Create Config table
   await db.run(`
     CREATE TABLE IF NOT EXISTS config (
@@ -72,3 +161,417 @@ export async function runMigrations(db: Database): Promise<void> {
     ON reply(original_email_id)
   `);
 }
+
+// In-Reply-To and References of the email a reply answers
+async function addReplyThreading(db: Database): Promise<void> {
+  await addColumnIfMissing(db, 'reply', 'in_reply_to', 'TEXT');
+  await addColumnIfMissing(db, 'reply', 'reference_ids', 'TEXT');
+}
+
+// Last auto-reply per sender address
+async function createSenderThrottle(db: Database): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS sender_throttle (
+      sender_address TEXT PRIMARY KEY,
+      last_reply_at TEXT NOT NULL,
+      reply_count INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+}
+
+// Original email context so pending replies survive restarts
+async function addReplyContext(db: Database): Promise<void> {
+  await addColumnIfMissing(db, 'reply', 'original_context', 'TEXT');
+}
+
+// Ordered filtering rules, condition and action stored as JSON
+async function createRules(db: Database): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS rule (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      condition TEXT NOT NULL,
+      action TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  await db.run(`
+    CREATE INDEX IF NOT EXISTS idx_rule_position 
+    ON rule(position)
+  `);
+}
+
+// Named reply templates selected by rule or keyword
+async function createTemplates(db: Database): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS templates (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      body TEXT NOT NULL,
+      keywords TEXT NOT NULL,
+      is_default INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+}
+
+// HTML alternative of the reply and template bodies
+async function addHtmlBodies(db: Database): Promise<void> {
+  await addColumnIfMissing(db, 'reply', 'html_body', 'TEXT');
+  await addColumnIfMissing(db, 'templates', 'html_body', 'TEXT');
+}
+
+// Files attached to or embedded in replies
+async function createAssets(db: Database): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS assets (
+      id TEXT PRIMARY KEY,
+      filename TEXT NOT NULL,
+      content_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      content BLOB NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
+
+  // Assets requested for the reply and, once sent, the assets it carried
+  await addColumnIfMissing(db, 'reply', 'asset_ids', 'TEXT');
+  await addColumnIfMissing(db, 'reply', 'assets', 'TEXT');
+  await addColumnIfMissing(db, 'templates', 'asset_ids', "TEXT NOT NULL DEFAULT '[]'");
+}
+
+// UID cursor per mailbox
+async function createSyncState(db: Database): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS sync_state (
+      mailbox TEXT PRIMARY KEY,
+      uid_validity INTEGER NOT NULL,
+      last_uid INTEGER NOT NULL,
+      last_received_at TEXT,
+      updated_at TEXT NOT NULL
+    )
+  `);
+}
+
+// Decision taken for each message, checked before replying
+async function createProcessedMessages(db: Database): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS processed_message (
+      mailbox TEXT NOT NULL,
+      uid_validity INTEGER NOT NULL DEFAULT 0,
+      uid TEXT NOT NULL,
+      message_id TEXT,
+      decision TEXT NOT NULL,
+      reply_id TEXT,
+      reason TEXT,
+      processed_at TEXT NOT NULL,
+      PRIMARY KEY (mailbox, uid_validity, uid)
+    )
+  `);
+
+  await db.run(`
+    CREATE INDEX IF NOT EXISTS idx_processed_message_message_id 
+    ON processed_message(message_id)
+  `);
+}
+
+// Tables keyed per account; databases from before accounts are rebuilt with these
+const SENDER_THROTTLE_TABLE = `
+  CREATE TABLE IF NOT EXISTS sender_throttle (
+    account_id TEXT NOT NULL DEFAULT 'default',
+    sender_address TEXT NOT NULL,
+    last_reply_at TEXT NOT NULL,
+    reply_count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (account_id, sender_address)
+  )
+`;
+
+const SYNC_STATE_TABLE = `
+  CREATE TABLE IF NOT EXISTS sync_state (
+    account_id TEXT NOT NULL DEFAULT 'default',
+    mailbox TEXT NOT NULL,
+    uid_validity INTEGER NOT NULL,
+    last_uid INTEGER NOT NULL,
+    last_received_at TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (account_id, mailbox)
+  )
+`;
+
+const PROCESSED_MESSAGE_TABLE = `
+  CREATE TABLE IF NOT EXISTS processed_message (
+    account_id TEXT NOT NULL DEFAULT 'default',
+    mailbox TEXT NOT NULL,
+    uid_validity INTEGER NOT NULL DEFAULT 0,
+    uid TEXT NOT NULL,
+    message_id TEXT,
+    decision TEXT NOT NULL,
+    reply_id TEXT,
+    reason TEXT,
+    processed_at TEXT NOT NULL,
+    PRIMARY KEY (account_id, mailbox, uid_validity, uid)
+  )
+`;
+
+/**
+ * Further mailboxes, each with its own password encrypted on its own.
+ * Existing rows belong to the default account; rules and templates
+ * limited to one account are shared when their account is NULL.
+ */
+async function addAccounts(db: Database): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS account (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      imap_host TEXT NOT NULL,
+      imap_port INTEGER NOT NULL,
+      smtp_host TEXT NOT NULL,
+      smtp_port INTEGER NOT NULL,
+      username TEXT NOT NULL,
+      password TEXT NOT NULL,
+      filters TEXT NOT NULL,
+      auto_reply TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  await addColumnIfMissing(db, 'activity_log', 'account_id', "TEXT NOT NULL DEFAULT 'default'");
+  await addColumnIfMissing(db, 'reply', 'account_id', "TEXT NOT NULL DEFAULT 'default'");
+  await addColumnIfMissing(db, 'rule', 'account_id', 'TEXT');
+  await addColumnIfMissing(db, 'templates', 'account_id', 'TEXT');
+
+  await db.run(SENDER_THROTTLE_TABLE);
+  await addAccountKey(db, 'sender_throttle', SENDER_THROTTLE_TABLE);
+  await db.run(SYNC_STATE_TABLE);
+  await addAccountKey(db, 'sync_state', SYNC_STATE_TABLE);
+  await db.run(PROCESSED_MESSAGE_TABLE);
+  await addAccountKey(db, 'processed_message', PROCESSED_MESSAGE_TABLE);
+
+  await db.run(`
+    CREATE INDEX IF NOT EXISTS idx_processed_message_message_id 
+    ON processed_message(account_id, message_id)
+  `);
+
+  await db.run(`
+    CREATE INDEX IF NOT EXISTS idx_activity_log_account_id 
+    ON activity_log(account_id, timestamp DESC)
+  `);
+}
+
+// XOAUTH2 sign-in; the client settings are encrypted together like the password
+async function addAccountOAuth2(db: Database): Promise<void> {
+  await addColumnIfMissing(db, 'account', 'auth_method', "TEXT NOT NULL DEFAULT 'password'");
+  await addColumnIfMissing(db, 'account', 'oauth2', 'TEXT');
+}
+
+// Dashboard sign-in; sessions are keyed by a hash of their token
+async function createUsers(db: Database): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS user (
+      id TEXT PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      password_hash TEXT NOT NULL,
+      role TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS session (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    )
+  `);
+
+  await db.run(`
+    CREATE INDEX IF NOT EXISTS idx_session_user_id 
+    ON session(user_id)
+  `);
+}
+
+// Scoped API tokens, keyed by a hash of the token
+async function createApiTokens(db: Database): Promise<void> {
+  await db.run(`
+    CREATE TABLE IF NOT EXISTS api_token (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      kind TEXT NOT NULL,
+      user_id TEXT,
+      scopes TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_by TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at TEXT,
+      last_used_at TEXT
+    )
+  `);
+
+  await db.run(`
+    CREATE INDEX IF NOT EXISTS idx_api_token_user_id 
+    ON api_token(user_id)
+  `);
+}
+
+// Configuration columns of the first schema, replaced by one encrypted document
+interface ConfigColumnsRow {
+  imap_host: string;
+  imap_port: number;
+  smtp_host: string;
+  smtp_port: number;
+  username: string;
+  password: string;
+  keywords_enabled: number;
+  keywords: string;
+  excluded_domains: string;
+  manual_confirmation: number;
+  reply_template: string;
+  check_interval: number;
+}
+
+/**
+ * Makes the main database the only configuration store: the unused
+ * column-per-field table is converted to the encrypted document and history
+ * tables of the configuration manager, and a configuration saved by earlier
+ * versions in their separate configuration database is imported.
+ */
+async function consolidateConfigStore(db: Database, options: MigrationOptions): Promise<void> {
+  const columns = await db.all<{ name: string }>('PRAGMA table_info(config)');
+  if (columns.some(c => c.name === 'imap_host')) {
+    const row = await db.get<ConfigColumnsRow>('SELECT * FROM config WHERE id = 1');
+    if (row && !options.keys) {
+      throw new Error('Converting the stored configuration requires the encryption keys');
+    }
+
+    await db.transaction(async () => {
+      await db.run('DROP TABLE config');
+      await db.run(CONFIG_TABLE);
+      if (row) {
+        await db.run('INSERT INTO config (id, data) VALUES (1, ?)', [
+          options.keys!.encrypt(JSON.stringify(mapColumnsToConfig(row, options.keys!))),
+        ]);
+      }
+    });
+  }
+
+  await db.run(CONFIG_TABLE);
+  await db.run(CONFIG_HISTORY_TABLE);
+
+  if (options.configDatabasePath && options.configDatabasePath !== ':memory:' && fs.existsSync(options.configDatabasePath)) {
+    await importConfigDatabase(db, options.configDatabasePath);
+  }
+}
+
+const CONFIG_TABLE = `
+  CREATE TABLE IF NOT EXISTS config (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    data TEXT NOT NULL
+  )
+`;
+
+// Every saved configuration and its changes, encrypted like the current one
+const CONFIG_HISTORY_TABLE = `
+  CREATE TABLE IF NOT EXISTS config_history (
+    version INTEGER PRIMARY KEY,
+    data TEXT NOT NULL,
+    author TEXT,
+    changes TEXT NOT NULL,
+    rollback_of INTEGER,
+    created_at TEXT NOT NULL
+  )
+`;
+
+function mapColumnsToConfig(row: ConfigColumnsRow, keys: KeyRing): Config {
+  return {
+    email: {
+      imapHost: row.imap_host,
+      imapPort: row.imap_port,
+      smtpHost: row.smtp_host,
+      smtpPort: row.smtp_port,
+      username: row.username,
+      password: keys.decrypt(row.password, isPrintableText),
+    },
+    filters: {
+      keywordsEnabled: row.keywords_enabled === 1,
+      keywords: JSON.parse(row.keywords),
+      excludedDomains: JSON.parse(row.excluded_domains),
+    },
+    autoReply: {
+      manualConfirmation: row.manual_confirmation === 1,
+      replyTemplate: row.reply_template,
+      checkInterval: row.check_interval,
+    },
+  };
+}
+
+/**
+ * Copies the configuration and its history from the separate database used
+ * by earlier versions. The values are copied still encrypted; the file
+ * itself is left in place.
+ */
+async function importConfigDatabase(db: Database, configDatabasePath: string): Promise<void> {
+  await db.run('ATTACH DATABASE ? AS previous_config', [configDatabasePath]);
+  try {
+    const tables = await db.all<{ name: string }>(
+      "SELECT name FROM previous_config.sqlite_master WHERE type = 'table'"
+    );
+    const names = tables.map(t => t.name);
+
+    if (names.includes('config')) {
+      await db.run('INSERT OR REPLACE INTO config (id, data) SELECT id, data FROM previous_config.config WHERE id = 1');
+    }
+    if (names.includes('config_history')) {
+      await db.run(
+        `INSERT OR IGNORE INTO config_history (version, data, author, changes, rollback_of, created_at)
+         SELECT version, data, author, changes, rollback_of, created_at FROM previous_config.config_history`
+      );
+    }
+  } finally {
+    await db.run('DETACH DATABASE previous_config');
+  }
+}
+
+/**
+ * Adds a column to an existing table unless it is already present,
+ * so databases created by earlier versions pick up new columns
+ */
+async function addColumnIfMissing(
+  db: Database,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const columns = await db.all<{ name: string }>(`PRAGMA table_info(${table})`);
+
+  if (!columns.some(c => c.name === column)) {
+    await db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Rebuilds a table from an earlier version whose primary key did not yet
+ * include account_id; its rows are moved to the default account. Indexes
+ * on the table are dropped with it and recreated afterwards.
+ */
+async function addAccountKey(db: Database, table: string, createTable: string): Promise<void> {
+  const columns = await db.all<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (columns.some(c => c.name === 'account_id')) {
+    return;
+  }
+
+  const names = columns.map(c => c.name).join(', ');
+  await db.transaction(async () => {
+    await db.run(`ALTER TABLE ${table} RENAME TO ${table}_previous`);
+    await db.run(createTable);
+    await db.run(`INSERT INTO ${table} (${names}) SELECT ${names} FROM ${table}_previous`);
+    await db.run(`DROP TABLE ${table}_previous`);
+  });
+}
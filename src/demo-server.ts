@@ -5,24 +5,28 @@
 
 import { createServer, startServer } from './api/server';
 import { ConfigurationManagerImpl } from './config/ConfigurationManager';
+import { getEnvConfig, createKeyRing } from './config/env';
 import { ActivityLogRepository } from './database/ActivityLogRepository';
 import { ReplyRepository } from './database/ReplyRepository';
 import { AutoResponderImpl } from './responder/AutoResponder';
 import { ReadTrackerImpl } from './responder/ReadTracker';
 import { Database } from './database/connection';
+import { runMigrations } from './database/migrations';
 
 async function main() {
   // Initialize database connection
   const dbPath = process.env.DB_PATH || ':memory:';
   const database = Database.getInstance();
   await database.connect(dbPath);
+  const keys = createKeyRing(getEnvConfig());
+  await runMigrations(database, { keys });
 
   // Initialize repositories
   const activityLogRepository = new ActivityLogRepository(database);
   const replyRepository = new ReplyRepository(database);
 
   // Initialize configuration manager
-  const configManager = new ConfigurationManagerImpl();
+  const configManager = new ConfigurationManagerImpl(database, keys);
 
   // Get config to use for auto responder
   const config = await configManager.getConfig();
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { LoopGuard } from './LoopGuard';
+import { Email } from '../models';
+import { AUTO_REPLY_HEADERS } from '../responder/AutoResponder';
+
+function createEmail(overrides: Partial<Email> = {}): Email {
+  return {
+    id: '1',
+    from: 'customer@example.com',
+    to: 'support@example.org',
+    subject: 'Question',
+    body: 'Hello there',
+    receivedAt: new Date(),
+    isRead: false,
+    headers: {},
+    ...overrides,
+  };
+}
+
+describe('LoopGuard', () => {
+  const guard = new LoopGuard();
+
+  it('should let ordinary personal mail through', () => {
+    expect(guard.detect(createEmail())).toBeNull();
+    expect(guard.detect(createEmail({ headers: { 'auto-submitted': 'no' } }))).toBeNull();
+    expect(guard.detect(createEmail({ headers: undefined }))).toBeNull();
+  });
+
+  it('should detect Auto-Submitted and X-Auto-Response-Suppress headers', () => {
+    expect(guard.detect(createEmail({ headers: { 'auto-submitted': 'auto-replied' } })))
+      .toContain('Auto-Submitted');
+    expect(guard.detect(createEmail({ headers: { 'auto-submitted': 'auto-generated' } })))
+      .toContain('auto-generated');
+    expect(guard.detect(createEmail({ headers: { 'x-auto-response-suppress': 'OOF, AutoReply' } })))
+      .toContain('X-Auto-Response-Suppress');
+  });
+
+  it('should detect bulk precedence and mailing lists', () => {
+    for (const precedence of ['bulk', 'List', 'junk']) {
+      expect(guard.detect(createEmail({ headers: { precedence } }))).toContain('Precedence');
+    }
+    expect(guard.detect(createEmail({ headers: { 'list-id': '<dev.lists.example.com>' } })))
+      .toContain('Mailing list');
+    expect(guard.detect(createEmail({ headers: { 'list-unsubscribe': '<mailto:leave@example.com>' } })))
+      .toContain('Mailing list');
+  });
+
+  it('should detect bounces and system senders', () => {
+    expect(guard.detect(createEmail({ from: 'MAILER-DAEMON@mx.example.com' }))).toContain('System sender');
+    expect(guard.detect(createEmail({ from: 'postmaster@example.com' }))).toContain('System sender');
+    expect(guard.detect(createEmail({ from: 'no-reply@service.example.com' }))).toContain('System sender');
+    expect(guard.detect(createEmail({ from: 'bounces+1234@lists.example.com' }))).toContain('System sender');
+    expect(guard.detect(createEmail({ headers: { 'return-path': '<>' } }))).toContain('Null return path');
+    expect(guard.detect(createEmail({
+      headers: { 'content-type': 'multipart/report; report-type=delivery-status; boundary="x"' },
+    }))).toContain('report');
+  });
+
+  it('should detect out-of-office replies using vendor headers', () => {
+    expect(guard.detect(createEmail({ headers: { 'x-autoreply': 'yes' } }))).toContain('x-autoreply');
+  });
+
+  /**
+   * Two LazyMailBOSS instances must not answer each other: the headers stamped
+   * on our own replies must always be recognised as automated.
+   */
+  it('should recognise replies sent by another LazyMailBOSS instance', () => {
+    fc.assert(
+      fc.property(fc.emailAddress(), fc.string(), (from, subject) => {
+        const headers = Object.fromEntries(
+          Object.entries(AUTO_REPLY_HEADERS).map(([name, value]) => [name.toLowerCase(), value])
+        );
+
+        expect(guard.isAutomated(createEmail({ from, subject, headers }))).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { Email } from '../models';
+
+/**
+ * Local parts of system senders that never expect an answer
+ */
+const SYSTEM_SENDER_PATTERN =
+  /^(mailer-daemon|postmaster|no[-_.]?reply|do[-_.]?not[-_.]?reply|bounces?|auto[-_.]?reply|autoresponder)([+-].*)?$/i;
+
+const BULK_PRECEDENCE = ['bulk', 'list', 'junk', 'auto_reply'];
+
+/**
+ * Headers set by out-of-office and other autoresponders that do not use Auto-Submitted
+ */
+const AUTORESPONDER_HEADERS = ['x-autoreply', 'x-autorespond', 'x-auto-response', 'x-autogenerated'];
+
+/**
+ * Detects automated mail (bounces, autoresponders, mailing lists) so that we never
+ * answer another robot and two auto-responders cannot ping-pong forever
+ */
+export class LoopGuard {
+  /**
+   * Returns why the email looks automated, or null if it appears to come from a person
+   */
+  detect(email: Email): string | null {
+    const headers = email.headers || {};
+
+    const autoSubmitted = headers['auto-submitted'];
+    if (autoSubmitted && autoSubmitted.toLowerCase() !== 'no') {
+      return `Auto-Submitted: ${autoSubmitted}`;
+    }
+
+    const suppress = headers['x-auto-response-suppress'];
+    if (suppress && suppress.toLowerCase() !== 'none') {
+      return `X-Auto-Response-Suppress: ${suppress}`;
+    }
+
+    const precedence = headers['precedence'];
+    if (precedence && BULK_PRECEDENCE.includes(precedence.toLowerCase())) {
+      return `Precedence: ${precedence}`;
+    }
+
+    if (headers['list-id'] || headers['list-unsubscribe']) {
+      return `Mailing list message (${headers['list-id'] || 'List-Unsubscribe'})`;
+    }
+
+    const autoresponderHeader = AUTORESPONDER_HEADERS.find(name => headers[name] !== undefined);
+    if (autoresponderHeader) {
+      return `Autoresponder header present: ${autoresponderHeader}`;
+    }
+
+    if (headers['return-path'] !== undefined && headers['return-path'].replace(/\s/g, '') === '<>') {
+      return 'Null return path (delivery status notification)';
+    }
+
+    if (/^multipart\/report\b/i.test(headers['content-type'] || '')) {
+      return 'Delivery or read report';
+    }
+
+    const localPart = email.from.split('@')[0];
+    if (SYSTEM_SENDER_PATTERN.test(localPart)) {
+      return `System sender: ${email.from}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Checks if the email was generated automatically
+   */
+  isAutomated(email: Email): boolean {
+    return this.detect(email) !== null;
+  }
+}
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { MessageFilter } from './MessageFilter';
-import { Email } from '../models';
+import { Email, Rule, RuleAction } from '../models';
 
 describe('MessageFilter', () => {
   describe('Property 13: Keyword filter approval logic', () => {
@@ -257,4 +257,110 @@ describe('MessageFilter', () => {
       expect(decision.reason).toContain('excluded');
     });
   });
+
+  describe('Loop guard', () => {
+    it('should reject automated messages before keyword matching', () => {
+      const email: Email = {
+        id: '1',
+        from: 'alerts@example.com',
+        to: 'user@mymail.com',
+        subject: 'urgent: Out of office',
+        body: 'I am away until Monday',
+        receivedAt: new Date(),
+        isRead: false,
+        headers: { 'auto-submitted': 'auto-replied' }
+      };
+
+      const filter = new MessageFilter({
+        keywordsEnabled: true,
+        keywords: ['urgent'],
+        excludedDomains: []
+      });
+
+      const decision = filter.shouldAutoReply(email);
+      expect(decision.approved).toBe(false);
+      expect(decision.filterStage).toBe('loop_guard');
+      expect(decision.reason).toContain('Auto-Submitted');
+    });
+
+    it('should report the stage that rejected an email', () => {
+      const filter = new MessageFilter({
+        keywordsEnabled: true,
+        keywords: ['urgent'],
+        excludedDomains: ['spam.com']
+      });
+      const email: Email = {
+        id: '1',
+        from: 'user@spam.com',
+        to: 'user@mymail.com',
+        subject: 'Hello',
+        body: 'Nothing special',
+        receivedAt: new Date(),
+        isRead: false
+      };
+
+      expect(filter.shouldAutoReply(email).filterStage).toBe('domain');
+      expect(filter.shouldAutoReply({ ...email, from: 'user@ok.com' }).filterStage).toBe('keyword');
+    });
+  });
+
+  describe('Rules', () => {
+    const email: Email = {
+      id: '1',
+      from: 'billing@vendor.com',
+      to: 'user@mymail.com',
+      subject: 'Invoice for March',
+      body: 'See attached',
+      receivedAt: new Date(),
+      isRead: false
+    };
+
+    function createRule(id: string, position: number, action: RuleAction): Rule {
+      return {
+        id,
+        name: `Rule ${id}`,
+        position,
+        enabled: true,
+        condition: { field: 'subject', operator: 'contains', value: 'invoice' },
+        action,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+    }
+
+    it('should let the first matching rule decide ahead of keyword filtering', () => {
+      const filter = new MessageFilter({
+        keywordsEnabled: true,
+        keywords: ['urgent'],
+        excludedDomains: [],
+        rules: [createRule('queue', 1, { type: 'queue', template: 'Billing team will respond.' })]
+      });
+
+      const decision = filter.shouldAutoReply(email);
+      expect(decision.approved).toBe(true);
+      expect(decision.matchedRule).toEqual({ id: 'queue', name: 'Rule queue' });
+      expect(decision.action).toEqual({ type: 'queue', template: 'Billing team will respond.' });
+    });
+
+    it('should reject with the rule stage for non-reply actions', () => {
+      const filter = new MessageFilter({ keywordsEnabled: false, keywords: [], excludedDomains: [] });
+      filter.updateRules([createRule('quiet', 0, { type: 'leave_unread' })]);
+
+      const decision = filter.shouldAutoReply(email);
+      expect(decision.approved).toBe(false);
+      expect(decision.filterStage).toBe('rule');
+      expect(decision.action?.type).toBe('leave_unread');
+    });
+
+    it('should still apply domain exclusion before rules', () => {
+      const filter = new MessageFilter({
+        keywordsEnabled: false,
+        keywords: [],
+        excludedDomains: ['vendor.com'],
+        rules: [createRule('reply', 0, { type: 'reply' })]
+      });
+
+      expect(filter.shouldAutoReply(email).filterStage).toBe('domain');
+    });
+  });
 });
@@ -1,39 +1,78 @@
-import { Email } from '../models';
+import { Email, Rule, RuleAction } from '../models';
 import { KeywordMatcher } from './KeywordMatcher';
 import { DomainFilter } from './DomainFilter';
+import { LoopGuard } from './LoopGuard';
+import { RuleEngine } from './RuleEngine';
+
+export type FilterStage = 'domain' | 'loop_guard' | 'rule' | 'keyword';
 
 export interface FilterDecision {
   approved: boolean;
   reason: string;
   matchedKeywords?: string[];
+  filterStage?: FilterStage;
+  matchedRule?: { id: string; name: string };
+  action?: RuleAction;
 }
 
 export interface FilterConfig {
   keywordsEnabled: boolean;
   keywords: string[];
   excludedDomains: string[];
+  rules?: Rule[];
 }
 
+const REPLY_ACTIONS = ['reply', 'queue'];
+
 export class MessageFilter {
   private keywordMatcher: KeywordMatcher;
   private domainFilter: DomainFilter;
+  private loopGuard: LoopGuard;
+  private ruleEngine: RuleEngine;
   private keywordsEnabled: boolean;
 
   constructor(config: FilterConfig) {
     this.keywordMatcher = new KeywordMatcher(config.keywords);
     this.domainFilter = new DomainFilter(config.excludedDomains);
+    this.loopGuard = new LoopGuard();
+    this.ruleEngine = new RuleEngine(config.rules || []);
     this.keywordsEnabled = config.keywordsEnabled;
   }
 
   /**
    * Determines if an email should receive an auto-reply based on filtering rules
+   * @param ruleIds - Restricts the rules evaluated, all rules apply when omitted
    */
-  shouldAutoReply(email: Email): FilterDecision {
+  shouldAutoReply(email: Email, ruleIds?: string[]): FilterDecision {
     // First check domain exclusion
     if (this.domainFilter.isExcluded(email.from)) {
       return {
         approved: false,
-        reason: `Sender domain is excluded: ${this.domainFilter.extractDomain(email.from)}`
+        reason: `Sender domain is excluded: ${this.domainFilter.extractDomain(email.from)}`,
+        filterStage: 'domain'
+      };
+    }
+
+    // Never answer bounces, autoresponders or mailing lists
+    const automatedReason = this.loopGuard.detect(email);
+    if (automatedReason) {
+      return {
+        approved: false,
+        reason: `Automated message, not replying to avoid a mail loop: ${automatedReason}`,
+        filterStage: 'loop_guard'
+      };
+    }
+
+    // The first matching rule decides, ahead of the keyword settings
+    const rule = this.ruleEngine.findMatch(email, ruleIds);
+    if (rule) {
+      const approved = REPLY_ACTIONS.includes(rule.action.type);
+      return {
+        approved,
+        reason: `Matched rule "${rule.name}" (action: ${rule.action.type})`,
+        matchedRule: { id: rule.id, name: rule.name },
+        action: rule.action,
+        ...(!approved && { filterStage: 'rule' as FilterStage }),
       };
     }
 
@@ -50,7 +89,8 @@ export class MessageFilter {
       } else {
         return {
           approved: false,
-          reason: 'Email does not contain any required keywords'
+          reason: 'Email does not contain any required keywords',
+          filterStage: 'keyword'
         };
       }
     }
@@ -76,6 +116,13 @@ export class MessageFilter {
     this.domainFilter.updateExcludedDomains(domains);
   }
 
+  /**
+   * Replaces the ordered rule set
+   */
+  updateRules(rules: Rule[]): void {
+    this.ruleEngine.updateRules(rules);
+  }
+
   /**
    * Enables or disables keyword filtering
    */
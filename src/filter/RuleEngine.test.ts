@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { RuleEngine } from './RuleEngine';
+import { Email, Rule, RuleExpression } from '../models';
+
+function createEmail(overrides: Partial<Email> = {}): Email {
+  return {
+    id: '1',
+    from: 'alice@customer.example.com',
+    to: 'support@example.org',
+    subject: 'Invoice #1042 overdue',
+    body: 'Please check the attached invoice.',
+    receivedAt: new Date('2026-03-07T10:30:00Z'), // Saturday
+    isRead: false,
+    ...overrides,
+  };
+}
+
+function createRule(id: string, position: number, condition: RuleExpression, overrides: Partial<Rule> = {}): Rule {
+  return {
+    id,
+    name: `Rule ${id}`,
+    position,
+    enabled: true,
+    condition,
+    action: { type: 'reply' },
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('RuleEngine', () => {
+  const engine = new RuleEngine();
+
+  describe('text operators', () => {
+    it('should match contains and equals case-insensitively unless asked otherwise', () => {
+      const email = createEmail();
+
+      expect(engine.matches(email, { field: 'subject', operator: 'contains', value: 'INVOICE' })).toBe(true);
+      expect(engine.matches(email, { field: 'subject', operator: 'contains', value: 'INVOICE', caseSensitive: true })).toBe(false);
+      expect(engine.matches(email, { field: 'to', operator: 'equals', value: 'Support@Example.org' })).toBe(true);
+      expect(engine.matches(email, { field: 'to', operator: 'equals', value: 'support' })).toBe(false);
+    });
+
+    it('should match regular expressions and globs', () => {
+      const email = createEmail();
+
+      expect(engine.matches(email, { field: 'subject', operator: 'regex', value: '#\\d{4}' })).toBe(true);
+      expect(engine.matches(email, { field: 'from', operator: 'glob', value: '*@*.example.com' })).toBe(true);
+      expect(engine.matches(email, { field: 'from', operator: 'glob', value: 'bob@*' })).toBe(false);
+    });
+
+    it('should match sender domains including subdomains', () => {
+      const email = createEmail();
+
+      expect(engine.matches(email, { field: 'from', operator: 'domain_in', value: ['example.com'] })).toBe(true);
+      expect(engine.matches(email, { field: 'from', operator: 'domain_in', value: ['customer.example.com'] })).toBe(true);
+      expect(engine.matches(email, { field: 'from', operator: 'domain_in', value: ['ample.com'] })).toBe(false);
+    });
+
+    it('should match any of several values, cc addresses and named headers', () => {
+      const email = createEmail({ cc: ['boss@example.net'], headers: { 'x-priority': '1 (Highest)' } });
+
+      expect(engine.matches(email, { field: 'subject', operator: 'contains', value: ['refund', 'overdue'] })).toBe(true);
+      expect(engine.matches(email, { field: 'cc', operator: 'domain_in', value: ['example.net'] })).toBe(true);
+      expect(engine.matches(email, { field: 'header', header: 'X-Priority', operator: 'contains', value: 'highest' })).toBe(true);
+      expect(engine.matches(email, { field: 'header', header: 'X-Missing', operator: 'contains', value: '' })).toBe(false);
+    });
+  });
+
+  describe('time operators', () => {
+    it('should compare the received date against before and after', () => {
+      const email = createEmail();
+
+      expect(engine.matches(email, { field: 'receivedAt', operator: 'after', value: '2026-03-01T00:00:00Z' })).toBe(true);
+      expect(engine.matches(email, { field: 'receivedAt', operator: 'before', value: '2026-03-01T00:00:00Z' })).toBe(false);
+    });
+
+    it('should match time windows in a time zone, including windows that wrap past midnight', () => {
+      const evening = createEmail({ receivedAt: new Date('2026-03-06T22:15:00Z') });
+      const morning = createEmail({ receivedAt: new Date('2026-03-06T09:00:00Z') });
+      const outOfHours = { field: 'receivedAt', operator: 'time_between', value: '18:00-08:00', timeZone: 'UTC' } as const;
+
+      expect(engine.matches(evening, outOfHours)).toBe(true);
+      expect(engine.matches(morning, outOfHours)).toBe(false);
+      // 09:00 UTC is 18:00 in Tokyo
+      expect(engine.matches(morning, { ...outOfHours, timeZone: 'Asia/Tokyo' })).toBe(true);
+    });
+
+    it('should match weekdays in a time zone', () => {
+      const email = createEmail({ receivedAt: new Date('2026-03-07T23:30:00Z') }); // Saturday in UTC
+
+      expect(engine.matches(email, { field: 'receivedAt', operator: 'day_in', value: ['sat', 'sun'], timeZone: 'UTC' })).toBe(true);
+      // Already Sunday in Berlin
+      expect(engine.matches(email, { field: 'receivedAt', operator: 'day_in', value: ['Sunday'], timeZone: 'Europe/Berlin' })).toBe(true);
+      expect(engine.matches(email, { field: 'receivedAt', operator: 'day_in', value: ['mon'], timeZone: 'UTC' })).toBe(false);
+    });
+  });
+
+  describe('boolean composition', () => {
+    it('should combine conditions with all, any and not', () => {
+      const email = createEmail();
+      const isInvoice: RuleExpression = { field: 'subject', operator: 'contains', value: 'invoice' };
+      const isRefund: RuleExpression = { field: 'subject', operator: 'contains', value: 'refund' };
+
+      expect(engine.matches(email, { all: [isInvoice, { not: isRefund }] })).toBe(true);
+      expect(engine.matches(email, { all: [isInvoice, isRefund] })).toBe(false);
+      expect(engine.matches(email, { any: [isRefund, isInvoice] })).toBe(true);
+      expect(engine.matches(email, { any: [] })).toBe(false);
+      expect(engine.matches(email, { all: [] })).toBe(true);
+    });
+  });
+
+  describe('rule ordering', () => {
+    it('should return the first enabled matching rule by position', () => {
+      const matchAll: RuleExpression = { field: 'subject', operator: 'contains', value: '' };
+      const ruleEngine = new RuleEngine([
+        createRule('late', 3, matchAll),
+        createRule('disabled', 1, matchAll, { enabled: false }),
+        createRule('early', 2, matchAll),
+        createRule('miss', 0, { field: 'subject', operator: 'contains', value: 'refund' }),
+      ]);
+
+      expect(ruleEngine.findMatch(createEmail())?.id).toBe('early');
+      expect(ruleEngine.getRules().map(rule => rule.id)).toEqual(['miss', 'disabled', 'early', 'late']);
+    });
+
+    it('should only consider the given rules', () => {
+      const matchAll: RuleExpression = { field: 'subject', operator: 'contains', value: '' };
+      const ruleEngine = new RuleEngine([createRule('first', 0, matchAll), createRule('second', 1, matchAll)]);
+
+      expect(ruleEngine.findMatch(createEmail(), ['second'])?.id).toBe('second');
+      expect(ruleEngine.findMatch(createEmail(), [])).toBeNull();
+    });
+
+    it('should use the new rules after an update', () => {
+      const ruleEngine = new RuleEngine([createRule('a', 0, { field: 'subject', operator: 'regex', value: 'invoice' })]);
+      expect(ruleEngine.findMatch(createEmail())?.id).toBe('a');
+
+      ruleEngine.updateRules([]);
+      expect(ruleEngine.findMatch(createEmail())).toBeNull();
+    });
+
+    /**
+     * For any set of rules, findMatch returns the enabled matching rule with
+     * the lowest position, or null when no enabled rule matches.
+     */
+    it('should always pick the lowest-positioned enabled matching rule', () => {
+      const ruleArbitrary = fc.record({
+        enabled: fc.boolean(),
+        matches: fc.boolean(),
+      });
+
+      fc.assert(
+        fc.property(fc.array(ruleArbitrary, { maxLength: 10 }), (specs) => {
+          const rules = specs.map((spec, index) => createRule(
+            String(index),
+            specs.length - index,
+            { field: 'subject', operator: 'contains', value: spec.matches ? 'invoice' : 'refund' },
+            { enabled: spec.enabled }
+          ));
+          const expected = rules
+            .filter((_rule, index) => specs[index].enabled && specs[index].matches)
+            .sort((a, b) => a.position - b.position)[0];
+
+          expect(new RuleEngine(rules).findMatch(createEmail())?.id ?? null).toBe(expected?.id ?? null);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Email, Rule, RuleCondition, RuleExpression } from '../models';
+import { parseMinutes, zonedTime } from './ZonedTime';
+
+/**
+ * Evaluates ordered rules against an email; the first enabled rule whose
+ * condition matches wins
+ */
+export class RuleEngine {
+  private rules: Rule[];
+  private regexCache: Map<string, RegExp> = new Map();
+
+  constructor(rules: Rule[] = []) {
+    this.rules = this.sortRules(rules);
+  }
+
+  /**
+   * Replaces the rule set
+   */
+  updateRules(rules: Rule[]): void {
+    this.rules = this.sortRules(rules);
+    this.regexCache.clear();
+  }
+
+  getRules(): Rule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Returns the first enabled rule matching the email, or null
+   * @param ruleIds - Only consider these rules, e.g. those of the email's mailbox
+   */
+  findMatch(email: Email, ruleIds?: string[]): Rule | null {
+    for (const rule of this.rules) {
+      if (ruleIds && !ruleIds.includes(rule.id)) {
+        continue;
+      }
+      if (rule.enabled && this.matches(email, rule.condition)) {
+        return rule;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Evaluates a condition tree against an email
+   */
+  matches(email: Email, expression: RuleExpression): boolean {
+    if ('all' in expression) {
+      return expression.all.every(child => this.matches(email, child));
+    }
+    if ('any' in expression) {
+      return expression.any.some(child => this.matches(email, child));
+    }
+    if ('not' in expression) {
+      return !this.matches(email, expression.not);
+    }
+    return this.matchesCondition(email, expression);
+  }
+
+  private matchesCondition(email: Email, condition: RuleCondition): boolean {
+    const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+
+    if (condition.field === 'receivedAt') {
+      return this.matchesTime(email.receivedAt, condition, values);
+    }
+
+    const candidates = this.fieldValues(email, condition);
+    if (condition.operator === 'domain_in') {
+      const domains = values.map(d => d.toLowerCase());
+      return candidates.some(address => {
+        const domain = extractDomain(address);
+        return domain !== '' && domains.some(d => domain === d || domain.endsWith(`.${d}`));
+      });
+    }
+
+    return candidates.some(candidate => values.some(value => this.matchesText(candidate, value, condition)));
+  }
+
+  private matchesText(candidate: string, value: string, condition: RuleCondition): boolean {
+    const caseSensitive = condition.caseSensitive === true;
+
+    switch (condition.operator) {
+      case 'contains':
+        return caseSensitive
+          ? candidate.includes(value)
+          : candidate.toLowerCase().includes(value.toLowerCase());
+      case 'equals':
+        return caseSensitive
+          ? candidate.trim() === value
+          : candidate.trim().toLowerCase() === value.toLowerCase();
+      case 'regex':
+        return this.compile(value, caseSensitive ? '' : 'i').test(candidate);
+      case 'glob':
+        return this.compile(globToRegex(value), caseSensitive ? '' : 'i').test(candidate.trim());
+      default:
+        return false;
+    }
+  }
+
+  private matchesTime(receivedAt: Date, condition: RuleCondition, values: string[]): boolean {
+    switch (condition.operator) {
+      case 'before':
+        return receivedAt.getTime() < Date.parse(values[0]);
+      case 'after':
+        return receivedAt.getTime() > Date.parse(values[0]);
+      case 'time_between': {
+        const [start, end] = values[0].split('-').map(parseMinutes);
+        const { minutes } = zonedTime(receivedAt, condition.timeZone);
+        // Ranges such as 18:00-08:00 wrap past midnight
+        return start <= end
+          ? minutes >= start && minutes < end
+          : minutes >= start || minutes < end;
+      }
+      case 'day_in': {
+        const { weekday } = zonedTime(receivedAt, condition.timeZone);
+        return values.some(v => v.toLowerCase().slice(0, 3) === weekday);
+      }
+      default:
+        return false;
+    }
+  }
+
+  private fieldValues(email: Email, condition: RuleCondition): string[] {
+    switch (condition.field) {
+      case 'from':
+        return [email.from];
+      case 'to':
+        return [email.to];
+      case 'cc':
+        return email.cc || [];
+      case 'subject':
+        return [email.subject];
+      case 'body':
+        return [email.body];
+      case 'header': {
+        const value = email.headers?.[condition.header!.toLowerCase()];
+        return value !== undefined ? [value] : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  private compile(pattern: string, flags: string): RegExp {
+    const key = `${flags}/${pattern}`;
+    let regex = this.regexCache.get(key);
+    if (!regex) {
+      regex = new RegExp(pattern, flags);
+      this.regexCache.set(key, regex);
+    }
+    return regex;
+  }
+
+  private sortRules(rules: Rule[]): Rule[] {
+    return [...rules].sort((a, b) => a.position - b.position);
+  }
+}
+
+function extractDomain(address: string): string {
+  const atIndex = address.lastIndexOf('@');
+  return atIndex === -1 ? '' : address.substring(atIndex + 1).trim().toLowerCase();
+}
+
+/**
+ * Converts a glob (* and ?) into an anchored regular expression source
+ */
+function globToRegex(glob: string): string {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return `^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { SenderThrottle } from './SenderThrottle';
+import { Database } from '../database/connection';
+import { runMigrations } from '../database/migrations';
+import { SenderThrottleRepository } from '../database/SenderThrottleRepository';
+import { Email } from '../models';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function createEmail(from: string): Email {
+  return {
+    id: '1',
+    from,
+    to: 'support@example.org',
+    subject: 'Question',
+    body: 'Hello there',
+    receivedAt: new Date(),
+    isRead: false,
+  };
+}
+
+describe('SenderThrottle', () => {
+  let db: Database;
+  let repository: SenderThrottleRepository;
+
+  beforeEach(async () => {
+    db = new Database();
+    await db.connect(':memory:');
+    await runMigrations(db);
+    repository = new SenderThrottleRepository(db);
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('should allow the first reply to a sender', async () => {
+    const throttle = new SenderThrottle(repository, 24);
+
+    const decision = await throttle.check(createEmail('alice@example.com'));
+
+    expect(decision.throttled).toBe(false);
+    expect(decision.lastReplyAt).toBeUndefined();
+  });
+
+  it('should throttle a sender inside the cooldown window and allow them after it', async () => {
+    const throttle = new SenderThrottle(repository, 24);
+    const email = createEmail('alice@example.com');
+    const repliedAt = new Date('2026-01-01T08:00:00Z');
+
+    await throttle.recordReply(email, repliedAt);
+
+    const soon = await throttle.check(email, new Date(repliedAt.getTime() + 23 * HOUR_MS));
+    expect(soon.throttled).toBe(true);
+    expect(soon.lastReplyAt).toEqual(repliedAt);
+    expect(soon.nextAllowedAt).toEqual(new Date(repliedAt.getTime() + 24 * HOUR_MS));
+
+    const later = await throttle.check(email, new Date(repliedAt.getTime() + 24 * HOUR_MS));
+    expect(later.throttled).toBe(false);
+  });
+
+  it('should match sender addresses case-insensitively', async () => {
+    const throttle = new SenderThrottle(repository, 24);
+    const now = new Date();
+
+    await throttle.recordReply(createEmail('Alice@Example.com'), now);
+    await throttle.recordReply(createEmail('alice@example.com'), now);
+
+    expect((await throttle.check(createEmail('ALICE@example.COM'), now)).throttled).toBe(true);
+    expect((await throttle.check(createEmail('bob@example.com'), now)).throttled).toBe(false);
+  });
+
+  it('should never throttle when the cooldown is disabled', async () => {
+    const throttle = new SenderThrottle(repository, 24);
+    const email = createEmail('alice@example.com');
+    const now = new Date();
+
+    await throttle.recordReply(email, now);
+    throttle.setCooldownHours(0);
+
+    expect((await throttle.check(email, now)).throttled).toBe(false);
+  });
+
+  it('should remember replies across instances sharing the same store', async () => {
+    const email = createEmail('alice@example.com');
+    const now = new Date();
+
+    await new SenderThrottle(repository, 24).recordReply(email, now);
+
+    const restarted = new SenderThrottle(new SenderThrottleRepository(db), 24);
+    expect((await restarted.check(email, now)).throttled).toBe(true);
+  });
+
+  /**
+   * A sender is throttled exactly while the elapsed time since their last
+   * auto-reply is shorter than the configured cooldown.
+   */
+  it('should throttle exactly within the cooldown window', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 168 }),
+        fc.integer({ min: 0, max: 200 * 60 }),
+        async (cooldownHours, elapsedMinutes) => {
+          const throttle = new SenderThrottle(repository, cooldownHours);
+          const email = createEmail('sender@example.com');
+          const repliedAt = new Date('2026-01-01T00:00:00Z');
+
+          await throttle.recordReply(email, repliedAt);
+          const decision = await throttle.check(email, new Date(repliedAt.getTime() + elapsedMinutes * 60 * 1000));
+
+          expect(decision.throttled).toBe(elapsedMinutes < cooldownHours * 60);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { Email } from '../models';
+
+export interface ThrottleDecision {
+  throttled: boolean;
+  reason: string;
+  lastReplyAt?: Date;
+  nextAllowedAt?: Date;
+}
+
+/**
+ * Persistent record of when each sender last received an auto-reply
+ */
+export interface ThrottleStore {
+  getLastReplyAt(senderAddress: string): Promise<Date | null>;
+  recordReply(senderAddress: string, repliedAt: Date): Promise<void>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_SENDER_COOLDOWN_HOURS = 24;
+
+/**
+ * Limits auto-replies to at most one per sender address within the cooldown window
+ */
+export class SenderThrottle {
+  private store: ThrottleStore;
+  private cooldownHours: number;
+
+  constructor(store: ThrottleStore, cooldownHours: number) {
+    this.store = store;
+    this.cooldownHours = cooldownHours;
+  }
+
+  /**
+   * Checks whether the sender already received an auto-reply within the cooldown window
+   */
+  async check(email: Email, now: Date = new Date()): Promise<ThrottleDecision> {
+    if (this.cooldownHours <= 0) {
+      return { throttled: false, reason: 'Sender throttling disabled' };
+    }
+
+    const lastReplyAt = await this.store.getLastReplyAt(email.from);
+    if (!lastReplyAt) {
+      return { throttled: false, reason: 'No previous auto-reply to this sender' };
+    }
+
+    const nextAllowedAt = new Date(lastReplyAt.getTime() + this.cooldownHours * HOUR_MS);
+    if (now < nextAllowedAt) {
+      return {
+        throttled: true,
+        reason: `Sender already received an auto-reply at ${lastReplyAt.toISOString()} (cooldown ${this.cooldownHours}h)`,
+        lastReplyAt,
+        nextAllowedAt,
+      };
+    }
+
+    return {
+      throttled: false,
+      reason: 'Cooldown for this sender has elapsed',
+      lastReplyAt,
+      nextAllowedAt,
+    };
+  }
+
+  /**
+   * Records that the sender was just sent (or queued) an auto-reply
+   */
+  async recordReply(email: Email, repliedAt: Date = new Date()): Promise<void> {
+    await this.store.recordReply(email.from, repliedAt);
+  }
+
+  /**
+   * Updates the cooldown window in hours (0 disables throttling)
+   */
+  setCooldownHours(hours: number): void {
+    this.cooldownHours = hours;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Parses "HH:MM" into minutes since midnight
+ */
+export function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes since midnight and weekday of a date in the given time zone (server time if omitted)
+ */
+export function zonedTime(date: Date, timeZone?: string): { minutes: number; weekday: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    weekday: part('weekday').toLowerCase().slice(0, 3),
+  };
+}
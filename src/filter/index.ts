@@ -1,3 +1,7 @@
 export * from './KeywordMatcher';
 export * from './DomainFilter';
+export * from './LoopGuard';
 export * from './MessageFilter';
+export * from './SenderThrottle';
+export * from './RuleEngine';
+export * from './ZonedTime';
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ImapSessionManager } from './ImapSessionManager';
+import { ImapStandIn } from '../monitor/fixtures/ImapStandIn';
+import { ReadTrackerImpl } from '../responder';
+import { EmailMonitorImpl, ImapConfig } from '../monitor';
+
+function message(subject: string): string {
+  return `From: alice@example.com\r\nTo: bot@example.org\r\nSubject: ${subject}\r\n\r\nHello\r\n`;
+}
+
+describe('ImapSessionManager', () => {
+  let server: ImapStandIn;
+  let imapConfig: ImapConfig;
+  let sessions: ImapSessionManager;
+
+  beforeEach(async () => {
+    server = new ImapStandIn();
+    const port = await server.start();
+    imapConfig = { user: server.user, password: server.password, host: '127.0.0.1', port, tls: false };
+    sessions = new ImapSessionManager(imapConfig);
+  });
+
+  afterEach(async () => {
+    await sessions.close();
+    await server.stop();
+  });
+
+  it('should reuse one login for consecutive operations', async () => {
+    const uid = String(server.addMessage(message('One')));
+
+    for (let i = 0; i < 5; i++) {
+      await sessions.getFlags([uid]);
+    }
+    await sessions.addFlags([uid], '\\Flagged');
+
+    expect(server.loginCount).toBe(1);
+    expect(server.commands.filter(command => /^(SELECT|EXAMINE)/.test(command))).toEqual(['EXAMINE "INBOX"', 'SELECT "INBOX"']);
+    expect(sessions.getMetrics()).toMatchObject({ open: 1, busy: 0, connects: 1, operations: 6 });
+  });
+
+  it('should flag a whole UID set with one store command', async () => {
+    const uids = ['First', 'Second', 'Third'].map(subject => String(server.addMessage(message(subject))));
+
+    await sessions.addFlags(uids, ['\\Seen']);
+
+    expect(server.commands.filter(command => command.startsWith('UID STORE'))).toHaveLength(1);
+    expect(server.getMessages().every(stored => stored.flags.includes('\\Seen'))).toBe(true);
+  });
+
+  it('should keep each operation on the mailbox it selected', async () => {
+    server.addMailbox('Archive');
+    const inboxUid = String(server.addMessage(message('Inbox')));
+    server.addMessage(message('Archived 1'), { mailbox: 'Archive' });
+    const archiveUid = String(server.addMessage(message('Archived 2'), { mailbox: 'Archive' }));
+
+    const [inbox, archive] = await Promise.all([
+      sessions.withMailbox('INBOX', async imap => {
+        await new Promise(resolve => setTimeout(resolve, 50));
+        return new Promise<number>((resolve) => {
+          imap.search(['ALL'], (_err: Error | null, uids: number[]) => resolve(uids.length));
+        });
+      }),
+      sessions.addFlags([archiveUid], '\\Seen', 'Archive').then(() => 'done'),
+    ]);
+
+    expect(inbox).toBe(1);
+    expect(archive).toBe('done');
+    expect(server.getMessage(Number(archiveUid), 'Archive')!.flags).toContain('\\Seen');
+    expect(server.getMessage(Number(inboxUid))!.flags).not.toContain('\\Seen');
+  });
+
+  it('should queue operations beyond the pool size', async () => {
+    sessions = new ImapSessionManager(imapConfig, { maxSessions: 1 });
+    let running = 0;
+    let maxRunning = 0;
+
+    await Promise.all([1, 2, 3].map(() => sessions.withMailbox('INBOX', async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+    })));
+
+    expect(maxRunning).toBe(1);
+    expect(server.loginCount).toBe(1);
+  });
+
+  it('should reconnect after the connection drops', async () => {
+    const uid = String(server.addMessage(message('Dropped')));
+    await sessions.getFlags([uid]);
+
+    server.dropConnections();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const flags = await sessions.getFlags([uid]);
+
+    expect(flags.get(uid)).toEqual([]);
+    expect(server.loginCount).toBe(2);
+    expect(sessions.getMetrics()).toMatchObject({ drops: 1, connects: 2 });
+  });
+
+  it('should retry an operation interrupted by a drop on a new connection', async () => {
+    let attempts = 0;
+
+    const result = await sessions.withMailbox('INBOX', async () => {
+      attempts++;
+      if (attempts === 1) {
+        server.dropConnections();
+        await new Promise(resolve => setTimeout(resolve, 1000));
+      }
+      return attempts;
+    });
+
+    expect(result).toBe(2);
+    expect(sessions.getMetrics()).toMatchObject({ retries: 1, drops: 1 });
+  });
+
+  it('should report login failures', async () => {
+    sessions = new ImapSessionManager({ ...imapConfig, password: 'wrong' });
+
+    await expect(sessions.getFlags(['1'])).rejects.toThrow();
+    expect(sessions.getMetrics().connectFailures).toBe(1);
+    expect(sessions.getMetrics().lastError).toBeDefined();
+  });
+
+  it('should log in again with new settings', async () => {
+    await sessions.getFlags(['1']);
+
+    sessions.updateImapConfig({ ...imapConfig });
+    await sessions.getFlags(['1']);
+    expect(server.loginCount).toBe(1);
+
+    sessions.updateImapConfig({ ...imapConfig, password: 'changed' });
+    await expect(sessions.getFlags(['1'])).rejects.toThrow();
+    expect(sessions.getMetrics()).toMatchObject({ open: 0, connectFailures: 1 });
+  });
+
+  it('should list the folders on the server', async () => {
+    server.addMailbox('Support');
+
+    const mailboxes = await sessions.listMailboxes();
+
+    expect(mailboxes.map(mailbox => mailbox.name)).toEqual(['INBOX', 'Support']);
+    expect(mailboxes.every(mailbox => mailbox.selectable && mailbox.delimiter === '/')).toBe(true);
+  });
+
+  it('should back the read tracker', async () => {
+    const uids = ['A', 'B'].map(subject => String(server.addMessage(message(subject))));
+    const readTracker = new ReadTrackerImpl(imapConfig, sessions);
+
+    expect(await readTracker.isRead(uids[0])).toBe(false);
+    await readTracker.markAllAsRead(uids);
+    await readTracker.markAsRead(uids[0]);
+    expect(await readTracker.isRead(uids[0])).toBe(true);
+    expect(await readTracker.isRead(uids[1])).toBe(true);
+    expect(server.loginCount).toBe(1);
+  });
+
+  it('should let the monitor check the inbox without logging in each time', async () => {
+    server.addMessage(message('Unread'));
+    server.addMessage(message('Read'), { flags: ['\\Seen'] });
+    const readTracker = new ReadTrackerImpl(imapConfig, sessions);
+    const monitor = new EmailMonitorImpl({
+      imapConfig,
+      messageFilter: {} as any,
+      autoResponder: {} as any,
+      readTracker,
+      sessions,
+    });
+
+    const first = await monitor.checkInbox();
+    await readTracker.markAsRead(first[0].id);
+    const second = await monitor.checkInbox();
+
+    expect(first.map(email => email.subject)).toEqual(['Unread']);
+    expect(second).toEqual([]);
+    expect(server.loginCount).toBe(1);
+  });
+});
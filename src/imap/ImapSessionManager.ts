@@ -0,0 +1,495 @@
+import Imap from 'imap';
+import type { ImapConfig } from '../monitor/EmailMonitor';
+import { buildXOAuth2String, getAccessToken, invalidateAccessToken } from '../oauth';
+
+export interface ImapSessionOptions {
+  maxSessions?: number; // Connections kept open at most, defaults to 2
+  idleTimeout?: number; // In milliseconds, unused connections are closed after this, defaults to 300000 (5 minutes)
+}
+
+export interface ImapSessionMetrics {
+  open: number; // Connections currently logged in
+  busy: number; // Connections running an operation
+  waiting: number; // Operations queued for a free connection
+  connects: number; // Successful logins
+  connectFailures: number;
+  drops: number; // Connections lost while open
+  retries: number; // Operations repeated on a new connection after a drop
+  operations: number; // Operations completed
+  lastConnectedAt?: Date;
+  lastError?: string;
+}
+
+export interface MailboxInfo {
+  name: string; // Full path, e.g. "Support/Billing"
+  delimiter: string;
+  attributes: string[]; // As reported by the imap client, e.g. NOSELECT or SENT
+  selectable: boolean;
+}
+
+export interface OpenMailboxOptions {
+  readOnly?: boolean;
+  refresh?: boolean; // Select the mailbox again for an up-to-date status such as UIDVALIDITY
+}
+
+/**
+ * Raised when the connection closes while an operation is running
+ */
+export class ImapConnectionLostError extends Error {
+  constructor(message = 'IMAP connection lost') {
+    super(message);
+    this.name = 'ImapConnectionLostError';
+  }
+}
+
+/**
+ * Raised when the server refuses the login, e.g. because an access token
+ * was revoked before it expired
+ */
+export class ImapAuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImapAuthenticationError';
+  }
+}
+
+/**
+ * The error for a connection that failed before it was ready; a refused
+ * login is raised as an ImapAuthenticationError
+ */
+export function imapConnectionError(err: Error & { source?: string }): Error {
+  const message = `IMAP connection error: ${err.message}`;
+  return err.source === 'authentication' ? new ImapAuthenticationError(message) : new Error(message);
+}
+
+interface Session {
+  imap: Imap;
+  mailbox?: string;
+  box?: Imap.Box;
+  readOnly?: boolean;
+  busy: boolean;
+  closed: boolean;
+  idleTimer?: NodeJS.Timeout;
+  // Rejects the running operation when the connection closes
+  onLost?: (error: Error) => void;
+}
+
+type Waiter = { resolve: (session: Session) => void; reject: (error: Error) => void };
+
+/**
+ * Connection settings for the imap client. With OAuth2 a current access
+ * token is fetched, refreshing it first when it is about to expire.
+ */
+export async function resolveImapLogin(imapConfig: ImapConfig): Promise<Imap.Config> {
+  const { oauth2, ...login } = imapConfig;
+  if (!oauth2) {
+    return login;
+  }
+
+  const accessToken = await getAccessToken(oauth2);
+  return { ...login, xoauth2: buildXOAuth2String(login.user, accessToken) };
+}
+
+/**
+ * Connect, and with OAuth2 connect once more with a fresh access token when
+ * the server refuses the current one
+ */
+export async function retryWithFreshToken<T>(imapConfig: ImapConfig, connect: () => Promise<T>): Promise<T> {
+  try {
+    return await connect();
+  } catch (error) {
+    if (!imapConfig.oauth2 || !(error instanceof ImapAuthenticationError)) {
+      throw error;
+    }
+    invalidateAccessToken(imapConfig.oauth2);
+    return connect();
+  }
+}
+
+/**
+ * Shares a small pool of logged-in IMAP connections between the monitor and
+ * the read tracker so that checking and flagging mail does not log in for
+ * every message.
+ *
+ * Each operation leases one connection for its whole run, so the mailbox it
+ * selects cannot be changed underneath it. Connections that drop are
+ * discarded and replaced on the next lease; an operation interrupted by a
+ * drop is run once more on a new connection.
+ */
+export class ImapSessionManager {
+  private imapConfig: ImapConfig;
+  private maxSessions: number;
+  private idleTimeout: number;
+  private sessions: Set<Session> = new Set();
+  private connecting: number = 0;
+  private waiters: Waiter[] = [];
+  private closed: boolean = false;
+  private metrics: Omit<ImapSessionMetrics, 'open' | 'busy' | 'waiting'> = {
+    connects: 0,
+    connectFailures: 0,
+    drops: 0,
+    retries: 0,
+    operations: 0,
+  };
+
+  constructor(imapConfig: ImapConfig, options: ImapSessionOptions = {}) {
+    this.imapConfig = imapConfig;
+    this.maxSessions = options.maxSessions || 2;
+    this.idleTimeout = options.idleTimeout || 300000;
+  }
+
+  /**
+   * Replace the connection settings; open connections are closed once they
+   * are no longer in use and later operations log in with the new settings
+   */
+  updateImapConfig(imapConfig: ImapConfig): void {
+    if (JSON.stringify(imapConfig) === JSON.stringify(this.imapConfig)) {
+      return;
+    }
+
+    this.imapConfig = imapConfig;
+    for (const session of this.sessions) {
+      session.closed = true;
+      if (!session.busy) {
+        this.endSession(session);
+      }
+    }
+  }
+
+  /**
+   * Run an operation with a mailbox selected on a pooled connection. The
+   * operation also receives the mailbox status from its selection.
+   */
+  async withMailbox<T>(
+    mailbox: string,
+    operation: (imap: Imap, box: Imap.Box) => Promise<T>,
+    options: OpenMailboxOptions = {}
+  ): Promise<T> {
+    try {
+      return await this.runOnce(mailbox, operation, options);
+    } catch (error) {
+      if (!(error instanceof ImapConnectionLostError) || this.closed) {
+        throw error;
+      }
+      this.metrics.retries++;
+      return this.runOnce(mailbox, operation, options);
+    }
+  }
+
+  /**
+   * Add flags to a set of messages with a single UID STORE
+   */
+  async addFlags(uids: string[], flags: string | string[], mailbox = 'INBOX'): Promise<void> {
+    if (uids.length === 0) {
+      return;
+    }
+
+    // The imap client converts UID lists in place; callers keep their own copy
+    await this.withMailbox(mailbox, imap => new Promise<void>((resolve, reject) => {
+      imap.addFlags([...uids], flags, (err: Error | null) => {
+        if (err) {
+          reject(new Error(`Failed to add flags: ${err.message}`));
+          return;
+        }
+        resolve();
+      });
+    }));
+  }
+
+  /**
+   * Fetch the flags of a set of messages, keyed by UID. Messages that no
+   * longer exist are left out.
+   */
+  async getFlags(uids: string[], mailbox = 'INBOX'): Promise<Map<string, string[]>> {
+    const flags = new Map<string, string[]>();
+    if (uids.length === 0) {
+      return flags;
+    }
+
+    await this.withMailbox(mailbox, imap => new Promise<void>((resolve, reject) => {
+      const fetch = imap.fetch([...uids], {});
+
+      fetch.on('message', (msg) => {
+        msg.on('attributes', (attrs) => {
+          flags.set(String(attrs.uid), attrs.flags || []);
+        });
+      });
+
+      fetch.once('error', (err: Error) => {
+        reject(new Error(`Failed to fetch flags: ${err.message}`));
+      });
+
+      fetch.once('end', () => resolve());
+    }), { readOnly: true });
+
+    return flags;
+  }
+
+  /**
+   * List the folders on the server, each parent followed by its children
+   */
+  async listMailboxes(): Promise<MailboxInfo[]> {
+    const boxes = await this.withMailbox('INBOX', imap => new Promise<Imap.MailBoxes>((resolve, reject) => {
+      imap.getBoxes((err: Error | null, result: Imap.MailBoxes) => {
+        if (err) {
+          reject(new Error(`Failed to list mailboxes: ${err.message}`));
+          return;
+        }
+        resolve(result);
+      });
+    }), { readOnly: true });
+
+    const mailboxes: MailboxInfo[] = [];
+    const collect = (level: Imap.MailBoxes | null, prefix: string) => {
+      for (const [name, folder] of Object.entries(level || {})) {
+        const path = prefix + name;
+        const attributes = folder.attribs || [];
+        mailboxes.push({
+          name: path,
+          delimiter: folder.delimiter,
+          attributes,
+          selectable: !attributes.includes('NOSELECT'),
+        });
+        collect(folder.children, path + folder.delimiter);
+      }
+    };
+    collect(boxes, '');
+
+    return mailboxes;
+  }
+
+  getMetrics(): ImapSessionMetrics {
+    const sessions = Array.from(this.sessions);
+    return {
+      open: sessions.length,
+      busy: sessions.filter(session => session.busy).length,
+      waiting: this.waiters.length,
+      ...this.metrics,
+    };
+  }
+
+  /**
+   * Log out of every connection and reject queued operations
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(new Error('IMAP session manager closed'));
+    }
+
+    await Promise.all(Array.from(this.sessions).map(session => new Promise<void>((resolve) => {
+      if (session.imap.state === 'disconnected') {
+        this.sessions.delete(session);
+        resolve();
+        return;
+      }
+      session.imap.once('close', () => resolve());
+      this.endSession(session);
+    })));
+  }
+
+  private async runOnce<T>(
+    mailbox: string,
+    operation: (imap: Imap, box: Imap.Box) => Promise<T>,
+    options: OpenMailboxOptions
+  ): Promise<T> {
+    const session = await this.acquire();
+
+    try {
+      const lost = new Promise<never>((_, reject) => {
+        session.onLost = reject;
+      });
+      // Keeps an unused rejection from being reported as unhandled
+      lost.catch(() => undefined);
+
+      const box = await Promise.race([this.openMailbox(session, mailbox, options), lost]);
+      const result = await Promise.race([operation(session.imap, box), lost]);
+      this.metrics.operations++;
+      return result;
+    } finally {
+      session.onLost = undefined;
+      this.release(session);
+    }
+  }
+
+  /**
+   * Select the mailbox unless the connection already has it open in a
+   * compatible mode; a read-write selection serves read-only operations too
+   */
+  private openMailbox(session: Session, mailbox: string, options: OpenMailboxOptions): Promise<Imap.Box> {
+    const readOnly = options.readOnly === true;
+    if (!options.refresh && session.box && session.mailbox === mailbox && (readOnly || session.readOnly === false)) {
+      return Promise.resolve(session.box);
+    }
+
+    return new Promise((resolve, reject) => {
+      session.imap.openBox(mailbox, readOnly, (err: Error | null, box: Imap.Box) => {
+        if (err) {
+          session.mailbox = undefined;
+          session.box = undefined;
+          reject(new Error(`Failed to open ${mailbox}: ${err.message}`));
+          return;
+        }
+        session.mailbox = mailbox;
+        session.box = box;
+        session.readOnly = readOnly;
+        resolve(box);
+      });
+    });
+  }
+
+  private acquire(): Promise<Session> {
+    if (this.closed) {
+      return Promise.reject(new Error('IMAP session manager closed'));
+    }
+
+    for (const session of this.sessions) {
+      if (!session.busy && !session.closed) {
+        this.lease(session);
+        return Promise.resolve(session);
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+      this.fillPool();
+    });
+  }
+
+  /**
+   * Open connections while operations are waiting and the pool has room
+   */
+  private fillPool(): void {
+    const available = this.maxSessions - this.sessions.size - this.connecting;
+    const needed = this.waiters.length - this.connecting;
+
+    for (let i = 0; i < Math.min(available, needed); i++) {
+      this.connecting++;
+      this.connect().then(
+        (session) => {
+          this.connecting--;
+          this.release(session);
+        },
+        (error: Error) => {
+          this.connecting--;
+          // Without another connection coming, the oldest waiter gets the error
+          const waiter = this.waiters.shift();
+          waiter?.reject(error);
+          this.fillPool();
+        }
+      );
+    }
+  }
+
+  private lease(session: Session): void {
+    session.busy = true;
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+      session.idleTimer = undefined;
+    }
+  }
+
+  /**
+   * Hand a connection to the next waiting operation, or keep it for later
+   */
+  private release(session: Session): void {
+    session.busy = false;
+
+    if (session.closed || !this.sessions.has(session)) {
+      this.endSession(session);
+      this.fillPool();
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      this.lease(session);
+      waiter.resolve(session);
+      return;
+    }
+
+    session.idleTimer = setTimeout(() => this.endSession(session), this.idleTimeout);
+  }
+
+  private connect(): Promise<Session> {
+    return retryWithFreshToken(this.imapConfig, () => this.connectOnce());
+  }
+
+  private async connectOnce(): Promise<Session> {
+    let login: Imap.Config;
+    try {
+      login = await resolveImapLogin(this.imapConfig);
+    } catch (err) {
+      this.metrics.connectFailures++;
+      this.metrics.lastError = err instanceof Error ? err.message : String(err);
+      throw err;
+    }
+
+    return new Promise((resolve, reject) => {
+      const imap = new Imap(login);
+      const session: Session = { imap, busy: false, closed: false };
+      let ready = false;
+
+      imap.once('ready', () => {
+        ready = true;
+        this.sessions.add(session);
+        this.metrics.connects++;
+        this.metrics.lastConnectedAt = new Date();
+
+        if (this.closed) {
+          this.endSession(session);
+          reject(new Error('IMAP session manager closed'));
+          return;
+        }
+        resolve(session);
+      });
+
+      imap.on('error', (err: Error) => {
+        this.metrics.lastError = err.message;
+        if (!ready) {
+          this.metrics.connectFailures++;
+          reject(imapConnectionError(err));
+        }
+      });
+
+      imap.once('close', () => {
+        if (!ready) {
+          reject(new Error('IMAP connection closed'));
+          return;
+        }
+
+        const dropped = !session.closed;
+        session.closed = true;
+        this.sessions.delete(session);
+        if (session.idleTimer) {
+          clearTimeout(session.idleTimer);
+        }
+        if (dropped) {
+          this.metrics.drops++;
+        }
+        session.onLost?.(new ImapConnectionLostError());
+      });
+
+      try {
+        imap.connect();
+      } catch (err) {
+        this.metrics.connectFailures++;
+        reject(new Error(`Failed to connect to IMAP server: ${err}`));
+      }
+    });
+  }
+
+  private endSession(session: Session): void {
+    session.closed = true;
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+      session.idleTimer = undefined;
+    }
+    if (session.imap.state !== 'disconnected') {
+      session.imap.end();
+    } else {
+      this.sessions.delete(session);
+    }
+  }
+}
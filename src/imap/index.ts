@@ -0,0 +1,2 @@
+// Shared IMAP connection handling
+export * from './ImapSessionManager';
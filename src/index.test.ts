@@ -1,12 +1,12 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { Database, runMigrations } from './database';
 import { ConfigurationManagerImpl } from './config';
+import { KeyRing } from './secrets';
 import * as fs from 'fs';
 import * as path from 'path';
 
 describe('Main Application Integration', () => {
   const testDbPath = './test-main-app.db';
-  const testConfigPath = './test-main-config.db';
   let database: Database;
   let configManager: ConfigurationManagerImpl;
 
@@ -15,9 +15,6 @@ describe('Main Application Integration', () => {
     if (fs.existsSync(testDbPath)) {
       fs.unlinkSync(testDbPath);
     }
-    if (fs.existsSync(testConfigPath)) {
-      fs.unlinkSync(testConfigPath);
-    }
 
     // Initialize database
     database = Database.getInstance();
@@ -25,20 +22,16 @@ describe('Main Application Integration', () => {
     await runMigrations(database);
 
     // Initialize configuration manager
-    configManager = new ConfigurationManagerImpl(testConfigPath);
+    configManager = new ConfigurationManagerImpl(database, new KeyRing(['test-key'], Buffer.alloc(16, 1)));
   });
 
   afterEach(async () => {
     // Clean up
     await database.close();
-    await configManager.close();
 
     if (fs.existsSync(testDbPath)) {
       fs.unlinkSync(testDbPath);
     }
-    if (fs.existsSync(testConfigPath)) {
-      fs.unlinkSync(testConfigPath);
-    }
   });
 
   it('should initialize database and run migrations', async () => {
@@ -1,20 +1,50 @@
 // Main application entry point
-import { Database, runMigrations } from './database';
-import { ConfigurationManagerImpl, getEnvConfig, printConfigSummary } from './config';
-import { MessageFilter } from './filter';
-import { AutoResponderImpl, ReadTrackerImpl } from './responder';
+import { randomUUID } from 'crypto';
+import { Database, runMigrations, getSchemaVersion } from './database';
+import {
+  ConfigurationManagerImpl,
+  ConfigReloader,
+  getEnvConfig,
+  printConfigSummary,
+  applyEnvOverrides,
+  createKeyRing,
+  buildImapConfig,
+  buildSmtpConfig,
+  buildTemplateOptions,
+  hasImapCredentials,
+} from './config';
+import { MessageFilter, SenderThrottle, DEFAULT_SENDER_COOLDOWN_HOURS } from './filter';
+import { AutoResponderImpl, ReadTrackerImpl, TemplateSelector } from './responder';
 import { EmailMonitorImpl } from './monitor';
+import { ImapSessionManager } from './imap';
+import { AccountRegistry, AccountServices } from './accounts';
 import { createServer, startServer } from './api/server';
 import { ActivityLogRepository } from './database/ActivityLogRepository';
 import { ReplyRepository } from './database/ReplyRepository';
-import { Config } from './models';
+import { SenderThrottleRepository } from './database/SenderThrottleRepository';
+import { RuleRepository } from './database/RuleRepository';
+import { TemplateRepository } from './database/TemplateRepository';
+import { AssetRepository } from './database/AssetRepository';
+import { SyncStateRepository } from './database/SyncStateRepository';
+import { ProcessedMessageRepository } from './database/ProcessedMessageRepository';
+import { AccountRepository } from './database/AccountRepository';
+import { UserRepository } from './database/UserRepository';
+import { SessionRepository } from './database/SessionRepository';
+import { ApiTokenRepository } from './database/ApiTokenRepository';
+import { AuthService, ApiTokenService } from './auth';
+import { onRefreshTokenRotated } from './oauth';
+import { ActivityLog, Config, DEFAULT_ACCOUNT_ID } from './models';
 
 // Application state
-let emailMonitor: EmailMonitorImpl | null = null;
+let accountRegistry: AccountRegistry | null = null;
 let configManager: ConfigurationManagerImpl | null = null;
 let database: Database | null = null;
+let sessionPurgeTimer: NodeJS.Timeout | null = null;
 let isShuttingDown = false;
 
+// How often sessions that have run out are removed
+const SESSION_PURGE_INTERVAL = 60 * 60 * 1000; // 1 hour
+
 /**
  * Initialize the application
  */
@@ -30,125 +60,206 @@ async function initialize(): Promise<void> {
     console.log('');
 
     // Initialize database connection
-    database = Database.getInstance();
-    await database.connect(envConfig.databasePath);
+    const db = Database.getInstance();
+    database = db;
+    await db.connect(envConfig.databasePath);
     console.log('✓ Database connected');
 
-    // Run migrations
-    await runMigrations(database);
-    console.log('✓ Database migrations completed');
+    // Keys for stored secrets: the current key encrypts, earlier ones still decrypt
+    const keys = createKeyRing(envConfig);
 
-    // Initialize ConfigurationManager with encryption key from environment
-    configManager = new ConfigurationManagerImpl(
-      envConfig.configDatabasePath,
-      envConfig.encryptionKey
-    );
+    // Run migrations; a configuration database of earlier versions is imported once
+    await runMigrations(db, { keys, configDatabasePath: envConfig.configDatabasePath });
+    console.log(`✓ Database migrations completed (schema version ${await getSchemaVersion(db)})`);
+
+    // Initialize ConfigurationManager with the key ring
+    configManager = new ConfigurationManagerImpl(db, keys);
     console.log('✓ Configuration manager initialized');
 
     // Load initial configuration and merge with environment overrides
-    let config = await configManager.getConfig();
-    
-    // Apply environment variable overrides if provided
-    if (envConfig.email) {
-      config = {
-        ...config,
-        email: {
-          ...config.email,
-          ...(envConfig.email.imapHost && { imapHost: envConfig.email.imapHost }),
-          ...(envConfig.email.imapPort && { imapPort: envConfig.email.imapPort }),
-          ...(envConfig.email.imapUser && { username: envConfig.email.imapUser }),
-          ...(envConfig.email.imapPassword && { password: envConfig.email.imapPassword }),
-          ...(envConfig.email.smtpHost && { smtpHost: envConfig.email.smtpHost }),
-          ...(envConfig.email.smtpPort && { smtpPort: envConfig.email.smtpPort }),
-        }
-      };
-    }
-    
-    if (envConfig.autoReply) {
-      config = {
-        ...config,
-        autoReply: {
-          ...config.autoReply,
-          ...(envConfig.autoReply.checkInterval !== undefined && { checkInterval: envConfig.autoReply.checkInterval }),
-          ...(envConfig.autoReply.manualConfirmation !== undefined && { manualConfirmation: envConfig.autoReply.manualConfirmation }),
-          ...(envConfig.autoReply.replyTemplate && { replyTemplate: envConfig.autoReply.replyTemplate }),
-        }
-      };
-    }
-    
-    if (envConfig.filters) {
-      config = {
-        ...config,
-        filters: {
-          ...config.filters,
-          ...(envConfig.filters.keywordsEnabled !== undefined && { keywordsEnabled: envConfig.filters.keywordsEnabled }),
-          ...(envConfig.filters.keywords && { keywords: envConfig.filters.keywords }),
-          ...(envConfig.filters.excludedDomains && { excludedDomains: envConfig.filters.excludedDomains }),
-        }
-      };
-    }
+    const storedConfig = await configManager.getConfig();
+    const config = applyEnvOverrides(storedConfig, envConfig);
     
     console.log('✓ Configuration loaded');
 
     // Initialize repositories
-    const activityLogRepository = new ActivityLogRepository(database);
-    const replyRepository = new ReplyRepository(database);
+    const activityLogRepository = new ActivityLogRepository(db);
+    const replyRepository = new ReplyRepository(db);
+    const ruleRepository = new RuleRepository(db);
+    const templateRepository = new TemplateRepository(db);
+    const assetRepository = new AssetRepository(db);
+    const accountRepository = new AccountRepository(db, keys);
     console.log('✓ Repositories initialized');
 
-    // Create components based on configuration
-    const { messageFilter, autoResponder, readTracker } = createComponents(
-      config,
-      activityLogRepository,
-      replyRepository
-    );
+    // Dashboard sign-in; the first start creates the admin user
+    const userRepository = new UserRepository(db);
+    const auth = new AuthService(userRepository, new SessionRepository(db));
+    const apiTokens = new ApiTokenService(new ApiTokenRepository(db), userRepository);
+    const initialPassword = await auth.ensureAdmin(envConfig.adminUsername, envConfig.adminPassword);
+    if (initialPassword && !envConfig.adminPassword) {
+      console.log(`✓ Created admin user "${envConfig.adminUsername}" with password: ${initialPassword}`);
+      console.log('  Sign in to the dashboard and change it');
+    } else if (initialPassword) {
+      console.log(`✓ Created admin user "${envConfig.adminUsername}"`);
+    }
 
-    // Subscribe to configuration changes for hot-reload
-    configManager.subscribe((newConfig: Config) => {
-      console.log('Configuration updated, applying changes...');
-      
-      // Update MessageFilter
-      messageFilter.updateKeywords(newConfig.filters.keywords);
-      messageFilter.updateExcludedDomains(newConfig.filters.excludedDomains);
-      messageFilter.setKeywordsEnabled(newConfig.filters.keywordsEnabled);
-      
-      console.log('✓ Configuration hot-reloaded');
+    // Remove sessions that ran out while stopped, then keep removing them while running
+    const purgeSessions = () => auth.purgeExpiredSessions().catch((err): number => {
+      console.error('Failed to remove expired sessions:', err);
+      return 0;
     });
+    console.log(`✓ Removed ${await purgeSessions()} expired sessions`);
+    sessionPurgeTimer = setInterval(purgeSessions, SESSION_PURGE_INTERVAL);
+    sessionPurgeTimer.unref();
+
+    // Builds the filter, responder and monitor of one account; cursors,
+    // ledger, throttle and logs are kept per account
+    const createAccountServices = async (accountId: string, accountConfig: Config): Promise<AccountServices> => {
+      const logActivity = (log: ActivityLog) => {
+        activityLogRepository.create({ ...log, accountId }).catch((err) => {
+          console.error('Failed to log activity:', err);
+        });
+      };
+
+      const ledger = new ProcessedMessageRepository(db, replyRepository, accountId);
+      const { messageFilter, autoResponder, readTracker, sessions } = createComponents(
+        accountConfig,
+        logActivity,
+        replyRepository,
+        assetRepository,
+        ledger
+      );
+
+      // Replies whose send was interrupted or failed wait for confirmation again
+      const requeued = await ledger.requeueUnsent();
+      for (const reply of requeued) {
+        logActivity({
+          id: randomUUID(),
+          timestamp: new Date(),
+          type: 'email_filtered',
+          emailId: reply.originalEmailId,
+          replyId: reply.id,
+          details: `Reply to ${reply.to} was not sent and is queued for confirmation again`,
+          metadata: { recipient: reply.to },
+        });
+      }
+
+      // Restore replies that were awaiting confirmation before the last shutdown
+      const pendingReplies = await replyRepository.getByStatus('pending', accountId);
+      autoResponder.restorePendingReplies(pendingReplies);
 
-    // Create EmailMonitor
-    if (config.email.username && config.email.password && config.email.imapHost) {
-      emailMonitor = new EmailMonitorImpl({
-        imapConfig: {
-          user: config.email.username,
-          password: config.email.password,
-          host: config.email.imapHost,
-          port: config.email.imapPort,
-          tls: true,
-        },
+      const templateSelector = new TemplateSelector();
+      const senderThrottle = new SenderThrottle(
+        new SenderThrottleRepository(db, accountId),
+        accountConfig.autoReply.senderCooldownHours ?? DEFAULT_SENDER_COOLDOWN_HOURS
+      );
+      const syncStateStore = new SyncStateRepository(db, accountId);
+
+      const createMonitor = (monitorConfig: Config): EmailMonitorImpl => new EmailMonitorImpl({
+        imapConfig: buildImapConfig(monitorConfig),
         messageFilter,
         autoResponder,
         readTracker,
-        checkInterval: config.autoReply.checkInterval * 1000, // Convert to milliseconds
-        onLog: (log) => {
-          // Log to database
-          activityLogRepository.create(log).catch((err) => {
-            console.error('Failed to log activity:', err);
-          });
-        },
+        senderThrottle,
+        templateSelector,
+        sessions,
+        mailboxes: monitorConfig.autoReply.mailboxes,
+        syncStateStore,
+        ledger,
+        leaveUnread: monitorConfig.autoReply.leaveUnread,
+        postActions: monitorConfig.autoReply.postActions,
+        checkInterval: monitorConfig.autoReply.checkInterval * 1000, // Convert to milliseconds
+        pushMode: monitorConfig.autoReply.pushMode,
+        onLog: logActivity,
       });
+
+      // Environment overrides only apply to the default account
+      const configReloader = new ConfigReloader({
+        initialConfig: accountConfig,
+        messageFilter,
+        autoResponder,
+        readTracker,
+        senderThrottle,
+        emailMonitor: hasImapCredentials(accountConfig) ? createMonitor(accountConfig) : null,
+        createMonitor,
+        ...(accountId === DEFAULT_ACCOUNT_ID && {
+          resolveConfig: (updatedConfig: Config) => applyEnvOverrides(updatedConfig, envConfig),
+        }),
+      });
+
+      return { autoResponder, messageFilter, templateSelector, imapSessions: sessions, configReloader };
+    };
+
+    const accounts = new AccountRegistry(createAccountServices);
+    accountRegistry = accounts;
+
+    const rules = await ruleRepository.getAll();
+    accounts.updateRules(rules);
+    console.log(`✓ Loaded ${rules.length} rules`);
+
+    const templates = await templateRepository.getAll();
+    accounts.updateTemplates(templates);
+    console.log(`✓ Loaded ${templates.length} reply templates`);
+
+    // Create the default account's components based on configuration
+    const defaultServices = await accounts.add(DEFAULT_ACCOUNT_ID, config);
+    const configReloader = defaultServices.configReloader;
+    if (configReloader.getEmailMonitor()) {
       console.log('✓ Email monitor initialized');
     } else {
       console.log('⚠ Email credentials not configured, monitor not started');
       console.log('  Configure credentials via the web dashboard');
     }
 
+    const storedAccounts = await accountRepository.getAll();
+    for (const account of storedAccounts) {
+      await accounts.add(account.id, account);
+    }
+    console.log(`✓ Loaded ${storedAccounts.length} further accounts`);
+
+    // Subscribe to configuration changes for hot-reload
+    configManager.subscribe((newConfig: Config) => {
+      console.log('Configuration updated, applying changes...');
+
+      configReloader.reload(newConfig).then((result) => {
+        console.log(`✓ Configuration hot-reloaded (changed: ${result.changes.join(', ') || 'nothing'}, monitor: ${result.monitor})`);
+      }).catch((err) => {
+        console.error('Failed to apply configuration changes:', err);
+      });
+    });
+
+    // Store refresh tokens the OAuth2 provider rotates; the replaced ones stop working
+    const defaultConfigStore = configManager;
+    const storeRefreshToken = async (previous: string, refreshToken: string): Promise<void> => {
+      await defaultConfigStore.replaceRefreshToken(previous, refreshToken);
+      for (const account of await accountRepository.replaceRefreshToken(previous, refreshToken)) {
+        await accounts.update(account.id, account);
+      }
+    };
+    onRefreshTokenRotated((previous, refreshToken) => {
+      storeRefreshToken(previous.refreshToken, refreshToken).catch((err) => {
+        console.error('Failed to store the rotated OAuth2 refresh token:', err);
+      });
+    });
+
     // Start API server
     const app = createServer(
       {
         configManager,
         activityLogRepository,
         replyRepository,
-        autoResponder,
-        emailMonitor: emailMonitor || undefined,
+        autoResponder: defaultServices.autoResponder,
+        configReloader,
+        ruleRepository,
+        onRulesChanged: (updatedRules) => accounts.updateRules(updatedRules),
+        templateRepository,
+        onTemplatesChanged: (updatedTemplates) => accounts.updateTemplates(updatedTemplates),
+        assetRepository,
+        imapSessions: defaultServices.imapSessions,
+        accounts,
+        accountRepository,
+        auth,
+        apiTokens,
       },
       {
         port: envConfig.port,
@@ -158,10 +269,11 @@ async function initialize(): Promise<void> {
     await startServer(app, envConfig.port);
     console.log('✓ API server started');
 
-    // Start EmailMonitor if configured
-    if (emailMonitor) {
-      await emailMonitor.start();
-      console.log('✓ Email monitoring started');
+    // Start the monitors of configured accounts (unless a reload already started them)
+    for (const accountId of accounts.getAccountIds()) {
+      if (await accounts.start(accountId)) {
+        console.log(`✓ Email monitoring started (${accountId})`);
+      }
     }
 
     console.log('\n✓ LazyMailBOSS is running!');
@@ -175,66 +287,49 @@ async function initialize(): Promise<void> {
 }
 
 /**
- * Create components based on configuration
+ * Create an account's components based on its configuration
  */
 function createComponents(
   config: Config,
-  activityLogRepository: ActivityLogRepository,
-  replyRepository: ReplyRepository
+  logActivity: (log: ActivityLog) => void,
+  replyRepository: ReplyRepository,
+  assetRepository: AssetRepository,
+  ledger: ProcessedMessageRepository
 ) {
-  // Create MessageFilter
+  // Create MessageFilter; rules are supplied by the account registry
   const messageFilter = new MessageFilter({
     keywordsEnabled: config.filters.keywordsEnabled,
     keywords: config.filters.keywords,
     excludedDomains: config.filters.excludedDomains,
   });
 
+  // One IMAP connection pool for checking and flagging mail
+  const sessions = new ImapSessionManager(buildImapConfig(config));
+
   // Create ReadTracker
-  const readTracker = new ReadTrackerImpl({
-    user: config.email.username,
-    password: config.email.password,
-    host: config.email.imapHost,
-    port: config.email.imapPort,
-    tls: true,
-  });
+  const readTracker = new ReadTrackerImpl(buildImapConfig(config), sessions);
 
   // Create AutoResponder
   const autoResponder = new AutoResponderImpl({
-    smtpConfig: {
-      host: config.email.smtpHost,
-      port: config.email.smtpPort,
-      secure: config.email.smtpPort === 465,
-      auth: {
-        user: config.email.username,
-        pass: config.email.password,
-      },
-    },
+    smtpConfig: buildSmtpConfig(config),
     replyTemplate: config.autoReply.replyTemplate,
+    replyHtmlTemplate: config.autoReply.replyHtmlTemplate || undefined,
     manualConfirmation: config.autoReply.manualConfirmation,
+    templateOptions: buildTemplateOptions(config),
     readTracker,
-    onLog: (log) => {
-      // Log to database
-      activityLogRepository.create(log).catch((err) => {
-        console.error('Failed to log activity:', err);
-      });
-    },
-    onReplySave: async (reply) => {
-      // Save or update reply in database
-      const existing = await replyRepository.getById(reply.id);
-      if (existing) {
-        await replyRepository.updateStatus(
-          reply.id,
-          reply.status,
-          reply.sentAt,
-          reply.approvedBy
-        );
-      } else {
-        await replyRepository.create(reply);
-      }
+    leaveUnread: config.autoReply.leaveUnread,
+    postActions: config.autoReply.postActions,
+    onLog: logActivity,
+    ledger, // Stores the replies together with their ledger entries
+    onReplyLoad: (replyId) => replyRepository.getById(replyId),
+    onAssetLoad: async (assetId) => {
+      const asset = await assetRepository.getById(assetId);
+      const content = asset && await assetRepository.getContent(assetId);
+      return asset && content ? { asset, content } : null;
     },
   });
 
-  return { messageFilter, autoResponder, readTracker };
+  return { messageFilter, autoResponder, readTracker, sessions };
 }
 
 /**
@@ -249,16 +344,15 @@ async function shutdown(): Promise<void> {
   console.log('\nShutting down gracefully...');
 
   try {
-    // Stop EmailMonitor (will complete current email processing)
-    if (emailMonitor) {
-      await emailMonitor.stop();
-      console.log('✓ Email monitor stopped');
+    if (sessionPurgeTimer) {
+      clearInterval(sessionPurgeTimer);
     }
 
-    // Close ConfigurationManager
-    if (configManager) {
-      await configManager.close();
-      console.log('✓ Configuration manager closed');
+    // Stop every account's monitor (will complete current email processing)
+    // and log out of its pooled IMAP connections
+    if (accountRegistry) {
+      await accountRegistry.close();
+      console.log('✓ Email monitors stopped and IMAP connections closed');
     }
 
     // Close database connection
@@ -9,6 +9,8 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
 import { Database } from './database/connection';
 import { ConfigurationManagerImpl } from './config/ConfigurationManager';
 import { MessageFilter } from './filter/MessageFilter';
@@ -18,6 +20,8 @@ import { ActivityLogRepository } from './database/ActivityLogRepository';
 import { ReplyRepository } from './database/ReplyRepository';
 import { Email } from './models/Email';
 import { Config } from './models/Config';
+import { createApiRouter } from './api/routes';
+import { KeyRing } from './secrets';
 
 // Mock IMAP connection for testing
 class MockImapConnection {
@@ -127,6 +131,18 @@ async function createTestDatabase(): Promise<Database> {
     });
   };
 
+  const transaction = async <T>(fn: () => Promise<T>): Promise<T> => {
+    await run('BEGIN IMMEDIATE');
+    try {
+      const result = await fn();
+      await run('COMMIT');
+      return result;
+    } catch (error) {
+      await run('ROLLBACK');
+      throw error;
+    }
+  };
+
   const close = (): Promise<void> => {
     return Promise.resolve();
   };
@@ -141,6 +157,7 @@ async function createTestDatabase(): Promise<Database> {
       reply_id TEXT,
       details TEXT NOT NULL,
       metadata TEXT,
+      account_id TEXT NOT NULL DEFAULT 'default',
       created_at TEXT DEFAULT CURRENT_TIMESTAMP
     )
   `);
@@ -156,19 +173,36 @@ async function createTestDatabase(): Promise<Database> {
       status TEXT NOT NULL,
       sent_at TEXT,
       approved_by TEXT,
+      in_reply_to TEXT,
+      reference_ids TEXT,
+      original_context TEXT,
+      html_body TEXT,
+      asset_ids TEXT,
+      assets TEXT,
+      account_id TEXT NOT NULL DEFAULT 'default',
       created_at TEXT DEFAULT CURRENT_TIMESTAMP
     )
   `);
 
   await run(`
     CREATE TABLE IF NOT EXISTS config (
-      key TEXT PRIMARY KEY,
-      value TEXT NOT NULL,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      data TEXT NOT NULL
+    )
+  `);
+
+  await run(`
+    CREATE TABLE IF NOT EXISTS config_history (
+      version INTEGER PRIMARY KEY,
+      data TEXT NOT NULL,
+      author TEXT,
+      changes TEXT NOT NULL,
+      rollback_of INTEGER,
+      created_at TEXT NOT NULL
     )
   `);
 
-  return { run, get, all, close };
+  return { run, get, all, transaction, close };
 }
 
 describe('Integration Tests - Complete Auto-Reply Workflow', () => {
@@ -522,8 +556,8 @@ describe('Integration Tests - Configuration Hot-Reload', () => {
 
     // Create ConfigurationManager
     configManager = new ConfigurationManagerImpl(
-      ':memory:',
-      'test-encryption-key-32-bytes-long!'
+      configDb,
+      new KeyRing(['test-encryption-key-32-bytes-long!'], Buffer.alloc(16, 1))
     );
 
     // Initialize with default config
@@ -564,7 +598,6 @@ describe('Integration Tests - Configuration Hot-Reload', () => {
     if (configDb) {
       await configDb.close();
     }
-    await configManager.close();
   });
 
   it('should hot-reload keywords and apply to message filter immediately', async () => {
@@ -777,10 +810,162 @@ describe('Integration Tests - System Restart and Recovery', () => {
     expect(pendingReplies[0].status).toBe('pending');
   });
 
+  /**
+   * Builds an AutoResponder wired to the reply repository the same way the
+   * application does, so each call simulates a fresh process after a restart
+   */
+  function createPersistentResponder(replyRepo: ReplyRepository, mockSmtp: MockSmtpTransport) {
+    const readTracker = new ReadTrackerImpl({
+      user: 'test@example.com',
+      password: 'password',
+      host: 'imap.example.com',
+      port: 993,
+      tls: true
+    });
+    (readTracker as any).markAsRead = async (emailId: string) => {
+      await mockImap.markAsRead(emailId);
+    };
+
+    const autoResponder = new AutoResponderImpl({
+      smtpConfig: {
+        host: 'smtp.example.com',
+        port: 587,
+        secure: false,
+        auth: {
+          user: 'test@example.com',
+          pass: 'password'
+        }
+      },
+      replyTemplate: 'Thank you for your email.',
+      manualConfirmation: true,
+      readTracker,
+      onReplySave: async (reply) => {
+        const existing = await replyRepo.getById(reply.id);
+        if (existing) {
+          await replyRepo.updateStatus(reply.id, reply.status, reply.sentAt, reply.approvedBy);
+        } else {
+          await replyRepo.create(reply);
+        }
+      },
+      onReplyLoad: (replyId) => replyRepo.getById(replyId)
+    });
+    (autoResponder as any).transporter = mockSmtp;
+
+    return autoResponder;
+  }
+
+  async function queuePendingReply(replyRepo: ReplyRepository, mockSmtp: MockSmtpTransport, emailId: string) {
+    const firstRun = createPersistentResponder(replyRepo, mockSmtp);
+    const reply = firstRun.generateReply({
+      id: emailId,
+      from: 'sender@example.com',
+      to: 'test@example.com',
+      subject: 'Question about my order',
+      body: 'Where is it?',
+      receivedAt: new Date('2026-03-01T09:00:00Z'),
+      isRead: false,
+      messageId: '<order-question@example.com>'
+    });
+    firstRun.queueForConfirmation(reply);
+
+    // Wait for the reply to reach the database
+    await vi.waitFor(async () => {
+      expect(await replyRepo.getById(reply.id)).not.toBeNull();
+    });
+
+    return reply;
+  }
+
+  it('should approve and send a pending reply after restart', async () => {
+    const replyRepo = new ReplyRepository(testDb);
+    const mockSmtp = new MockSmtpTransport();
+    const reply = await queuePendingReply(replyRepo, mockSmtp, 'email-restart-approve');
+
+    // Simulate restart: a new responder with an empty in-memory queue
+    const afterRestart = createPersistentResponder(new ReplyRepository(testDb), mockSmtp);
+    expect(afterRestart.getPendingReplies()).toHaveLength(0);
+
+    await afterRestart.processConfirmation(reply.id, true);
+
+    expect(mockSmtp.sentEmails).toHaveLength(1);
+    expect(mockSmtp.sentEmails[0].to).toBe('sender@example.com');
+    expect(mockSmtp.sentEmails[0].subject).toBe('Re: Question about my order');
+
+    const stored = await replyRepo.getById(reply.id);
+    expect(stored?.status).toBe('sent');
+    expect(stored?.inReplyTo).toBe('<order-question@example.com>');
+    expect(stored?.originalEmail).toEqual({
+      from: 'sender@example.com',
+      subject: 'Question about my order',
+      receivedAt: new Date('2026-03-01T09:00:00Z'),
+      messageId: '<order-question@example.com>'
+    });
+    expect(await mockImap.isRead('email-restart-approve')).toBe(true);
+  });
+
+  it('should reject a pending reply restored after restart', async () => {
+    const replyRepo = new ReplyRepository(testDb);
+    const mockSmtp = new MockSmtpTransport();
+    const reply = await queuePendingReply(replyRepo, mockSmtp, 'email-restart-reject');
+
+    // Simulate restart and rebuild the queue from the database
+    const afterRestart = createPersistentResponder(replyRepo, mockSmtp);
+    afterRestart.restorePendingReplies(await replyRepo.getByStatus('pending'));
+    expect(afterRestart.getPendingReplies().map(r => r.id)).toEqual([reply.id]);
+
+    await afterRestart.processConfirmation(reply.id, false);
+
+    expect(mockSmtp.sentEmails).toHaveLength(0);
+    expect((await replyRepo.getById(reply.id))?.status).toBe('rejected');
+    expect(await replyRepo.getByStatus('pending')).toHaveLength(0);
+    expect(afterRestart.getPendingReplies()).toHaveLength(0);
+    expect(await mockImap.isRead('email-restart-reject')).toBe(true);
+  });
+
+  it('should approve a pending reply through the API after restart', async () => {
+    const replyRepo = new ReplyRepository(testDb);
+    const mockSmtp = new MockSmtpTransport();
+    const reply = await queuePendingReply(replyRepo, mockSmtp, 'email-restart-api');
+
+    // Simulate restart: the API is served by a brand new responder
+    const afterRestart = createPersistentResponder(replyRepo, mockSmtp);
+    const app = express();
+    app.use(express.json());
+    app.use('/api', createApiRouter({
+      configManager: {} as any,
+      activityLogRepository: new ActivityLogRepository(testDb),
+      replyRepository: replyRepo,
+      autoResponder: afterRestart
+    }));
+
+    const response = await request(app).post(`/api/replies/${reply.id}/approve`);
+
+    expect(response.status).toBe(200);
+    expect(mockSmtp.sentEmails).toHaveLength(1);
+    expect((await replyRepo.getById(reply.id))?.status).toBe('sent');
+
+    // A second approval must not send the reply again
+    const repeat = await request(app).post(`/api/replies/${reply.id}/approve`);
+    expect(repeat.status).toBe(400);
+    expect(mockSmtp.sentEmails).toHaveLength(1);
+  });
+
+  it('should not approve replies that are no longer pending in storage', async () => {
+    const replyRepo = new ReplyRepository(testDb);
+    const mockSmtp = new MockSmtpTransport();
+    const reply = await queuePendingReply(replyRepo, mockSmtp, 'email-restart-stale');
+    await replyRepo.updateStatus(reply.id, 'rejected');
+
+    const afterRestart = createPersistentResponder(replyRepo, mockSmtp);
+
+    await expect(afterRestart.processConfirmation(reply.id, true)).rejects.toThrow('not found in pending queue');
+    expect(mockSmtp.sentEmails).toHaveLength(0);
+  });
+
   it('should recover configuration after restart', async () => {
     const configManager = new ConfigurationManagerImpl(
-      ':memory:',
-      'test-encryption-key-32-bytes-long!'
+      testDb,
+      new KeyRing(['test-encryption-key-32-bytes-long!'], Buffer.alloc(16, 1))
     );
 
     // Set configuration
@@ -798,7 +983,5 @@ describe('Integration Tests - System Restart and Recovery', () => {
     expect(config.filters.keywords).toContain('urgent');
     expect(config.filters.keywords).toContain('important');
     expect(config.filters.excludedDomains).toContain('spam.com');
-
-    await configManager.close();
   });
 });
@@ -0,0 +1,22 @@
+import { Config } from './Config';
+
+// The account configured through the configuration manager and /api/config
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+/**
+ * A further mailbox identity with its own credentials, filters and reply
+ * settings, stored in the accounts table
+ */
+export interface Account extends Config {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Rules and templates without an accountId apply to every account
+ */
+export function appliesToAccount(item: { accountId?: string }, accountId: string): boolean {
+  return !item.accountId || item.accountId === accountId;
+}
@@ -1,11 +1,12 @@
-export type ActivityLogType = 'reply_sent' | 'reply_failed' | 'email_filtered' | 'error';
+export type ActivityLogType = 'reply_sent' | 'reply_failed' | 'email_filtered' | 'email_throttled' | 'error' | 'api_request';
 
 export interface ActivityLog {
   id: string;
   timestamp: Date;
   type: ActivityLogType;
-  emailId: string;
+  emailId: string; // Empty for api_request entries
   replyId?: string;
+  accountId?: string; // The default account when omitted
   details: string;
   metadata?: Record<string, any>;
 }
@@ -0,0 +1,64 @@
+import { UserRole } from './User';
+
+/**
+ * What an API token may do. Each scope covers a group of routes and needs
+ * the role that opens the same routes to a signed-in user.
+ */
+export type TokenScope =
+  | 'status:read'
+  | 'monitor:control'
+  | 'config:read'
+  | 'config:write'
+  | 'logs:read'
+  | 'replies:read'
+  | 'replies:approve'
+  | 'accounts:read'
+  | 'accounts:write'
+  | 'rules:read'
+  | 'rules:write'
+  | 'templates:read'
+  | 'templates:write'
+  | 'assets:read'
+  | 'assets:write';
+
+export const SCOPE_ROLES: Record<TokenScope, UserRole> = {
+  'status:read': 'viewer',
+  'monitor:control': 'admin',
+  'config:read': 'viewer',
+  'config:write': 'admin',
+  'logs:read': 'viewer',
+  'replies:read': 'viewer',
+  'replies:approve': 'approver',
+  'accounts:read': 'viewer',
+  'accounts:write': 'admin',
+  'rules:read': 'viewer',
+  'rules:write': 'admin',
+  'templates:read': 'viewer',
+  'templates:write': 'admin',
+  'assets:read': 'viewer',
+  'assets:write': 'admin',
+};
+
+export const TOKEN_SCOPES = Object.keys(SCOPE_ROLES) as TokenScope[];
+
+/**
+ * A personal token acts for the user who created it and can do no more
+ * than their role allows; a service token belongs to no one and is
+ * limited by its scopes alone.
+ */
+export type ApiTokenKind = 'personal' | 'service';
+
+export const API_TOKEN_KINDS: ApiTokenKind[] = ['personal', 'service'];
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  kind: ApiTokenKind;
+  userId?: string; // The owner of a personal token
+  scopes: TokenScope[];
+  tokenHash: string; // SHA-256 of the token, which is only shown once
+  createdBy: string; // Username of whoever created the token
+  createdAt: Date;
+  expiresAt?: Date; // Never expires when unset
+  lastUsedAt?: Date;
+}
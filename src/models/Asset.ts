@@ -0,0 +1,37 @@
+/**
+ * A stored file that replies can carry. Templates attach assets through
+ * their assetIds; an HTML body embeds an image asset inline by referencing
+ * it as <img src="cid:ASSET_ID">.
+ */
+export interface Asset {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number; // In bytes
+  createdAt: Date;
+}
+
+/**
+ * An asset sent with a reply, recorded with the reply for auditing
+ */
+export interface ReplyAsset {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  inline: boolean; // Embedded in the HTML body by cid rather than attached as a file
+}
+
+export const MAX_ASSET_SIZE = 5 * 1024 * 1024;
+
+/**
+ * MIME types accepted for uploads
+ */
+export const ALLOWED_ASSET_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'text/plain',
+  'text/csv',
+] as const;
@@ -1,10 +1,39 @@
+import { PostActionConfig } from './PostAction';
+
+export type EmailAuthMethod = 'password' | 'xoauth2';
+
+/**
+ * Client registration and refresh token used to obtain XOAUTH2 access tokens
+ * from the provider, e.g. https://oauth2.googleapis.com/token for Gmail
+ */
+export interface OAuth2Config {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  tokenUrl: string;
+}
+
 export interface EmailConfig {
   imapHost: string;
   imapPort: number;
   smtpHost: string;
   smtpPort: number;
   username: string;
-  password: string;
+  password: string; // Unused with xoauth2
+  authMethod?: EmailAuthMethod; // Defaults to password
+  oauth2?: OAuth2Config; // Required with xoauth2
+}
+
+/**
+ * Merges email settings, keeping stored OAuth2 fields that the update leaves
+ * out so secrets do not have to be sent again
+ */
+export function mergeEmailConfig(current: EmailConfig, updates?: Partial<EmailConfig>): EmailConfig {
+  const merged = { ...current, ...updates };
+  if (updates?.oauth2) {
+    merged.oauth2 = { ...current.oauth2, ...updates.oauth2 } as OAuth2Config;
+  }
+  return merged;
 }
 
 export interface FilterConfig {
@@ -13,10 +42,39 @@ export interface FilterConfig {
   excludedDomains: string[];
 }
 
+/**
+ * Working hours used to promise a reply date, e.g. 09:00-17:00 on mon-fri
+ */
+export interface BusinessHours {
+  start: string; // "HH:MM"
+  end: string; // "HH:MM", after start
+  days: string[]; // Weekday names such as "mon"
+}
+
+/**
+ * A folder the monitor watches. ruleIds limits the rules applied to its mail
+ * (all rules when omitted); templateId picks the reply template when the
+ * matched rule does not name one.
+ */
+export interface MailboxConfig {
+  name: string;
+  ruleIds?: string[];
+  templateId?: string;
+}
+
 export interface AutoReplyConfig {
   manualConfirmation: boolean;
   replyTemplate: string;
+  replyHtmlTemplate?: string; // Optional HTML variant of replyTemplate
   checkInterval: number;
+  mailboxes?: MailboxConfig[]; // Folders to watch, only INBOX when omitted or empty
+  pushMode?: boolean; // Wait for new mail with IMAP IDLE instead of polling every checkInterval
+  leaveUnread?: boolean; // Leave handled mail unread; new mail is tracked by UID either way
+  postActions?: PostActionConfig; // Move, copy, flag or label handled mail by outcome
+  senderCooldownHours?: number; // Minimum hours between auto-replies to the same sender, 0 disables
+  timeZone?: string; // IANA time zone for dates in replies, server time if omitted or empty
+  businessHours?: BusinessHours; // Counts replyWithinHours in working hours only
+  replyWithinHours?: number; // Promised response time used for {replyBy}
 }
 
 export interface Config {
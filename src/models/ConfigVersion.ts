@@ -0,0 +1,72 @@
+import { Config } from './Config';
+
+// Settings whose values never appear in the history, only that they changed
+export const SECRET_CONFIG_FIELDS = ['email.password', 'email.oauth2.clientSecret', 'email.oauth2.refreshToken'];
+
+const REDACTED = '********';
+
+/**
+ * One changed setting, addressed by its dotted path such as
+ * "filters.keywords". Lists are compared and recorded as a whole.
+ */
+export interface ConfigChange {
+  field: string;
+  from?: unknown; // Unset when the setting was added
+  to?: unknown; // Unset when the setting was removed
+}
+
+/**
+ * A saved state of the default account's configuration. The changes are
+ * relative to the version before it, with secrets redacted.
+ */
+export interface ConfigVersion {
+  version: number;
+  author: string | null; // Unknown when sign-in is disabled, and for the first version
+  createdAt: Date;
+  changes: ConfigChange[];
+  rollbackOf?: number; // The version whose settings this one restored
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function redact(field: string, value: unknown): unknown {
+  if (SECRET_CONFIG_FIELDS.includes(field)) {
+    return value ? REDACTED : value;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [key, redact(`${field}.${key}`, nested)])
+    );
+  }
+  return value;
+}
+
+/**
+ * The settings that differ between two configurations, secrets redacted
+ */
+export function diffConfig(before: Config, after: Config): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+
+  const compare = (field: string, from: unknown, to: unknown): void => {
+    if (isPlainObject(from) && isPlainObject(to)) {
+      for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        compare(field ? `${field}.${key}` : key, from[key], to[key]);
+      }
+      return;
+    }
+    if (JSON.stringify(from) === JSON.stringify(to)) {
+      return;
+    }
+
+    changes.push({
+      field,
+      ...(from !== undefined && { from: redact(field, from) }),
+      ...(to !== undefined && { to: redact(field, to) }),
+    });
+  };
+
+  compare('', before, after);
+  return changes;
+}
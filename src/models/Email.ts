@@ -1,9 +1,28 @@
+export interface EmailAttachment {
+  filename?: string;
+  contentType: string;
+  size: number;
+  contentId?: string;
+  inline: boolean;
+}
+
 export interface Email {
-  id: string;
+  id: string; // UID, unique within the mailbox
+  mailbox?: string; // Folder the email was fetched from
   from: string;
+  fromName?: string; // Display name of the sender, when the From header has one
   to: string;
   subject: string;
   body: string;
   receivedAt: Date;
   isRead: boolean;
+  textBody?: string;
+  htmlBody?: string;
+  headers?: Record<string, string>;
+  cc?: string[];
+  replyTo?: string;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: EmailAttachment[];
 }
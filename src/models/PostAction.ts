@@ -0,0 +1,28 @@
+import { ProcessingDecision } from './ProcessedMessage';
+
+/**
+ * Something done to the original message once it has been handled:
+ * - move / copy: to another folder; a move always runs last
+ * - flag: add system flags such as \Flagged
+ * - keyword: add IMAP keywords such as $AutoReplied
+ * - label: add Gmail labels (servers with X-GM-EXT-1 only)
+ */
+export type PostAction =
+  | { type: 'move'; mailbox: string }
+  | { type: 'copy'; mailbox: string }
+  | { type: 'flag'; flags: string[] }
+  | { type: 'keyword'; keywords: string[] }
+  | { type: 'label'; labels: string[] };
+
+export type PostActionType = PostAction['type'];
+
+/**
+ * What happened to a message
+ */
+export type PostActionOutcome = Exclude<ProcessingDecision, 'sending'>;
+
+/**
+ * Post-actions by outcome. A rule with its own postActions replaces these
+ * for the mail it matches.
+ */
+export type PostActionConfig = Partial<Record<PostActionOutcome, PostAction[]>>;
@@ -0,0 +1,29 @@
+/**
+ * What was done with a message. 'sending' is written before a reply goes
+ * out, so a message left in that state was interrupted mid-send and is not
+ * answered again; 'rejected' is reached when a queued reply is turned down.
+ */
+export type ProcessingDecision =
+  | 'sending'
+  | 'replied'
+  | 'send_failed'
+  | 'queued'
+  | 'rejected'
+  | 'filtered'
+  | 'left_unread'
+  | 'throttled';
+
+/**
+ * A message the monitor has already handled, keyed by its mailbox UID and
+ * also found by Message-ID when the server renumbers the mailbox
+ */
+export interface ProcessedMessage {
+  mailbox: string;
+  uid: string;
+  uidValidity: number; // 0 when the mailbox status was not known
+  messageId?: string;
+  decision: ProcessingDecision;
+  replyId?: string;
+  reason?: string;
+  processedAt: Date;
+}
@@ -1,13 +1,34 @@
+import { ReplyAsset } from './Asset';
+
 export type ReplyStatus = 'pending' | 'approved' | 'rejected' | 'sent' | 'failed';
 
+/**
+ * Snapshot of the email being answered, stored with the reply so a queued
+ * reply can still be reviewed and sent after a restart
+ */
+export interface ReplyContext {
+  from: string;
+  subject: string;
+  receivedAt: Date;
+  messageId?: string;
+  mailbox?: string;
+}
+
 export interface Reply {
   id: string;
   originalEmailId: string;
   to: string;
   subject: string;
-  body: string;
+  body: string; // Plain-text body
+  htmlBody?: string; // HTML alternative, sent together with the text as multipart/alternative
+  assetIds?: string[]; // Assets to send with the reply
+  assets?: ReplyAsset[]; // Assets actually sent, recorded once the reply goes out
   generatedAt: Date;
   status: ReplyStatus;
   sentAt?: Date;
   approvedBy?: string;
+  inReplyTo?: string;
+  references?: string[];
+  originalEmail?: ReplyContext;
+  accountId?: string; // The account that received the email, the default account when omitted
 }
@@ -0,0 +1,60 @@
+import { PostAction } from './PostAction';
+
+/**
+ * Email fields a rule condition can inspect. 'header' needs a header name,
+ * 'receivedAt' is matched with the time operators.
+ */
+export type RuleField = 'from' | 'to' | 'cc' | 'subject' | 'body' | 'header' | 'receivedAt';
+
+export type RuleTextOperator = 'contains' | 'equals' | 'regex' | 'glob' | 'domain_in';
+
+/**
+ * before/after compare against an ISO date, time_between takes "HH:MM-HH:MM"
+ * (may wrap past midnight) and day_in takes weekday names such as "sat"
+ */
+export type RuleTimeOperator = 'before' | 'after' | 'time_between' | 'day_in';
+
+export type RuleOperator = RuleTextOperator | RuleTimeOperator;
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string | string[];
+  header?: string;
+  caseSensitive?: boolean;
+  timeZone?: string;
+}
+
+export type RuleExpression =
+  | RuleCondition
+  | { all: RuleExpression[] }
+  | { any: RuleExpression[] }
+  | { not: RuleExpression };
+
+/**
+ * - reply: reply (optionally with a custom or stored template) following the confirmation setting
+ * - queue: reply, but always hold it for manual approval
+ * - skip: do not reply; handled like any other filtered email
+ * - mark_read: do not reply, only mark the email as read
+ * - leave_unread: do not reply and leave the email unread in the mailbox
+ */
+export type RuleActionType = 'reply' | 'queue' | 'skip' | 'mark_read' | 'leave_unread';
+
+export interface RuleAction {
+  type: RuleActionType;
+  template?: string;
+  templateId?: string;
+  postActions?: PostAction[]; // Replace the configured post-actions for matched mail
+}
+
+export interface Rule {
+  id: string;
+  name: string;
+  position: number;
+  enabled: boolean;
+  condition: RuleExpression;
+  action: RuleAction;
+  accountId?: string; // Applies to every account when omitted
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,12 @@
+/**
+ * How far the monitor has read a mailbox. UIDs only stay meaningful while
+ * the mailbox keeps the same UIDVALIDITY; a new UIDVALIDITY means the
+ * server renumbered the mailbox and the cursor has to be rebuilt.
+ */
+export interface SyncState {
+  mailbox: string;
+  uidValidity: number;
+  lastUid: number; // Highest UID already handled
+  lastReceivedAt?: Date; // Arrival time of the newest handled message, bounds a resync
+  updatedAt: Date;
+}
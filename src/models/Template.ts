@@ -0,0 +1,22 @@
+/**
+ * A named reply template. A rule can pick one through its action's
+ * templateId, otherwise the first template listing one of the matched
+ * keywords is used, falling back to the default template.
+ *
+ * body is the plain-text variant; when it is empty the text is derived
+ * from htmlBody. assetIds lists stored assets sent with every reply that
+ * uses the template. A template with an accountId is only used for that
+ * account's mail.
+ */
+export interface Template {
+  id: string;
+  name: string;
+  body: string;
+  htmlBody?: string;
+  assetIds?: string[];
+  keywords: string[];
+  isDefault: boolean;
+  accountId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,35 @@
+/**
+ * Dashboard roles, each including the rights of the ones before it:
+ * viewers read status, configuration and logs, approvers also approve and
+ * reject queued replies, and admins change settings and manage users
+ */
+export type UserRole = 'viewer' | 'approver' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'approver', 'admin'];
+
+export interface User {
+  id: string;
+  username: string;
+  passwordHash: string; // scrypt hash with its salt, never the password
+  role: UserRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A signed-in dashboard session. The id is a hash of the token handed to
+ * the browser, so a copy of the database cannot be used to sign in.
+ */
+export interface Session {
+  id: string;
+  userId: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Checks if a role includes the rights of the required role
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
@@ -3,4 +3,14 @@ export * from './Email';
 export * from './Reply';
 export * from './ActivityLog';
 export * from './Config';
+export * from './Rule';
+export * from './Template';
+export * from './Asset';
+export * from './SyncState';
+export * from './ProcessedMessage';
+export * from './PostAction';
+export * from './Account';
+export * from './User';
+export * from './ApiToken';
+export * from './ConfigVersion';
 export * from './validation';
@@ -2,6 +2,29 @@ import { Email } from './Email';
 import { Reply } from './Reply';
 import { ActivityLog } from './ActivityLog';
 import { Config, EmailConfig, FilterConfig, AutoReplyConfig } from './Config';
+import { RuleAction } from './Rule';
+import { Template } from './Template';
+import { ALLOWED_ASSET_TYPES, MAX_ASSET_SIZE } from './Asset';
+import { USER_ROLES } from './User';
+import { TOKEN_SCOPES, API_TOKEN_KINDS } from './ApiToken';
+
+const RULE_FIELDS = ['from', 'to', 'cc', 'subject', 'body', 'header', 'receivedAt'];
+const RULE_TEXT_OPERATORS = ['contains', 'equals', 'regex', 'glob', 'domain_in'];
+const RULE_TIME_OPERATORS = ['before', 'after', 'time_between', 'day_in'];
+const RULE_ACTION_TYPES = ['reply', 'queue', 'skip', 'mark_read', 'leave_unread'];
+const POST_ACTION_OUTCOMES = ['replied', 'send_failed', 'queued', 'filtered', 'left_unread', 'throttled', 'rejected'];
+// The list each post-action type carries, or 'mailbox' for a target folder
+const POST_ACTION_FIELDS: Record<string, string> = {
+  move: 'mailbox',
+  copy: 'mailbox',
+  flag: 'flags',
+  keyword: 'keywords',
+  label: 'labels',
+};
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const EMAIL_AUTH_METHODS = ['password', 'xoauth2'];
+const OAUTH2_FIELDS = ['clientId', 'clientSecret', 'refreshToken', 'tokenUrl'];
+const MIN_PASSWORD_LENGTH = 8;
 
 /**
  * Email address validation using RFC 5322 simplified pattern
@@ -37,11 +60,106 @@ export function isValidEmailConfig(config: any): config is EmailConfig {
     isValidPort(config.smtpPort) &&
     typeof config.username === 'string' &&
     config.username.length > 0 &&
-    typeof config.password === 'string' &&
-    config.password.length > 0
+    (config.authMethod === 'xoauth2'
+      ? validateOAuth2Config(config.oauth2) === null
+      : typeof config.password === 'string' && config.password.length > 0)
   );
 }
 
+/**
+ * Validates the OAuth2 client settings, returning a description of the first problem or null
+ */
+export function validateOAuth2Config(oauth2: any, partial = false): string | null {
+  if (oauth2 === null || typeof oauth2 !== 'object' || Array.isArray(oauth2)) {
+    return 'oauth2 must be an object';
+  }
+
+  for (const field of OAUTH2_FIELDS) {
+    if (oauth2[field] === undefined && partial) {
+      continue;
+    }
+    if (typeof oauth2[field] !== 'string' || oauth2[field].trim().length === 0) {
+      return `oauth2 ${field} must be a non-empty string`;
+    }
+  }
+
+  if (oauth2.tokenUrl !== undefined && !/^https?:\/\//i.test(oauth2.tokenUrl)) {
+    return 'oauth2 tokenUrl must be an http or https URL';
+  }
+
+  return null;
+}
+
+/**
+ * Validates a dashboard user, returning a description of the first problem
+ * or null. With partial, fields left out of an update are not required; the
+ * username cannot be changed once created.
+ */
+export function validateUser(user: any, partial = false): string | null {
+  if (!partial && (typeof user.username !== 'string' || !/^[A-Za-z0-9._@-]{1,64}$/.test(user.username))) {
+    return 'username must be 1-64 letters, digits or . _ @ -';
+  }
+  if ((user.password !== undefined || !partial) &&
+      (typeof user.password !== 'string' || user.password.length < MIN_PASSWORD_LENGTH)) {
+    return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  if ((user.role !== undefined || !partial) && !USER_ROLES.includes(user.role)) {
+    return `role must be one of ${USER_ROLES.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Validates a new API token, returning a description of the first problem
+ * or null. The expiry is optional but must lie in the future.
+ */
+export function validateApiToken(token: any): string | null {
+  if (typeof token.name !== 'string' || token.name.trim().length === 0 || token.name.length > 64) {
+    return 'name must be 1-64 characters';
+  }
+  if (token.kind !== undefined && !API_TOKEN_KINDS.includes(token.kind)) {
+    return `kind must be one of ${API_TOKEN_KINDS.join(', ')}`;
+  }
+  if (!Array.isArray(token.scopes) || token.scopes.length === 0) {
+    return 'scopes must be a non-empty list';
+  }
+  const unknown = token.scopes.find((scope: any) => !TOKEN_SCOPES.includes(scope));
+  if (unknown !== undefined) {
+    return `scope ${JSON.stringify(unknown)}: must be one of ${TOKEN_SCOPES.join(', ')}`;
+  }
+  if (token.expiresAt !== undefined && token.expiresAt !== null) {
+    const expiresAt = typeof token.expiresAt === 'string' ? new Date(token.expiresAt) : null;
+    if (!expiresAt || isNaN(expiresAt.getTime())) {
+      return 'expiresAt must be an ISO date';
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      return 'expiresAt must be in the future';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates the sign-in method of email settings, returning a description of
+ * the first problem or null. With partial, OAuth2 fields left out of an
+ * update are taken to be stored already.
+ */
+export function validateEmailAuth(email: any, partial = false): string | null {
+  if (email.authMethod !== undefined && !EMAIL_AUTH_METHODS.includes(email.authMethod)) {
+    return `authMethod must be one of ${EMAIL_AUTH_METHODS.join(', ')}`;
+  }
+  if (email.oauth2 !== undefined) {
+    return validateOAuth2Config(email.oauth2, partial);
+  }
+  if (email.authMethod === 'xoauth2' && !partial) {
+    return 'oauth2 is required with xoauth2';
+  }
+
+  return null;
+}
+
 /**
  * Validates FilterConfig object
  */
@@ -68,10 +186,136 @@ export function isValidAutoReplyConfig(config: any): config is AutoReplyConfig {
     typeof config.replyTemplate === 'string' &&
     config.replyTemplate.length > 0 &&
     typeof config.checkInterval === 'number' &&
-    config.checkInterval > 0
+    config.checkInterval > 0 &&
+    (config.replyHtmlTemplate === undefined || typeof config.replyHtmlTemplate === 'string') &&
+    (config.mailboxes === undefined || validateMailboxes(config.mailboxes) === null) &&
+    (config.pushMode === undefined || typeof config.pushMode === 'boolean') &&
+    (config.leaveUnread === undefined || typeof config.leaveUnread === 'boolean') &&
+    (config.postActions === undefined || validatePostActionConfig(config.postActions) === null) &&
+    (config.senderCooldownHours === undefined ||
+     (typeof config.senderCooldownHours === 'number' && config.senderCooldownHours >= 0)) &&
+    (!config.timeZone || isValidTimeZone(config.timeZone)) &&
+    (config.businessHours === undefined || validateBusinessHours(config.businessHours) === null) &&
+    (config.replyWithinHours === undefined ||
+     (typeof config.replyWithinHours === 'number' && config.replyWithinHours >= 0))
   );
 }
 
+/**
+ * Checks that a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: any): timeZone is string {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates business hours, returning a description of the first problem or null
+ */
+export function validateBusinessHours(hours: any): string | null {
+  if (hours === null || typeof hours !== 'object' || Array.isArray(hours)) {
+    return 'businessHours must be an object';
+  }
+
+  const time = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (typeof hours.start !== 'string' || !time.test(hours.start) ||
+      typeof hours.end !== 'string' || !time.test(hours.end)) {
+    return 'businessHours start and end must be times like "09:00"';
+  }
+  if (hours.start >= hours.end) {
+    return 'businessHours end must be after start';
+  }
+  if (!Array.isArray(hours.days) || hours.days.length === 0 ||
+      !hours.days.every((d: any) => typeof d === 'string' && WEEKDAYS.includes(d.toLowerCase().slice(0, 3)))) {
+    return 'businessHours days must list weekday names (e.g. "mon", "fri")';
+  }
+
+  return null;
+}
+
+/**
+ * Validates the watched folders, returning a description of the first problem or null
+ */
+export function validateMailboxes(mailboxes: any): string | null {
+  if (!Array.isArray(mailboxes)) {
+    return 'mailboxes must be an array';
+  }
+
+  const names = new Set<string>();
+  for (const mailbox of mailboxes) {
+    if (mailbox === null || typeof mailbox !== 'object' || typeof mailbox.name !== 'string' || mailbox.name.trim().length === 0) {
+      return 'mailboxes must each have a non-empty name';
+    }
+    if (names.has(mailbox.name)) {
+      return `mailboxes lists "${mailbox.name}" more than once`;
+    }
+    names.add(mailbox.name);
+    if (mailbox.ruleIds !== undefined &&
+        (!Array.isArray(mailbox.ruleIds) || !mailbox.ruleIds.every((id: any) => typeof id === 'string'))) {
+      return `mailboxes ruleIds of "${mailbox.name}" must be an array of strings`;
+    }
+    if (mailbox.templateId !== undefined && typeof mailbox.templateId !== 'string') {
+      return `mailboxes templateId of "${mailbox.name}" must be a string`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates an uploaded asset, returning a description of the first problem
+ * or null. The content must look like the declared type, so a renamed
+ * executable cannot be sent as a PDF.
+ */
+export function validateAsset(filename: any, contentType: any, content: Buffer): string | null {
+  if (typeof filename !== 'string' || filename.trim().length === 0 || /[\\/\u0000-\u001F]/.test(filename)) {
+    return 'filename must be a plain file name';
+  }
+  if (typeof contentType !== 'string' || !(ALLOWED_ASSET_TYPES as readonly string[]).includes(contentType)) {
+    return `content type must be one of ${ALLOWED_ASSET_TYPES.join(', ')}`;
+  }
+  if (content.length === 0) {
+    return 'file is empty';
+  }
+  if (content.length > MAX_ASSET_SIZE) {
+    return `file exceeds ${MAX_ASSET_SIZE} bytes`;
+  }
+  if (!matchesContentType(content, contentType)) {
+    return `content does not match ${contentType}`;
+  }
+
+  return null;
+}
+
+function matchesContentType(content: Buffer, contentType: string): boolean {
+  const startsWith = (...bytes: number[]) => bytes.every((byte, i) => content[i] === byte);
+
+  switch (contentType) {
+    case 'application/pdf':
+      return content.subarray(0, 5).toString('latin1') === '%PDF-';
+    case 'image/png':
+      return startsWith(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+    case 'image/jpeg':
+      return startsWith(0xff, 0xd8, 0xff);
+    case 'image/gif':
+      return content.subarray(0, 4).toString('latin1') === 'GIF8';
+    default:
+      // Text types: anything without NUL bytes
+      return !content.includes(0);
+  }
+}
+
+function isStringArray(value: any): value is string[] {
+  return Array.isArray(value) && value.every((item: any) => typeof item === 'string');
+}
+
 /**
  * Validates complete Config object
  */
@@ -125,7 +369,193 @@ export function isReply(obj: any): obj is Reply {
     obj.generatedAt instanceof Date &&
     validStatuses.includes(obj.status) &&
     (obj.sentAt === undefined || obj.sentAt instanceof Date) &&
-    (obj.approvedBy === undefined || typeof obj.approvedBy === 'string')
+    (obj.approvedBy === undefined || typeof obj.approvedBy === 'string') &&
+    (obj.inReplyTo === undefined || typeof obj.inReplyTo === 'string') &&
+    (obj.htmlBody === undefined || typeof obj.htmlBody === 'string') &&
+    (obj.assetIds === undefined || isStringArray(obj.assetIds)) &&
+    (obj.references === undefined ||
+     (Array.isArray(obj.references) && obj.references.every((r: any) => typeof r === 'string'))) &&
+    (obj.originalEmail === undefined ||
+     (typeof obj.originalEmail === 'object' &&
+      obj.originalEmail !== null &&
+      typeof obj.originalEmail.from === 'string' &&
+      typeof obj.originalEmail.subject === 'string' &&
+      obj.originalEmail.receivedAt instanceof Date &&
+      (obj.originalEmail.messageId === undefined || typeof obj.originalEmail.messageId === 'string')))
+  );
+}
+
+/**
+ * Validates a rule condition tree, returning a description of the first problem or null
+ */
+export function validateRuleExpression(expr: any, path: string = 'condition'): string | null {
+  if (expr === null || typeof expr !== 'object' || Array.isArray(expr)) {
+    return `${path} must be an object`;
+  }
+
+  for (const group of ['all', 'any'] as const) {
+    if (group in expr) {
+      if (!Array.isArray(expr[group]) || expr[group].length === 0) {
+        return `${path}.${group} must be a non-empty array`;
+      }
+      for (let i = 0; i < expr[group].length; i++) {
+        const error = validateRuleExpression(expr[group][i], `${path}.${group}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+  }
+
+  if ('not' in expr) {
+    return validateRuleExpression(expr.not, `${path}.not`);
+  }
+
+  if (!RULE_FIELDS.includes(expr.field)) {
+    return `${path}.field must be one of: ${RULE_FIELDS.join(', ')}`;
+  }
+  if (expr.field === 'header' && (typeof expr.header !== 'string' || expr.header.length === 0)) {
+    return `${path}.header is required when field is "header"`;
+  }
+
+  const operators = expr.field === 'receivedAt' ? RULE_TIME_OPERATORS : RULE_TEXT_OPERATORS;
+  if (!operators.includes(expr.operator)) {
+    return `${path}.operator must be one of: ${operators.join(', ')} for field "${expr.field}"`;
+  }
+
+  const values: any[] = Array.isArray(expr.value) ? expr.value : [expr.value];
+  if (values.length === 0 || !values.every(v => typeof v === 'string')) {
+    return `${path}.value must be a string or a non-empty array of strings`;
+  }
+  if (expr.caseSensitive !== undefined && typeof expr.caseSensitive !== 'boolean') {
+    return `${path}.caseSensitive must be a boolean`;
+  }
+  if (expr.timeZone !== undefined && !isValidTimeZone(expr.timeZone)) {
+    return `${path}.timeZone is not a valid time zone: ${expr.timeZone}`;
+  }
+
+  switch (expr.operator) {
+    case 'regex':
+      for (const value of values) {
+        try {
+          new RegExp(value);
+        } catch {
+          return `${path}.value is not a valid regular expression: ${value}`;
+        }
+      }
+      break;
+    case 'before':
+    case 'after':
+      if (values.some(v => isNaN(Date.parse(v)))) {
+        return `${path}.value must be an ISO date`;
+      }
+      break;
+    case 'time_between':
+      if (values.length !== 1 || !/^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/.test(values[0])) {
+        return `${path}.value must be a time range like "18:00-08:00"`;
+      }
+      break;
+    case 'day_in':
+      if (!values.every(v => WEEKDAYS.includes(v.toLowerCase().slice(0, 3)))) {
+        return `${path}.value must list weekday names (e.g. "sat", "sun")`;
+      }
+      break;
+  }
+
+  return null;
+}
+
+/**
+ * Validates a rule action
+ */
+export function isValidRuleAction(action: any): action is RuleAction {
+  const isReplyAction = action?.type === 'reply' || action?.type === 'queue';
+
+  return (
+    action !== null &&
+    typeof action === 'object' &&
+    RULE_ACTION_TYPES.includes(action.type) &&
+    (action.template === undefined ||
+     (typeof action.template === 'string' && action.template.length > 0 && isReplyAction)) &&
+    (action.templateId === undefined ||
+     (typeof action.templateId === 'string' && action.templateId.length > 0 && isReplyAction)) &&
+    (action.postActions === undefined || validatePostActions(action.postActions) === null)
+  );
+}
+
+/**
+ * Validates a list of post-actions, returning a description of the first problem or null
+ */
+export function validatePostActions(actions: any, path: string = 'postActions'): string | null {
+  if (!Array.isArray(actions)) {
+    return `${path} must be an array`;
+  }
+
+  for (let i = 0; i < actions.length; i++) {
+    const action = actions[i];
+    const field = action !== null && typeof action === 'object' ? POST_ACTION_FIELDS[action.type] : undefined;
+    if (!field) {
+      return `${path}[${i}].type must be one of ${Object.keys(POST_ACTION_FIELDS).join(', ')}`;
+    }
+
+    const value = action[field];
+    if (field === 'mailbox') {
+      if (typeof value !== 'string' || value.trim().length === 0) {
+        return `${path}[${i}].mailbox must be a non-empty string`;
+      }
+    } else if (!Array.isArray(value) || value.length === 0 ||
+               !value.every((item: any) => typeof item === 'string' && item.trim().length > 0)) {
+      return `${path}[${i}].${field} must be a non-empty array of strings`;
+    }
+  }
+
+  if (actions.filter((action: any) => action.type === 'move').length > 1) {
+    return `${path} can move a message only once`;
+  }
+
+  return null;
+}
+
+/**
+ * Validates post-actions keyed by outcome, returning a description of the first problem or null
+ */
+export function validatePostActionConfig(config: any): string | null {
+  if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+    return 'postActions must be an object keyed by outcome';
+  }
+
+  for (const [outcome, actions] of Object.entries(config)) {
+    if (!POST_ACTION_OUTCOMES.includes(outcome)) {
+      return `postActions outcome must be one of ${POST_ACTION_OUTCOMES.join(', ')}`;
+    }
+    const error = validatePostActions(actions, `postActions.${outcome}`);
+    if (error) {
+      return error;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Type guard for Template object
+ */
+export function isTemplate(obj: any): obj is Template {
+  return (
+    obj !== null &&
+    typeof obj === 'object' &&
+    typeof obj.id === 'string' &&
+    obj.id.length > 0 &&
+    typeof obj.name === 'string' &&
+    obj.name.trim().length > 0 &&
+    typeof obj.body === 'string' &&
+    (obj.htmlBody === undefined || typeof obj.htmlBody === 'string') &&
+    (obj.body.trim().length > 0 || (obj.htmlBody || '').trim().length > 0) &&
+    (obj.assetIds === undefined || isStringArray(obj.assetIds)) &&
+    Array.isArray(obj.keywords) &&
+    obj.keywords.every((k: any) => typeof k === 'string') &&
+    typeof obj.isDefault === 'boolean' &&
+    obj.createdAt instanceof Date &&
+    obj.updatedAt instanceof Date
   );
 }
 
@@ -133,7 +563,7 @@ export function isReply(obj: any): obj is Reply {
  * Type guard for ActivityLog object
  */
 export function isActivityLog(obj: any): obj is ActivityLog {
-  const validTypes = ['reply_sent', 'reply_failed', 'email_filtered', 'error'];
+  const validTypes = ['reply_sent', 'reply_failed', 'email_filtered', 'email_throttled', 'error', 'api_request'];
   
   return (
     obj !== null &&
@@ -143,7 +573,7 @@ export function isActivityLog(obj: any): obj is ActivityLog {
     obj.timestamp instanceof Date &&
     validTypes.includes(obj.type) &&
     typeof obj.emailId === 'string' &&
-    obj.emailId.length > 0 &&
+    (obj.emailId.length > 0 || obj.type === 'api_request') &&
     (obj.replyId === undefined || typeof obj.replyId === 'string') &&
     typeof obj.details === 'string' &&
     (obj.metadata === undefined || 
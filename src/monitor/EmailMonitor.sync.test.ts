@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EmailMonitorImpl, SyncStateStore } from './EmailMonitor';
+import { ImapStandIn } from './fixtures/ImapStandIn';
+import { ImapSessionManager } from '../imap';
+import { ReadTrackerImpl } from '../responder';
+import { ActivityLog, Email, MailboxConfig, SyncState } from '../models';
+import { MessageFilter } from '../filter';
+
+// Runs against an in-process IMAP server; EmailMonitor.test.ts mocks the imap module instead
+
+class MemorySyncStateStore implements SyncStateStore {
+  states: Map<string, SyncState> = new Map();
+
+  async get(mailbox: string): Promise<SyncState | null> {
+    return this.states.get(mailbox) || null;
+  }
+
+  async save(state: SyncState): Promise<void> {
+    this.states.set(state.mailbox, { ...state });
+  }
+}
+
+function message(subject: string): string {
+  return `From: alice@example.com\r\nTo: bot@example.org\r\nSubject: ${subject}\r\n\r\nHello\r\n`;
+}
+
+describe('EmailMonitor sync cursor', () => {
+  let server: ImapStandIn;
+  let sessions: ImapSessionManager;
+  let store: MemorySyncStateStore;
+  let monitor: EmailMonitorImpl;
+  let processed: string[];
+  let filtered: { email: Email; ruleIds?: string[] }[];
+  let logs: ActivityLog[];
+
+  const startMonitor = async (options: { leaveUnread?: boolean; mailboxes?: MailboxConfig[] } = {}) => {
+    const port = await server.start();
+    const imapConfig = { user: server.user, password: server.password, host: '127.0.0.1', port, tls: false };
+    sessions = new ImapSessionManager(imapConfig);
+
+    // Filtered mail is marked read without a reply, which is all these tests need
+    const messageFilter = {
+      shouldAutoReply: vi.fn().mockImplementation((email, ruleIds) => {
+        processed.push(email.subject);
+        filtered.push({ email, ruleIds });
+        return { approved: false, reason: 'test' };
+      }),
+    } as unknown as MessageFilter;
+
+    monitor = new EmailMonitorImpl({
+      imapConfig,
+      messageFilter,
+      autoResponder: {} as any,
+      readTracker: new ReadTrackerImpl(imapConfig, sessions),
+      sessions,
+      syncStateStore: store,
+      leaveUnread: options.leaveUnread,
+      mailboxes: options.mailboxes,
+      checkInterval: 60000,
+      onLog: (log) => logs.push(log),
+    });
+    await monitor.start();
+  };
+
+  beforeEach(() => {
+    server = new ImapStandIn();
+    store = new MemorySyncStateStore();
+    processed = [];
+    filtered = [];
+    logs = [];
+  });
+
+  afterEach(async () => {
+    await monitor?.stop();
+    await sessions?.close();
+    await server.stop();
+  });
+
+  it('should start from unread mail and then follow new UIDs', async () => {
+    server.addMessage(message('Old and read'), { flags: ['\\Seen'] });
+    server.addMessage(message('Old and unread'));
+
+    await startMonitor();
+    expect(processed).toEqual(['Old and unread']);
+    expect(store.states.get('INBOX')).toMatchObject({ uidValidity: 1, lastUid: 2 });
+
+    // Read in another client before the check, still new to the monitor
+    server.addMessage(message('New but read'), { flags: ['\\Seen'] });
+    server.addMessage(message('New'));
+    await monitor.checkNow();
+
+    expect(processed).toEqual(['Old and unread', 'New but read', 'New']);
+    expect(store.states.get('INBOX')!.lastUid).toBe(4);
+  });
+
+  it('should not handle mail twice when it stays unread', async () => {
+    server.addMessage(message('First'));
+
+    await startMonitor({ leaveUnread: true });
+    await monitor.checkNow();
+    await monitor.checkNow();
+
+    expect(processed).toEqual(['First']);
+    expect(server.getMessages()[0].flags).not.toContain('\\Seen');
+  });
+
+  it('should resync by arrival date when UIDVALIDITY changes', async () => {
+    const earlier = new Date(Date.now() - 60 * 60 * 1000);
+    server.addMessage(message('Handled'), { internalDate: earlier });
+
+    await startMonitor({ leaveUnread: true });
+    expect(processed).toEqual(['Handled']);
+    expect(store.states.get('INBOX')!.lastReceivedAt).toEqual(new Date(Math.floor(earlier.getTime() / 1000) * 1000));
+
+    server.resetUidValidity();
+    server.addMessage(message('Arrived after'));
+    await monitor.checkNow();
+
+    expect(processed).toEqual(['Handled', 'Arrived after']);
+    expect(store.states.get('INBOX')).toMatchObject({ uidValidity: 2, lastUid: 2 });
+    expect(logs.some(log => log.details.includes('UIDVALIDITY changed from 1 to 2'))).toBe(true);
+
+    await monitor.checkNow();
+    expect(processed).toHaveLength(2);
+  });
+
+  it('should watch several folders, each with its own rules and cursor', async () => {
+    server.addMailbox('Support');
+    server.addMessage(message('Inbox mail'));
+    server.addMessage(message('Support mail'), { mailbox: 'Support' });
+
+    await startMonitor({ mailboxes: [{ name: 'INBOX' }, { name: 'Support', ruleIds: ['support-rule'] }] });
+
+    expect(filtered.map(({ email, ruleIds }) => [email.mailbox, email.subject, ruleIds])).toEqual([
+      ['INBOX', 'Inbox mail', undefined],
+      ['Support', 'Support mail', ['support-rule']],
+    ]);
+    expect(server.getMessage(1, 'Support')!.flags).toContain('\\Seen');
+    expect(store.states.get('Support')).toMatchObject({ uidValidity: 1, lastUid: 1 });
+
+    server.addMessage(message('More support'), { mailbox: 'Support' });
+    await monitor.checkNow();
+
+    expect(processed).toEqual(['Inbox mail', 'Support mail', 'More support']);
+    expect(store.states.get('INBOX')!.lastUid).toBe(1);
+    expect(store.states.get('Support')!.lastUid).toBe(2);
+  });
+
+  it('should mark handled mail as read by default', async () => {
+    server.addMessage(message('Filtered'));
+
+    await startMonitor();
+
+    expect(server.getMessages()[0].flags).toContain('\\Seen');
+  });
+});
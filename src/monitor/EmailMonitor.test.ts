@@ -1,9 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
-import { EmailMonitorImpl, EmailMonitorConfig } from './EmailMonitor';
-import { Email, ActivityLog } from '../models';
-import { MessageFilter } from '../filter';
-import { AutoResponder, ReadTracker } from '../responder';
+import { EmailMonitorImpl, EmailMonitorConfig, ProcessedLedger } from './EmailMonitor';
+import { Email, ActivityLog, Rule, RuleAction, ProcessedMessage, Reply } from '../models';
+import { MessageFilter, SenderThrottle, ThrottleStore } from '../filter';
+import { AutoResponder, ReadTracker, TemplateSelector } from '../responder';
 
 // Mock implementations for testing
 class MockMessageFilter implements MessageFilter {
@@ -11,6 +11,7 @@ class MockMessageFilter implements MessageFilter {
   updateKeywords = vi.fn();
   updateExcludedDomains = vi.fn();
   setKeywordsEnabled = vi.fn();
+  updateRules = vi.fn();
 }
 
 class MockAutoResponder implements AutoResponder {
@@ -31,7 +32,9 @@ class MockAutoResponder implements AutoResponder {
 
 class MockReadTracker implements ReadTracker {
   markAsRead = vi.fn().mockResolvedValue(undefined);
+  markAllAsRead = vi.fn().mockResolvedValue(undefined);
   isRead = vi.fn().mockResolvedValue(false);
+  applyPostActions = vi.fn().mockResolvedValue([]);
 }
 
 // Mock IMAP module
@@ -48,7 +51,7 @@ vi.mock('imap', () => {
           setTimeout(() => handlers['end']?.(), 50);
         },
         openBox: (box: string, readOnly: boolean, callback: Function) => {
-          callback(null);
+          callback(null, { name: box, uidvalidity: 1, uidnext: 1 });
         },
         search: (criteria: any[], callback: Function) => {
           callback(null, []);
@@ -123,7 +126,7 @@ describe('EmailMonitor Property Tests', () => {
   it('should continue monitoring after connection errors', async () => {
     await fc.assert(
       fc.asyncProperty(
-        fc.integer({ min: 1, max: 5 }), // Number of failures before success
+        fc.integer({ min: 1, max: 4 }), // Number of failures before success, below the failure limit
         async (failuresBeforeSuccess) => {
           let attemptCount = 0;
           
@@ -139,6 +142,7 @@ describe('EmailMonitor Property Tests', () => {
             autoResponder: mockResponder,
             readTracker: mockTracker,
             checkInterval: 100, // Fast interval for testing
+            maxBackoffDelay: 100, // Retry at the interval instead of backing off
             onLog: (log) => logs.push(log),
           };
 
@@ -181,7 +185,8 @@ describe('EmailMonitor Property Tests', () => {
   it('should continue monitoring despite non-fatal errors', async () => {
     await fc.assert(
       fc.asyncProperty(
-        fc.array(fc.boolean(), { minLength: 3, maxLength: 10 }), // Array of success/failure outcomes
+        // Success/failure outcomes, with a success at least every third check so the failure limit is never reached
+        fc.array(fc.boolean(), { minLength: 3, maxLength: 10 }).map(outcomes => outcomes.map((ok, i) => ok || i % 3 === 2)),
         async (outcomes) => {
           let callIndex = 0;
           
@@ -197,6 +202,7 @@ describe('EmailMonitor Property Tests', () => {
             autoResponder: mockResponder,
             readTracker: mockTracker,
             checkInterval: 50, // Fast interval for testing
+            maxBackoffDelay: 50, // Retry at the interval instead of backing off
             onLog: (log) => logs.push(log),
           };
 
@@ -309,3 +315,671 @@ describe('EmailMonitor Property Tests', () => {
     );
   });
 });
+
+describe('EmailMonitor sender throttling', () => {
+  class MemoryThrottleStore implements ThrottleStore {
+    replies = new Map<string, Date>();
+
+    async getLastReplyAt(senderAddress: string): Promise<Date | null> {
+      return this.replies.get(senderAddress.toLowerCase()) || null;
+    }
+
+    async recordReply(senderAddress: string, repliedAt: Date): Promise<void> {
+      this.replies.set(senderAddress.toLowerCase(), repliedAt);
+    }
+  }
+
+  function createMonitor(logs: ActivityLog[]) {
+    const responder = new MockAutoResponder();
+    const tracker = new MockReadTracker();
+    const store = new MemoryThrottleStore();
+    const monitor = new EmailMonitorImpl({
+      imapConfig: {
+        user: 'test@example.com',
+        password: 'password',
+        host: 'imap.example.com',
+        port: 993,
+        tls: true,
+      },
+      messageFilter: new MockMessageFilter(),
+      autoResponder: responder,
+      readTracker: tracker,
+      senderThrottle: new SenderThrottle(store, 24),
+      onLog: (log) => logs.push(log),
+    });
+
+    return { monitor, responder, tracker, store };
+  }
+
+  const email = (id: string): Email => ({
+    id,
+    from: 'Customer@Example.com',
+    to: 'support@example.org',
+    subject: 'Question',
+    body: 'Hello',
+    receivedAt: new Date(),
+    isRead: false,
+  });
+
+  it('should reply once per sender and log later messages as throttled', async () => {
+    const logs: ActivityLog[] = [];
+    const { monitor, responder, tracker } = createMonitor(logs);
+
+    await monitor.processEmail(email('email-1'));
+    await monitor.processEmail(email('email-2'));
+
+    expect(responder.sendReply).toHaveBeenCalledTimes(1);
+    expect(tracker.markAsRead).toHaveBeenCalledWith('email-2', 'INBOX');
+
+    const throttled = logs.filter(log => log.type === 'email_throttled');
+    expect(throttled).toHaveLength(1);
+    expect(throttled[0].emailId).toBe('email-2');
+    expect(throttled[0].metadata?.nextAllowedAt).toBeDefined();
+  });
+
+  it('should count queued replies towards the cooldown in manual mode', async () => {
+    const logs: ActivityLog[] = [];
+    const { monitor, responder, store } = createMonitor(logs);
+    responder.generateReply.mockReturnValue({
+      id: 'reply-1',
+      originalEmailId: 'email-1',
+      to: 'customer@example.com',
+      subject: 'Re: Question',
+      body: 'Thanks',
+      generatedAt: new Date(),
+      status: 'pending',
+    });
+
+    await monitor.processEmail(email('email-1'));
+    await monitor.processEmail(email('email-2'));
+
+    expect(responder.queueForConfirmation).toHaveBeenCalledTimes(1);
+    expect(store.replies.has('customer@example.com')).toBe(true);
+    expect(logs.some(log => log.type === 'email_throttled')).toBe(true);
+  });
+
+  it('should not start a cooldown when sending fails', async () => {
+    const logs: ActivityLog[] = [];
+    const { monitor, responder, store } = createMonitor(logs);
+    responder.sendReply.mockResolvedValue({ success: false, error: 'SMTP down' });
+
+    await monitor.processEmail(email('email-1'));
+
+    expect(store.replies.size).toBe(0);
+  });
+});
+
+describe('EmailMonitor processed ledger', () => {
+  class MemoryLedger implements ProcessedLedger {
+    entries: ProcessedMessage[] = [];
+    replies: Reply[] = [];
+
+    async find(mailbox: string, uidValidity: number, email: Email): Promise<ProcessedMessage | null> {
+      return this.entries.find(entry =>
+        (email.messageId && entry.messageId === email.messageId) ||
+        (entry.mailbox === mailbox && entry.uidValidity === uidValidity && entry.uid === email.id)
+      ) || null;
+    }
+
+    async record(entry: ProcessedMessage, reply?: Reply): Promise<void> {
+      this.entries = this.entries.filter(existing => existing.uid !== entry.uid);
+      this.entries.push(entry);
+      if (reply) {
+        this.replies.push({ ...reply });
+      }
+    }
+  }
+
+  function createMonitor(logs: ActivityLog[] = []) {
+    const filter = new MockMessageFilter();
+    const responder = new MockAutoResponder();
+    const tracker = new MockReadTracker();
+    const ledger = new MemoryLedger();
+    const monitor = new EmailMonitorImpl({
+      imapConfig: {
+        user: 'test@example.com',
+        password: 'password',
+        host: 'imap.example.com',
+        port: 993,
+        tls: true,
+      },
+      messageFilter: filter,
+      autoResponder: responder,
+      readTracker: tracker,
+      ledger,
+      onLog: (log) => logs.push(log),
+    });
+
+    return { monitor, filter, responder, tracker, ledger };
+  }
+
+  const email = (id: string, messageId?: string): Email => ({
+    id,
+    from: 'customer@example.com',
+    to: 'support@example.org',
+    subject: 'Question',
+    body: 'Hello',
+    receivedAt: new Date(),
+    isRead: false,
+    ...(messageId && { messageId }),
+  });
+
+  it('should reply only once when marking the email read fails', async () => {
+    const logs: ActivityLog[] = [];
+    const { monitor, responder, tracker, ledger } = createMonitor(logs);
+    tracker.markAsRead.mockRejectedValueOnce(new Error('STORE failed'));
+
+    await monitor.processEmail(email('1', '<a@example.com>'));
+    await monitor.processEmail(email('1', '<a@example.com>'));
+
+    expect(responder.sendReply).toHaveBeenCalledTimes(1);
+    expect(tracker.markAsRead).toHaveBeenCalledTimes(2);
+    expect(ledger.entries).toMatchObject([{ uid: '1', messageId: '<a@example.com>', decision: 'replied', replyId: 'reply-1' }]);
+    expect(logs.some(log => log.details.includes('already processed (replied)'))).toBe(true);
+  });
+
+  it('should record the send attempt before sending', async () => {
+    const { monitor, responder, ledger } = createMonitor();
+    responder.sendReply.mockImplementation(async () => {
+      expect(ledger.entries[0].decision).toBe('sending');
+      return { success: false, error: 'SMTP down' };
+    });
+
+    await monitor.processEmail(email('1'));
+
+    expect(ledger.entries[0]).toMatchObject({ decision: 'send_failed', reason: 'SMTP down' });
+    expect(ledger.replies.map(reply => reply.id)).toEqual(['reply-1', 'reply-1']);
+  });
+
+  it('should queue a reply that could not be sent for confirmation', async () => {
+    const { monitor, responder } = createMonitor();
+    responder.sendReply.mockResolvedValue({ success: false, error: 'SMTP down' });
+
+    await monitor.processEmail(email('1'));
+
+    expect(responder.queueForConfirmation).toHaveBeenCalledWith(expect.objectContaining({ id: 'reply-1' }));
+  });
+
+  it('should find an email by Message-ID under a new UID', async () => {
+    const { monitor, responder } = createMonitor();
+
+    await monitor.processEmail(email('1', '<a@example.com>'));
+    await monitor.processEmail(email('7', '<a@example.com>'));
+
+    expect(responder.sendReply).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep emails a rule left unread unread', async () => {
+    const { monitor, filter, tracker, ledger } = createMonitor();
+    filter.shouldAutoReply.mockReturnValue({
+      approved: false,
+      reason: 'Matched rule',
+      action: { type: 'leave_unread' },
+    });
+
+    await monitor.processEmail(email('1'));
+    await monitor.processEmail(email('1'));
+
+    expect(ledger.entries[0].decision).toBe('left_unread');
+    expect(tracker.markAsRead).not.toHaveBeenCalled();
+  });
+});
+
+describe('EmailMonitor post-actions', () => {
+  const email: Email = {
+    id: '7',
+    mailbox: 'Support',
+    from: 'customer@example.com',
+    to: 'support@example.org',
+    subject: 'Question',
+    body: 'Hello',
+    receivedAt: new Date(),
+    isRead: false,
+  };
+
+  function createMonitor(postActions: EmailMonitorConfig['postActions'], logs: ActivityLog[] = []) {
+    const filter = new MockMessageFilter();
+    const responder = new MockAutoResponder();
+    const tracker = new MockReadTracker();
+    const monitor = new EmailMonitorImpl({
+      imapConfig: {
+        user: 'test@example.com',
+        password: 'password',
+        host: 'imap.example.com',
+        port: 993,
+        tls: true,
+      },
+      messageFilter: filter,
+      autoResponder: responder,
+      readTracker: tracker,
+      postActions,
+      onLog: (log) => logs.push(log),
+    });
+
+    return { monitor, filter, responder, tracker };
+  }
+
+  it('should run the post-actions of the outcome after marking the email read', async () => {
+    const { monitor, tracker } = createMonitor({
+      replied: [{ type: 'move', mailbox: 'Auto-Replied' }],
+      filtered: [{ type: 'flag', flags: ['\\Flagged'] }],
+    });
+
+    await monitor.processEmail(email);
+
+    expect(tracker.applyPostActions).toHaveBeenCalledWith('7', [{ type: 'move', mailbox: 'Auto-Replied' }], 'Support');
+    expect(tracker.markAsRead.mock.invocationCallOrder[0]).toBeLessThan(tracker.applyPostActions.mock.invocationCallOrder[0]);
+  });
+
+  it('should leave mail untouched for outcomes without post-actions', async () => {
+    const { monitor, filter, tracker } = createMonitor({ replied: [{ type: 'move', mailbox: 'Auto-Replied' }] });
+    filter.shouldAutoReply.mockReturnValue({ approved: false, reason: 'No keywords' });
+
+    await monitor.processEmail(email);
+
+    expect(tracker.applyPostActions).not.toHaveBeenCalled();
+  });
+
+  it('should prefer the post-actions of the matched rule', async () => {
+    const { monitor, filter, tracker } = createMonitor({ replied: [{ type: 'move', mailbox: 'Auto-Replied' }] });
+    filter.shouldAutoReply.mockReturnValue({
+      approved: true,
+      reason: 'Matched rule',
+      action: { type: 'reply', postActions: [{ type: 'label', labels: ['VIP'] }] },
+    });
+
+    await monitor.processEmail(email);
+
+    expect(tracker.applyPostActions).toHaveBeenCalledWith('7', [{ type: 'label', labels: ['VIP'] }], 'Support');
+  });
+
+  it('should keep queued mail in place and log failed post-actions', async () => {
+    const logs: ActivityLog[] = [];
+    const { monitor, responder, tracker } = createMonitor({
+      queued: [{ type: 'flag', flags: ['\\Flagged'] }, { type: 'move', mailbox: 'Waiting' }],
+    }, logs);
+    responder.generateReply.mockReturnValue({
+      id: 'reply-1',
+      originalEmailId: '7',
+      to: 'customer@example.com',
+      subject: 'Re: Question',
+      body: 'Thanks',
+      generatedAt: new Date(),
+      status: 'pending',
+    });
+    tracker.applyPostActions.mockResolvedValue([{ action: { type: 'flag', flags: ['\\Flagged'] }, error: 'STORE failed' }]);
+
+    await monitor.processEmail(email);
+
+    expect(tracker.applyPostActions).toHaveBeenCalledWith('7', [{ type: 'flag', flags: ['\\Flagged'] }], 'Support');
+    expect(logs.filter(log => log.type === 'error').map(log => log.details)).toEqual([
+      'Post-action move failed: queued mail is not moved until its reply is approved or rejected',
+      'Post-action flag \\Flagged failed: STORE failed',
+    ]);
+  });
+
+  it('should mark the emails of a check read with one update per mailbox before their post-actions', async () => {
+    const { monitor, tracker } = createMonitor({ replied: [{ type: 'move', mailbox: 'Auto-Replied' }] });
+    monitor.checkInbox = vi.fn().mockResolvedValue([email, { ...email, id: '8' }, { ...email, id: '3', mailbox: 'INBOX' }]);
+
+    await monitor.start();
+    await monitor.stop();
+
+    expect(tracker.markAllAsRead.mock.calls).toEqual([[['7', '8'], 'Support'], [['3'], 'INBOX']]);
+    expect(tracker.markAsRead).not.toHaveBeenCalled();
+    expect(tracker.applyPostActions.mock.calls.map(call => call[0])).toEqual(['7', '8', '3']);
+    expect(tracker.markAllAsRead.mock.invocationCallOrder[0]).toBeLessThan(tracker.applyPostActions.mock.invocationCallOrder[0]);
+  });
+
+  it('should log the emails it could not mark read and leave them in place', async () => {
+    const logs: ActivityLog[] = [];
+    const { monitor, tracker } = createMonitor({ replied: [{ type: 'move', mailbox: 'Auto-Replied' }] }, logs);
+    monitor.checkInbox = vi.fn().mockResolvedValue([email, { ...email, id: '8' }]);
+    tracker.markAllAsRead.mockRejectedValueOnce(new Error('STORE failed'));
+
+    await monitor.start();
+    await monitor.stop();
+
+    expect(tracker.applyPostActions).not.toHaveBeenCalled();
+    expect(logs.filter(log => log.type === 'error').map(log => [log.emailId, log.details])).toEqual([
+      ['7', 'Error processing email: STORE failed'],
+      ['8', 'Error processing email: STORE failed'],
+    ]);
+  });
+});
+
+describe('EmailMonitor rule actions', () => {
+  function createMonitor(action: RuleAction, logs: ActivityLog[] = [], templateSelector?: TemplateSelector) {
+    const responder = new MockAutoResponder();
+    const tracker = new MockReadTracker();
+    const rule: Rule = {
+      id: 'rule-1',
+      name: 'Invoices',
+      position: 0,
+      enabled: true,
+      condition: { field: 'subject', operator: 'contains', value: 'invoice' },
+      action,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const monitor = new EmailMonitorImpl({
+      imapConfig: {
+        user: 'test@example.com',
+        password: 'password',
+        host: 'imap.example.com',
+        port: 993,
+        tls: true,
+      },
+      messageFilter: new MessageFilter({ keywordsEnabled: false, keywords: [], excludedDomains: [], rules: [rule] }),
+      autoResponder: responder,
+      readTracker: tracker,
+      templateSelector,
+      checkInterval: 60000,
+      onLog: (log) => logs.push(log),
+    });
+
+    return { monitor, responder, tracker };
+  }
+
+  const invoice: Email = {
+    id: 'email-1',
+    from: 'billing@vendor.com',
+    to: 'support@example.org',
+    subject: 'Invoice 42',
+    body: 'Attached',
+    receivedAt: new Date(),
+    isRead: false,
+  };
+
+  it('should pass the rule template and force confirmation for queue actions', async () => {
+    const logs: ActivityLog[] = [];
+    const { monitor, responder } = createMonitor({ type: 'queue', template: 'Billing will get back to you.' }, logs);
+    responder.generateReply.mockReturnValue({
+      id: 'reply-1',
+      originalEmailId: 'email-1',
+      to: 'billing@vendor.com',
+      subject: 'Re: Invoice 42',
+      body: 'Billing will get back to you.',
+      generatedAt: new Date(),
+      status: 'pending',
+    });
+
+    await monitor.processEmail(invoice);
+
+    expect(responder.generateReply).toHaveBeenCalledWith(invoice, {
+      template: 'Billing will get back to you.',
+      requireConfirmation: true,
+    });
+    expect(logs[0].metadata).toMatchObject({ ruleId: 'rule-1', ruleName: 'Invoices', action: 'queue' });
+  });
+
+  it('should reply with the stored template selected for the rule', async () => {
+    const { monitor, responder } = createMonitor({ type: 'reply', templateId: 'billing' }, [], new TemplateSelector([{
+      id: 'billing',
+      name: 'Billing',
+      body: 'Billing will get back to you about {subject}.',
+      keywords: [],
+      isDefault: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }]));
+
+    await monitor.processEmail(invoice);
+
+    expect(responder.generateReply).toHaveBeenCalledWith(invoice, {
+      template: 'Billing will get back to you about {subject}.',
+      requireConfirmation: false,
+    });
+  });
+
+  it('should mark the email as read without replying for mark_read actions', async () => {
+    const logs: ActivityLog[] = [];
+    const { monitor, responder, tracker } = createMonitor({ type: 'mark_read' }, logs);
+
+    await monitor.processEmail(invoice);
+
+    expect(responder.generateReply).not.toHaveBeenCalled();
+    expect(tracker.markAsRead).toHaveBeenCalledWith('email-1', 'INBOX');
+    expect(logs[0].details).toContain('marked as read without reply');
+  });
+
+  it('should leave the email unread and skip it on later polls for leave_unread actions', async () => {
+    const logs: ActivityLog[] = [];
+    const { monitor, responder, tracker } = createMonitor({ type: 'leave_unread' }, logs);
+    monitor.checkInbox = vi.fn().mockResolvedValue([invoice]);
+
+    await monitor.start();
+    await monitor.checkNow();
+    await monitor.stop();
+
+    expect(responder.generateReply).not.toHaveBeenCalled();
+    expect(tracker.markAsRead).not.toHaveBeenCalled();
+    expect(logs.filter(log => log.emailId === 'email-1')).toHaveLength(1);
+    expect(logs.find(log => log.emailId === 'email-1')?.details).toContain('left unread');
+  });
+});
+
+describe('EmailMonitor reconfiguration', () => {
+  it('should reschedule polling when the check interval changes', async () => {
+    const monitor = new EmailMonitorImpl({
+      imapConfig: {
+        user: 'test@example.com',
+        password: 'password',
+        host: 'imap.example.com',
+        port: 993,
+        tls: true,
+      },
+      messageFilter: new MockMessageFilter(),
+      autoResponder: new MockAutoResponder(),
+      readTracker: new MockReadTracker(),
+      checkInterval: 60000,
+    });
+    const checkInbox = vi.fn().mockResolvedValue([]);
+    monitor.checkInbox = checkInbox;
+
+    await monitor.start();
+    expect(monitor.isMonitoring()).toBe(true);
+    expect(checkInbox).toHaveBeenCalledTimes(1);
+
+    monitor.setCheckInterval(20);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await monitor.stop();
+
+    expect(checkInbox.mock.calls.length).toBeGreaterThan(2);
+    expect(monitor.isMonitoring()).toBe(false);
+  });
+
+  it('should use updated IMAP settings for the next check', async () => {
+    const monitor = new EmailMonitorImpl({
+      imapConfig: {
+        user: 'old@example.com',
+        password: 'password',
+        host: 'imap.old.example.com',
+        port: 993,
+        tls: true,
+      },
+      messageFilter: new MockMessageFilter(),
+      autoResponder: new MockAutoResponder(),
+      readTracker: new MockReadTracker(),
+    });
+
+    monitor.updateImapConfig({
+      user: 'new@example.com',
+      password: 'password',
+      host: 'imap.new.example.com',
+      port: 993,
+      tls: true,
+    });
+    await monitor.checkInbox();
+
+    const Imap = (await import('imap')).default as unknown as ReturnType<typeof vi.fn>;
+    expect(Imap).toHaveBeenLastCalledWith(expect.objectContaining({ host: 'imap.new.example.com' }));
+  });
+});
+
+describe('EmailMonitor lifecycle', () => {
+  function createMonitor(checkInterval = 60000) {
+    const monitor = new EmailMonitorImpl({
+      imapConfig: {
+        user: 'test@example.com',
+        password: 'password',
+        host: 'imap.example.com',
+        port: 993,
+        tls: true,
+      },
+      messageFilter: new MockMessageFilter(),
+      autoResponder: new MockAutoResponder(),
+      readTracker: new MockReadTracker(),
+      checkInterval,
+    });
+    const checkInbox = vi.fn().mockResolvedValue([]);
+    monitor.checkInbox = checkInbox;
+    return { monitor, checkInbox };
+  }
+
+  it('should report idle before start and running with poll times after start', async () => {
+    const { monitor } = createMonitor();
+    expect(monitor.getStatus()).toEqual({ state: 'idle', mode: 'polling', consecutiveFailures: 0 });
+
+    await monitor.start();
+    const status = monitor.getStatus();
+    await monitor.stop();
+
+    expect(status.state).toBe('running');
+    expect(status.lastPollAt).toBeInstanceOf(Date);
+    expect(status.lastSuccessAt).toBeInstanceOf(Date);
+    expect(status.nextCheckAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(monitor.getStatus().state).toBe('idle');
+    expect(monitor.getStatus().nextCheckAt).toBeUndefined();
+  });
+
+  it('should move through backing_off to failed and recover on success', async () => {
+    const { monitor, checkInbox } = createMonitor();
+    checkInbox.mockRejectedValue(new Error('Connection refused'));
+
+    await monitor.start();
+    expect(monitor.getStatus()).toMatchObject({
+      state: 'backing_off',
+      consecutiveFailures: 1,
+      lastError: 'Connection refused',
+    });
+    expect(monitor.getStatus().lastSuccessAt).toBeUndefined();
+
+    for (let i = 0; i < 4; i++) {
+      await monitor.checkNow();
+    }
+    expect(monitor.getStatus()).toMatchObject({ state: 'failed', consecutiveFailures: 5 });
+
+    checkInbox.mockResolvedValue([]);
+    await monitor.checkNow();
+    expect(monitor.getStatus()).toMatchObject({ state: 'running', consecutiveFailures: 0 });
+    expect(monitor.getStatus().lastError).toBeUndefined();
+
+    await monitor.stop();
+  });
+
+  it('should wait longer before each retry while backing off', async () => {
+    const { monitor, checkInbox } = createMonitor(20);
+    checkInbox.mockRejectedValue(new Error('Connection refused'));
+
+    const startedAt = Date.now();
+    await monitor.start();
+    // Retries after 40ms, then 80ms more, instead of every 20ms
+    expect(monitor.getStatus().nextCheckAt!.getTime() - startedAt).toBeGreaterThanOrEqual(40);
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(checkInbox).toHaveBeenCalledTimes(3);
+    expect(monitor.getStatus()).toMatchObject({ state: 'backing_off', consecutiveFailures: 3 });
+
+    // A successful check returns to the regular interval
+    checkInbox.mockResolvedValue([]);
+    await monitor.checkNow();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await monitor.stop();
+
+    expect(checkInbox.mock.calls.length).toBeGreaterThan(5);
+  });
+
+  it('should stop checking once failed until resumed', async () => {
+    const { monitor, checkInbox } = createMonitor(20);
+    checkInbox.mockRejectedValue(new Error('Connection refused'));
+
+    await monitor.start();
+    for (let i = 0; i < 4; i++) {
+      await monitor.checkNow();
+    }
+    expect(monitor.getStatus()).toMatchObject({ state: 'failed', consecutiveFailures: 5 });
+    expect(monitor.getStatus().nextCheckAt).toBeUndefined();
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(checkInbox).toHaveBeenCalledTimes(5);
+
+    checkInbox.mockResolvedValue([]);
+    monitor.resume();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(checkInbox).toHaveBeenCalledTimes(6);
+    expect(monitor.getStatus()).toMatchObject({ state: 'running', consecutiveFailures: 0 });
+
+    await monitor.stop();
+  });
+
+  it('should suspend scheduled checks while paused and check again on resume', async () => {
+    const { monitor, checkInbox } = createMonitor(20);
+
+    await monitor.start();
+    monitor.pause();
+    const callsWhenPaused = checkInbox.mock.calls.length;
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(checkInbox.mock.calls.length).toBe(callsWhenPaused);
+    expect(monitor.getStatus().state).toBe('paused');
+    expect(monitor.getStatus().nextCheckAt).toBeUndefined();
+
+    monitor.resume();
+    expect(monitor.getStatus().state).toBe('running');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await monitor.stop();
+
+    expect(checkInbox.mock.calls.length).toBeGreaterThan(callsWhenPaused + 1);
+  });
+
+  it('should allow a manual check while paused', async () => {
+    const { monitor, checkInbox } = createMonitor();
+
+    await monitor.start();
+    monitor.pause();
+
+    expect(await monitor.checkNow()).toBe(true);
+    expect(checkInbox).toHaveBeenCalledTimes(2);
+    expect(monitor.getStatus().state).toBe('paused');
+
+    await monitor.stop();
+  });
+
+  it('should reject invalid transitions', async () => {
+    const { monitor } = createMonitor();
+
+    expect(() => monitor.pause()).toThrow('not running');
+    expect(() => monitor.resume()).toThrow('not paused');
+    await expect(monitor.checkNow()).rejects.toThrow('not running');
+
+    await monitor.start();
+    expect(() => monitor.resume()).toThrow('not paused');
+    await expect(monitor.start()).rejects.toThrow('already running');
+    await monitor.stop();
+  });
+
+  it('should not start a second check while one is in progress', async () => {
+    const { monitor, checkInbox } = createMonitor();
+    let finishCheck: (emails: Email[]) => void = () => {};
+    checkInbox.mockImplementation(() => new Promise(resolve => { finishCheck = resolve; }));
+
+    const starting = monitor.start();
+    expect(await monitor.checkNow()).toBe(false);
+
+    finishCheck([]);
+    await starting;
+    await monitor.stop();
+    expect(checkInbox).toHaveBeenCalledTimes(1);
+  });
+});
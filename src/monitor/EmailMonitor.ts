@@ -1,13 +1,59 @@
-import { Email, ActivityLog } from '../models';
-import { MessageFilter } from '../filter';
+import {
+  Email,
+  ActivityLog,
+  SyncState,
+  ProcessedMessage,
+  ProcessingDecision,
+  Reply,
+  MailboxConfig,
+  PostAction,
+  PostActionConfig,
+  PostActionOutcome,
+  OAuth2Config,
+} from '../models';
+import { MessageFilter, SenderThrottle } from '../filter';
 import { AutoResponder } from '../responder';
-import { ReadTracker } from '../responder';
-import * as Imap from 'imap';
+import { ReadTracker, TemplateSelector, describePostAction } from '../responder';
+import Imap from 'imap';
 import { randomUUID } from 'crypto';
+import { parseEmail } from './MimeParser';
+import { IdleListener } from './IdleListener';
+import { imapConnectionError, resolveImapLogin, retryWithFreshToken } from '../imap';
+import type { ImapSessionManager } from '../imap';
+
+/**
+ * Lifecycle states of the monitor:
+ * - idle: not started, or stopped
+ * - running: polling on schedule and the last check succeeded
+ * - paused: started but scheduled checks are suspended
+ * - backing_off: the last check failed; the next check waits longer after each failure
+ * - failed: the consecutive failure limit was reached; no checks until resumed or restarted
+ */
+export type MonitorState = 'idle' | 'running' | 'paused' | 'backing_off' | 'failed';
+
+/**
+ * - polling: the inbox is checked every checkInterval
+ * - push: checks run when the server reports new mail over an IDLE connection
+ */
+export type MonitorMode = 'polling' | 'push';
+
+export interface MonitorStatus {
+  state: MonitorState;
+  mode: MonitorMode;
+  lastPollAt?: Date;
+  lastSuccessAt?: Date;
+  lastError?: string;
+  consecutiveFailures: number;
+  nextCheckAt?: Date;
+}
 
 export interface EmailMonitor {
   start(): Promise<void>;
   stop(): Promise<void>;
+  pause(): void;
+  resume(): void;
+  checkNow(): Promise<boolean>;
+  getStatus(): MonitorStatus;
   checkInbox(): Promise<Email[]>;
   processEmail(email: Email): Promise<void>;
 }
@@ -18,6 +64,7 @@ export interface ImapConfig {
   host: string;
   port: number;
   tls: boolean;
+  oauth2?: OAuth2Config; // Sign in with XOAUTH2 instead of the password
 }
 
 export interface EmailMonitorConfig {
@@ -25,23 +72,97 @@ export interface EmailMonitorConfig {
   messageFilter: MessageFilter;
   autoResponder: AutoResponder;
   readTracker: ReadTracker;
+  senderThrottle?: SenderThrottle;
+  templateSelector?: TemplateSelector;
+  sessions?: ImapSessionManager; // Connection pool shared with the read tracker; checks log in each time without it
+  mailboxes?: MailboxConfig[]; // Folders to watch, only INBOX when omitted or empty
+  syncStateStore?: SyncStateStore; // Finds new mail by UID; unread mail is treated as new without it
+  leaveUnread?: boolean; // Leave handled mail unread, only honoured with a syncStateStore
+  ledger?: ProcessedLedger; // Keeps an email from being answered twice when marking it read fails
+  postActions?: PostActionConfig; // Run on handled mail by outcome, after it is marked read
   checkInterval?: number; // In milliseconds, defaults to 10000 (10 seconds)
+  pushMode?: boolean; // Wait for new mail with IMAP IDLE, polling only while IDLE is unavailable
+  idleReconnectDelay?: number; // In milliseconds, defaults to 30000 (30 seconds)
+  maxBackoffDelay?: number; // In milliseconds, defaults to 300000 (5 minutes)
   onLog?: (log: ActivityLog) => void;
 }
 
+/**
+ * Persists the UID cursor of each monitored mailbox
+ */
+export interface SyncStateStore {
+  get(mailbox: string): Promise<SyncState | null>;
+  save(state: SyncState): Promise<void>;
+}
+
+/**
+ * Records which emails were already handled and what was decided for them
+ */
+export interface ProcessedLedger {
+  find(mailbox: string, uidValidity: number, email: Email): Promise<ProcessedMessage | null>;
+  // The reply, when given, is stored in the same transaction as the entry
+  record(entry: ProcessedMessage, reply?: Reply): Promise<void>;
+}
+
+const DEFAULT_MAILBOX = 'INBOX';
+
+interface RawMessage {
+  uid: string;
+  source: Buffer;
+  internalDate?: Date;
+}
+
+/**
+ * Where the cursor moves to once a fetched batch has been processed
+ */
+interface SyncCursor {
+  uidValidity: number;
+  lastUid: number;
+  lastReceivedAt?: Date;
+  // Saved after every email; otherwise only once the batch is complete
+  incremental: boolean;
+}
+
+// An email handled by the current check that still has to be marked read
+interface PendingRead {
+  email: Email;
+  outcome?: PostActionOutcome;
+  ruleActions?: PostAction[];
+}
+
 export class EmailMonitorImpl implements EmailMonitor {
   private config: EmailMonitorConfig;
-  private intervalId: NodeJS.Timeout | null = null;
+  // The polling interval, or the single retry while backing off
+  private checkTimer: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
+  private isPaused: boolean = false;
   private isProcessing: boolean = false;
   private shouldStop: boolean = false;
   private consecutiveFailures: number = 0;
+  private lastPollAt?: Date;
+  private lastSuccessAt?: Date;
+  private lastError?: string;
+  private nextCheckAt?: Date;
+  // Emails a rule chose to leave unread; they stay UNSEEN so they are skipped on later polls
+  private leftUnread: Set<string> = new Set();
+  private idleListener: IdleListener | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  // New mail reported while a check was running; checked again once it finishes
+  private checkRequested: boolean = false;
+  // Cursors of the mailboxes fetched by the current check
+  private syncCursors: Map<string, SyncCursor> = new Map();
+  // UIDVALIDITY of each mailbox at its last check; 0 until it is known
+  private uidValidities: Map<string, number> = new Map();
+  // Emails to mark read once the current check has handled them all, by mailbox
+  private pendingReads: Map<string, PendingRead[]> | null = null;
   private readonly MAX_CONSECUTIVE_FAILURES = 5;
 
   constructor(config: EmailMonitorConfig) {
     this.config = {
       ...config,
       checkInterval: config.checkInterval || 10000, // Default 10 seconds
+      idleReconnectDelay: config.idleReconnectDelay || 30000, // Default 30 seconds
+      maxBackoffDelay: config.maxBackoffDelay || 300000, // Default 5 minutes
     };
   }
 
@@ -54,8 +175,10 @@ export class EmailMonitorImpl implements EmailMonitor {
     }
 
     this.isRunning = true;
+    this.isPaused = false;
     this.shouldStop = false;
     this.consecutiveFailures = 0;
+    this.lastError = undefined;
 
     this.logActivity({
       id: randomUUID(),
@@ -65,10 +188,11 @@ export class EmailMonitorImpl implements EmailMonitor {
       details: 'EmailMonitor started',
     });
 
-    // Start the polling loop
-    this.intervalId = setInterval(() => {
-      this.pollInbox();
-    }, this.config.checkInterval);
+    // Start the polling loop; push mode replaces it once IDLE is listening
+    this.scheduleChecks();
+    if (this.config.pushMode) {
+      await this.startPush();
+    }
 
     // Do an immediate check
     await this.pollInbox();
@@ -85,17 +209,17 @@ export class EmailMonitorImpl implements EmailMonitor {
     this.shouldStop = true;
 
     // Clear the interval
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = null;
-    }
+    this.clearSchedule();
 
     // Wait for current processing to complete
     while (this.isProcessing) {
       await new Promise(resolve => setTimeout(resolve, 100));
     }
 
+    await this.stopPush();
+
     this.isRunning = false;
+    this.isPaused = false;
 
     this.logActivity({
       id: randomUUID(),
@@ -107,102 +231,293 @@ export class EmailMonitorImpl implements EmailMonitor {
   }
 
   /**
-   * Check inbox for unread emails
+   * Suspend scheduled checks; a check already in progress is allowed to finish
+   */
+  pause(): void {
+    if (!this.isRunning) {
+      throw new Error('EmailMonitor is not running');
+    }
+    if (this.isPaused) {
+      return;
+    }
+
+    this.isPaused = true;
+    this.clearSchedule();
+
+    this.logActivity({
+      id: randomUUID(),
+      timestamp: new Date(),
+      type: 'email_filtered',
+      emailId: 'system',
+      details: 'EmailMonitor paused',
+    });
+  }
+
+  /**
+   * Resume scheduled checks after a pause, or after the failure limit was
+   * reached, checking the inbox straight away
+   */
+  resume(): void {
+    if (!this.isPaused && !this.hasFailed()) {
+      throw new Error('EmailMonitor is not paused or failed');
+    }
+
+    this.isPaused = false;
+    if (this.hasFailed()) {
+      this.consecutiveFailures = 0;
+    }
+    this.scheduleChecks();
+
+    this.logActivity({
+      id: randomUUID(),
+      timestamp: new Date(),
+      type: 'email_filtered',
+      emailId: 'system',
+      details: 'EmailMonitor resumed',
+    });
+
+    this.pollInbox();
+  }
+
+  /**
+   * Check the inbox immediately, outside the regular schedule
+   * @returns false if a check was already in progress
+   */
+  async checkNow(): Promise<boolean> {
+    if (!this.isRunning) {
+      throw new Error('EmailMonitor is not running');
+    }
+    if (this.isProcessing) {
+      return false;
+    }
+
+    await this.pollInbox();
+    return true;
+  }
+
+  /**
+   * Current lifecycle state and polling statistics
+   */
+  getStatus(): MonitorStatus {
+    let state: MonitorState;
+    if (!this.isRunning) {
+      state = 'idle';
+    } else if (this.isPaused) {
+      state = 'paused';
+    } else if (this.hasFailed()) {
+      state = 'failed';
+    } else if (this.consecutiveFailures > 0) {
+      state = 'backing_off';
+    } else {
+      state = 'running';
+    }
+
+    return {
+      state,
+      mode: this.isPushActive() ? 'push' : 'polling',
+      lastPollAt: this.lastPollAt,
+      lastSuccessAt: this.lastSuccessAt,
+      lastError: this.lastError,
+      consecutiveFailures: this.consecutiveFailures,
+      nextCheckAt: this.nextCheckAt,
+    };
+  }
+
+  /**
+   * Whether the polling loop is currently active (including while paused)
+   */
+  isMonitoring(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Replace the IMAP connection settings; takes effect on the next poll and
+   * reconnects the push connection
+   */
+  updateImapConfig(imapConfig: ImapConfig): void {
+    this.config.imapConfig = imapConfig;
+    this.config.sessions?.updateImapConfig(imapConfig);
+    this.restartPush();
+  }
+
+  /**
+   * Replace the watched folders; takes effect on the next check. Push mode
+   * listens on the first folder.
+   */
+  setMailboxes(mailboxes: MailboxConfig[]): void {
+    this.config.mailboxes = mailboxes;
+    this.restartPush();
+  }
+
+  getMailboxes(): MailboxConfig[] {
+    const mailboxes = this.config.mailboxes || [];
+    return mailboxes.length > 0 ? mailboxes : [{ name: DEFAULT_MAILBOX }];
+  }
+
+  /**
+   * Choose whether handled mail is left unread; ignored without a sync state
+   * store, as unread mail would then be handled again on every check
+   */
+  setLeaveUnread(leaveUnread: boolean): void {
+    this.config.leaveUnread = leaveUnread;
+  }
+
+  /**
+   * Replace the post-actions run on handled mail
+   */
+  setPostActions(postActions: PostActionConfig): void {
+    this.config.postActions = postActions;
+  }
+
+  /**
+   * Switch between push and polling mode while running
+   */
+  async setPushMode(pushMode: boolean): Promise<void> {
+    this.config.pushMode = pushMode;
+
+    if (!this.isRunning) {
+      return;
+    }
+    if (pushMode && !this.idleListener) {
+      await this.startPush();
+    } else if (!pushMode) {
+      await this.stopPush();
+      if (!this.isPaused) {
+        this.scheduleChecks();
+      }
+    }
+  }
+
+  /**
+   * Change the polling interval, rescheduling the timer if monitoring is active
+   */
+  setCheckInterval(checkInterval: number): void {
+    this.config.checkInterval = checkInterval;
+
+    if (this.checkTimer) {
+      this.scheduleChecks();
+    }
+  }
+
+  /**
+   * (Re)start the timer for the current state: the configured interval
+   * while checks succeed, a single delayed retry while backing off, and
+   * nothing once the failure limit is reached
+   */
+  private scheduleChecks(): void {
+    this.clearSchedule();
+
+    if (this.hasFailed()) {
+      return;
+    }
+
+    if (this.consecutiveFailures > 0) {
+      const delay = this.getBackoffDelay();
+      this.nextCheckAt = new Date(Date.now() + delay);
+      this.checkTimer = setTimeout(() => {
+        this.checkTimer = null;
+        this.nextCheckAt = undefined;
+        this.pollInbox();
+      }, delay);
+      return;
+    }
+
+    // IDLE notifications trigger the checks while push mode covers every folder
+    if (this.isPushActive() && this.getMailboxes().length === 1) {
+      return;
+    }
+
+    const interval = this.config.checkInterval!;
+    this.nextCheckAt = new Date(Date.now() + interval);
+    this.checkTimer = setInterval(() => {
+      this.nextCheckAt = new Date(Date.now() + interval);
+      this.pollInbox();
+    }, interval);
+  }
+
+  private clearSchedule(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    this.nextCheckAt = undefined;
+  }
+
+  /**
+   * Twice the check interval after the first failure, doubling with each
+   * further failure up to maxBackoffDelay
+   */
+  private getBackoffDelay(): number {
+    const delay = this.config.checkInterval! * 2 ** this.consecutiveFailures;
+    return Math.min(delay, this.config.maxBackoffDelay!);
+  }
+
+  private hasFailed(): boolean {
+    return this.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES;
+  }
+
+  /**
+   * Check the watched folders for new emails, in the configured order
    */
   async checkInbox(): Promise<Email[]> {
+    const emails: Email[] = [];
+    for (const mailbox of this.getMailboxes()) {
+      emails.push(...await this.checkMailbox(mailbox.name));
+    }
+    return emails;
+  }
+
+  /**
+   * Check one folder for new emails, over the push connection when it is
+   * listening on that folder and otherwise over a pooled connection. With a
+   * sync state store, new means past the stored UID cursor; without one,
+   * unread.
+   */
+  private async checkMailbox(mailbox: string): Promise<Email[]> {
+    const connection = this.idleListener?.getConnection();
+    const pushBox = this.idleListener?.getMailbox();
+    if (connection && pushBox && pushBox.name === mailbox) {
+      return this.fetchNew(connection, pushBox, mailbox);
+    }
+    if (this.config.sessions) {
+      return this.config.sessions.withMailbox(mailbox, (imap, box) => this.fetchNew(imap, box, mailbox), { refresh: true });
+    }
+
+    return retryWithFreshToken(this.config.imapConfig, () => this.checkMailboxOnce(mailbox));
+  }
+
+  /**
+   * Check a mailbox on a connection of its own, logged out afterwards
+   */
+  private async checkMailboxOnce(mailbox: string): Promise<Email[]> {
+    const login = await resolveImapLogin(this.config.imapConfig);
     return new Promise((resolve, reject) => {
-      const imap = new Imap(this.config.imapConfig);
+      const imap = new Imap(login);
       const emails: Email[] = [];
 
       imap.once('ready', () => {
-        imap.openBox('INBOX', false, (err) => {
+        imap.openBox(mailbox, false, (err: Error | null, box: Imap.Box) => {
           if (err) {
             imap.end();
-            reject(new Error(`Failed to open inbox: ${err.message}`));
+            reject(new Error(`Failed to open ${mailbox}: ${err.message}`));
             return;
           }
 
-          // Search for unread emails
-          imap.search(['UNSEEN'], (err, results) => {
-            if (err) {
+          this.fetchNew(imap, box, mailbox).then(
+            (fetched) => {
+              emails.push(...fetched);
               imap.end();
-              reject(new Error(`Failed to search for unread emails: ${err.message}`));
-              return;
-            }
-
-            if (!results || results.length === 0) {
+            },
+            (error) => {
               imap.end();
-              resolve([]);
-              return;
+              reject(error);
             }
-
-            const fetch = imap.fetch(results, {
-              bodies: '',
-              struct: true,
-            });
-
-            fetch.on('message', (msg, seqno) => {
-              let uid = '';
-              let from = '';
-              let to = '';
-              let subject = '';
-              let body = '';
-              let receivedAt = new Date();
-
-              msg.on('attributes', (attrs) => {
-                uid = String(attrs.uid);
-                
-                if (attrs.envelope) {
-                  from = attrs.envelope.from?.[0]
-                    ? `${attrs.envelope.from[0].mailbox}@${attrs.envelope.from[0].host}`
-                    : '';
-                  to = attrs.envelope.to?.[0]
-                    ? `${attrs.envelope.to[0].mailbox}@${attrs.envelope.to[0].host}`
-                    : '';
-                  subject = attrs.envelope.subject || '';
-                  receivedAt = attrs.envelope.date || new Date();
-                }
-              });
-
-              msg.on('body', (stream) => {
-                let buffer = '';
-                stream.on('data', (chunk) => {
-                  buffer += chunk.toString('utf8');
-                });
-                stream.once('end', () => {
-                  body = buffer;
-                });
-              });
-
-              msg.once('end', () => {
-                if (uid && from) {
-                  emails.push({
-                    id: uid,
-                    from,
-                    to,
-                    subject,
-                    body,
-                    receivedAt,
-                    isRead: false,
-                  });
-                }
-              });
-            });
-
-            fetch.once('error', (err: Error) => {
-              imap.end();
-              reject(new Error(`Failed to fetch emails: ${err.message}`));
-            });
-
-            fetch.once('end', () => {
-              imap.end();
-            });
-          });
+          );
         });
       });
 
       imap.once('error', (err: Error) => {
-        reject(new Error(`IMAP connection error: ${err.message}`));
+        reject(imapConnectionError(err));
       });
 
       imap.once('end', () => {
@@ -217,36 +532,410 @@ export class EmailMonitorImpl implements EmailMonitor {
     });
   }
 
+  /**
+   * Fetch the emails of the open mailbox that have not been handled yet and
+   * note where its cursor moves once they are processed.
+   *
+   * - Same UIDVALIDITY as stored: everything above the last handled UID
+   * - No stored state (first run): unread emails, as without a store
+   * - UIDVALIDITY changed: the old UIDs mean nothing any more, so emails
+   *   that arrived after the last handled one are taken by date instead
+   *
+   * After a first run or a resync the cursor moves to the highest UID in
+   * the mailbox, so older mail is never answered.
+   */
+  private async fetchNew(imap: Imap, box: Imap.Box, mailbox: string): Promise<Email[]> {
+    this.uidValidities.set(mailbox, box.uidvalidity);
+    const store = this.config.syncStateStore;
+    if (!store) {
+      return this.fetchMessages(imap, await this.search(imap, ['UNSEEN']), mailbox);
+    }
+
+    const state = await store.get(mailbox);
+
+    if (state && state.uidValidity === box.uidvalidity) {
+      // "n:*" always matches the highest UID, even when it is below n
+      const uids = (await this.search(imap, [['UID', `${state.lastUid + 1}:*`]])).filter(uid => uid > state.lastUid);
+      this.syncCursors.set(mailbox, {
+        uidValidity: state.uidValidity,
+        lastUid: uids.reduce((max, uid) => Math.max(max, uid), state.lastUid),
+        lastReceivedAt: state.lastReceivedAt,
+        incremental: true,
+      });
+      const emails = await this.fetchMessages(imap, uids, mailbox);
+      // The cursor moves email by email, so they are processed in UID order
+      return emails.sort((a, b) => Number(a.id) - Number(b.id));
+    }
+
+    let emails: Email[];
+    if (state) {
+      const since = state.lastReceivedAt || state.updatedAt;
+      this.logSystem(
+        `${mailbox} UIDVALIDITY changed from ${state.uidValidity} to ${box.uidvalidity}, resyncing from ${since.toISOString()}`,
+        { mailbox, previousUidValidity: state.uidValidity, uidValidity: box.uidvalidity }
+      );
+      const fetched = await this.fetchMessages(imap, await this.search(imap, [['SINCE', since]]), mailbox);
+      emails = fetched.filter(email => email.receivedAt.getTime() > since.getTime());
+    } else {
+      emails = await this.fetchMessages(imap, await this.search(imap, ['UNSEEN']), mailbox);
+    }
+
+    const all = await this.search(imap, ['ALL']);
+    this.syncCursors.set(mailbox, {
+      uidValidity: box.uidvalidity,
+      lastUid: all.reduce((max, uid) => Math.max(max, uid), 0),
+      lastReceivedAt: state?.lastReceivedAt,
+      incremental: false,
+    });
+    return emails;
+  }
+
+  private search(imap: Imap, criteria: any[]): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      imap.search(criteria, (err: Error | null, results: number[]) => {
+        if (err) {
+          reject(new Error(`Failed to search for new emails: ${err.message}`));
+          return;
+        }
+        resolve(results || []);
+      });
+    });
+  }
+
+  /**
+   * Fetch and parse the emails with the given UIDs from the open mailbox
+   */
+  private fetchMessages(imap: Imap, uids: number[], mailbox: string): Promise<Email[]> {
+    if (uids.length === 0) {
+      return Promise.resolve([]);
+    }
+
+    return new Promise((resolve, reject) => {
+      const fetch = imap.fetch(uids, {
+        bodies: '',
+        struct: true,
+      });
+      const rawMessages: RawMessage[] = [];
+
+      fetch.on('message', (msg) => {
+        let uid = '';
+        let internalDate: Date | undefined;
+        const chunks: Buffer[] = [];
+
+        msg.on('attributes', (attrs) => {
+          uid = String(attrs.uid);
+          internalDate = attrs.date;
+        });
+
+        msg.on('body', (stream) => {
+          stream.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+          });
+        });
+
+        msg.once('end', () => {
+          if (uid) {
+            rawMessages.push({ uid, source: Buffer.concat(chunks), internalDate });
+          }
+        });
+      });
+
+      fetch.once('error', (err: Error) => {
+        reject(new Error(`Failed to fetch emails: ${err.message}`));
+      });
+
+      fetch.once('end', () => {
+        this.parseMessages(rawMessages, mailbox).then(resolve, reject);
+      });
+    });
+  }
+
+  /**
+   * Move the stored cursor past an email, or to the end of the batch
+   */
+  private async saveSyncState(mailbox: string, cursor: SyncCursor, lastUid: number): Promise<void> {
+    if (!this.config.syncStateStore) {
+      return;
+    }
+
+    await this.config.syncStateStore.save({
+      mailbox,
+      uidValidity: cursor.uidValidity,
+      lastUid,
+      lastReceivedAt: cursor.lastReceivedAt,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Open the push connection. Without IDLE support, or when connecting
+   * fails, the monitor keeps polling; a failed connection is retried later.
+   */
+  private async startPush(): Promise<void> {
+    const listener = new IdleListener(this.config.imapConfig, {
+      onMail: () => this.requestCheck(),
+      onClose: (error) => this.handlePushClosed(listener, error),
+      mailbox: this.getMailboxes()[0].name,
+    });
+    this.idleListener = listener;
+
+    try {
+      const result = await listener.connect();
+
+      // Stopped or switched to polling while connecting
+      if (this.idleListener !== listener || this.shouldStop) {
+        await listener.close();
+        return;
+      }
+
+      if (result === 'unsupported') {
+        this.idleListener = null;
+        this.logSystem(`IMAP server does not support IDLE, polling every ${this.config.checkInterval! / 1000}s`);
+        return;
+      }
+
+      // Polling stops unless other folders still need it
+      if (!this.isPaused) {
+        this.scheduleChecks();
+      }
+      this.logSystem('Push mode active, waiting for new mail notifications');
+    } catch (error) {
+      if (this.idleListener === listener) {
+        this.idleListener = null;
+      }
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logSystem(`Push connection failed, polling until it is restored: ${errorMessage}`, { error: errorMessage });
+      this.schedulePushReconnect();
+    }
+  }
+
+  /**
+   * Reconnect the push connection after its settings changed
+   */
+  private restartPush(): void {
+    if (!this.isRunning || !this.config.pushMode) {
+      return;
+    }
+
+    this.stopPush().then(() => {
+      if (!this.isPaused) {
+        this.scheduleChecks();
+      }
+      return this.startPush();
+    });
+  }
+
+  private async stopPush(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const listener = this.idleListener;
+    this.idleListener = null;
+    await listener?.close();
+  }
+
+  /**
+   * Fall back to polling when the push connection drops, and try to restore it
+   */
+  private handlePushClosed(listener: IdleListener, error?: Error): void {
+    if (this.idleListener !== listener) {
+      return;
+    }
+
+    this.idleListener = null;
+    if (!this.isRunning || this.shouldStop) {
+      return;
+    }
+
+    const errorMessage = error ? error.message : 'connection closed';
+    this.logSystem(`Push connection lost, polling until it is restored: ${errorMessage}`, { error: errorMessage });
+
+    if (!this.isPaused) {
+      this.scheduleChecks();
+    }
+    this.schedulePushReconnect();
+  }
+
+  private schedulePushReconnect(): void {
+    if (this.reconnectTimer || this.shouldStop) {
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (!this.isRunning || this.shouldStop || !this.config.pushMode || this.idleListener) {
+        return;
+      }
+
+      await this.startPush();
+      // Pick up anything that arrived while the connection was down
+      if (this.isPushActive()) {
+        this.requestCheck();
+      }
+    }, this.config.idleReconnectDelay);
+  }
+
+  private isPushActive(): boolean {
+    return this.idleListener?.isListening() ?? false;
+  }
+
+  /**
+   * Check the inbox after a new mail notification, or right after the
+   * current check when one is running
+   */
+  private requestCheck(): void {
+    // While backing off or failed the retry timer decides when to check
+    if (!this.isRunning || this.isPaused || this.shouldStop || this.consecutiveFailures > 0) {
+      return;
+    }
+    if (this.isProcessing) {
+      this.checkRequested = true;
+      return;
+    }
+
+    this.pollInbox();
+  }
+
+  /**
+   * Parse fetched message sources, logging and skipping any that cannot be parsed
+   */
+  private async parseMessages(rawMessages: RawMessage[], mailbox: string): Promise<Email[]> {
+    const emails: Email[] = [];
+
+    for (const raw of rawMessages) {
+      try {
+        const email = await parseEmail(raw.uid, raw.source, { receivedAt: raw.internalDate, mailbox });
+        if (email.from) {
+          emails.push(email);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
+        this.logActivity({
+          id: randomUUID(),
+          timestamp: new Date(),
+          type: 'error',
+          emailId: raw.uid,
+          details: `Failed to parse email: ${errorMessage}`,
+          metadata: { mailbox, error: errorMessage },
+        });
+      }
+    }
+
+    return emails;
+  }
+
   /**
    * Process a single email through the pipeline
    */
   async processEmail(email: Email): Promise<void> {
     try {
-      // Filter the email
-      const filterDecision = this.config.messageFilter.shouldAutoReply(email);
+      // Skip emails handled before, e.g. when marking them read did not stick
+      const mailbox = email.mailbox || DEFAULT_MAILBOX;
+      const processed = await this.config.ledger?.find(mailbox, this.uidValidities.get(mailbox) ?? 0, email);
+      if (processed) {
+        this.logActivity({
+          id: randomUUID(),
+          timestamp: new Date(),
+          type: 'email_filtered',
+          emailId: email.id,
+          ...(processed.replyId && { replyId: processed.replyId }),
+          details: `Email already processed (${processed.decision}), skipping`,
+          metadata: { from: email.from, subject: email.subject, decision: processed.decision },
+        });
+        if (processed.decision !== 'left_unread') {
+          await this.completeEmail(email);
+        }
+        return;
+      }
+
+      // Filter the email with the rules of its folder
+      const mailboxConfig = this.getMailboxes().find(m => m.name === mailbox);
+      const filterDecision = this.config.messageFilter.shouldAutoReply(email, mailboxConfig?.ruleIds);
+      const action = filterDecision.action;
+      const ruleMetadata = filterDecision.matchedRule
+        ? { ruleId: filterDecision.matchedRule.id, ruleName: filterDecision.matchedRule.name, action: action?.type }
+        : {};
 
       if (!filterDecision.approved) {
+        if (action?.type === 'leave_unread') {
+          this.leftUnread.add(this.emailKey(email));
+          this.logActivity({
+            id: randomUUID(),
+            timestamp: new Date(),
+            type: 'email_filtered',
+            emailId: email.id,
+            details: `Email left unread: ${filterDecision.reason}`,
+            metadata: { from: email.from, subject: email.subject, filterStage: filterDecision.filterStage, ...ruleMetadata },
+          });
+          await this.recordDecision(email, 'left_unread', filterDecision.reason);
+          await this.runPostActions(email, 'left_unread', action.postActions);
+          return;
+        }
+
         this.logActivity({
           id: randomUUID(),
           timestamp: new Date(),
           type: 'email_filtered',
           emailId: email.id,
-          details: `Email filtered out: ${filterDecision.reason}`,
-          metadata: { from: email.from, subject: email.subject },
+          details: action?.type === 'mark_read'
+            ? `Email marked as read without reply: ${filterDecision.reason}`
+            : `Email filtered out: ${filterDecision.reason}`,
+          metadata: { from: email.from, subject: email.subject, filterStage: filterDecision.filterStage, ...ruleMetadata },
         });
         
+        await this.recordDecision(email, 'filtered', filterDecision.reason);
+
         // Mark as read even if filtered
-        await this.config.readTracker.markAsRead(email.id);
+        await this.completeEmail(email, 'filtered', action?.postActions);
         return;
       }
 
+      // Skip senders that already received an auto-reply within the cooldown window
+      if (this.config.senderThrottle) {
+        const throttleDecision = await this.config.senderThrottle.check(email);
+
+        if (throttleDecision.throttled) {
+          this.logActivity({
+            id: randomUUID(),
+            timestamp: new Date(),
+            type: 'email_throttled',
+            emailId: email.id,
+            details: `Auto-reply throttled: ${throttleDecision.reason}`,
+            metadata: {
+              from: email.from,
+              subject: email.subject,
+              lastReplyAt: throttleDecision.lastReplyAt?.toISOString(),
+              nextAllowedAt: throttleDecision.nextAllowedAt?.toISOString(),
+            },
+          });
+
+          await this.recordDecision(email, 'throttled', throttleDecision.reason);
+          await this.completeEmail(email, 'throttled', action?.postActions);
+          return;
+        }
+      }
+
       // Generate reply
-      const reply = this.config.autoResponder.generateReply(email);
+      // An inline rule template wins over stored templates
+      const storedTemplate = action?.template ? null : this.config.templateSelector?.select(filterDecision, mailboxConfig?.templateId);
+      const reply = this.config.autoResponder.generateReply(email, {
+        template: action?.template ?? storedTemplate?.body,
+        htmlTemplate: storedTemplate?.htmlBody,
+        assetIds: storedTemplate?.assetIds,
+        requireConfirmation: action?.type === 'queue',
+      });
+      const templateMetadata = storedTemplate ? { templateId: storedTemplate.id, templateName: storedTemplate.name } : {};
 
       // Handle based on manual confirmation setting
       if (reply.status === 'pending') {
         // Queue for manual confirmation
         this.config.autoResponder.queueForConfirmation(reply);
+        await this.recordDecision(email, 'queued', undefined, reply);
+        await this.config.senderThrottle?.recordReply(email);
+        await this.runPostActions(email, 'queued', action?.postActions);
         
         this.logActivity({
           id: randomUUID(),
@@ -255,31 +944,43 @@ export class EmailMonitorImpl implements EmailMonitor {
           emailId: email.id,
           replyId: reply.id,
           details: `Reply queued for manual confirmation`,
-          metadata: { from: email.from, subject: email.subject },
+          metadata: { from: email.from, subject: email.subject, ...ruleMetadata, ...templateMetadata },
         });
       } else {
-        // Send immediately
+        // Send immediately, noting the attempt first so a crash mid-send is not answered again
+        await this.recordDecision(email, 'sending', undefined, reply);
         const result = await this.config.autoResponder.sendReply(reply);
+        if (!result.success && this.config.ledger) {
+          // Keep the reply queued so an approver can send it again
+          this.config.autoResponder.queueForConfirmation(reply);
+        }
+        await this.recordDecision(email, result.success ? 'replied' : 'send_failed', result.error, reply);
+        if (result.success) {
+          await this.config.senderThrottle?.recordReply(email, result.sentAt);
+        }
         
         // Mark as read after sending (or attempting to send)
-        await this.config.readTracker.markAsRead(email.id);
+        await this.completeEmail(email, result.success ? 'replied' : 'send_failed', action?.postActions);
       }
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      this.logActivity({
-        id: randomUUID(),
-        timestamp: new Date(),
-        type: 'error',
-        emailId: email.id,
-        details: `Error processing email: ${errorMessage}`,
-        metadata: { from: email.from, subject: email.subject, error: errorMessage },
-      });
-      
       // Continue processing other emails despite error
+      this.logProcessingError(email, error);
     }
   }
 
+  private logProcessingError(email: Email, error: unknown): void {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    this.logActivity({
+      id: randomUUID(),
+      timestamp: new Date(),
+      type: 'error',
+      emailId: email.id,
+      details: `Error processing email: ${errorMessage}`,
+      metadata: { from: email.from, subject: email.subject, error: errorMessage },
+    });
+  }
+
   /**
    * Poll the inbox and process unread emails
    */
@@ -289,23 +990,60 @@ export class EmailMonitorImpl implements EmailMonitor {
     }
 
     this.isProcessing = true;
+    this.lastPollAt = new Date();
+    const failuresBefore = this.consecutiveFailures;
 
     try {
+      this.syncCursors.clear();
       const emails = await this.checkInbox();
+      const cursors = new Map(this.syncCursors);
       
       // Reset consecutive failures on success
       this.consecutiveFailures = 0;
+      this.lastSuccessAt = new Date();
+      this.lastError = undefined;
+
+      // Process each email, then mark them read together once all are handled
+      let completed = true;
+      const pendingReads = new Map<string, PendingRead[]>();
+      this.pendingReads = pendingReads;
+      try {
+        for (const email of emails) {
+          if (this.shouldStop) {
+            completed = false;
+            break;
+          }
+          if (!this.leftUnread.has(this.emailKey(email))) {
+            await this.processEmail(email);
+          }
+
+          const mailbox = email.mailbox || DEFAULT_MAILBOX;
+          const cursor = cursors.get(mailbox);
+          if (!cursor) {
+            continue;
+          }
+          if (!cursor.lastReceivedAt || email.receivedAt > cursor.lastReceivedAt) {
+            cursor.lastReceivedAt = email.receivedAt;
+          }
+          if (cursor.incremental) {
+            await this.saveSyncState(mailbox, cursor, Number(email.id));
+          }
+        }
+      } finally {
+        this.pendingReads = null;
+        await this.markAllRead(pendingReads);
+      }
 
-      // Process each email
-      for (const email of emails) {
-        if (this.shouldStop) {
-          break;
+      // A resync only moves the cursor once the whole batch is handled
+      if (completed) {
+        for (const [mailbox, cursor] of cursors) {
+          await this.saveSyncState(mailbox, cursor, cursor.lastUid);
         }
-        await this.processEmail(email);
       }
     } catch (error) {
       this.consecutiveFailures++;
       const errorMessage = error instanceof Error ? error.message : String(error);
+      this.lastError = errorMessage;
       
       this.logActivity({
         id: randomUUID(),
@@ -323,15 +1061,148 @@ export class EmailMonitorImpl implements EmailMonitor {
           timestamp: new Date(),
           type: 'error',
           emailId: 'system',
-          details: `Maximum consecutive failures reached (${this.MAX_CONSECUTIVE_FAILURES}). Connection issues detected.`,
+          details: `Maximum consecutive failures reached (${this.MAX_CONSECUTIVE_FAILURES}). Checks stopped until the monitor is resumed.`,
           metadata: { consecutiveFailures: this.consecutiveFailures },
         });
       }
 
-      // Continue running despite errors (will retry on next interval)
     } finally {
       this.isProcessing = false;
     }
+
+    // Back off after a failure, stop at the limit, and return to the regular schedule on success
+    if ((this.consecutiveFailures > 0 || failuresBefore > 0) && this.isRunning && !this.isPaused && !this.shouldStop) {
+      this.scheduleChecks();
+    }
+
+    if (this.checkRequested) {
+      this.checkRequested = false;
+      if (!this.isPaused) {
+        await this.pollInbox();
+      }
+    }
+  }
+
+  /**
+   * Mark a handled email read, then run its post-actions. During a check this
+   * waits until the check has handled every email, so each mailbox is flagged
+   * with a single update.
+   */
+  private async completeEmail(email: Email, outcome?: PostActionOutcome, ruleActions?: PostAction[]): Promise<void> {
+    const mailbox = email.mailbox || DEFAULT_MAILBOX;
+    if (!this.config.leaveUnread || !this.config.syncStateStore) {
+      if (this.pendingReads) {
+        const pending = this.pendingReads.get(mailbox) ?? [];
+        pending.push({ email, outcome, ruleActions });
+        this.pendingReads.set(mailbox, pending);
+        return;
+      }
+      await this.config.readTracker.markAsRead(email.id, mailbox);
+    }
+
+    if (outcome) {
+      await this.runPostActions(email, outcome, ruleActions);
+    }
+  }
+
+  /**
+   * Mark the emails handled by a check read, one update per mailbox, then run
+   * their post-actions; emails that could not be marked are left as they are
+   */
+  private async markAllRead(pendingReads: Map<string, PendingRead[]>): Promise<void> {
+    for (const [mailbox, pending] of pendingReads) {
+      try {
+        await this.config.readTracker.markAllAsRead(pending.map(({ email }) => email.id), mailbox);
+      } catch (error) {
+        pending.forEach(({ email }) => this.logProcessingError(email, error));
+        continue;
+      }
+
+      for (const { email, outcome, ruleActions } of pending) {
+        if (!outcome) {
+          continue;
+        }
+        try {
+          await this.runPostActions(email, outcome, ruleActions);
+        } catch (error) {
+          this.logProcessingError(email, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Run the post-actions of the matched rule, or else those configured for
+   * the outcome, logging each one that fails
+   */
+  private async runPostActions(email: Email, outcome: PostActionOutcome, ruleActions?: PostAction[]): Promise<void> {
+    let actions = ruleActions ?? this.config.postActions?.[outcome] ?? [];
+
+    // Approving or rejecting a queued reply needs the email where it is
+    if (outcome === 'queued' && actions.some(action => action.type === 'move')) {
+      this.logPostActionFailure(email, outcome, 'move', 'queued mail is not moved until its reply is approved or rejected');
+      actions = actions.filter(action => action.type !== 'move');
+    }
+    if (actions.length === 0) {
+      return;
+    }
+
+    const failures = await this.config.readTracker.applyPostActions(email.id, actions, email.mailbox || DEFAULT_MAILBOX);
+    for (const failure of failures) {
+      this.logPostActionFailure(email, outcome, describePostAction(failure.action), failure.error);
+    }
+  }
+
+  private logPostActionFailure(email: Email, outcome: PostActionOutcome, action: string, error: string): void {
+    this.logActivity({
+      id: randomUUID(),
+      timestamp: new Date(),
+      type: 'error',
+      emailId: email.id,
+      details: `Post-action ${action} failed: ${error}`,
+      metadata: { from: email.from, subject: email.subject, mailbox: email.mailbox || DEFAULT_MAILBOX, outcome, error },
+    });
+  }
+
+  /**
+   * UIDs are only unique within a folder
+   */
+  private emailKey(email: Email): string {
+    return `${email.mailbox || DEFAULT_MAILBOX}:${email.id}`;
+  }
+
+  private async recordDecision(
+    email: Email,
+    decision: ProcessingDecision,
+    reason?: string,
+    reply?: Reply
+  ): Promise<void> {
+    if (!this.config.ledger) {
+      return;
+    }
+
+    const mailbox = email.mailbox || DEFAULT_MAILBOX;
+    await this.config.ledger.record({
+      mailbox,
+      uid: email.id,
+      uidValidity: this.uidValidities.get(mailbox) ?? 0,
+      ...(email.messageId && { messageId: email.messageId }),
+      decision,
+      ...(reply && { replyId: reply.id }),
+      ...(reason && { reason }),
+      processedAt: new Date(),
+    }, reply);
+  }
+
+  private logSystem(details: string, metadata?: Record<string, any>): void {
+    this.logActivity({
+      id: randomUUID(),
+      timestamp: new Date(),
+      type: 'email_filtered',
+      emailId: 'system',
+      details,
+      ...(metadata && { metadata }),
+    });
   }
 
   /**
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IdleListener } from './IdleListener';
+import { EmailMonitorImpl, ImapConfig } from './EmailMonitor';
+import { ImapStandIn } from './fixtures/ImapStandIn';
+import { ActivityLog } from '../models';
+import { MessageFilter } from '../filter';
+import { ReadTracker } from '../responder';
+
+// Runs against an in-process IMAP server; EmailMonitor.test.ts mocks the imap module instead
+
+function message(subject: string, from = 'alice@example.com'): string {
+  return [
+    `From: ${from}`,
+    'To: bot@example.org',
+    `Subject: ${subject}`,
+    `Message-ID: <${subject.replace(/\s/g, '-')}@example.com>`,
+    'Date: Mon, 19 Oct 2026 09:00:00 +0000',
+    '',
+    `Body of ${subject}`,
+    '',
+  ].join('\r\n');
+}
+
+async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('IdleListener', () => {
+  let server: ImapStandIn;
+  let imapConfig: ImapConfig;
+
+  const startServer = async (capabilities?: string[]) => {
+    server = new ImapStandIn({ capabilities });
+    const port = await server.start();
+    imapConfig = { user: server.user, password: server.password, host: '127.0.0.1', port, tls: false };
+  };
+
+  afterEach(async () => {
+    await server?.stop();
+  });
+
+  it('should report new mail while idling', async () => {
+    await startServer();
+    const onMail = vi.fn();
+    const listener = new IdleListener(imapConfig, { onMail, onClose: vi.fn() });
+
+    expect(await listener.connect()).toBe('listening');
+    await waitFor(() => server.isIdling());
+
+    server.addMessage(message('Hello'));
+    await waitFor(() => onMail.mock.calls.length > 0);
+
+    expect(listener.isListening()).toBe(true);
+    await listener.close();
+    expect(listener.isListening()).toBe(false);
+  });
+
+  it('should return unsupported and close when the server lacks IDLE', async () => {
+    await startServer(['IMAP4rev1']);
+    const listener = new IdleListener(imapConfig, { onMail: vi.fn(), onClose: vi.fn() });
+
+    expect(await listener.connect()).toBe('unsupported');
+    expect(listener.getConnection()).toBeNull();
+    await waitFor(() => server.connectionCount() === 0);
+  });
+
+  it('should report a dropped connection but not a closed one', async () => {
+    await startServer();
+    const onClose = vi.fn();
+    const listener = new IdleListener(imapConfig, { onMail: vi.fn(), onClose });
+
+    await listener.connect();
+    server.dropConnections();
+    await waitFor(() => onClose.mock.calls.length === 1);
+    expect(listener.isListening()).toBe(false);
+
+    await listener.connect();
+    await listener.close();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject when login fails', async () => {
+    await startServer();
+    const listener = new IdleListener({ ...imapConfig, password: 'wrong' }, { onMail: vi.fn(), onClose: vi.fn() });
+
+    await expect(listener.connect()).rejects.toThrow();
+    expect(listener.isListening()).toBe(false);
+  });
+});
+
+describe('EmailMonitor push mode', () => {
+  let server: ImapStandIn;
+  let monitor: EmailMonitorImpl;
+  let processed: string[];
+  let logs: ActivityLog[];
+
+  const createMonitor = (port: number, overrides: { checkInterval?: number; idleReconnectDelay?: number } = {}) => {
+    const messageFilter = {
+      shouldAutoReply: vi.fn().mockImplementation((email) => {
+        processed.push(email.subject);
+        return { approved: false, reason: 'test' };
+      }),
+    } as unknown as MessageFilter;
+    const readTracker: ReadTracker = {
+      markAsRead: vi.fn().mockResolvedValue(undefined),
+      markAllAsRead: vi.fn().mockResolvedValue(undefined),
+      isRead: vi.fn().mockResolvedValue(false),
+      applyPostActions: vi.fn().mockResolvedValue([]),
+    };
+
+    monitor = new EmailMonitorImpl({
+      imapConfig: { user: server.user, password: server.password, host: '127.0.0.1', port, tls: false },
+      messageFilter,
+      autoResponder: {} as any,
+      readTracker,
+      pushMode: true,
+      checkInterval: overrides.checkInterval ?? 60000,
+      idleReconnectDelay: overrides.idleReconnectDelay,
+      onLog: (log) => logs.push(log),
+    });
+    return monitor;
+  };
+
+  beforeEach(() => {
+    processed = [];
+    logs = [];
+  });
+
+  afterEach(async () => {
+    await monitor?.stop();
+    await server?.stop();
+  });
+
+  it('should process new mail as soon as the server reports it', async () => {
+    server = new ImapStandIn();
+    const port = await server.start();
+    createMonitor(port);
+
+    await monitor.start();
+    expect(monitor.getStatus().mode).toBe('push');
+    expect(monitor.getStatus().nextCheckAt).toBeUndefined();
+    await waitFor(() => server.isIdling());
+
+    server.addMessage(message('Pushed'));
+    await waitFor(() => processed.includes('Pushed'));
+
+    // Checks run over the listening connection instead of logging in again
+    expect(server.loginCount).toBe(1);
+  });
+
+  it('should poll when the server does not support IDLE', async () => {
+    server = new ImapStandIn({ capabilities: ['IMAP4rev1'] });
+    const port = await server.start();
+    createMonitor(port, { checkInterval: 100 });
+
+    await monitor.start();
+    expect(monitor.getStatus().mode).toBe('polling');
+    expect(logs.some(log => log.details.includes('does not support IDLE'))).toBe(true);
+
+    server.addMessage(message('Polled'));
+    await waitFor(() => processed.includes('Polled'));
+  });
+
+  it('should fall back to polling when the connection drops and reconnect later', async () => {
+    server = new ImapStandIn();
+    const port = await server.start();
+    createMonitor(port, { checkInterval: 100, idleReconnectDelay: 300 });
+
+    await monitor.start();
+    await waitFor(() => server.isIdling());
+
+    server.dropConnections();
+    await waitFor(() => monitor.getStatus().mode === 'polling');
+    expect(logs.some(log => log.details.includes('Push connection lost'))).toBe(true);
+
+    server.addMessage(message('While down'));
+    await waitFor(() => processed.includes('While down'));
+
+    await waitFor(() => monitor.getStatus().mode === 'push');
+    expect(monitor.getStatus().nextCheckAt).toBeUndefined();
+  });
+
+  it('should switch between push and polling while running', async () => {
+    server = new ImapStandIn();
+    const port = await server.start();
+    createMonitor(port);
+
+    await monitor.start();
+    expect(monitor.getStatus().mode).toBe('push');
+
+    await monitor.setPushMode(false);
+    expect(monitor.getStatus().mode).toBe('polling');
+    expect(monitor.getStatus().nextCheckAt).toBeDefined();
+    await waitFor(() => server.connectionCount() === 0);
+
+    await monitor.setPushMode(true);
+    expect(monitor.getStatus().mode).toBe('push');
+  });
+});
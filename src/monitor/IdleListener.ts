@@ -0,0 +1,150 @@
+import Imap from 'imap';
+import type { ImapConfig } from './EmailMonitor';
+import { imapConnectionError, resolveImapLogin, retryWithFreshToken } from '../imap';
+
+/**
+ * - listening: connected with the mailbox open, waiting for new mail
+ * - unsupported: the server does not advertise IDLE; the connection was closed
+ */
+export type IdleConnectResult = 'listening' | 'unsupported';
+
+export interface IdleListenerOptions {
+  onMail: () => void;
+  onClose: (error?: Error) => void;
+  mailbox?: string; // Defaults to INBOX
+}
+
+/**
+ * Keeps one authenticated IMAP connection open on a mailbox and waits for
+ * new mail with IDLE. The imap client enters IDLE on its own whenever no
+ * command is running and reports new messages through its 'mail' event;
+ * commands issued on the connection leave IDLE and re-enter it afterwards.
+ */
+export class IdleListener {
+  private imapConfig: ImapConfig;
+  private options: IdleListenerOptions;
+  private imap: Imap | null = null;
+  private box: Imap.Box | null = null;
+  private closing: boolean = false;
+
+  constructor(imapConfig: ImapConfig, options: IdleListenerOptions) {
+    this.imapConfig = imapConfig;
+    this.options = options;
+  }
+
+  /**
+   * Connect and open the mailbox. Rejects when the connection or login fails.
+   */
+  connect(): Promise<IdleConnectResult> {
+    return retryWithFreshToken(this.imapConfig, () => this.connectOnce());
+  }
+
+  private async connectOnce(): Promise<IdleConnectResult> {
+    const login = await resolveImapLogin(this.imapConfig);
+    return new Promise((resolve, reject) => {
+      const imap = new Imap({ ...login, keepalive: true });
+      let settled = false;
+
+      const fail = (error: Error) => {
+        if (!settled) {
+          settled = true;
+          reject(error);
+        }
+      };
+
+      imap.once('ready', () => {
+        if (!imap.serverSupports('IDLE')) {
+          settled = true;
+          imap.end();
+          resolve('unsupported');
+          return;
+        }
+
+        const mailbox = this.options.mailbox || 'INBOX';
+        imap.openBox(mailbox, false, (err: Error | null, box: Imap.Box) => {
+          if (err) {
+            imap.end();
+            fail(new Error(`Failed to open ${mailbox}: ${err.message}`));
+            return;
+          }
+
+          this.closing = false;
+          this.imap = imap;
+          this.box = box;
+          settled = true;
+          resolve('listening');
+        });
+      });
+
+      // Mail reported while the mailbox is being opened is picked up by the first check
+      imap.on('mail', () => {
+        if (this.imap === imap) {
+          this.options.onMail();
+        }
+      });
+
+      imap.on('error', (err: Error) => {
+        fail(imapConnectionError(err));
+        this.handleClose(imap, err);
+      });
+
+      imap.once('close', () => {
+        fail(new Error('IMAP connection closed'));
+        this.handleClose(imap);
+      });
+
+      try {
+        imap.connect();
+      } catch (err) {
+        fail(new Error(`Failed to connect to IMAP server: ${err}`));
+      }
+    });
+  }
+
+  /**
+   * The open connection with the mailbox selected, or null when not listening
+   */
+  getConnection(): Imap | null {
+    return this.imap;
+  }
+
+  /**
+   * Status of the open mailbox, kept up to date by the imap client
+   */
+  getMailbox(): Imap.Box | null {
+    return this.imap ? this.box : null;
+  }
+
+  isListening(): boolean {
+    return this.imap !== null;
+  }
+
+  /**
+   * Log out and close the connection without reporting it as dropped
+   */
+  async close(): Promise<void> {
+    const imap = this.imap;
+    this.closing = true;
+    this.imap = null;
+
+    if (!imap || imap.state === 'disconnected') {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      imap.once('close', () => resolve());
+      imap.end();
+    });
+  }
+
+  private handleClose(imap: Imap, error?: Error): void {
+    if (this.imap !== imap) {
+      return;
+    }
+
+    this.imap = null;
+    if (!this.closing) {
+      this.options.onClose(error);
+    }
+  }
+}
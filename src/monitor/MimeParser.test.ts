@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parseEmail, htmlToText } from './MimeParser';
+import { isEmail } from '../models';
+
+function loadFixture(name: string): Buffer {
+  return readFileSync(path.join(__dirname, 'fixtures', name));
+}
+
+describe('MimeParser', () => {
+  describe('fixture messages', () => {
+    it('should decode quoted-printable ISO-8859-1 text and encoded-word headers', async () => {
+      const email = await parseEmail('101', loadFixture('plain-quoted-printable.eml'));
+
+      expect(isEmail(email)).toBe(true);
+      expect(email.id).toBe('101');
+      expect(email.from).toBe('jorg@example.com');
+      expect(email.fromName).toBe('Jörg Müller');
+      expect(email.to).toBe('support@example.org');
+      expect(email.subject).toBe('Prüfung der Rechnung');
+      expect(email.body).toContain('bitte prüfen Sie die Rechnung Nr. 42');
+      expect(email.body).toContain('scheint zu hoch.');
+      expect(email.body).toContain('Grüße');
+      expect(email.textBody).toBe(email.body);
+      expect(email.htmlBody).toBeUndefined();
+      expect(email.cc).toEqual(['alice@example.com', 'bob@example.net']);
+      expect(email.replyTo).toBe('billing@example.com');
+      expect(email.messageId).toBe('<qp-001@example.com>');
+      expect(email.receivedAt.toISOString()).toBe('2026-10-05T09:14:32.000Z');
+      expect(email.attachments).toEqual([]);
+    });
+
+    it('should expose unfolded headers keyed by lower-cased name', async () => {
+      const email = await parseEmail('101', loadFixture('plain-quoted-printable.eml'));
+
+      expect(email.headers?.['x-ticket-ref']).toBe('first part second part');
+      expect(email.headers?.['content-transfer-encoding']).toBe('quoted-printable');
+      expect(email.headers?.['message-id']).toBe('<qp-001@example.com>');
+    });
+
+    it('should capture In-Reply-To and References for threading', async () => {
+      const email = await parseEmail('101', loadFixture('plain-quoted-printable.eml'));
+
+      expect(email.inReplyTo).toBe('<thread-2@example.org>');
+      expect(email.references).toEqual(['<thread-1@example.org>', '<thread-2@example.org>']);
+    });
+
+    it('should prefer the text/plain part of multipart/alternative base64 messages', async () => {
+      const email = await parseEmail('102', loadFixture('alternative-base64.eml'));
+
+      expect(email.subject).toBe('Outage report ✓');
+      expect(email.body).toBe('Hello team,\n\nThe outage on the ünicode cluster ✓ started at 10:00 UTC.');
+      expect(email.htmlBody).toContain('<b>team</b>');
+      expect(email.body).not.toContain('--alt-boundary');
+      expect(email.body).not.toContain('Content-Transfer-Encoding');
+    });
+
+    it('should fall back to sanitized text from HTML and list attachments', async () => {
+      const email = await parseEmail('103', loadFixture('html-related-attachment.eml'));
+
+      expect(email.body).toBe('Please send a quote for 20 seats.');
+      expect(email.body).not.toContain('alert');
+      expect(email.body).not.toContain('color: red');
+      expect(email.htmlBody).toContain('cid:logo@customer.example.com');
+
+      expect(email.attachments).toEqual([
+        {
+          filename: 'logo.png',
+          contentType: 'image/png',
+          size: 68,
+          contentId: '<logo@customer.example.com>',
+          inline: true,
+        },
+        {
+          filename: 'requirements.pdf',
+          contentType: 'application/pdf',
+          size: 33,
+          inline: false,
+        },
+      ]);
+    });
+  });
+
+  it('should use the provided receive date when the Date header is missing', async () => {
+    const receivedAt = new Date('2026-01-02T03:04:05.000Z');
+    const source = 'From: a@example.com\r\nTo: b@example.com\r\nSubject: No date\r\n\r\nHi';
+
+    const email = await parseEmail('104', source, { receivedAt });
+
+    expect(email.receivedAt).toEqual(receivedAt);
+    expect(email.body).toBe('Hi');
+  });
+
+  /**
+   * For any UTF-8 text body, encoding it as base64 in a message and parsing it
+   * back should yield the original text rather than the encoded source.
+   */
+  it('should round-trip base64-encoded UTF-8 bodies', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.fullUnicodeString({ minLength: 1, maxLength: 200 })
+          .map(text => text.replace(/[\s\u0000-\u001f\u007f-\u009f]+/g, ' ').trim())
+          .filter(text => text.length > 0),
+        async (text) => {
+          const encoded = Buffer.from(text, 'utf8').toString('base64');
+          const source = [
+            'From: sender@example.com',
+            'To: recipient@example.com',
+            'Subject: Property',
+            'MIME-Version: 1.0',
+            'Content-Type: text/plain; charset=UTF-8',
+            'Content-Transfer-Encoding: base64',
+            '',
+            encoded,
+          ].join('\r\n');
+
+          const email = await parseEmail('1', source);
+
+          expect(email.body).toBe(text);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  describe('htmlToText', () => {
+    it('should drop scripts, styles and images', () => {
+      const text = htmlToText('<style>a{}</style><script>x()</script><p>Hi <img src="a.png">there</p>');
+
+      expect(text).toBe('Hi there');
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { simpleParser, AddressObject, EmailAddress } from 'mailparser';
+import { convert } from 'html-to-text';
+import { Email, EmailAttachment } from '../models';
+
+export interface ParseEmailOptions {
+  receivedAt?: Date;
+  isRead?: boolean;
+  mailbox?: string;
+}
+
+/**
+ * Parse a raw RFC 822 message into an Email.
+ *
+ * Transfer encodings and charsets are decoded, the text/plain part becomes the
+ * body, and HTML-only messages fall back to a plain-text rendering of the HTML.
+ */
+export async function parseEmail(
+  id: string,
+  source: Buffer | string,
+  options: ParseEmailOptions = {}
+): Promise<Email> {
+  const parsed = await simpleParser(source, { keepCidLinks: true });
+
+  const htmlBody = parsed.html || undefined;
+  let textBody = parsed.text || '';
+  if (!textBody.trim() && htmlBody) {
+    textBody = htmlToText(htmlBody);
+  }
+  textBody = textBody.replace(/\r\n/g, '\n').trimEnd();
+
+  const replyTo = flattenAddresses(parsed.replyTo)[0];
+  const fromName = parsed.from?.value[0]?.name?.trim();
+  const references = parsed.references
+    ? ([] as string[]).concat(parsed.references)
+    : undefined;
+
+  return {
+    id,
+    ...(options.mailbox && { mailbox: options.mailbox }),
+    from: flattenAddresses(parsed.from)[0] || '',
+    ...(fromName && { fromName }),
+    to: flattenAddresses(parsed.to)[0] || '',
+    subject: parsed.subject || '',
+    body: textBody,
+    receivedAt: parsed.date || options.receivedAt || new Date(),
+    isRead: options.isRead ?? false,
+    textBody,
+    htmlBody,
+    headers: collectHeaders(parsed.headerLines),
+    cc: flattenAddresses(parsed.cc),
+    ...(replyTo && { replyTo }),
+    ...(parsed.messageId && { messageId: parsed.messageId }),
+    ...(parsed.inReplyTo && { inReplyTo: parsed.inReplyTo }),
+    ...(references && { references }),
+    attachments: parsed.attachments.map((attachment): EmailAttachment => ({
+      ...(attachment.filename && { filename: attachment.filename }),
+      contentType: attachment.contentType,
+      size: attachment.size,
+      ...(attachment.contentId && { contentId: attachment.contentId }),
+      inline: attachment.contentDisposition === 'inline' || attachment.related === true,
+    })),
+  };
+}
+
+/**
+ * Render HTML as readable plain text, dropping images, scripts and styles
+ */
+export function htmlToText(html: string): string {
+  return convert(html, {
+    wordwrap: false,
+    selectors: [
+      { selector: 'img', format: 'skip' },
+      { selector: 'a', options: { hideLinkHrefIfSameAsText: true } },
+    ],
+  });
+}
+
+/**
+ * Extract bare addresses from one or more parsed address headers, including group members
+ */
+function flattenAddresses(value: AddressObject | AddressObject[] | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  const entries: EmailAddress[] = (Array.isArray(value) ? value : [value])
+    .flatMap(addressObject => addressObject.value);
+
+  return entries
+    .flatMap(entry => (entry.group ? entry.group : [entry]))
+    .map(entry => entry.address || '')
+    .filter(address => address.length > 0);
+}
+
+/**
+ * Build a lower-cased header map from the raw header lines.
+ * Folded values are unfolded; repeated headers keep their topmost occurrence.
+ */
+function collectHeaders(headerLines: ReadonlyArray<{ key: string; line: string }>): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  for (const { key, line } of headerLines) {
+    const name = key.toLowerCase();
+    if (Object.prototype.hasOwnProperty.call(headers, name)) {
+      continue;
+    }
+    const separator = line.indexOf(':');
+    headers[name] = line
+      .substring(separator + 1)
+      .replace(/\r?\n[ \t]+/g, ' ')
+      .trim();
+  }
+
+  return headers;
+}
@@ -0,0 +1,480 @@
+import net from 'net';
+
+/**
+ * A small in-process IMAP server for tests. It speaks just enough IMAP4rev1
+ * for the imap client: LOGIN, AUTHENTICATE XOAUTH2, LIST, SELECT/EXAMINE, UID SEARCH/FETCH/STORE,
+ * UID COPY/MOVE, IDLE and NOOP, with messages kept in memory.
+ */
+
+export interface StandInMessage {
+  uid: number;
+  flags: string[];
+  source: string;
+  internalDate: Date;
+}
+
+interface StandInMailbox {
+  uidValidity: number;
+  uidNext: number;
+  messages: StandInMessage[];
+}
+
+interface Session {
+  socket: net.Socket;
+  authenticated: boolean;
+  selected?: string;
+  knownExists: number;
+  idleTag?: string;
+}
+
+export interface ImapStandInOptions {
+  user?: string;
+  password?: string;
+  capabilities?: string[];
+  accessToken?: string; // Accepted by AUTHENTICATE XOAUTH2, which is advertised when set
+}
+
+const DEFAULT_CAPABILITIES = ['IMAP4rev1', 'IDLE', 'MOVE'];
+
+export class ImapStandIn {
+  readonly user: string;
+  readonly password: string;
+  readonly commands: string[] = [];
+  loginCount = 0;
+  accessToken?: string;
+
+  private server: net.Server;
+  private sessions: Set<Session> = new Set();
+  private mailboxes: Map<string, StandInMailbox> = new Map();
+  private capabilities: string[];
+
+  constructor(options: ImapStandInOptions = {}) {
+    this.user = options.user || 'bot@example.org';
+    this.password = options.password || 'secret';
+    this.accessToken = options.accessToken;
+    this.capabilities = options.capabilities ||
+      (options.accessToken ? [...DEFAULT_CAPABILITIES, 'AUTH=XOAUTH2'] : DEFAULT_CAPABILITIES);
+    this.mailboxes.set('INBOX', { uidValidity: 1, uidNext: 1, messages: [] });
+    this.server = net.createServer(socket => this.accept(socket));
+  }
+
+  /**
+   * Listen on a free local port and return it
+   */
+  start(): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () => {
+        resolve((this.server.address() as net.AddressInfo).port);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    this.dropConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Close every client connection, as a server restart or network failure would
+   */
+  dropConnections(): void {
+    for (const session of this.sessions) {
+      session.socket.destroy();
+    }
+    this.sessions.clear();
+  }
+
+  /**
+   * Number of clients currently connected
+   */
+  connectionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Whether any client is currently in IDLE
+   */
+  isIdling(): boolean {
+    return Array.from(this.sessions).some(session => session.idleTag !== undefined);
+  }
+
+  addMailbox(name: string, uidValidity = 1): void {
+    if (!this.mailboxes.has(name)) {
+      this.mailboxes.set(name, { uidValidity, uidNext: 1, messages: [] });
+    }
+  }
+
+  /**
+   * Deliver a message and notify clients idling on that mailbox
+   */
+  addMessage(source: string, options: { mailbox?: string; flags?: string[]; internalDate?: Date } = {}): number {
+    const name = options.mailbox || 'INBOX';
+    this.addMailbox(name);
+    const mailbox = this.mailboxes.get(name)!;
+    const message: StandInMessage = {
+      uid: mailbox.uidNext++,
+      flags: options.flags || [],
+      source: source.replace(/\r?\n/g, '\r\n'),
+      internalDate: options.internalDate || new Date(),
+    };
+    mailbox.messages.push(message);
+
+    for (const session of this.sessions) {
+      if (session.idleTag !== undefined && session.selected === name) {
+        this.notifyExists(session);
+      }
+    }
+
+    return message.uid;
+  }
+
+  getMessage(uid: number, mailbox = 'INBOX'): StandInMessage | undefined {
+    return this.mailboxes.get(mailbox)?.messages.find(message => message.uid === uid);
+  }
+
+  getMessages(mailbox = 'INBOX'): StandInMessage[] {
+    return this.mailboxes.get(mailbox)?.messages || [];
+  }
+
+  /**
+   * Renumber a mailbox as servers do when they rebuild it: a new UIDVALIDITY
+   * and fresh UIDs for every message
+   */
+  resetUidValidity(mailbox = 'INBOX'): void {
+    const box = this.mailboxes.get(mailbox)!;
+    box.uidValidity++;
+    box.uidNext = 1;
+    for (const message of box.messages) {
+      message.uid = box.uidNext++;
+    }
+  }
+
+  private accept(socket: net.Socket): void {
+    const session: Session = { socket, authenticated: false, knownExists: 0 };
+    this.sessions.add(session);
+    let buffer = '';
+
+    socket.setEncoding('binary');
+    socket.on('data', (data: string) => {
+      buffer += data;
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        this.handle(session, line);
+      }
+    });
+    socket.on('close', () => this.sessions.delete(session));
+    socket.on('error', () => this.sessions.delete(session));
+
+    this.send(session, `* OK [CAPABILITY ${this.capabilities.join(' ')}] IMAP stand-in ready`);
+  }
+
+  private handle(session: Session, line: string): void {
+    if (session.idleTag !== undefined) {
+      if (line.toUpperCase() === 'DONE') {
+        const tag = session.idleTag;
+        session.idleTag = undefined;
+        this.send(session, `${tag} OK IDLE terminated`);
+      }
+      return;
+    }
+
+    const match = /^(\S+) (UID )?(\S+)(?: (.*))?$/i.exec(line);
+    if (!match) {
+      return;
+    }
+    const [, tag, uidPrefix, rawCommand, args = ''] = match;
+    const command = `${uidPrefix ? 'UID ' : ''}${rawCommand.toUpperCase()}`;
+    this.commands.push(`${command}${args ? ` ${args}` : ''}`);
+
+    if (!session.authenticated && !['CAPABILITY', 'LOGIN', 'AUTHENTICATE', 'LOGOUT', 'NOOP'].includes(command)) {
+      this.send(session, `${tag} NO Not authenticated`);
+      return;
+    }
+
+    switch (command) {
+      case 'CAPABILITY':
+        this.send(session, `* CAPABILITY ${this.capabilities.join(' ')}`);
+        this.send(session, `${tag} OK CAPABILITY completed`);
+        return;
+      case 'LOGIN': {
+        const [user, password] = parseStrings(args);
+        if (user !== this.user || password !== this.password) {
+          this.send(session, `${tag} NO [AUTHENTICATIONFAILED] Invalid credentials`);
+          return;
+        }
+        session.authenticated = true;
+        this.loginCount++;
+        this.send(session, `${tag} OK [CAPABILITY ${this.capabilities.join(' ')}] LOGIN completed`);
+        return;
+      }
+      case 'AUTHENTICATE': {
+        const [mechanism, response = ''] = args.split(' ');
+        const expected = `user=${this.user}\x01auth=Bearer ${this.accessToken}\x01\x01`;
+        if (mechanism.toUpperCase() !== 'XOAUTH2' || !this.accessToken ||
+            Buffer.from(response, 'base64').toString() !== expected) {
+          this.send(session, `${tag} NO [AUTHENTICATIONFAILED] Invalid credentials`);
+          return;
+        }
+        session.authenticated = true;
+        this.loginCount++;
+        this.send(session, `${tag} OK AUTHENTICATE completed`);
+        return;
+      }
+      case 'LIST':
+        this.list(session, tag, args);
+        return;
+      case 'SELECT':
+      case 'EXAMINE':
+        this.select(session, tag, parseStrings(args)[0], command === 'EXAMINE');
+        return;
+      case 'UID SEARCH':
+        this.search(session, tag, args);
+        return;
+      case 'UID FETCH':
+        this.fetch(session, tag, args);
+        return;
+      case 'UID STORE':
+        this.store(session, tag, args);
+        return;
+      case 'UID COPY':
+      case 'UID MOVE':
+        this.copy(session, tag, args, command === 'UID MOVE');
+        return;
+      case 'IDLE':
+        session.idleTag = tag;
+        this.send(session, '+ idling');
+        return;
+      case 'NOOP':
+        if (session.selected && this.mailboxes.get(session.selected)!.messages.length !== session.knownExists) {
+          this.notifyExists(session);
+        }
+        this.send(session, `${tag} OK NOOP completed`);
+        return;
+      case 'CLOSE':
+      case 'UNSELECT':
+        session.selected = undefined;
+        this.send(session, `${tag} OK ${command} completed`);
+        return;
+      case 'LOGOUT':
+        this.send(session, '* BYE Logging out');
+        this.send(session, `${tag} OK LOGOUT completed`);
+        session.socket.end();
+        return;
+      default:
+        this.send(session, `${tag} BAD Unknown command`);
+    }
+  }
+
+  private list(session: Session, tag: string, args: string): void {
+    const [, pattern] = parseStrings(args);
+    if (pattern === '') {
+      this.send(session, '* LIST (\\Noselect) "/" ""');
+    } else {
+      for (const name of this.mailboxes.keys()) {
+        this.send(session, `* LIST (\\HasNoChildren) "/" "${name}"`);
+      }
+    }
+    this.send(session, `${tag} OK LIST completed`);
+  }
+
+  private select(session: Session, tag: string, name: string, readOnly: boolean): void {
+    const mailbox = this.mailboxes.get(name);
+    if (!mailbox) {
+      this.send(session, `${tag} NO Mailbox does not exist`);
+      return;
+    }
+
+    session.selected = name;
+    session.knownExists = mailbox.messages.length;
+    this.send(session, '* FLAGS (\\Answered \\Flagged \\Deleted \\Seen \\Draft)');
+    this.send(session, `* ${mailbox.messages.length} EXISTS`);
+    this.send(session, '* 0 RECENT');
+    this.send(session, `* OK [UIDVALIDITY ${mailbox.uidValidity}] UIDs valid`);
+    this.send(session, `* OK [UIDNEXT ${mailbox.uidNext}] Predicted next UID`);
+    this.send(session, '* OK [PERMANENTFLAGS (\\Answered \\Flagged \\Deleted \\Seen \\Draft \\*)] Flags permitted');
+    this.send(session, `${tag} OK [${readOnly ? 'READ-ONLY' : 'READ-WRITE'}] ${readOnly ? 'EXAMINE' : 'SELECT'} completed`);
+  }
+
+  private search(session: Session, tag: string, args: string): void {
+    const messages = this.selectedMessages(session);
+    const tokens = args.trim().split(/\s+/);
+    let matches = messages;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i].toUpperCase();
+      if (token === 'UNSEEN') {
+        matches = matches.filter(message => !message.flags.includes('\\Seen'));
+      } else if (token === 'SEEN') {
+        matches = matches.filter(message => message.flags.includes('\\Seen'));
+      } else if (token === 'UID') {
+        const uids = expandSet(tokens[++i], messages);
+        matches = matches.filter(message => uids.has(message.uid));
+      } else if (token === 'SINCE') {
+        // Whole days, as in IMAP; "19-Oct-2026" parses as midnight UTC
+        const since = Date.parse(`${tokens[++i].replace(/"/g, '')} UTC`);
+        matches = matches.filter(message => message.internalDate.getTime() >= since);
+      }
+    }
+
+    this.send(session, `* SEARCH${matches.map(message => ` ${message.uid}`).join('')}`);
+    this.send(session, `${tag} OK SEARCH completed`);
+  }
+
+  private fetch(session: Session, tag: string, args: string): void {
+    const messages = this.selectedMessages(session);
+    const [set, ...rest] = args.split(' ');
+    const items = rest.join(' ').toUpperCase();
+    const uids = expandSet(set, messages);
+    const withBody = items.includes('BODY[]') || items.includes('BODY.PEEK[]');
+
+    messages.forEach((message, index) => {
+      if (!uids.has(message.uid)) {
+        return;
+      }
+      if (items.includes('BODY[]')) {
+        addFlag(message, '\\Seen');
+      }
+      const parts = [
+        `UID ${message.uid}`,
+        `FLAGS (${message.flags.join(' ')})`,
+        `INTERNALDATE "${formatInternalDate(message.internalDate)}"`,
+      ];
+      // The client waits for every requested item; a single text part is close enough
+      if (items.includes('BODYSTRUCTURE')) {
+        const length = Buffer.byteLength(message.source, 'binary');
+        parts.push(`BODYSTRUCTURE ("TEXT" "PLAIN" ("CHARSET" "UTF-8") NIL NIL "7BIT" ${length} ${message.source.split('\n').length})`);
+      }
+      if (withBody) {
+        const length = Buffer.byteLength(message.source, 'binary');
+        session.socket.write(`* ${index + 1} FETCH (${parts.join(' ')} BODY[] {${length}}\r\n${message.source})\r\n`, 'binary');
+      } else {
+        this.send(session, `* ${index + 1} FETCH (${parts.join(' ')})`);
+      }
+    });
+
+    this.send(session, `${tag} OK FETCH completed`);
+  }
+
+  private store(session: Session, tag: string, args: string): void {
+    const messages = this.selectedMessages(session);
+    const match = /^(\S+) ([+-]?)FLAGS(\.SILENT)? \(([^)]*)\)$/i.exec(args.trim());
+    if (!match) {
+      this.send(session, `${tag} BAD Invalid STORE`);
+      return;
+    }
+
+    const [, set, mode, silent, flagList] = match;
+    const flags = flagList.split(/\s+/).filter(Boolean);
+    const uids = expandSet(set, messages);
+
+    messages.forEach((message, index) => {
+      if (!uids.has(message.uid)) {
+        return;
+      }
+      if (mode === '+') {
+        flags.forEach(flag => addFlag(message, flag));
+      } else if (mode === '-') {
+        message.flags = message.flags.filter(flag => !flags.includes(flag));
+      } else {
+        message.flags = [...flags];
+      }
+      if (!silent) {
+        this.send(session, `* ${index + 1} FETCH (UID ${message.uid} FLAGS (${message.flags.join(' ')}))`);
+      }
+    });
+
+    this.send(session, `${tag} OK STORE completed`);
+  }
+
+  private copy(session: Session, tag: string, args: string, move: boolean): void {
+    const messages = this.selectedMessages(session);
+    const [set, name] = parseStrings(args);
+    const target = this.mailboxes.get(name);
+    if (!target) {
+      this.send(session, `${tag} NO [TRYCREATE] Mailbox does not exist`);
+      return;
+    }
+
+    const uids = expandSet(set, messages);
+    for (const message of messages.filter(m => uids.has(m.uid))) {
+      target.messages.push({ ...message, flags: [...message.flags], uid: target.uidNext++ });
+    }
+
+    if (move) {
+      // Expunged sequence numbers are reported from the highest down so each stays valid
+      for (let index = messages.length - 1; index >= 0; index--) {
+        if (uids.has(messages[index].uid)) {
+          messages.splice(index, 1);
+          session.knownExists--;
+          this.send(session, `* ${index + 1} EXPUNGE`);
+        }
+      }
+    }
+
+    this.send(session, `${tag} OK ${move ? 'MOVE' : 'COPY'} completed`);
+  }
+
+  private selectedMessages(session: Session): StandInMessage[] {
+    return session.selected ? this.mailboxes.get(session.selected)!.messages : [];
+  }
+
+  private notifyExists(session: Session): void {
+    const count = this.mailboxes.get(session.selected!)!.messages.length;
+    session.knownExists = count;
+    this.send(session, `* ${count} EXISTS`);
+  }
+
+  private send(session: Session, line: string): void {
+    if (!session.socket.destroyed) {
+      session.socket.write(`${line}\r\n`, 'binary');
+    }
+  }
+}
+
+/**
+ * Reads the quoted or atom arguments of a command
+ */
+function parseStrings(args: string): string[] {
+  const values: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(args)) !== null) {
+    values.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2]);
+  }
+  return values;
+}
+
+/**
+ * Expands a UID set such as "1,3:5,7:*" against the mailbox contents
+ */
+function expandSet(set: string, messages: StandInMessage[]): Set<number> {
+  const highest = messages.reduce((max, message) => Math.max(max, message.uid), 0);
+  const uids = new Set<number>();
+
+  for (const part of set.split(',')) {
+    const [from, to = from] = part.split(':').map(value => (value === '*' ? highest : Number(value)));
+    const [low, high] = from <= to ? [from, to] : [to, from];
+    for (const message of messages) {
+      if (message.uid >= low && message.uid <= high) {
+        uids.add(message.uid);
+      }
+    }
+  }
+
+  return uids;
+}
+
+function addFlag(message: StandInMessage, flag: string): void {
+  if (!message.flags.includes(flag)) {
+    message.flags.push(flag);
+  }
+}
+
+function formatInternalDate(date: Date): string {
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getUTCDate())}-${months[date.getUTCMonth()]}-${date.getUTCFullYear()} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`;
+}
@@ -1,3 +1,5 @@
 // Email monitoring components
 export * from './EmailMonitor';
 export { EmailMonitorImpl } from './EmailMonitor';
+export * from './MimeParser';
+export * from './IdleListener';
@@ -0,0 +1,255 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OAuth2TokenProvider, OAuth2TokenError, getAccessToken, invalidateAccessToken, onRefreshTokenRotated } from './OAuth2TokenProvider';
+import { TokenEndpointStandIn } from './fixtures/TokenEndpointStandIn';
+import { ImapStandIn } from '../monitor/fixtures/ImapStandIn';
+import { ImapSessionManager } from '../imap';
+import { AutoResponderImpl } from '../responder';
+import { buildImapConfig, buildSmtpConfig, hasImapCredentials } from '../config/ConfigReloader';
+import { Config } from '../models';
+
+describe('OAuth2TokenProvider', () => {
+  let endpoint: TokenEndpointStandIn;
+
+  const startEndpoint = async (options: ConstructorParameters<typeof TokenEndpointStandIn>[0] = {}) => {
+    endpoint = new TokenEndpointStandIn(options);
+    await endpoint.start();
+  };
+
+  afterEach(async () => {
+    await endpoint?.stop();
+  });
+
+  it('should refresh once and reuse the token until it is about to expire', async () => {
+    await startEndpoint();
+    const provider = new OAuth2TokenProvider(endpoint.config());
+
+    expect(await provider.getAccessToken()).toBe('access-1');
+    expect(await provider.getAccessToken()).toBe('access-1');
+    expect(endpoint.requests).toEqual([{
+      grant_type: 'refresh_token',
+      client_id: 'client-id',
+      client_secret: 'client-secret',
+      refresh_token: 'refresh-token',
+    }]);
+
+    provider.invalidate();
+    expect(await provider.getAccessToken()).toBe('access-2');
+  });
+
+  it('should refresh ahead of expiry', async () => {
+    await startEndpoint({ expiresIn: 30 });
+    const provider = new OAuth2TokenProvider(endpoint.config(), { refreshMargin: 60000 });
+
+    expect(await provider.getAccessToken()).toBe('access-1');
+    expect(await provider.getAccessToken()).toBe('access-2');
+  });
+
+  it('should share one request between concurrent callers', async () => {
+    await startEndpoint({ delay: 50 });
+    const provider = new OAuth2TokenProvider(endpoint.config());
+
+    const tokens = await Promise.all([1, 2, 3].map(() => provider.getAccessToken()));
+
+    expect(tokens).toEqual(['access-1', 'access-1', 'access-1']);
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  it('should keep using a rotated refresh token', async () => {
+    await startEndpoint({ rotateRefreshToken: true });
+    const provider = new OAuth2TokenProvider(endpoint.config());
+
+    await provider.getAccessToken();
+    provider.invalidate();
+    expect(await provider.getAccessToken()).toBe('access-2');
+    expect(endpoint.requests[1].refresh_token).toBe('refresh-token-1');
+  });
+
+  it('should report a rotated refresh token and keep the shared token under it', async () => {
+    await startEndpoint({ rotateRefreshToken: true });
+    const rotations: string[][] = [];
+    const stop = onRefreshTokenRotated((previous, refreshToken) => rotations.push([previous.refreshToken, refreshToken]));
+
+    try {
+      expect(await getAccessToken(endpoint.config())).toBe('access-1');
+      // The settings stored with the rotated token share the same provider
+      expect(await getAccessToken(endpoint.config())).toBe('access-1');
+      invalidateAccessToken(endpoint.config());
+      expect(await getAccessToken(endpoint.config())).toBe('access-2');
+    } finally {
+      stop();
+    }
+
+    expect(rotations).toEqual([['refresh-token', 'refresh-token-1'], ['refresh-token-1', 'refresh-token-2']]);
+    expect(endpoint.requests.map(request => request.refresh_token)).toEqual(['refresh-token', 'refresh-token-1']);
+  });
+
+  it('should report what the provider says when a refresh is refused', async () => {
+    await startEndpoint();
+    endpoint.revoked = true;
+    const provider = new OAuth2TokenProvider(endpoint.config());
+
+    const error = await provider.getAccessToken().catch(err => err);
+    expect(error).toBeInstanceOf(OAuth2TokenError);
+    expect(error.message).toBe('OAuth2 token refresh failed: Token has been expired or revoked.');
+
+    const wrongSecret = new OAuth2TokenProvider({ ...endpoint.config(), clientSecret: 'wrong' });
+    await expect(wrongSecret.getAccessToken()).rejects.toThrow('OAuth2 token refresh failed: The OAuth client was not found.');
+  });
+
+  it('should report an unreachable token endpoint', async () => {
+    await startEndpoint();
+    const config = endpoint.config();
+    await endpoint.stop();
+
+    await expect(new OAuth2TokenProvider(config).getAccessToken()).rejects.toThrow(/^OAuth2 token refresh failed: /);
+  });
+});
+
+describe('XOAUTH2 sign-in', () => {
+  let endpoint: TokenEndpointStandIn;
+  let server: ImapStandIn;
+  let config: Config;
+
+  beforeEach(async () => {
+    endpoint = new TokenEndpointStandIn();
+    await endpoint.start();
+    server = new ImapStandIn({ accessToken: 'access-1' });
+    const port = await server.start();
+
+    config = {
+      email: {
+        imapHost: '127.0.0.1',
+        imapPort: port,
+        smtpHost: 'smtp.example.org',
+        smtpPort: 587,
+        username: server.user,
+        password: '',
+        authMethod: 'xoauth2',
+        oauth2: endpoint.config(),
+      },
+      filters: { keywordsEnabled: false, keywords: [], excludedDomains: [] },
+      autoReply: { manualConfirmation: false, replyTemplate: 'Thanks', checkInterval: 10 },
+    };
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await endpoint.stop();
+  });
+
+  it('should only need the OAuth2 settings instead of a password', () => {
+    expect(hasImapCredentials(config)).toBe(true);
+    expect(buildImapConfig(config)).toMatchObject({ password: '', oauth2: endpoint.config() });
+    expect(hasImapCredentials({ ...config, email: { ...config.email, oauth2: undefined } })).toBe(false);
+  });
+
+  it('should log in to IMAP with a fresh access token', async () => {
+    const sessions = new ImapSessionManager({ ...buildImapConfig(config), tls: false });
+
+    try {
+      await sessions.getFlags(['1']);
+      await sessions.getFlags(['1']);
+    } finally {
+      await sessions.close();
+    }
+
+    expect(server.commands.some(command => command.startsWith('AUTHENTICATE XOAUTH2'))).toBe(true);
+    expect(server.loginCount).toBe(1);
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  it('should log in again with a fresh access token when the server refuses the current one', async () => {
+    await getAccessToken(config.email.oauth2!);
+    server.accessToken = 'access-2';
+    const sessions = new ImapSessionManager({ ...buildImapConfig(config), tls: false });
+
+    try {
+      await sessions.getFlags(['1']);
+    } finally {
+      await sessions.close();
+    }
+
+    expect(server.commands.filter(command => command.startsWith('AUTHENTICATE XOAUTH2'))).toHaveLength(2);
+    expect(server.loginCount).toBe(1);
+    expect(endpoint.requests).toHaveLength(2);
+  });
+
+  it('should surface a failed refresh as the IMAP connection error', async () => {
+    endpoint.revoked = true;
+    const sessions = new ImapSessionManager({ ...buildImapConfig(config), tls: false });
+
+    try {
+      await expect(sessions.getFlags(['1'])).rejects.toThrow('OAuth2 token refresh failed: Token has been expired or revoked.');
+      expect(sessions.getMetrics()).toMatchObject({
+        connectFailures: 1,
+        lastError: 'OAuth2 token refresh failed: Token has been expired or revoked.',
+      });
+    } finally {
+      await sessions.close();
+    }
+    expect(server.loginCount).toBe(0);
+  });
+
+  it('should send mail with the shared access token', async () => {
+    // A token already fetched, e.g. for IMAP, is reused for the send
+    await getAccessToken(config.email.oauth2!);
+    const responder = new AutoResponderImpl({
+      smtpConfig: buildSmtpConfig(config),
+      replyTemplate: 'Thanks',
+      manualConfirmation: false,
+      readTracker: { markAsRead: vi.fn(), markAllAsRead: vi.fn(), isRead: vi.fn(), applyPostActions: vi.fn().mockResolvedValue([]) },
+    });
+    const sendMail = vi.fn().mockResolvedValue({});
+    vi.spyOn(responder as any, 'transporter', 'get').mockReturnValue({ sendMail });
+
+    const reply = responder.generateReply({
+      id: '1', from: 'alice@example.com', to: server.user, subject: 'Hello', body: 'Hi', receivedAt: new Date(), isRead: false,
+    });
+    const result = await responder.sendReply(reply);
+
+    expect(result.success).toBe(true);
+    expect(sendMail.mock.calls[0][0].auth).toEqual({ type: 'OAuth2', user: server.user, accessToken: 'access-1' });
+    expect(endpoint.requests).toHaveLength(1);
+  });
+
+  it('should send once more with a fresh access token when the server refuses the current one', async () => {
+    const responder = new AutoResponderImpl({
+      smtpConfig: buildSmtpConfig(config),
+      replyTemplate: 'Thanks',
+      manualConfirmation: false,
+      readTracker: { markAsRead: vi.fn(), markAllAsRead: vi.fn(), isRead: vi.fn(), applyPostActions: vi.fn().mockResolvedValue([]) },
+    });
+    const sendMail = vi.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Invalid login: 535 5.7.8 Username and Password not accepted'), { code: 'EAUTH' }))
+      .mockResolvedValue({});
+    vi.spyOn(responder as any, 'transporter', 'get').mockReturnValue({ sendMail });
+
+    const reply = responder.generateReply({
+      id: '1', from: 'alice@example.com', to: server.user, subject: 'Hello', body: 'Hi', receivedAt: new Date(), isRead: false,
+    });
+    const result = await responder.sendReply(reply);
+
+    expect(result.success).toBe(true);
+    expect(sendMail.mock.calls.map(call => call[0].auth.accessToken)).toEqual(['access-1', 'access-2']);
+  });
+
+  it('should fail the send with the refresh error', async () => {
+    endpoint.revoked = true;
+    const responder = new AutoResponderImpl({
+      smtpConfig: buildSmtpConfig(config),
+      replyTemplate: 'Thanks',
+      manualConfirmation: false,
+      readTracker: { markAsRead: vi.fn(), markAllAsRead: vi.fn(), isRead: vi.fn(), applyPostActions: vi.fn().mockResolvedValue([]) },
+    });
+    const sendMail = vi.fn().mockResolvedValue({});
+    vi.spyOn(responder as any, 'transporter', 'get').mockReturnValue({ sendMail });
+
+    const reply = responder.generateReply({
+      id: '1', from: 'alice@example.com', to: server.user, subject: 'Hello', body: 'Hi', receivedAt: new Date(), isRead: false,
+    });
+    const result = await responder.sendReply(reply);
+
+    expect(result).toMatchObject({ success: false, error: 'OAuth2 token refresh failed: Token has been expired or revoked.' });
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+});
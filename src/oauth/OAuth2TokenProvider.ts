@@ -0,0 +1,182 @@
+import { OAuth2Config } from '../models';
+
+export interface OAuth2TokenOptions {
+  refreshMargin?: number; // In milliseconds, tokens are refreshed this long before they expire, defaults to 60000
+  timeout?: number; // In milliseconds, for the token request, defaults to 15000
+  // Called with the replaced and the new refresh token when the provider rotates it
+  onRefreshTokenRotated?: (previous: string, refreshToken: string) => void;
+}
+
+/**
+ * Receives the settings holding a refresh token the provider replaced, and
+ * the token that replaces it
+ */
+export type RefreshTokenListener = (previous: OAuth2Config, refreshToken: string) => void;
+
+/**
+ * Raised when the provider does not hand out an access token, e.g. because
+ * the refresh token was revoked or the client secret is wrong
+ */
+export class OAuth2TokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuth2TokenError';
+  }
+}
+
+interface AccessToken {
+  value: string;
+  expiresAt: number;
+}
+
+// Assumed when the provider does not say how long a token lasts
+const DEFAULT_EXPIRES_IN = 3600;
+
+/**
+ * Obtains XOAUTH2 access tokens with a refresh token and keeps the current
+ * one until shortly before it expires. Concurrent callers share a single
+ * refresh request.
+ */
+export class OAuth2TokenProvider {
+  private config: OAuth2Config;
+  private refreshMargin: number;
+  private timeout: number;
+  private refreshToken: string;
+  private token?: AccessToken;
+  private pending?: Promise<string>;
+  private onRefreshTokenRotated?: (previous: string, refreshToken: string) => void;
+
+  constructor(config: OAuth2Config, options: OAuth2TokenOptions = {}) {
+    this.config = config;
+    this.refreshToken = config.refreshToken;
+    this.refreshMargin = options.refreshMargin ?? 60000;
+    this.timeout = options.timeout || 15000;
+    this.onRefreshTokenRotated = options.onRefreshTokenRotated;
+  }
+
+  /**
+   * The current access token, refreshed first when it is missing or about to expire
+   */
+  getAccessToken(): Promise<string> {
+    if (this.token && this.token.expiresAt - this.refreshMargin > Date.now()) {
+      return Promise.resolve(this.token.value);
+    }
+
+    if (!this.pending) {
+      this.pending = this.refresh().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Forget the current access token so the next caller gets a fresh one
+   */
+  invalidate(): void {
+    this.token = undefined;
+  }
+
+  private async refresh(): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: this.config.clientId,
+      client_secret: this.config.clientSecret,
+      refresh_token: this.refreshToken,
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(this.config.tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        body: body.toString(),
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (err) {
+      throw new OAuth2TokenError(`OAuth2 token refresh failed: ${err instanceof Error ? err.message : err}`);
+    }
+
+    const data: any = await response.json().catch(() => ({}));
+    if (!response.ok || typeof data.access_token !== 'string') {
+      const reason = data.error_description || data.error || `HTTP ${response.status}`;
+      throw new OAuth2TokenError(`OAuth2 token refresh failed: ${reason}`);
+    }
+
+    // Some providers rotate the refresh token with every use
+    if (typeof data.refresh_token === 'string' && data.refresh_token.length > 0 && data.refresh_token !== this.refreshToken) {
+      const previous = this.refreshToken;
+      this.refreshToken = data.refresh_token;
+      this.onRefreshTokenRotated?.(previous, this.refreshToken);
+    }
+
+    const expiresIn = Number(data.expires_in) > 0 ? Number(data.expires_in) : DEFAULT_EXPIRES_IN;
+    this.token = { value: data.access_token, expiresAt: Date.now() + expiresIn * 1000 };
+    return this.token.value;
+  }
+}
+
+const providers: Map<string, OAuth2TokenProvider> = new Map();
+const rotationListeners: RefreshTokenListener[] = [];
+
+// Accounts may sign in through the same OAuth client, so the refresh token is part of the key
+function providerKey(config: OAuth2Config): string {
+  return JSON.stringify([config.tokenUrl, config.clientId, config.clientSecret, config.refreshToken]);
+}
+
+function getProvider(config: OAuth2Config): OAuth2TokenProvider {
+  let provider = providers.get(providerKey(config));
+  if (!provider) {
+    const created = new OAuth2TokenProvider(config, {
+      onRefreshTokenRotated: (previous, refreshToken) => {
+        // Settings with either token lead to the provider holding the current one
+        providers.set(providerKey({ ...config, refreshToken }), created);
+        for (const listener of rotationListeners) {
+          try {
+            listener({ ...config, refreshToken: previous }, refreshToken);
+          } catch (error) {
+            console.error('Error notifying refresh token listener:', error);
+          }
+        }
+      },
+    });
+    providers.set(providerKey(config), created);
+    provider = created;
+  }
+  return provider;
+}
+
+/**
+ * Get an access token for a set of client settings. Everything signing in
+ * with the same settings shares one provider, so the IMAP pool, the push
+ * connection and SMTP do not refresh the token separately.
+ */
+export function getAccessToken(config: OAuth2Config): Promise<string> {
+  return getProvider(config).getAccessToken();
+}
+
+/**
+ * Forget the access token of a set of client settings, e.g. after a server
+ * rejected it, so the next sign-in refreshes it first
+ */
+export function invalidateAccessToken(config: OAuth2Config): void {
+  providers.get(providerKey(config))?.invalidate();
+}
+
+/**
+ * Listen for refresh tokens that a provider rotated, to store them in place
+ * of the replaced ones. Returns a function that stops listening.
+ */
+export function onRefreshTokenRotated(listener: RefreshTokenListener): () => void {
+  rotationListeners.push(listener);
+  return () => {
+    rotationListeners.splice(rotationListeners.indexOf(listener), 1);
+  };
+}
+
+/**
+ * Build the SASL XOAUTH2 initial response for IMAP
+ */
+export function buildXOAuth2String(user: string, accessToken: string): string {
+  return Buffer.from(`user=${user}\x01auth=Bearer ${accessToken}\x01\x01`).toString('base64');
+}
@@ -0,0 +1,108 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OAuth2Config } from '../../models';
+
+/**
+ * A small in-process OAuth2 token endpoint for tests. It answers the
+ * refresh_token grant with numbered access tokens (access-1, access-2, ...)
+ * and rejects unknown clients and refresh tokens like a provider would.
+ */
+
+export interface TokenEndpointStandInOptions {
+  expiresIn?: number; // In seconds, defaults to 3600
+  rotateRefreshToken?: boolean; // Hand out a new refresh token with every access token
+  delay?: number; // In milliseconds before answering
+}
+
+export class TokenEndpointStandIn {
+  readonly clientId = 'client-id';
+  readonly clientSecret = 'client-secret';
+  refreshToken = 'refresh-token';
+  // Form fields of every request received
+  readonly requests: Record<string, string>[] = [];
+  revoked = false;
+
+  private server: http.Server;
+  private options: TokenEndpointStandInOptions;
+  private issued = 0;
+  private url = '';
+
+  constructor(options: TokenEndpointStandInOptions = {}) {
+    this.options = options;
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  /**
+   * Listen on a free local port and return the token URL
+   */
+  start(): Promise<string> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () => {
+        this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/token`;
+        resolve(this.url);
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      this.server.closeAllConnections();
+      this.server.close(() => resolve());
+    });
+  }
+
+  /**
+   * Client settings that this endpoint accepts
+   */
+  config(): OAuth2Config {
+    return {
+      clientId: this.clientId,
+      clientSecret: this.clientSecret,
+      refreshToken: this.refreshToken,
+      tokenUrl: this.url,
+    };
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const fields = Object.fromEntries(new URLSearchParams(body));
+      this.requests.push(fields);
+      setTimeout(() => this.respond(res, fields), this.options.delay || 0);
+    });
+  }
+
+  private respond(res: http.ServerResponse, fields: Record<string, string>): void {
+    const reply = (status: number, data: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    };
+
+    if (fields.grant_type !== 'refresh_token') {
+      reply(400, { error: 'unsupported_grant_type' });
+      return;
+    }
+    if (fields.client_id !== this.clientId || fields.client_secret !== this.clientSecret) {
+      reply(401, { error: 'invalid_client', error_description: 'The OAuth client was not found.' });
+      return;
+    }
+    if (this.revoked || fields.refresh_token !== this.refreshToken) {
+      reply(400, { error: 'invalid_grant', error_description: 'Token has been expired or revoked.' });
+      return;
+    }
+
+    this.issued++;
+    if (this.options.rotateRefreshToken) {
+      this.refreshToken = `refresh-token-${this.issued}`;
+    }
+    reply(200, {
+      access_token: `access-${this.issued}`,
+      token_type: 'Bearer',
+      expires_in: this.options.expiresIn ?? 3600,
+      ...(this.options.rotateRefreshToken && { refresh_token: this.refreshToken }),
+    });
+  }
+}
@@ -0,0 +1,2 @@
+// XOAUTH2 access tokens for IMAP and SMTP
+export * from './OAuth2TokenProvider';
@@ -1,8 +1,9 @@
 import { describe, it, expect, vi } from 'vitest';
 import * as fc from 'fast-check';
-import { AutoResponderImpl, AutoResponderConfig, SendResult } from './AutoResponder';
-import { Email, Reply } from '../models';
-import { ReadTracker } from './ReadTracker';
+import * as nodemailer from 'nodemailer';
+import { AutoResponderImpl, AutoResponderConfig, AssetAttachment, SendResult } from './AutoResponder';
+import { ActivityLog, Email, PostAction, Reply } from '../models';
+import { PostActionFailure, ReadTracker } from './ReadTracker';
 
 // Mock ReadTracker for testing
 class MockReadTracker implements ReadTracker {
@@ -12,9 +13,20 @@ class MockReadTracker implements ReadTracker {
     this.readEmails.add(emailId);
   }
 
+  async markAllAsRead(emailIds: string[]): Promise<void> {
+    emailIds.forEach(emailId => this.readEmails.add(emailId));
+  }
+
   async isRead(emailId: string): Promise<boolean> {
     return this.readEmails.has(emailId);
   }
+
+  postActions: { emailId: string; actions: PostAction[]; mailbox?: string }[] = [];
+
+  async applyPostActions(emailId: string, actions: PostAction[], mailbox?: string): Promise<PostActionFailure[]> {
+    this.postActions.push({ emailId, actions, mailbox });
+    return actions.filter(action => action.type === 'label').map(action => ({ action, error: 'Server must support X-GM-EXT-1 capability' }));
+  }
 }
 
 // Arbitraries for property-based testing
@@ -168,6 +180,118 @@ describe('AutoResponder Property Tests', () => {
     );
   });
 
+  it('should leave the email unread after rejection when configured', async () => {
+    const mockReadTracker = new MockReadTracker();
+    const responder = new AutoResponderImpl({
+      ...createTestConfig(true),
+      readTracker: mockReadTracker,
+      leaveUnread: true,
+    });
+    const email = { id: '42', from: 'a@example.com', to: 'b@example.com', subject: 'Hi', body: 'Hello', receivedAt: new Date(), isRead: false };
+
+    const reply = responder.generateReply(email);
+    responder.queueForConfirmation(reply);
+    await responder.processConfirmation(reply.id, false);
+
+    expect(await mockReadTracker.isRead('42')).toBe(false);
+  });
+
+  it('should record who approved the reply', async () => {
+    const responder = new AutoResponderImpl({ ...createTestConfig(true), readTracker: new MockReadTracker() });
+    const sendReply = vi.spyOn(responder, 'sendReply').mockResolvedValue({ success: true, sentAt: new Date() });
+    const email = { id: '42', from: 'a@example.com', to: 'b@example.com', subject: 'Hi', body: 'Hello', receivedAt: new Date(), isRead: false };
+
+    const reply = responder.generateReply(email);
+    responder.queueForConfirmation(reply);
+    await responder.processConfirmation(reply.id, true, 'april');
+
+    expect(sendReply.mock.calls[0][0]).toMatchObject({ status: 'approved', approvedBy: 'april' });
+  });
+
+  describe('with a ledger', () => {
+    const email = { id: '42', from: 'a@example.com', to: 'b@example.com', subject: 'Hi', body: 'Hello', receivedAt: new Date(), isRead: false };
+
+    const createLedgerResponder = (sendMail = vi.fn().mockResolvedValue({})) => {
+      // The decision and the status of the reply as each outcome was recorded
+      const outcomes: [string, string][] = [];
+      const recordOutcome = vi.fn(async (reply: Reply, decision: string) => {
+        outcomes.push([decision, reply.status]);
+      });
+      const onReplySave = vi.fn().mockResolvedValue(undefined);
+      const responder = new AutoResponderImpl({
+        ...createTestConfig(true),
+        createTransport: () => ({ sendMail, close: vi.fn() }),
+        ledger: { recordOutcome },
+        onReplySave,
+      });
+      const recorded = () => outcomes;
+      return { responder, recordOutcome, onReplySave, recorded };
+    };
+
+    it('should record the confirmation outcome instead of saving the reply itself', async () => {
+      const { responder, onReplySave, recorded } = createLedgerResponder();
+
+      const reply = responder.generateReply(email);
+      responder.queueForConfirmation(reply);
+      await responder.processConfirmation(reply.id, true, 'april');
+
+      expect(recorded()).toEqual([['sending', 'approved'], ['replied', 'sent']]);
+      expect(onReplySave).not.toHaveBeenCalled();
+      expect(responder.getPendingReplies()).toEqual([]);
+    });
+
+    it('should record a rejection', async () => {
+      const { responder, recorded } = createLedgerResponder();
+
+      const reply = responder.generateReply(email);
+      responder.queueForConfirmation(reply);
+      await responder.processConfirmation(reply.id, false);
+
+      expect(recorded()).toEqual([['rejected', 'rejected']]);
+    });
+
+    it('should keep a reply that could not be sent queued for another approval', async () => {
+      const { responder, recordOutcome, recorded } = createLedgerResponder(vi.fn().mockRejectedValue(new Error('SMTP down')));
+
+      const reply = responder.generateReply(email);
+      responder.queueForConfirmation(reply);
+      await responder.processConfirmation(reply.id, true);
+
+      expect(recorded()).toEqual([['sending', 'approved'], ['send_failed', 'pending']]);
+      expect(recordOutcome.mock.calls[1][2]).toBe('SMTP down');
+      expect(responder.getPendingReplies().map(pending => pending.id)).toEqual([reply.id]);
+    });
+  });
+
+  it('should run the post-actions of the outcome after rejection and log failures', async () => {
+    const mockReadTracker = new MockReadTracker();
+    const logs: ActivityLog[] = [];
+    const responder = new AutoResponderImpl({
+      ...createTestConfig(true),
+      readTracker: mockReadTracker,
+      postActions: {
+        replied: [{ type: 'move', mailbox: 'Auto-Replied' }],
+        rejected: [{ type: 'keyword', keywords: ['$Rejected'] }, { type: 'label', labels: ['Rejected'] }],
+      },
+      onLog: (log) => logs.push(log),
+    });
+    const email = { id: '42', mailbox: 'Support', from: 'a@example.com', to: 'b@example.com', subject: 'Hi', body: 'Hello', receivedAt: new Date(), isRead: false };
+
+    const reply = responder.generateReply(email);
+    responder.queueForConfirmation(reply);
+    await responder.processConfirmation(reply.id, false);
+
+    expect(mockReadTracker.postActions).toEqual([{
+      emailId: '42',
+      mailbox: 'Support',
+      actions: [{ type: 'keyword', keywords: ['$Rejected'] }, { type: 'label', labels: ['Rejected'] }],
+    }]);
+    expect(logs.find(log => log.type === 'error')).toMatchObject({
+      replyId: reply.id,
+      details: 'Post-action label Rejected failed: Server must support X-GM-EXT-1 capability',
+    });
+  });
+
   /**
    * **Feature: lazy-mail-boss, Property 7: Automatic sending in auto mode**
    * **Validates: Requirements 2.5**
@@ -207,13 +331,10 @@ describe('AutoResponder Property Tests', () => {
           onLog: (log) => {
             capturedLog = log;
           },
+          // Stand in for the SMTP transport to avoid actual SMTP calls
+          createTransport: () => ({ sendMail: vi.fn().mockResolvedValue({}), close: vi.fn() }),
         };
         const responder = new AutoResponderImpl(config);
-        
-        // Mock the transporter to avoid actual SMTP calls
-        vi.spyOn(responder as any, 'transporter', 'get').mockReturnValue({
-          sendMail: vi.fn().mockResolvedValue({}),
-        });
 
         const reply = responder.generateReply(email);
         await responder.sendReply(reply);
@@ -248,14 +369,10 @@ describe('AutoResponder Property Tests', () => {
           onLog: (log) => {
             capturedLog = log;
           },
+          // Stand in for the SMTP transport to simulate SMTP failure
+          createTransport: () => ({ sendMail: vi.fn().mockRejectedValue(new Error('SMTP connection failed')), close: vi.fn() }),
         };
         const responder = new AutoResponderImpl(config);
-        
-        // Mock the transporter to simulate SMTP failure
-        const mockError = new Error('SMTP connection failed');
-        vi.spyOn(responder as any, 'transporter', 'get').mockReturnValue({
-          sendMail: vi.fn().mockRejectedValue(mockError),
-        });
 
         const reply = responder.generateReply(email);
         const result = await responder.sendReply(reply);
@@ -280,3 +397,238 @@ describe('AutoResponder Property Tests', () => {
       { numRuns: 100 }
     );
   });
+
+describe('AutoResponder threading', () => {
+  const threadedEmail: Email = {
+    id: 'uid-42',
+    from: 'customer@example.com',
+    to: 'support@example.org',
+    subject: 'AW: Re: Order status',
+    body: 'Where is my order?',
+    receivedAt: new Date(),
+    isRead: false,
+    messageId: '<msg-3@example.com>',
+    references: ['<msg-1@example.org>', '<msg-2@example.com>'],
+  };
+
+  it('should capture threading headers and normalise the subject', () => {
+    const responder = new AutoResponderImpl(createTestConfig(false));
+
+    const reply = responder.generateReply(threadedEmail);
+
+    expect(reply.subject).toBe('Re: Order status');
+    expect(reply.inReplyTo).toBe('<msg-3@example.com>');
+    expect(reply.references).toEqual([
+      '<msg-1@example.org>',
+      '<msg-2@example.com>',
+      '<msg-3@example.com>',
+    ]);
+  });
+
+  it('should emit In-Reply-To and References on the outgoing message', async () => {
+    const sendMail = vi.fn().mockResolvedValue({});
+    const responder = new AutoResponderImpl({ ...createTestConfig(false), createTransport: () => ({ sendMail, close: vi.fn() }) });
+
+    const reply = responder.generateReply(threadedEmail);
+    await responder.sendReply(reply);
+
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      subject: 'Re: Order status',
+      inReplyTo: '<msg-3@example.com>',
+      references: ['<msg-1@example.org>', '<msg-2@example.com>', '<msg-3@example.com>'],
+    }));
+  });
+
+  it('should omit threading headers when the original has no Message-ID', async () => {
+    const sendMail = vi.fn().mockResolvedValue({});
+    const responder = new AutoResponderImpl({ ...createTestConfig(false), createTransport: () => ({ sendMail, close: vi.fn() }) });
+
+    const reply = responder.generateReply({ ...threadedEmail, messageId: undefined, references: undefined });
+    await responder.sendReply(reply);
+
+    const options = sendMail.mock.calls[0][0];
+    expect(options).not.toHaveProperty('inReplyTo');
+    expect(options).not.toHaveProperty('references');
+  });
+
+  it('should mark outgoing replies as auto-replied', async () => {
+    const sendMail = vi.fn().mockResolvedValue({});
+    const responder = new AutoResponderImpl({ ...createTestConfig(false), createTransport: () => ({ sendMail, close: vi.fn() }) });
+
+    await responder.sendReply(responder.generateReply(threadedEmail));
+
+    expect(sendMail.mock.calls[0][0].headers).toMatchObject({
+      'Auto-Submitted': 'auto-replied',
+      'X-Auto-Response-Suppress': 'All',
+    });
+  });
+});
+
+describe('AutoResponder reply options', () => {
+  const email: Email = {
+    id: 'uid-7',
+    from: 'billing@vendor.com',
+    to: 'support@example.org',
+    subject: 'Invoice 42',
+    body: 'Attached',
+    receivedAt: new Date(),
+    isRead: false,
+  };
+
+  it('should render a per-reply template instead of the configured one', () => {
+    const responder = new AutoResponderImpl(createTestConfig(false));
+
+    const reply = responder.generateReply(email, { template: 'Billing got {subject}.' });
+
+    expect(reply.body).toBe('Billing got Invoice 42.');
+    expect(responder.generateReply(email).body).toContain('Thank you for your email about Invoice 42');
+  });
+
+  it('should hold the reply for confirmation when required, even in auto mode', () => {
+    const responder = new AutoResponderImpl(createTestConfig(false));
+
+    expect(responder.generateReply(email, { requireConfirmation: true }).status).toBe('pending');
+    expect(responder.generateReply(email, { requireConfirmation: false }).status).toBe('approved');
+  });
+});
+
+describe('AutoResponder HTML replies', () => {
+  const email: Email = {
+    id: 'uid-9',
+    from: 'mallory@example.com',
+    fromName: 'Mallory <script>',
+    to: 'support@example.org',
+    subject: 'Question & <b>answer</b>',
+    body: 'Line one\nLine two',
+    receivedAt: new Date(),
+    isRead: false,
+  };
+
+  const createHtmlResponder = (replyHtmlTemplate?: string, sendMail = vi.fn().mockResolvedValue({})) => new AutoResponderImpl({
+    ...createTestConfig(false),
+    replyTemplate: 'Thanks {sender.name}, about {subject}.',
+    replyHtmlTemplate,
+    createTransport: () => ({ sendMail, close: vi.fn() }),
+  });
+
+  it('should escape email values in the HTML body and keep the text body plain', () => {
+    const responder = createHtmlResponder('<p>Thanks {sender.name}, about <em>{subject}</em>.</p><blockquote>{body}</blockquote>');
+
+    const reply = responder.generateReply(email);
+
+    expect(reply.body).toBe('Thanks Mallory <script>, about Question & <b>answer</b>.');
+    expect(reply.htmlBody).toBe(
+      '<p>Thanks Mallory &lt;script&gt;, about <em>Question &amp; &lt;b&gt;answer&lt;/b&gt;</em>.</p>' +
+      '<blockquote>Line one<br>\nLine two</blockquote>'
+    );
+  });
+
+  it('should derive the text body from an HTML-only template', () => {
+    const responder = createHtmlResponder();
+
+    const reply = responder.generateReply(email, { template: '', htmlTemplate: '<p>Hello <b>{sender.email}</b></p>' });
+
+    expect(reply.htmlBody).toBe('<p>Hello <b>mallory@example.com</b></p>');
+    expect(reply.body).toBe('Hello mallory@example.com');
+  });
+
+  it('should not send the configured HTML template with a per-reply text template', () => {
+    const responder = createHtmlResponder('<p>Configured</p>');
+
+    const reply = responder.generateReply(email, { template: 'Custom' });
+
+    expect(reply.body).toBe('Custom');
+    expect(reply).not.toHaveProperty('htmlBody');
+  });
+
+  it('should send both bodies as multipart/alternative', async () => {
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+    const sendMail = vi.fn((options) => transporter.sendMail(options));
+    const responder = createHtmlResponder('<p>Thanks {sender.name}</p>', sendMail);
+
+    const result = await responder.sendReply(responder.generateReply(email));
+    const message = (await sendMail.mock.results[0].value).message.toString();
+
+    expect(result.success).toBe(true);
+    expect(message).toMatch(/Content-Type: multipart\/alternative/);
+    expect(message).toMatch(/Content-Type: text\/plain/);
+    expect(message).toMatch(/Content-Type: text\/html/);
+    expect(message).toContain('Mallory &lt;script&gt;');
+  });
+
+  it('should send text-only replies without an HTML part', async () => {
+    const sendMail = vi.fn().mockResolvedValue({});
+    const responder = createHtmlResponder(undefined, sendMail);
+
+    await responder.sendReply(responder.generateReply(email));
+
+    expect(sendMail.mock.calls[0][0]).not.toHaveProperty('html');
+  });
+});
+
+describe('AutoResponder assets', () => {
+  const email: Email = {
+    id: 'uid-11',
+    from: 'customer@example.com',
+    to: 'support@example.org',
+    subject: 'Prices',
+    body: 'Can you send the price list?',
+    receivedAt: new Date(),
+    isRead: false,
+  };
+  const png = Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex');
+  const pdf = Buffer.from('%PDF-1.4\n%%EOF');
+  const stored: Record<string, AssetAttachment> = {
+    logo: { asset: { id: 'logo', filename: 'logo.png', contentType: 'image/png', size: png.length, createdAt: new Date() }, content: png },
+    prices: { asset: { id: 'prices', filename: 'prices.pdf', contentType: 'application/pdf', size: pdf.length, createdAt: new Date() }, content: pdf },
+  };
+
+  const createAssetResponder = (onLog = vi.fn()) => {
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+    const sendMail = vi.fn((options) => transporter.sendMail(options));
+    const responder = new AutoResponderImpl({
+      ...createTestConfig(false),
+      replyHtmlTemplate: '<p><img src="cid:logo"> Thanks for asking about {subject}</p>',
+      onAssetLoad: async (assetId) => stored[assetId] || null,
+      onLog,
+      createTransport: () => ({ sendMail, close: vi.fn() }),
+    });
+    return { responder, sendMail };
+  };
+
+  it('should attach template assets and embed cid images inline', async () => {
+    const onLog = vi.fn();
+    const { responder, sendMail } = createAssetResponder(onLog);
+
+    const reply = responder.generateReply(email, { assetIds: ['prices'] });
+    expect(reply.assetIds).toEqual(['prices', 'logo']);
+
+    const result = await responder.sendReply(reply);
+    const message = (await sendMail.mock.results[0].value).message.toString();
+
+    expect(result.success).toBe(true);
+    expect(message).toMatch(/Content-Type: multipart\/related/);
+    expect(message).toMatch(/Content-Type: application\/pdf; name=prices\.pdf/);
+    expect(message).toMatch(/Content-Disposition: attachment; filename=prices\.pdf/);
+    expect(message).toMatch(/Content-ID: <logo>/);
+    expect(message).toMatch(/Content-Disposition: inline; filename=logo\.png/);
+
+    expect(reply.assets).toEqual([
+      { id: 'prices', filename: 'prices.pdf', contentType: 'application/pdf', size: pdf.length, inline: false },
+      { id: 'logo', filename: 'logo.png', contentType: 'image/png', size: png.length, inline: true },
+    ]);
+    expect(onLog.mock.calls[0][0].metadata.assets).toEqual(['prices.pdf', 'logo.png']);
+  });
+
+  it('should fail the reply instead of sending it without a missing asset', async () => {
+    const { responder, sendMail } = createAssetResponder();
+
+    const reply = responder.generateReply(email, { assetIds: ['deleted'] });
+    const result = await responder.sendReply(reply);
+
+    expect(result).toEqual({ success: false, error: 'Asset deleted not found' });
+    expect(reply.status).toBe('failed');
+    expect(reply.assets).toBeUndefined();
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+});
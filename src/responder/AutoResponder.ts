@@ -1,7 +1,20 @@
-import { Email, Reply, ActivityLog } from '../models';
+import { Email, Reply, ActivityLog, Asset, ReplyAsset, PostActionConfig, PostActionOutcome, OAuth2Config, ProcessingDecision } from '../models';
 import * as nodemailer from 'nodemailer';
-import { ReadTracker } from './ReadTracker';
+import type SMTPConnection from 'nodemailer/lib/smtp-connection';
+import { ReadTracker, describePostAction } from './ReadTracker';
 import { randomUUID } from 'crypto';
+import { normalizeReplySubject, buildReferences } from './Threading';
+import { renderTemplate, renderHtmlTemplate, TemplateOptions } from './TemplateEngine';
+import { htmlToText } from '../monitor/MimeParser';
+import { getAccessToken, invalidateAccessToken } from '../oauth';
+
+/**
+ * Marks our replies as automatic (RFC 3834) so other responders do not answer them
+ */
+export const AUTO_REPLY_HEADERS = {
+  'Auto-Submitted': 'auto-replied',
+  'X-Auto-Response-Suppress': 'All',
+};
 
 export interface SendResult {
   success: boolean;
@@ -9,11 +22,31 @@ export interface SendResult {
   sentAt?: Date;
 }
 
+/**
+ * Per-reply overrides, e.g. from a matched rule. When template or
+ * htmlTemplate is given they replace the configured templates; an HTML
+ * template without a text template gets its text derived from the HTML.
+ */
+export interface ReplyOptions {
+  template?: string;
+  htmlTemplate?: string;
+  assetIds?: string[];
+  requireConfirmation?: boolean;
+}
+
+/**
+ * A stored asset with its content, ready to be attached
+ */
+export interface AssetAttachment {
+  asset: Asset;
+  content: Buffer;
+}
+
 export interface AutoResponder {
-  generateReply(email: Email): Reply;
+  generateReply(email: Email, options?: ReplyOptions): Reply;
   sendReply(reply: Reply): Promise<SendResult>;
   queueForConfirmation(reply: Reply): void;
-  processConfirmation(replyId: string, approved: boolean): Promise<void>;
+  processConfirmation(replyId: string, approved: boolean, decidedBy?: string): Promise<void>;
   getPendingReplies(): Reply[];
 }
 
@@ -25,44 +58,137 @@ export interface SmtpConfig {
     user: string;
     pass: string;
   };
+  oauth2?: OAuth2Config; // Sign in with XOAUTH2 instead of the password
+}
+
+/**
+ * The processed-messages ledger, kept in step with replies decided after
+ * confirmation. With a ledger the responder leaves storing replies to it:
+ * the monitor records the replies it generates and sends, and the
+ * responder records confirmed and rejected ones.
+ */
+export interface ReplyLedger {
+  // Stores the reply and the decision for the message it answers in one transaction
+  recordOutcome(reply: Reply, decision: ProcessingDecision, reason?: string): Promise<void>;
 }
 
+// The part of a nodemailer transporter the responder uses
+export type SmtpTransport = Pick<nodemailer.Transporter, 'sendMail' | 'close'>;
+
 export interface AutoResponderConfig {
   smtpConfig: SmtpConfig;
+  createTransport?: (smtpConfig: SmtpConfig) => SmtpTransport; // Defaults to a nodemailer SMTP transporter
   replyTemplate: string;
+  replyHtmlTemplate?: string;
   manualConfirmation: boolean;
+  templateOptions?: TemplateOptions;
   readTracker: ReadTracker;
+  leaveUnread?: boolean; // Leave the original email unread after approval or rejection
+  postActions?: PostActionConfig; // Run on the original email after approval or rejection
   onLog?: (log: ActivityLog) => void;
-  onReplySave?: (reply: Reply) => Promise<void>;
+  onReplySave?: (reply: Reply) => Promise<void>; // Not called when a ledger stores the replies
+  ledger?: ReplyLedger;
+  onReplyLoad?: (replyId: string) => Promise<Reply | null>;
+  onAssetLoad?: (assetId: string) => Promise<AssetAttachment | null>;
 }
 
 export class AutoResponderImpl implements AutoResponder {
   private config: AutoResponderConfig;
   private pendingReplies: Map<string, Reply>;
-  private transporter: nodemailer.Transporter;
+  private transporter: SmtpTransport;
 
   constructor(config: AutoResponderConfig) {
     this.config = config;
     this.pendingReplies = new Map();
-    this.transporter = nodemailer.createTransport(this.config.smtpConfig);
+    this.transporter = this.createTransport(this.config.smtpConfig);
+  }
+
+  /**
+   * Replace the SMTP settings, rebuilding the transporter for subsequent sends
+   */
+  updateSmtpConfig(smtpConfig: SmtpConfig): void {
+    const previous = this.transporter;
+    this.config.smtpConfig = smtpConfig;
+    this.transporter = this.createTransport(smtpConfig);
+    previous.close();
+  }
+
+  private createTransport(smtpConfig: SmtpConfig): SmtpTransport {
+    return this.config.createTransport ? this.config.createTransport(smtpConfig) : nodemailer.createTransport(smtpConfig);
+  }
+
+  /**
+   * Change the template used for newly generated replies
+   */
+  setReplyTemplate(replyTemplate: string): void {
+    this.config.replyTemplate = replyTemplate;
+  }
+
+  /**
+   * Update the HTML reply template; undefined sends text-only replies
+   */
+  setReplyHtmlTemplate(replyHtmlTemplate: string | undefined): void {
+    this.config.replyHtmlTemplate = replyHtmlTemplate;
+  }
+
+  /**
+   * Enable or disable manual confirmation for newly generated replies
+   */
+  setManualConfirmation(manualConfirmation: boolean): void {
+    this.config.manualConfirmation = manualConfirmation;
+  }
+
+  /**
+   * Choose whether confirmed or rejected replies leave the original email unread
+   */
+  setLeaveUnread(leaveUnread: boolean): void {
+    this.config.leaveUnread = leaveUnread;
+  }
+
+  /**
+   * Replace the post-actions run on the original email after approval or rejection
+   */
+  setPostActions(postActions: PostActionConfig): void {
+    this.config.postActions = postActions;
+  }
+
+  /**
+   * Set the time zone and business hours used when rendering templates
+   */
+  setTemplateOptions(templateOptions: TemplateOptions): void {
+    this.config.templateOptions = templateOptions;
   }
 
   /**
    * Generate a reply for the given email
    */
-  generateReply(email: Email): Reply {
+  generateReply(email: Email, options: ReplyOptions = {}): Reply {
+    const references = buildReferences(email);
+    const requireConfirmation = options.requireConfirmation || this.config.manualConfirmation;
+    const { body, htmlBody, assetIds } = this.renderBodies(email, options);
     const reply: Reply = {
       id: randomUUID(),
       originalEmailId: email.id,
       to: email.from,
-      subject: `Re: ${email.subject}`,
-      body: this.renderTemplate(email),
+      subject: normalizeReplySubject(email.subject),
+      body,
+      ...(htmlBody && { htmlBody }),
+      ...(assetIds.length > 0 && { assetIds }),
       generatedAt: new Date(),
-      status: this.config.manualConfirmation ? 'pending' : 'approved',
+      status: requireConfirmation ? 'pending' : 'approved',
+      ...(email.messageId && { inReplyTo: email.messageId }),
+      ...(references.length > 0 && { references }),
+      originalEmail: {
+        from: email.from,
+        subject: email.subject,
+        receivedAt: email.receivedAt,
+        ...(email.messageId && { messageId: email.messageId }),
+        ...(email.mailbox && { mailbox: email.mailbox }),
+      },
     };
 
     // Save reply to database if callback provided
-    if (this.config.onReplySave) {
+    if (this.config.onReplySave && !this.config.ledger) {
       this.config.onReplySave(reply).catch((err) => {
         console.error('Failed to save reply to database:', err);
       });
@@ -76,24 +202,44 @@ export class AutoResponderImpl implements AutoResponder {
    */
   async sendReply(reply: Reply): Promise<SendResult> {
     try {
-      await this.transporter.sendMail({
+      const { attachments, assets } = await this.loadAttachments(reply);
+      const message = {
         from: this.config.smtpConfig.auth.user,
         to: reply.to,
         subject: reply.subject,
         text: reply.body,
-      });
+        ...(reply.htmlBody && { html: reply.htmlBody }),
+        ...(attachments.length > 0 && { attachments }),
+        headers: AUTO_REPLY_HEADERS,
+        ...(reply.inReplyTo && { inReplyTo: reply.inReplyTo }),
+        ...(reply.references && { references: reply.references }),
+      };
+
+      const send = async () => {
+        const auth = await this.resolveSmtpAuth();
+        await this.transporter.sendMail({ ...message, ...(auth && { auth }) });
+      };
+      try {
+        await send();
+      } catch (error) {
+        // The access token may have been revoked before it expired; send once more with a fresh one
+        const { oauth2 } = this.config.smtpConfig;
+        if (!oauth2 || (error as { code?: string }).code !== 'EAUTH') {
+          throw error;
+        }
+        invalidateAccessToken(oauth2);
+        await send();
+      }
 
       const sentAt = new Date();
       reply.status = 'sent';
       reply.sentAt = sentAt;
-
-      // Update reply in database if callback provided
-      if (this.config.onReplySave) {
-        await this.config.onReplySave(reply).catch((err) => {
-          console.error('Failed to update reply in database:', err);
-        });
+      if (assets.length > 0) {
+        reply.assets = assets;
       }
 
+      await this.updateReply(reply);
+
       // Log successful send
       this.logActivity({
         id: randomUUID(),
@@ -102,7 +248,10 @@ export class AutoResponderImpl implements AutoResponder {
         emailId: reply.originalEmailId,
         replyId: reply.id,
         details: `Reply sent to ${reply.to}`,
-        metadata: { recipient: reply.to },
+        metadata: {
+          recipient: reply.to,
+          ...(assets.length > 0 && { assets: assets.map(asset => asset.filename) }),
+        },
       });
 
       return { success: true, sentAt };
@@ -110,12 +259,7 @@ export class AutoResponderImpl implements AutoResponder {
       reply.status = 'failed';
       const errorMessage = error instanceof Error ? error.message : String(error);
 
-      // Update reply in database if callback provided
-      if (this.config.onReplySave) {
-        await this.config.onReplySave(reply).catch((err) => {
-          console.error('Failed to update reply in database:', err);
-        });
-      }
+      await this.updateReply(reply);
 
       // Log failed send
       this.logActivity({
@@ -141,27 +285,54 @@ export class AutoResponderImpl implements AutoResponder {
   }
 
   /**
-   * Process manual confirmation (approve or reject)
+   * Process manual confirmation (approve or reject), recording who approved it
    */
-  async processConfirmation(replyId: string, approved: boolean): Promise<void> {
-    const reply = this.pendingReplies.get(replyId);
+  async processConfirmation(replyId: string, approved: boolean, decidedBy?: string): Promise<void> {
+    const reply = this.pendingReplies.get(replyId) || await this.loadPendingReply(replyId);
     
     if (!reply) {
       throw new Error(`Reply with id ${replyId} not found in pending queue`);
     }
 
+    let outcome: PostActionOutcome = 'rejected';
+    const { ledger } = this.config;
     if (approved) {
       reply.status = 'approved';
-      await this.sendReply(reply);
+      reply.approvedBy = decidedBy;
+
+      // Noted before sending, so a crash mid-send is not taken for a reply still waiting
+      await ledger?.recordOutcome(reply, 'sending');
+      const result = await this.sendReply(reply);
+      outcome = result.success ? 'replied' : 'send_failed';
+
+      // With a ledger a reply that could not be sent stays queued, to be approved again
+      if (ledger && !result.success) {
+        reply.status = 'pending';
+      }
+      await ledger?.recordOutcome(reply, outcome, result.error);
     } else {
       reply.status = 'rejected';
+
+      // Persist the rejection so the reply leaves the stored queue as well
+      if (ledger) {
+        await ledger.recordOutcome(reply, 'rejected');
+      } else {
+        await this.updateReply(reply);
+      }
     }
 
     // Mark original email as read regardless of approval/rejection
-    await this.config.readTracker.markAsRead(reply.originalEmailId);
+    if (!this.config.leaveUnread) {
+      await this.config.readTracker.markAsRead(reply.originalEmailId, reply.originalEmail?.mailbox);
+    }
+    await this.runPostActions(reply, outcome);
 
-    // Remove from pending queue
-    this.pendingReplies.delete(replyId);
+    // Remove from pending queue unless it is waiting to be sent again
+    if (reply.status !== 'pending') {
+      this.pendingReplies.delete(replyId);
+    } else {
+      this.pendingReplies.set(replyId, reply);
+    }
   }
 
   /**
@@ -172,13 +343,133 @@ export class AutoResponderImpl implements AutoResponder {
   }
 
   /**
-   * Render the reply template with email data
+   * Rebuild the pending queue from persisted replies (e.g. after a restart)
    */
-  private renderTemplate(email: Email): string {
-    return this.config.replyTemplate
-      .replace(/\{sender\}/g, email.from)
-      .replace(/\{subject\}/g, email.subject)
-      .replace(/\{body\}/g, email.body);
+  restorePendingReplies(replies: Reply[]): void {
+    for (const reply of replies) {
+      if (reply.status === 'pending') {
+        this.pendingReplies.set(reply.id, reply);
+      }
+    }
+  }
+
+  /**
+   * Update a reply in the database if a callback is provided and no ledger
+   * stores it instead
+   */
+  private async updateReply(reply: Reply): Promise<void> {
+    if (this.config.onReplySave && !this.config.ledger) {
+      await this.config.onReplySave(reply).catch((err) => {
+        console.error('Failed to update reply in database:', err);
+      });
+    }
+  }
+
+  /**
+   * Look up a pending reply in persistent storage when it is not in memory
+   */
+  private async loadPendingReply(replyId: string): Promise<Reply | null> {
+    if (!this.config.onReplyLoad) {
+      return null;
+    }
+
+    const reply = await this.config.onReplyLoad(replyId);
+    return reply && reply.status === 'pending' ? reply : null;
+  }
+
+  /**
+   * Render the text and optional HTML bodies of a reply
+   */
+  private renderBodies(email: Email, options: ReplyOptions): { body: string; htmlBody?: string; assetIds: string[] } {
+    const custom = options.template !== undefined || options.htmlTemplate !== undefined;
+    const textTemplate = custom ? options.template : this.config.replyTemplate;
+    const htmlTemplate = custom ? options.htmlTemplate : this.config.replyHtmlTemplate;
+    const templateOptions = this.config.templateOptions;
+
+    const htmlBody = htmlTemplate ? renderHtmlTemplate(htmlTemplate, email, templateOptions) : undefined;
+    const body = textTemplate || !htmlBody
+      ? renderTemplate(textTemplate || '', email, templateOptions)
+      : htmlToText(htmlBody);
+
+    // Images referenced as cid:ASSET_ID in the HTML template are sent along
+    const assetIds = [...new Set([...(options.assetIds || []), ...cidReferences(htmlTemplate || '')])];
+
+    return { body, htmlBody, assetIds };
+  }
+
+  /**
+   * Load the reply's assets; assets referenced by cid in the HTML body are
+   * embedded inline, the others attached as files
+   */
+  private async loadAttachments(reply: Reply): Promise<{
+    attachments: NonNullable<nodemailer.SendMailOptions['attachments']>;
+    assets: ReplyAsset[];
+  }> {
+    const attachments: NonNullable<nodemailer.SendMailOptions['attachments']> = [];
+    const assets: ReplyAsset[] = [];
+
+    for (const assetId of reply.assetIds || []) {
+      const loaded = this.config.onAssetLoad ? await this.config.onAssetLoad(assetId) : null;
+      if (!loaded) {
+        throw new Error(`Asset ${assetId} not found`);
+      }
+
+      const { asset, content } = loaded;
+      const inline = Boolean(reply.htmlBody?.includes(`cid:${asset.id}`));
+      attachments.push({
+        filename: asset.filename,
+        content,
+        contentType: asset.contentType,
+        ...(inline && { cid: asset.id }),
+      });
+      assets.push({
+        id: asset.id,
+        filename: asset.filename,
+        contentType: asset.contentType,
+        size: asset.size,
+        inline,
+      });
+    }
+
+    return { attachments, assets };
+  }
+
+  /**
+   * XOAUTH2 credentials with a current access token for the next message,
+   * or undefined to sign in with the transport's password
+   */
+  private async resolveSmtpAuth(): Promise<SMTPConnection.AuthenticationType | undefined> {
+    const { oauth2, auth } = this.config.smtpConfig;
+    if (!oauth2) {
+      return undefined;
+    }
+
+    return { type: 'OAuth2', user: auth.user, accessToken: await getAccessToken(oauth2) };
+  }
+
+  /**
+   * Run the post-actions configured for the outcome on the original email,
+   * logging each one that fails
+   */
+  private async runPostActions(reply: Reply, outcome: PostActionOutcome): Promise<void> {
+    const actions = this.config.postActions?.[outcome] || [];
+    if (actions.length === 0) {
+      return;
+    }
+
+    const mailbox = reply.originalEmail?.mailbox || 'INBOX';
+    const failures = await this.config.readTracker.applyPostActions(reply.originalEmailId, actions, mailbox);
+    for (const failure of failures) {
+      this.logActivity({
+        id: randomUUID(),
+        timestamp: new Date(),
+        type: 'error',
+        emailId: reply.originalEmailId,
+        replyId: reply.id,
+        details: `Post-action ${describePostAction(failure.action)} failed: ${failure.error}`,
+        metadata: { mailbox, outcome, error: failure.error },
+      });
+    }
   }
 
   /**
@@ -190,3 +481,7 @@ export class AutoResponderImpl implements AutoResponder {
     }
   }
 }
+
+function cidReferences(html: string): string[] {
+  return Array.from(html.matchAll(/cid:([\w.-]+)/g), match => match[1]);
+}
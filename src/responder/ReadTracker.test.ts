@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
 import { ReadTrackerImpl, ImapConfig } from './ReadTracker';
+import { ImapSessionManager } from '../imap';
+import { ImapStandIn } from '../monitor/fixtures/ImapStandIn';
 
 /**
  * Mock IMAP implementation for testing
@@ -122,3 +124,53 @@ describe('ReadTracker Property Tests', () => {
     );
   });
 });
+
+describe('ReadTracker post-actions', () => {
+  let server: ImapStandIn;
+  let sessions: ImapSessionManager;
+  let readTracker: ReadTrackerImpl;
+
+  beforeEach(async () => {
+    server = new ImapStandIn();
+    const port = await server.start();
+    const imapConfig: ImapConfig = { user: server.user, password: server.password, host: '127.0.0.1', port, tls: false };
+    sessions = new ImapSessionManager(imapConfig);
+    readTracker = new ReadTrackerImpl(imapConfig, sessions);
+  });
+
+  afterEach(async () => {
+    await sessions.close();
+    await server.stop();
+  });
+
+  it('should flag, copy and finally move the email', async () => {
+    server.addMailbox('Auto-Replied');
+    server.addMailbox('Copies');
+    const uid = String(server.addMessage('From: a@example.com\r\nSubject: Hi\r\n\r\nHello\r\n'));
+
+    const failures = await readTracker.applyPostActions(uid, [
+      { type: 'move', mailbox: 'Auto-Replied' },
+      { type: 'flag', flags: ['\\Flagged'] },
+      { type: 'keyword', keywords: ['$AutoReplied'] },
+      { type: 'copy', mailbox: 'Copies' },
+    ]);
+
+    expect(failures).toEqual([]);
+    expect(server.getMessages()).toHaveLength(0);
+    expect(server.getMessages('Copies')[0].flags).toEqual(expect.arrayContaining(['\\Flagged', '$AutoReplied']));
+    expect(server.getMessages('Auto-Replied')[0].flags).toEqual(expect.arrayContaining(['\\Flagged', '$AutoReplied']));
+  });
+
+  it('should carry on past failed actions and report them', async () => {
+    const uid = String(server.addMessage('From: a@example.com\r\nSubject: Hi\r\n\r\nHello\r\n'));
+
+    const failures = await readTracker.applyPostActions(uid, [
+      { type: 'label', labels: ['Replied'] },
+      { type: 'move', mailbox: 'Missing' },
+      { type: 'flag', flags: ['\\Flagged'] },
+    ]);
+
+    expect(failures.map(failure => failure.action.type)).toEqual(['label', 'move']);
+    expect(server.getMessages()[0].flags).toContain('\\Flagged');
+  });
+});
@@ -1,8 +1,40 @@
-import Imap from 'imap';
+import type Imap from 'imap';
+import { ImapSessionManager } from '../imap';
+import { PostAction } from '../models';
+
+// Gmail extension missing from the imap type definitions
+type GmailConnection = Imap & {
+  addLabels(uids: string[], labels: string[], callback: (err: Error | null) => void): void;
+};
 
 export interface ReadTracker {
-  markAsRead(emailId: string): Promise<void>;
-  isRead(emailId: string): Promise<boolean>;
+  markAsRead(emailId: string, mailbox?: string): Promise<void>;
+  markAllAsRead(emailIds: string[], mailbox?: string): Promise<void>;
+  isRead(emailId: string, mailbox?: string): Promise<boolean>;
+  applyPostActions(emailId: string, actions: PostAction[], mailbox?: string): Promise<PostActionFailure[]>;
+}
+
+export interface PostActionFailure {
+  action: PostAction;
+  error: string;
+}
+
+/**
+ * Short description of a post-action for the activity log
+ */
+export function describePostAction(action: PostAction): string {
+  switch (action.type) {
+    case 'move':
+      return `move to "${action.mailbox}"`;
+    case 'copy':
+      return `copy to "${action.mailbox}"`;
+    case 'flag':
+      return `flag ${action.flags.join(', ')}`;
+    case 'keyword':
+      return `keyword ${action.keywords.join(', ')}`;
+    case 'label':
+      return `label ${action.labels.join(', ')}`;
+  }
 }
 
 export interface ImapConfig {
@@ -14,111 +46,104 @@ export interface ImapConfig {
 }
 
 export class ReadTrackerImpl implements ReadTracker {
-  private imapConfig: ImapConfig;
+  private sessions: ImapSessionManager;
+
+  /**
+   * @param sessions - Connection pool shared with the email monitor; one is
+   * created for this tracker when omitted
+   */
+  constructor(imapConfig: ImapConfig, sessions?: ImapSessionManager) {
+    this.sessions = sessions || new ImapSessionManager(imapConfig);
+  }
 
-  constructor(imapConfig: ImapConfig) {
-    this.imapConfig = imapConfig;
+  /**
+   * Replace the IMAP connection settings used for subsequent operations
+   */
+  updateImapConfig(imapConfig: ImapConfig): void {
+    this.sessions.updateImapConfig(imapConfig);
   }
 
   /**
    * Mark an email as read in the IMAP server
    * @param emailId - The UID of the email to mark as read
+   * @param mailbox - The folder holding the email, defaults to INBOX
    */
-  async markAsRead(emailId: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const imap = new Imap(this.imapConfig);
-
-      imap.once('ready', () => {
-        imap.openBox('INBOX', false, (err: Error | null) => {
-          if (err) {
-            imap.end();
-            reject(new Error(`Failed to open inbox: ${err.message}`));
-            return;
-          }
-
-          // Add the \Seen flag to mark as read
-          imap.addFlags(emailId, '\\Seen', (err: Error | null) => {
-            if (err) {
-              imap.end();
-              reject(new Error(`Failed to mark email as read: ${err.message}`));
-              return;
-            }
-
-            imap.end();
-          });
-        });
-      });
-
-      imap.once('error', (err: Error) => {
-        reject(new Error(`IMAP connection error: ${err.message}`));
-      });
+  async markAsRead(emailId: string, mailbox?: string): Promise<void> {
+    await this.markAllAsRead([emailId], mailbox);
+  }
 
-      imap.once('end', () => {
-        resolve();
-      });
+  /**
+   * Mark several emails as read with a single flag update
+   * @param emailIds - The UIDs of the emails to mark as read
+   * @param mailbox - The folder holding the emails, defaults to INBOX
+   */
+  async markAllAsRead(emailIds: string[], mailbox = 'INBOX'): Promise<void> {
+    try {
+      await this.sessions.addFlags(emailIds, '\\Seen', mailbox);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to mark email as read: ${errorMessage}`);
+    }
+  }
 
+  /**
+   * Apply post-actions to an email one by one, carrying on past failures.
+   * A move runs last, as the email leaves the mailbox with it.
+   * @param emailId - The UID of the email
+   * @param mailbox - The folder holding the email, defaults to INBOX
+   * @returns The actions that failed, with their errors
+   */
+  async applyPostActions(emailId: string, actions: PostAction[], mailbox = 'INBOX'): Promise<PostActionFailure[]> {
+    const ordered = [
+      ...actions.filter(action => action.type !== 'move'),
+      ...actions.filter(action => action.type === 'move'),
+    ];
+    const failures: PostActionFailure[] = [];
+
+    for (const action of ordered) {
       try {
-        imap.connect();
-      } catch (err) {
-        reject(new Error(`Failed to connect to IMAP server: ${err}`));
+        await this.sessions.withMailbox(mailbox, imap => new Promise<void>((resolve, reject) => {
+          const done = (err: Error | null) => (err ? reject(err) : resolve());
+          // The imap client converts UID and flag lists in place, so each call gets its own
+          switch (action.type) {
+            case 'move':
+              imap.move([emailId], action.mailbox, done);
+              break;
+            case 'copy':
+              imap.copy([emailId], action.mailbox, done);
+              break;
+            case 'flag':
+              imap.addFlags([emailId], [...action.flags], done);
+              break;
+            case 'keyword':
+              imap.addKeywords([emailId], [...action.keywords], done);
+              break;
+            case 'label':
+              (imap as GmailConnection).addLabels([emailId], [...action.labels], done);
+              break;
+          }
+        }));
+      } catch (error) {
+        failures.push({ action, error: error instanceof Error ? error.message : String(error) });
       }
-    });
+    }
+
+    return failures;
   }
 
   /**
    * Check if an email is marked as read in the IMAP server
    * @param emailId - The UID of the email to check
+   * @param mailbox - The folder holding the email, defaults to INBOX
    * @returns true if the email is marked as read, false otherwise
    */
-  async isRead(emailId: string): Promise<boolean> {
-    return new Promise((resolve, reject) => {
-      const imap = new Imap(this.imapConfig);
-      let isReadFlag = false;
-
-      imap.once('ready', () => {
-        imap.openBox('INBOX', true, (err: Error | null) => {
-          if (err) {
-            imap.end();
-            reject(new Error(`Failed to open inbox: ${err.message}`));
-            return;
-          }
-
-          // Fetch the flags for the specific email
-          const fetch = imap.fetch(emailId, { bodies: '' });
-
-          fetch.on('message', (msg: any) => {
-            msg.on('attributes', (attrs: any) => {
-              // Check if the \Seen flag is present
-              if (attrs.flags && attrs.flags.includes('\\Seen')) {
-                isReadFlag = true;
-              }
-            });
-          });
-
-          fetch.once('error', (err: Error) => {
-            imap.end();
-            reject(new Error(`Failed to fetch email flags: ${err.message}`));
-          });
-
-          fetch.once('end', () => {
-            imap.end();
-          });
-        });
-      });
-
-      imap.once('error', (err: Error) => {
-        reject(new Error(`IMAP connection error: ${err.message}`));
-      });
-
-      imap.once('end', () => {
-        resolve(isReadFlag);
-      });
-
-      try {
-        imap.connect();
-      } catch (err) {
-        reject(new Error(`Failed to connect to IMAP server: ${err}`));
-      }
-    });
+  async isRead(emailId: string, mailbox = 'INBOX'): Promise<boolean> {
+    try {
+      const flags = await this.sessions.getFlags([emailId], mailbox);
+      return flags.get(emailId)?.includes('\\Seen') ?? false;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to fetch email flags: ${errorMessage}`);
+    }
   }
 }
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  renderTemplate,
+  validateTemplate,
+  computeReplyBy,
+  quoteText,
+  TemplateSyntaxError,
+} from './TemplateEngine';
+import { Email } from '../models';
+
+const email: Email = {
+  id: '1',
+  from: 'jane.doe@example.com',
+  fromName: 'Jane Doe',
+  to: 'support@example.org',
+  subject: 'Double charge',
+  body: 'Hello,\r\n\r\nI was charged twice.',
+  receivedAt: new Date('2026-01-16T16:30:00Z'), // Friday
+  isRead: false,
+};
+
+const businessHours = { start: '09:00', end: '17:00', days: ['mon', 'tue', 'wed', 'thu', 'fri'] };
+
+describe('TemplateEngine', () => {
+  describe('variables', () => {
+    it('should keep supporting the original placeholders', () => {
+      expect(renderTemplate('{sender} / {subject} / {body}', email))
+        .toBe('jane.doe@example.com / Double charge / Hello,\n\nI was charged twice.');
+    });
+
+    it('should insert sender names, recipient and fall back for missing values', () => {
+      const template = 'Hi {sender.firstName|there}, {sender.name} wrote to {recipient}.';
+
+      expect(renderTemplate(template, email)).toBe('Hi Jane, Jane Doe wrote to support@example.org.');
+      expect(renderTemplate(template, { ...email, fromName: undefined })).toBe('Hi there,  wrote to support@example.org.');
+    });
+
+    it('should quote the original body line by line', () => {
+      expect(renderTemplate('{quotedBody}', email)).toBe('> Hello,\n>\n> I was charged twice.');
+      expect(quoteText('a\n\nb')).toBe('> a\n>\n> b');
+    });
+
+    it('should format the received date in the configured time zone', () => {
+      expect(renderTemplate('{receivedAt}', email, { timeZone: 'UTC' }))
+        .toBe('Friday, January 16, 2026 at 16:30 UTC');
+      expect(renderTemplate('{receivedAt}', email, { timeZone: 'Asia/Tokyo' }))
+        .toContain('Saturday, January 17, 2026 at 01:30');
+    });
+
+    it('should not expand template syntax contained in inserted values', () => {
+      const tricky = { ...email, subject: '{sender} {#if body}', body: '{{body}}' };
+
+      expect(renderTemplate('{subject}|{body}', tricky)).toBe('{sender} {#if body}|{{body}}');
+    });
+
+    it('should strip control characters and cut off very long bodies', () => {
+      const long = { ...email, body: `a\u0007b${'x'.repeat(3000)}` };
+      const rendered = renderTemplate('{body}', long);
+
+      expect(rendered.startsWith('abx')).toBe(true);
+      expect(rendered.endsWith('[...]')).toBe(true);
+      expect(rendered.length).toBeLessThan(2100);
+    });
+
+    it('should apply the escape function to inserted values only', () => {
+      const escape = (value: string) => value.replace(/</g, '&lt;');
+
+      expect(renderTemplate('<p>{subject}</p>', { ...email, subject: '<b>hi</b>' }, { escape }))
+        .toBe('<p>&lt;b>hi&lt;/b></p>');
+    });
+  });
+
+  describe('conditional blocks', () => {
+    it('should render if, unless and else branches', () => {
+      const template = '{#if sender.name}Dear {sender.name}{else}Hello{/if}{#unless sender.name}!{/unless}';
+
+      expect(renderTemplate(template, email)).toBe('Dear Jane Doe');
+      expect(renderTemplate(template, { ...email, fromName: '' })).toBe('Hello!');
+    });
+
+    it('should support nested blocks and literal braces', () => {
+      const template = '{#if subject}{#if sender.name}{{ok}{/if}{/if} { not a tag';
+
+      expect(renderTemplate(template, email)).toBe('{ok} { not a tag');
+    });
+  });
+
+  describe('validation', () => {
+    it('should accept valid templates', () => {
+      expect(validateTemplate('Hi {sender.firstName|there},\n{#if body}{quotedBody}{/if}\nReply by {replyBy}.')).toBeNull();
+      expect(validateTemplate('JSON: {"a": 1} and {{literal}')).toBeNull();
+    });
+
+    it('should report the line and column of the problem', () => {
+      const unknown = validateTemplate('Hello,\n  thanks {sendr}!');
+      expect(unknown).toBeInstanceOf(TemplateSyntaxError);
+      expect(unknown).toMatchObject({ line: 2, column: 10, reason: 'Unknown variable "sendr"' });
+      expect(unknown?.message).toBe('Unknown variable "sendr" at line 2, column 10');
+
+      expect(validateTemplate('{#if body}\nno end')).toMatchObject({ line: 1, column: 1, reason: 'Unclosed {#if}' });
+      expect(validateTemplate('a {/if}')).toMatchObject({ line: 1, column: 3 });
+      expect(validateTemplate('{#if body}x{/unless}')?.reason).toBe('{/unless} does not close {#if}');
+      expect(validateTemplate('{#if body}{else}{else}{/if}')?.reason).toBe('Unexpected {else}');
+      expect(validateTemplate('{subject\n}')?.reason).toBe('Unclosed tag');
+      expect(validateTemplate('{subject extra}')?.reason).toBe('Invalid tag {subject extra}');
+    });
+
+    it('should throw when rendering an invalid template', () => {
+      expect(() => renderTemplate('{#if body}', email)).toThrow(TemplateSyntaxError);
+    });
+
+    /**
+     * Text without any "{" renders unchanged, whatever the email contains.
+     */
+    it('should render brace-free text verbatim', () => {
+      fc.assert(
+        fc.property(fc.string().filter(s => !s.includes('{')), (text) => {
+          expect(validateTemplate(text)).toBeNull();
+          expect(renderTemplate(text, email)).toBe(text);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('reply-by dates', () => {
+    it('should add plain hours without business hours', () => {
+      expect(computeReplyBy(email.receivedAt, { replyWithinHours: 4 }))
+        .toEqual(new Date('2026-01-16T20:30:00Z'));
+    });
+
+    it('should only count business hours and skip weekends', () => {
+      // Friday 16:30 with 30 minutes left, then 3.5 hours from Monday 09:00
+      expect(computeReplyBy(email.receivedAt, { replyWithinHours: 4, businessHours, timeZone: 'UTC' }))
+        .toEqual(new Date('2026-01-19T12:30:00Z'));
+
+      // Received before opening time on a workday
+      expect(computeReplyBy(new Date('2026-01-14T06:00:00Z'), { replyWithinHours: 8, businessHours, timeZone: 'UTC' }))
+        .toEqual(new Date('2026-01-14T17:00:00Z'));
+    });
+
+    it('should use the configured time zone for business hours', () => {
+      // 16:30 UTC is 08:30 in Los Angeles, half an hour before opening
+      expect(computeReplyBy(email.receivedAt, { replyWithinHours: 1, businessHours, timeZone: 'America/Los_Angeles' }))
+        .toEqual(new Date('2026-01-16T18:00:00Z'));
+    });
+
+    it('should render the reply-by date', () => {
+      expect(renderTemplate('We will reply by {replyBy}.', email, { replyWithinHours: 4, businessHours, timeZone: 'UTC' }))
+        .toBe('We will reply by Monday, January 19, 2026 at 12:30 UTC.');
+    });
+  });
+});
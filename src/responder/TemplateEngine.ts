@@ -0,0 +1,341 @@
+import { Email, BusinessHours } from '../models';
+import { parseMinutes, zonedTime } from '../filter/ZonedTime';
+
+/**
+ * Variables available to reply templates
+ */
+export const TEMPLATE_VARIABLES = [
+  'sender',
+  'sender.name',
+  'sender.firstName',
+  'sender.email',
+  'recipient',
+  'subject',
+  'body',
+  'quotedBody',
+  'receivedAt',
+  'replyBy',
+] as const;
+
+export const DEFAULT_REPLY_WITHIN_HOURS = 24;
+
+/**
+ * Longest original body inserted into a reply; the rest is cut off
+ */
+const MAX_BODY_LENGTH = 2000;
+
+export interface TemplateOptions {
+  timeZone?: string;
+  businessHours?: BusinessHours;
+  replyWithinHours?: number;
+  // Applied to every inserted value, e.g. HTML escaping; literal template text is left as is
+  escape?: (value: string) => string;
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(`${reason} at line ${line}, column ${column}`);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; fallback?: string }
+  | { type: 'condition'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { type: 'condition' }>;
+  keyword: 'if' | 'unless';
+  index: number;
+  inElse: boolean;
+}
+
+const IDENTIFIER = '[A-Za-z_][\\w.]*';
+const BLOCK_TAG = new RegExp(`^#(if|unless)\\s+(${IDENTIFIER})$`);
+const VARIABLE_TAG = new RegExp(`^(${IDENTIFIER})(?:\\|([^{}]*))?$`);
+
+/**
+ * Parses a template into nodes.
+ *
+ * - {name} inserts a variable, {name|fallback} uses the fallback when it is empty
+ * - {#if name}...{else}...{/if} and {#unless name}...{/unless} are conditional blocks
+ * - {{ is a literal "{"; a "{" not followed by a letter, "#" or "/" is kept as is
+ *
+ * Throws a TemplateSyntaxError pointing at the offending tag.
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: OpenBlock[] = [];
+  let text = '';
+  let i = 0;
+
+  const current = (): TemplateNode[] => {
+    const block = stack[stack.length - 1];
+    if (!block) return root;
+    return block.inElse ? block.node.otherwise : block.node.then;
+  };
+  const flush = () => {
+    if (text) {
+      current().push({ type: 'text', value: text });
+      text = '';
+    }
+  };
+  const fail = (reason: string, index: number): never => {
+    const { line, column } = positionAt(template, index);
+    throw new TemplateSyntaxError(reason, line, column);
+  };
+
+  while (i < template.length) {
+    const char = template[i];
+    const next = template[i + 1];
+
+    if (char !== '{' || next === undefined || !/[A-Za-z_#/{]/.test(next)) {
+      text += char;
+      i++;
+      continue;
+    }
+    if (next === '{') {
+      text += '{';
+      i += 2;
+      continue;
+    }
+
+    const close = template.slice(i + 1).search(/[{}\n]/);
+    if (close === -1 || template[i + 1 + close] !== '}') {
+      fail('Unclosed tag', i);
+    }
+    const content = template.slice(i + 1, i + 1 + close).trim();
+    const tag = `{${content}}`;
+
+    flush();
+
+    const block = BLOCK_TAG.exec(content);
+    if (block) {
+      checkVariable(block[2], i, fail);
+      const node: OpenBlock['node'] = {
+        type: 'condition',
+        name: block[2],
+        negate: block[1] === 'unless',
+        then: [],
+        otherwise: [],
+      };
+      current().push(node);
+      stack.push({ node, keyword: block[1] as OpenBlock['keyword'], index: i, inElse: false });
+    } else if (content === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        fail('Unexpected {else}', i);
+      }
+      open.inElse = true;
+    } else if (content === '/if' || content === '/unless') {
+      const open = stack.pop();
+      if (!open) {
+        fail(`Unexpected ${tag} without a matching opening tag`, i);
+      } else if (`/${open.keyword}` !== content) {
+        fail(`${tag} does not close {#${open.keyword}}`, i);
+      }
+    } else {
+      const variable = VARIABLE_TAG.exec(content);
+      if (!variable) {
+        fail(`Invalid tag ${tag}`, i);
+      } else {
+        checkVariable(variable[1], i, fail);
+        current().push({
+          type: 'variable',
+          name: variable[1],
+          ...(variable[2] !== undefined && { fallback: variable[2] }),
+        });
+      }
+    }
+
+    i += close + 2;
+  }
+
+  flush();
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    fail(`Unclosed {#${unclosed.keyword}}`, unclosed.index);
+  }
+
+  return root;
+}
+
+/**
+ * Returns the first syntax error in a template, or null when it is valid
+ */
+export function validateTemplate(template: string): TemplateSyntaxError | null {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (error) {
+    if (error instanceof TemplateSyntaxError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Render a reply template with email data. Inserted values are inserted once
+ * and never re-interpreted as template syntax.
+ */
+export function renderTemplate(template: string, email: Email, options: TemplateOptions = {}): string {
+  const values = templateValues(email, options);
+  const escape = options.escape || ((value: string) => value);
+
+  const render = (nodes: TemplateNode[]): string => nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable': {
+        const value = values(node.name);
+        return value.trim() ? escape(value) : escape(node.fallback ?? '');
+      }
+      case 'condition': {
+        const isSet = values(node.name).trim().length > 0;
+        return render(isSet !== node.negate ? node.then : node.otherwise);
+      }
+    }
+  }).join('');
+
+  return render(parseTemplate(template));
+}
+
+/**
+ * Render an HTML template; values from the email are HTML-escaped and their
+ * line breaks kept with <br>
+ */
+export function renderHtmlTemplate(template: string, email: Email, options: TemplateOptions = {}): string {
+  return renderTemplate(template, email, {
+    ...options,
+    escape: value => escapeHtml(value).replace(/\n/g, '<br>\n'),
+  });
+}
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * The date by which a reply is promised: replyWithinHours after the email
+ * arrived, counting only business hours when they are configured
+ */
+export function computeReplyBy(receivedAt: Date, options: TemplateOptions = {}): Date {
+  const hours = options.replyWithinHours ?? DEFAULT_REPLY_WITHIN_HOURS;
+  const businessHours = options.businessHours;
+
+  if (!businessHours || businessHours.days.length === 0) {
+    return new Date(receivedAt.getTime() + hours * 60 * 60 * 1000);
+  }
+
+  const open = parseMinutes(businessHours.start);
+  const close = parseMinutes(businessHours.end);
+  const days = businessHours.days.map(day => day.toLowerCase().slice(0, 3));
+  let remaining = Math.round(hours * 60);
+  let current = receivedAt;
+
+  // Jump from opening to closing time day by day; bounded in case of odd settings
+  for (let steps = 0; remaining > 0 && steps < 1000; steps++) {
+    const { minutes, weekday } = zonedTime(current, options.timeZone);
+    const isWorkday = days.includes(weekday);
+
+    let advance: number;
+    if (isWorkday && minutes >= open && minutes < close) {
+      advance = Math.min(remaining, close - minutes);
+      remaining -= advance;
+    } else if (isWorkday && minutes < open) {
+      advance = open - minutes;
+    } else {
+      advance = 24 * 60 - minutes + open;
+    }
+
+    current = new Date(current.getTime() + advance * 60 * 1000);
+  }
+
+  return current;
+}
+
+/**
+ * Formats a date for a reply, e.g. "Thursday, January 15, 2026 at 09:30 UTC"
+ */
+export function formatReplyDate(date: Date, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).format(date);
+}
+
+/**
+ * Prefixes every line with "> " as mail clients do for quoted text
+ */
+export function quoteText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+function templateValues(email: Email, options: TemplateOptions): (name: string) => string {
+  const body = () => limitLength(sanitize(email.body));
+  const name = sanitize(email.fromName || '').trim();
+
+  const resolvers: Record<string, () => string> = {
+    'sender': () => email.from,
+    'sender.email': () => email.from,
+    'sender.name': () => name,
+    'sender.firstName': () => name.split(/\s+/)[0] || '',
+    'recipient': () => email.to,
+    'subject': () => sanitize(email.subject).replace(/\n/g, ' '),
+    'body': body,
+    'quotedBody': () => quoteText(body()),
+    'receivedAt': () => formatReplyDate(email.receivedAt, options.timeZone),
+    'replyBy': () => formatReplyDate(computeReplyBy(email.receivedAt, options), options.timeZone),
+  };
+
+  return (variable: string) => resolvers[variable]?.() ?? '';
+}
+
+/**
+ * Normalizes line endings and drops control characters from untrusted text
+ */
+function sanitize(value: string): string {
+  return value
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '');
+}
+
+function limitLength(value: string): string {
+  return value.length > MAX_BODY_LENGTH ? `${value.slice(0, MAX_BODY_LENGTH).trimEnd()}\n[...]` : value;
+}
+
+function checkVariable(name: string, index: number, fail: (reason: string, index: number) => never): void {
+  if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+    fail(`Unknown variable "${name}"`, index);
+  }
+}
+
+function positionAt(text: string, index: number): { line: number; column: number } {
+  const before = text.slice(0, index).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { TemplateSelector } from './Templates';
+import { Template } from '../models';
+
+function createTemplate(id: string, overrides: Partial<Template> = {}): Template {
+  return {
+    id,
+    name: `Template ${id}`,
+    body: `Body ${id}`,
+    keywords: [],
+    isDefault: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('TemplateSelector', () => {
+  const billing = createTemplate('billing', { keywords: ['Invoice', 'refund'] });
+  const outage = createTemplate('outage', { keywords: ['down'] });
+  const fallback = createTemplate('fallback', { isDefault: true });
+  const selector = new TemplateSelector([billing, outage, fallback]);
+
+  it('should prefer the template referenced by the matched rule', () => {
+    const decision = {
+      approved: true,
+      reason: 'rule',
+      matchedKeywords: ['invoice'],
+      action: { type: 'reply' as const, templateId: 'outage' },
+    };
+
+    expect(selector.select(decision)?.id).toBe('outage');
+  });
+
+  it('should use the mailbox template when the rule names none', () => {
+    const decision = { approved: true, reason: 'keywords', matchedKeywords: ['invoice'] };
+
+    expect(selector.select(decision, 'outage')?.id).toBe('outage');
+    expect(selector.select({ ...decision, action: { type: 'reply' as const, templateId: 'fallback' } }, 'outage')?.id).toBe('fallback');
+    expect(selector.select(decision, 'deleted')?.id).toBe('billing');
+  });
+
+  it('should select by matched keyword case-insensitively', () => {
+    expect(selector.select({ approved: true, reason: 'keywords', matchedKeywords: ['invoice'] })?.id).toBe('billing');
+    expect(selector.select({ approved: true, reason: 'keywords', matchedKeywords: ['down'] })?.id).toBe('outage');
+  });
+
+  it('should fall back to the default template, then to none', () => {
+    expect(selector.select({ approved: true, reason: 'keywords', matchedKeywords: ['sales'] })?.id).toBe('fallback');
+    expect(selector.select({
+      approved: true,
+      reason: 'rule',
+      action: { type: 'reply', templateId: 'deleted' },
+    })?.id).toBe('fallback');
+
+    const withoutDefault = new TemplateSelector([billing]);
+    expect(withoutDefault.select({ approved: true, reason: 'disabled' })).toBeNull();
+
+    withoutDefault.updateTemplates([]);
+    expect(withoutDefault.select({ approved: true, reason: 'keywords', matchedKeywords: ['invoice'] })).toBeNull();
+  });
+});
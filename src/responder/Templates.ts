@@ -0,0 +1,62 @@
+import { Email, Template } from '../models';
+import { FilterDecision } from '../filter';
+
+/**
+ * Email used to preview templates in the dashboard
+ */
+export const SAMPLE_EMAIL: Email = {
+  id: 'sample',
+  from: 'jane.doe@example.com',
+  fromName: 'Jane Doe',
+  to: 'support@example.org',
+  subject: 'Question about my invoice',
+  body: 'Hello,\n\nI was charged twice for my last order. Could you take a look?\n\nThanks,\nJane',
+  receivedAt: new Date('2026-01-15T09:30:00Z'),
+  isRead: false,
+};
+
+/**
+ * Picks the stored template for a filter outcome: the template named by the
+ * matched rule, then the template of the email's mailbox, then the first
+ * template listing a matched keyword, then the default template. Returns null
+ * when the configured reply template applies.
+ */
+export class TemplateSelector {
+  private templates: Template[];
+
+  constructor(templates: Template[] = []) {
+    this.templates = [...templates];
+  }
+
+  /**
+   * Replaces the template set
+   */
+  updateTemplates(templates: Template[]): void {
+    this.templates = [...templates];
+  }
+
+  getTemplates(): Template[] {
+    return [...this.templates];
+  }
+
+  select(decision: FilterDecision, mailboxTemplateId?: string): Template | null {
+    for (const templateId of [decision.action?.templateId, mailboxTemplateId]) {
+      const template = templateId && this.templates.find(t => t.id === templateId);
+      if (template) {
+        return template;
+      }
+    }
+
+    const matchedKeywords = (decision.matchedKeywords || []).map(k => k.toLowerCase());
+    if (matchedKeywords.length > 0) {
+      const keywordTemplate = this.templates.find(t =>
+        t.keywords.some(keyword => matchedKeywords.includes(keyword.toLowerCase()))
+      );
+      if (keywordTemplate) {
+        return keywordTemplate;
+      }
+    }
+
+    return this.templates.find(t => t.isDefault) || null;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { normalizeReplySubject, stripReplyPrefixes, buildReferences } from './Threading';
+import { Email } from '../models';
+
+const baseEmail: Email = {
+  id: '1',
+  from: 'sender@example.com',
+  to: 'support@example.org',
+  subject: 'Invoice question',
+  body: 'Hello',
+  receivedAt: new Date(),
+  isRead: false,
+};
+
+describe('Threading', () => {
+  describe('normalizeReplySubject', () => {
+    it('should not stack reply prefixes', () => {
+      expect(normalizeReplySubject('Hello')).toBe('Re: Hello');
+      expect(normalizeReplySubject('Re: Hello')).toBe('Re: Hello');
+      expect(normalizeReplySubject('RE: re: Re: Hello')).toBe('Re: Hello');
+      expect(normalizeReplySubject('Re[2]: Re(3): Hello')).toBe('Re: Hello');
+    });
+
+    it('should strip localized reply prefixes', () => {
+      expect(normalizeReplySubject('AW: Rechnung')).toBe('Re: Rechnung');
+      expect(normalizeReplySubject('SV: VS: Faktura')).toBe('Re: Faktura');
+      expect(normalizeReplySubject('Réf : Facture')).toBe('Re: Facture');
+      expect(normalizeReplySubject('Antw: Re: AW: Factuur')).toBe('Re: Factuur');
+      expect(normalizeReplySubject('回复：发票')).toBe('Re: 发票');
+    });
+
+    it('should leave subjects that only look like prefixes alone', () => {
+      expect(normalizeReplySubject('Record: 42')).toBe('Re: Record: 42');
+      expect(normalizeReplySubject('Fwd: Hello')).toBe('Re: Fwd: Hello');
+    });
+
+    it('should keep markers that are not reply prefixes', () => {
+      expect(normalizeReplySubject('Ref: Invoice 42')).toBe('Re: Ref: Invoice 42');
+      expect(normalizeReplySubject('Re: Ref: Invoice 42')).toBe('Re: Ref: Invoice 42');
+      expect(normalizeReplySubject('FYI: Outage')).toBe('Re: FYI: Outage');
+    });
+
+    /**
+     * For any subject, replying to a reply should produce the same subject
+     * as replying to the original message.
+     */
+    it('should be idempotent for any subject', () => {
+      fc.assert(
+        fc.property(fc.string({ maxLength: 80 }), (subject) => {
+          const once = normalizeReplySubject(subject);
+          const twice = normalizeReplySubject(once);
+
+          expect(twice).toBe(once);
+          expect(stripReplyPrefixes(once)).toBe(stripReplyPrefixes(subject));
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('buildReferences', () => {
+    it('should append the Message-ID to existing References', () => {
+      const references = buildReferences({
+        ...baseEmail,
+        messageId: '<c@example.com>',
+        inReplyTo: '<b@example.com>',
+        references: ['<a@example.com>', '<b@example.com>'],
+      });
+
+      expect(references).toEqual(['<a@example.com>', '<b@example.com>', '<c@example.com>']);
+    });
+
+    it('should fall back to In-Reply-To when References is missing', () => {
+      const references = buildReferences({
+        ...baseEmail,
+        messageId: '<c@example.com>',
+        inReplyTo: '<b@example.com>',
+      });
+
+      expect(references).toEqual(['<b@example.com>', '<c@example.com>']);
+    });
+
+    it('should return an empty chain without any message identifiers', () => {
+      expect(buildReferences(baseEmail)).toEqual([]);
+    });
+
+    it('should keep the thread root when trimming long chains', () => {
+      const ancestors = Array.from({ length: 30 }, (_, i) => `<m${i}@example.com>`);
+      const references = buildReferences({
+        ...baseEmail,
+        messageId: '<latest@example.com>',
+        references: ancestors,
+      });
+
+      expect(references).toHaveLength(20);
+      expect(references[0]).toBe('<m0@example.com>');
+      expect(references[references.length - 1]).toBe('<latest@example.com>');
+    });
+  });
+});
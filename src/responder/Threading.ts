@@ -0,0 +1,65 @@
+import { Email } from '../models';
+
+/**
+ * Reply prefixes used by common mail clients, including localized forms
+ * (German "AW", Scandinavian "SV"/"VS", French "Réf", Dutch "Antw", etc.)
+ */
+const REPLY_PREFIXES = [
+  're', 'aw', 'sv', 'vs', 'antw', 'réf', 'rif', 'odp', 'ynt', 'atb', 'vá', 'r',
+  'απ', 'на', '回复', '答复', '回覆',
+];
+
+const REPLY_PREFIX_PATTERN = new RegExp(
+  `^\\s*(?:${REPLY_PREFIXES.join('|')})\\s*(?:\\[\\d+\\]|\\(\\d+\\))?\\s*[:：]\\s*`,
+  'iu'
+);
+
+/**
+ * Maximum number of Message-IDs carried in an outgoing References header
+ */
+const MAX_REFERENCES = 20;
+
+/**
+ * Strips any stacked reply prefixes (e.g. "Re: AW: Re[2]: Hello" -> "Hello")
+ */
+export function stripReplyPrefixes(subject: string): string {
+  let stripped = subject.trim();
+  let previous: string;
+
+  do {
+    previous = stripped;
+    stripped = stripped.replace(REPLY_PREFIX_PATTERN, '');
+  } while (stripped !== previous);
+
+  return stripped;
+}
+
+/**
+ * Builds the subject for a reply with exactly one "Re:" prefix
+ */
+export function normalizeReplySubject(subject: string): string {
+  return `Re: ${stripReplyPrefixes(subject)}`;
+}
+
+/**
+ * Builds the References chain for a reply to the given email (RFC 5322 section 3.6.4):
+ * the parent's References (or In-Reply-To) followed by the parent's Message-ID
+ */
+export function buildReferences(email: Email): string[] {
+  const chain = email.references && email.references.length > 0
+    ? [...email.references]
+    : email.inReplyTo ? [email.inReplyTo] : [];
+
+  if (email.messageId) {
+    chain.push(email.messageId);
+  }
+
+  const unique = chain.filter((id, index) => chain.indexOf(id) === index);
+
+  // Keep the thread root and the most recent ancestors when the chain gets long
+  if (unique.length > MAX_REFERENCES) {
+    return [unique[0], ...unique.slice(unique.length - (MAX_REFERENCES - 1))];
+  }
+
+  return unique;
+}
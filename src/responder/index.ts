@@ -1,3 +1,6 @@
 // Auto-response components
 export * from './AutoResponder';
 export * from './ReadTracker';
+export * from './Threading';
+export * from './Templates';
+export * from './TemplateEngine';
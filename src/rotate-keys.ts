@@ -0,0 +1,37 @@
+/**
+ * Key rotation command
+ *
+ * Re-encrypts every stored secret under the current ENCRYPTION_KEY. Run it
+ * after moving the old key to PREVIOUS_ENCRYPTION_KEYS; once it completes
+ * the old key can be removed.
+ */
+
+import { Database, runMigrations, AccountRepository } from './database';
+import { ConfigurationManagerImpl, getEnvConfig, createKeyRing } from './config';
+
+async function main(): Promise<void> {
+  const envConfig = getEnvConfig();
+  const keys = createKeyRing(envConfig);
+  console.log(`Re-encrypting stored secrets under key ${keys.currentKeyId}`);
+
+  const db = Database.getInstance();
+  await db.connect(envConfig.databasePath);
+  await runMigrations(db, { keys, configDatabasePath: envConfig.configDatabasePath });
+
+  try {
+    const configRows = await new ConfigurationManagerImpl(db, keys).reencrypt();
+    console.log(`✓ Configuration: ${configRows} record(s) re-encrypted`);
+
+    const accounts = await new AccountRepository(db, keys).reencrypt();
+    console.log(`✓ Accounts: ${accounts} record(s) re-encrypted`);
+
+    console.log('Key rotation complete. Previous keys are no longer needed.');
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Key rotation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KeyRing, SecretDecryptionError, isJsonDocument, isPrintableText, loadSalt } from './KeyRing';
+import { ConfigurationManagerImpl } from '../config/ConfigurationManager';
+import { Database } from '../database/connection';
+import { AccountRepository } from '../database/AccountRepository';
+import { runMigrations } from '../database/migrations';
+
+const salt = Buffer.alloc(16, 1);
+
+// A value as written before key ids: AES-256-CBC under scrypt(key, 'salt')
+function legacyEncrypt(passphrase: string, plaintext: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', crypto.scryptSync(passphrase, 'salt', 32), iv);
+  return `${iv.toString('hex')}:${cipher.update(plaintext, 'utf8', 'hex')}${cipher.final('hex')}`;
+}
+
+describe('KeyRing', () => {
+  const keys = new KeyRing(['current-key'], salt);
+
+  it('should round-trip any text under the current key id', () => {
+    fc.assert(
+      fc.property(fc.string(), (plaintext) => {
+        const ciphertext = keys.encrypt(plaintext);
+        expect(ciphertext.startsWith(`v2:${keys.currentKeyId}:`)).toBe(true);
+        expect(keys.decrypt(ciphertext)).toBe(plaintext);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should reject a tampered ciphertext', () => {
+    const parts = keys.encrypt('app-password').split(':');
+    parts[4] = (parts[4][0] === '0' ? '1' : '0') + parts[4].slice(1);
+
+    expect(() => keys.decrypt(parts.join(':'))).toThrow(SecretDecryptionError);
+  });
+
+  it('should derive different keys for different salts', () => {
+    const other = new KeyRing(['current-key'], Buffer.alloc(16, 2));
+
+    expect(other.currentKeyId).not.toBe(keys.currentKeyId);
+    expect(() => other.decrypt(keys.encrypt('app-password'))).toThrow('No configured encryption key has id');
+  });
+
+  it('should decrypt under a previous key and re-encrypt under the current one', () => {
+    const old = new KeyRing(['old-key'], salt);
+    const rotated = new KeyRing(['new-key', 'old-key'], salt);
+    const ciphertext = old.encrypt('app-password');
+
+    expect(rotated.keyIds).toEqual([rotated.currentKeyId, old.currentKeyId]);
+    expect(rotated.decrypt(ciphertext)).toBe('app-password');
+    expect(rotated.isCurrent(ciphertext)).toBe(false);
+
+    const reencrypted = rotated.reencrypt(ciphertext);
+    expect(rotated.isCurrent(reencrypted)).toBe(true);
+    expect(new KeyRing(['new-key'], salt).decrypt(reencrypted)).toBe('app-password');
+  });
+
+  it('should decrypt values written in the old format under any configured key', () => {
+    const rotated = new KeyRing(['new-key', 'old-key'], salt);
+
+    expect(rotated.decrypt(legacyEncrypt('old-key', 'app-password'))).toBe('app-password');
+    expect(rotated.isCurrent(legacyEncrypt('new-key', 'app-password'))).toBe(false);
+  });
+
+  it('should skip a key that only happens to yield valid padding for an old value', () => {
+    const oldKey = crypto.scryptSync('old-key', 'salt', 32);
+    const wrongKeys = [crypto.scryptSync('new-key', 'salt', 32), Buffer.from('new-key'.padEnd(32, '0'))];
+    const document = JSON.stringify({ email: { password: 'app-password' } });
+
+    // Find a value under the old key that one of the new key's derivations also "decrypts"
+    let ciphertext = '';
+    while (!ciphertext) {
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv('aes-256-cbc', oldKey, iv);
+      const data = Buffer.concat([cipher.update(document, 'utf8'), cipher.final()]);
+      const collides = wrongKeys.some(key => {
+        try {
+          const decipher = crypto.createDecipheriv('aes-256-cbc', key, iv);
+          Buffer.concat([decipher.update(data), decipher.final()]);
+          return true;
+        } catch {
+          return false;
+        }
+      });
+      if (collides) {
+        ciphertext = `${iv.toString('hex')}:${data.toString('hex')}`;
+      }
+    }
+
+    expect(new KeyRing(['new-key', 'old-key'], salt).decrypt(ciphertext, isJsonDocument)).toBe(document);
+  });
+
+  it('should accept passwords and reject control characters as printable text', () => {
+    expect(isPrintableText('app-pässword with spaces')).toBe(true);
+    expect(isPrintableText('')).toBe(true);
+    expect(isPrintableText('app\u0007password')).toBe(false);
+    expect(isPrintableText('app\npassword')).toBe(false);
+  });
+});
+
+describe('loadSalt', () => {
+  let dir: string;
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create the salt once and reuse it', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'salt-'));
+    const saltPath = path.join(dir, 'nested', 'encryption.salt');
+
+    const created = loadSalt(saltPath);
+
+    expect(created).toHaveLength(16);
+    expect(loadSalt(saltPath).equals(created)).toBe(true);
+    if (process.platform !== 'win32') {
+      expect(fs.statSync(saltPath).mode & 0o777).toBe(0o600);
+    }
+  });
+});
+
+describe('Key rotation', () => {
+  const testDbPath = `./test-rotation-${Date.now()}.db`;
+  const oldKeys = new KeyRing(['old-key'], salt);
+  const rotated = new KeyRing(['new-key', 'old-key'], salt);
+
+  afterEach(() => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('should re-encrypt the configuration and its history', async () => {
+    const db = Database.getInstance();
+    await db.connect(testDbPath);
+    await runMigrations(db);
+
+    try {
+      const before = new ConfigurationManagerImpl(db, oldKeys);
+      const config = await before.getConfig();
+      await before.updateConfig({ email: { ...config.email, password: 'app-password' } });
+
+      const manager = new ConfigurationManagerImpl(db, rotated);
+      expect(await manager.reencrypt()).toBe(3);
+      expect(await manager.reencrypt()).toBe(0);
+
+      const after = new ConfigurationManagerImpl(db, new KeyRing(['new-key'], salt));
+      expect((await after.getConfig()).email.password).toBe('app-password');
+      expect(await after.getHistory()).toHaveLength(2);
+    } finally {
+      await db.close();
+    }
+  });
+
+  it('should re-encrypt account credentials', async () => {
+    const db = Database.getInstance();
+    await db.connect(testDbPath);
+    await runMigrations(db);
+
+    try {
+      const account = {
+        id: 'sales',
+        name: 'Sales',
+        email: { imapHost: 'imap.example.com', imapPort: 993, smtpHost: 'smtp.example.com', smtpPort: 587, username: 'sales', password: 'sales-secret' },
+        filters: { keywordsEnabled: false, keywords: [], excludedDomains: [] },
+        autoReply: { manualConfirmation: false, replyTemplate: 'Thanks', checkInterval: 60 },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+      await new AccountRepository(db, oldKeys).create(account);
+
+      expect(await new AccountRepository(db, rotated).reencrypt()).toBe(1);
+      expect((await new AccountRepository(db, new KeyRing(['new-key'], salt)).getById('sales'))!.email.password).toBe('sales-secret');
+    } finally {
+      await db.close();
+    }
+  });
+});
@@ -0,0 +1,184 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDecoder } from 'util';
+
+const ALGORITHM = 'aes-256-gcm';
+const LEGACY_ALGORITHM = 'aes-256-cbc';
+const LEGACY_SALT = 'salt'; // The constant salt of ciphertexts written before key ids
+const FORMAT = 'v2';
+const UTF8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Raised when a stored secret cannot be decrypted, e.g. because its key is
+ * no longer configured or the ciphertext was tampered with
+ */
+export class SecretDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretDecryptionError';
+  }
+}
+
+/**
+ * Accepts or rejects a plaintext decrypted from the old format. Those
+ * values carry no authentication tag, and a wrong key still yields valid
+ * padding about once in 256 tries, so a caller that knows the shape of its
+ * value should check it.
+ */
+export type PlaintextCheck = (plaintext: string) => boolean;
+
+/**
+ * Check for values that hold a JSON document, such as the configuration
+ */
+export function isJsonDocument(plaintext: string): boolean {
+  try {
+    const value = JSON.parse(plaintext);
+    return typeof value === 'object' && value !== null;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check for values that hold a line of text, such as a password
+ */
+export function isPrintableText(plaintext: string): boolean {
+  return !/\p{Cc}/u.test(plaintext);
+}
+
+interface Key {
+  id: string;
+  key: Buffer;
+  passphrase: string;
+  legacyKeys?: Buffer[]; // Derived on first use, only for ciphertexts in the old format
+}
+
+/**
+ * Encrypts stored secrets with AES-256-GCM under the current key and
+ * decrypts them under any configured key. Each ciphertext names the id of
+ * its key ("v2:<key id>:<iv>:<tag>:<data>"), so earlier keys can stay
+ * configured after a rotation until everything has been re-encrypted.
+ * Keys are derived from passphrases with scrypt and a per-install salt;
+ * a key id is a fingerprint of the derived key.
+ */
+export class KeyRing {
+  private keys: Key[];
+
+  /**
+   * @param passphrases the current passphrase first, then earlier ones
+   */
+  constructor(passphrases: string[], salt: Buffer) {
+    if (passphrases.length === 0) {
+      throw new Error('A key ring needs at least one passphrase');
+    }
+
+    this.keys = passphrases.map(passphrase => {
+      const key = crypto.scryptSync(passphrase, salt, 32);
+      const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+      return { id, key, passphrase };
+    });
+  }
+
+  get currentKeyId(): string {
+    return this.keys[0].id;
+  }
+
+  get keyIds(): string[] {
+    return this.keys.map(key => key.id);
+  }
+
+  encrypt(plaintext: string): string {
+    const { id, key } = this.keys[0];
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [FORMAT, id, iv.toString('hex'), tag.toString('hex'), data.toString('hex')].join(':');
+  }
+
+  /**
+   * @param check applied to values in the old format, which are otherwise
+   * only required to be valid UTF-8
+   */
+  decrypt(ciphertext: string, check?: PlaintextCheck): string {
+    const parts = ciphertext.split(':');
+    if (parts.length === 2) {
+      return this.decryptLegacy(parts[0], parts[1], check);
+    }
+
+    const [format, keyId, iv, tag, data] = parts;
+    if (format !== FORMAT || parts.length !== 5) {
+      throw new SecretDecryptionError('Unrecognised ciphertext format');
+    }
+
+    const key = this.keys.find(candidate => candidate.id === keyId);
+    if (!key) {
+      throw new SecretDecryptionError(
+        `No configured encryption key has id ${keyId}; add the key it was written with to PREVIOUS_ENCRYPTION_KEYS`
+      );
+    }
+
+    try {
+      const decipher = crypto.createDecipheriv(ALGORITHM, key.key, Buffer.from(iv, 'hex'));
+      decipher.setAuthTag(Buffer.from(tag, 'hex'));
+      return Buffer.concat([decipher.update(Buffer.from(data, 'hex')), decipher.final()]).toString('utf8');
+    } catch {
+      throw new SecretDecryptionError(`Ciphertext under key ${keyId} failed authentication`);
+    }
+  }
+
+  /**
+   * Checks if a ciphertext is already encrypted under the current key
+   */
+  isCurrent(ciphertext: string): boolean {
+    return ciphertext.startsWith(`${FORMAT}:${this.currentKeyId}:`);
+  }
+
+  /**
+   * Decrypt under whichever key applies and encrypt under the current key
+   */
+  reencrypt(ciphertext: string, check?: PlaintextCheck): string {
+    return this.encrypt(this.decrypt(ciphertext, check));
+  }
+
+  // Ciphertexts from before key ids carry no authentication tag, so each key is tried in turn
+  // until one yields a plausible plaintext. The first configuration store used the passphrase
+  // padded to 32 bytes instead of scrypt.
+  private decryptLegacy(iv: string, data: string, check?: PlaintextCheck): string {
+    for (const key of this.keys) {
+      key.legacyKeys = key.legacyKeys || [
+        crypto.scryptSync(key.passphrase, LEGACY_SALT, 32),
+        Buffer.from(key.passphrase.padEnd(32, '0').slice(0, 32)),
+      ];
+      for (const legacyKey of key.legacyKeys) {
+        try {
+          const decipher = crypto.createDecipheriv(LEGACY_ALGORITHM, legacyKey, Buffer.from(iv, 'hex'));
+          const plaintext = UTF8.decode(Buffer.concat([decipher.update(Buffer.from(data, 'hex')), decipher.final()]));
+          if (!check || check(plaintext)) {
+            return plaintext;
+          }
+        } catch {
+          // Wrong key; try the next one
+        }
+      }
+    }
+    throw new SecretDecryptionError('No configured encryption key decrypts this value');
+  }
+}
+
+/**
+ * The random salt of this install, created on first use. Losing it makes
+ * every stored secret undecryptable, so it belongs in backups with the
+ * databases.
+ */
+export function loadSalt(saltPath: string): Buffer {
+  if (fs.existsSync(saltPath)) {
+    return Buffer.from(fs.readFileSync(saltPath, 'utf8').trim(), 'hex');
+  }
+
+  const salt = crypto.randomBytes(16);
+  fs.mkdirSync(path.dirname(saltPath), { recursive: true });
+  fs.writeFileSync(saltPath, salt.toString('hex') + '\n', { mode: 0o600, flag: 'wx' });
+  return salt;
+}
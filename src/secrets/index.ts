@@ -0,0 +1,2 @@
+// Encryption of stored secrets and key rotation
+export * from './KeyRing';